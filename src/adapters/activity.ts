@@ -0,0 +1,175 @@
+/**
+ * Summarize agent log events (Claude stream-json, Codex JSONL) as one-line progress updates
+ */
+
+import path from "path";
+
+import { isRecord } from "../utils/types";
+
+export type AgentActivityKind = "tool" | "message" | "reasoning";
+
+export type AgentActivity = {
+  kind: AgentActivityKind;
+  summary: string;
+};
+
+const MAX_SUMMARY_LENGTH = 120;
+
+function truncate(text: string): string {
+  const line =
+    text
+      .split("\n")
+      .map((part) => part.trim())
+      .find((part) => part.length > 0) ?? "";
+  return line.length > MAX_SUMMARY_LENGTH ? `${line.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : line;
+}
+
+function displayPath(value: unknown, root?: string): string {
+  if (typeof value !== "string") {
+    return "";
+  }
+  if (root && path.isAbsolute(value)) {
+    const relative = path.relative(root, value);
+    if (relative && !relative.startsWith("..") && !path.isAbsolute(relative)) {
+      return relative;
+    }
+  }
+  return value;
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function summarizeClaudeTool(name: string, input: Record<string, unknown>, root?: string): string {
+  switch (name) {
+    case "Read":
+      return `Reading ${displayPath(input.file_path, root)}`;
+    case "Write":
+      return `Writing ${displayPath(input.file_path, root)}`;
+    case "Edit":
+    case "MultiEdit":
+      return `Editing ${displayPath(input.file_path, root)}`;
+    case "NotebookEdit":
+      return `Editing ${displayPath(input.notebook_path, root)}`;
+    case "Grep":
+    case "Glob": {
+      const where = input.path ? ` in ${displayPath(input.path, root)}` : "";
+      return `${name} '${text(input.pattern)}'${where}`;
+    }
+    case "LS":
+      return `Listing ${displayPath(input.path, root)}`;
+    case "Bash":
+      return `Running ${text(input.command)}`;
+    case "WebFetch":
+      return `Fetching ${text(input.url)}`;
+    case "WebSearch":
+      return `Searching '${text(input.query)}'`;
+    case "Task":
+      return `Task: ${text(input.description)}`;
+    case "TodoWrite":
+      return "Updating todos";
+    default:
+      return name;
+  }
+}
+
+function parseClaudeEvent(event: Record<string, unknown>, root?: string): AgentActivity[] {
+  if (event.type !== "assistant" || !isRecord(event.message)) {
+    return [];
+  }
+  const content = event.message.content;
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  const activities: AgentActivity[] = [];
+  for (const block of content) {
+    if (!isRecord(block)) {
+      continue;
+    }
+    if (block.type === "tool_use" && typeof block.name === "string") {
+      const input = isRecord(block.input) ? block.input : {};
+      activities.push({
+        kind: "tool",
+        summary: truncate(summarizeClaudeTool(block.name, input, root)),
+      });
+    } else if (block.type === "text" && truncate(text(block.text))) {
+      activities.push({ kind: "message", summary: truncate(text(block.text)) });
+    } else if (block.type === "thinking" && truncate(text(block.thinking))) {
+      activities.push({ kind: "reasoning", summary: truncate(text(block.thinking)) });
+    }
+  }
+  return activities;
+}
+
+function parseCodexEvent(event: Record<string, unknown>, root?: string): AgentActivity[] {
+  if (event.type === "item.message" && event.role === "assistant") {
+    const summary = truncate(text(event.content));
+    return summary ? [{ kind: "message", summary }] : [];
+  }
+  if (!isRecord(event.item)) {
+    return [];
+  }
+  const item = event.item;
+  // Commands and tool calls are reported when they start, everything else once it completes
+  if (event.type === "item.started") {
+    switch (item.type) {
+      case "command_execution":
+        return [{ kind: "tool", summary: truncate(`Running ${text(item.command)}`) }];
+      case "mcp_tool_call":
+        return [{ kind: "tool", summary: truncate(`${text(item.server)}.${text(item.tool)}`) }];
+      case "web_search":
+        return [{ kind: "tool", summary: truncate(`Searching '${text(item.query)}'`) }];
+      default:
+        return [];
+    }
+  }
+  if (event.type !== "item.completed") {
+    return [];
+  }
+  switch (item.type) {
+    case "file_change": {
+      const changes = Array.isArray(item.changes) ? item.changes : [];
+      const files = changes
+        .filter(isRecord)
+        .map((change) => displayPath(change.path, root))
+        .filter(Boolean);
+      return files.length > 0
+        ? [{ kind: "tool", summary: truncate(`Editing ${files.join(", ")}`) }]
+        : [];
+    }
+    case "agent_message": {
+      const summary = truncate(text(item.text));
+      return summary ? [{ kind: "message", summary }] : [];
+    }
+    case "reasoning": {
+      const summary = truncate(text(item.text).replaceAll("**", ""));
+      return summary ? [{ kind: "reasoning", summary }] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Progress updates for one line of an agent log. Paths under root are shown relative to it.
+ */
+export function parseActivityLine(line: string, root?: string): AgentActivity[] {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return [];
+  }
+  let event: unknown;
+  try {
+    event = JSON.parse(trimmed);
+  } catch {
+    return [];
+  }
+  if (!isRecord(event) || typeof event.type !== "string") {
+    return [];
+  }
+  if (event.type === "assistant") {
+    return parseClaudeEvent(event, root);
+  }
+  return parseCodexEvent(event, root);
+}
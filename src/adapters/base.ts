@@ -1,5 +1,6 @@
-import type { AgentConfig, AgentStatus } from "../models";
+import type { AgentConfig, AgentStatus, AgentUsage, RunStage } from "../models";
 import { AgentStatus as AgentStatusEnum } from "../models";
+import { killOnAbort } from "../utils/process";
 
 export class AgentHandle {
   agentId: string;
@@ -49,6 +50,13 @@ export abstract class AgentAdapter {
     logFile: string;
     sessionFile?: string;
     appendLog?: boolean;
+    signal?: AbortSignal;
+    onSpawn?: (pid: number) => void;
+    /** Called with the token usage the agent reported, when its output includes it */
+    onUsage?: (usage: AgentUsage) => void;
+    /** Which pipeline step and turn this run belongs to; only scripted adapters use it */
+    stage?: RunStage;
+    turn?: number;
   }): Promise<[boolean, string]> {
     const handle = this.spawn({
       worktree: params.worktree,
@@ -57,6 +65,8 @@ export abstract class AgentAdapter {
       logFile: params.logFile,
       sessionFile: params.sessionFile,
     });
+    params.onSpawn?.(handle.process.pid);
+    killOnAbort(handle.process, params.signal);
 
     try {
       await handle.process.exited;
@@ -64,6 +74,10 @@ export abstract class AgentAdapter {
       // fall through with output handling
     }
 
+    if (params.signal?.aborted) {
+      return [false, "Agent run was cancelled"];
+    }
+
     try {
       const output = await Bun.file(params.outputFile).text();
       return [true, output];
@@ -2,11 +2,14 @@ import { promises as fs } from "fs";
 import fsSync from "fs";
 import path from "path";
 
-import type { AgentConfig } from "../models";
+import type { AgentConfig, AgentUsage } from "../models";
 import { DEFAULT_CLAUDE_ALLOWED_TOOLS } from "../defaults";
+import { killOnAbort } from "../utils/process";
+import { isRecord } from "../utils/types";
 import { AgentAdapter, AgentHandle } from "./base";
 import { readSessionId, readSessionIdSync, writeSessionId } from "./session-file";
 import { streamToLog } from "./stream-utils";
+import { parseClaudeUsage } from "./usage";
 
 const DEFAULT_ALLOWED_TOOLS = DEFAULT_CLAUDE_ALLOWED_TOOLS;
 
@@ -32,7 +35,8 @@ function buildCmd(
   sessionId?: string | null,
   projectRoot?: string | null,
 ): string[] {
-  const cmd = ["claude", "--print", "--output-format", "json"];
+  // stream-json writes every message and tool call to the log as it happens (requires --verbose)
+  const cmd = ["claude", "--print", "--output-format", "stream-json", "--verbose"];
 
   if (config.model) {
     cmd.push("--model", config.model);
@@ -65,6 +69,29 @@ function buildCmd(
   return cmd;
 }
 
+/**
+ * The final result event of a stream-json run, or the whole output when it is a single JSON object.
+ */
+function parseClaudeResult(stdout: string): Record<string, unknown> | null {
+  const lines = stdout.trim().split("\n");
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    try {
+      const event: unknown = JSON.parse(lines[index]);
+      if (isRecord(event) && event.type === "result") {
+        return event;
+      }
+    } catch {
+      // Skip non-JSON lines
+    }
+  }
+  try {
+    const data: unknown = JSON.parse(stdout);
+    return isRecord(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
 export class ClaudeCodeAdapter extends AgentAdapter {
   spawn(params: {
     worktree: string;
@@ -134,6 +161,9 @@ export class ClaudeCodeSyncAdapter extends AgentAdapter {
     logFile: string;
     sessionFile?: string;
     appendLog?: boolean;
+    signal?: AbortSignal;
+    onSpawn?: (pid: number) => void;
+    onUsage?: (usage: AgentUsage) => void;
   }): Promise<[boolean, string]> {
     const sessionId = await readSessionId(params.sessionFile);
     const finalPrompt = applyThinking(this.config, params.prompt);
@@ -146,6 +176,8 @@ export class ClaudeCodeSyncAdapter extends AgentAdapter {
       stdout: "pipe",
       stderr: "pipe",
     });
+    params.onSpawn?.(proc.pid);
+    killOnAbort(proc, params.signal);
 
     const outputPromise = streamToLog({
       stdout: proc.stdout,
@@ -166,12 +198,15 @@ export class ClaudeCodeSyncAdapter extends AgentAdapter {
     let outputText = stdoutText || fullOutput;
     let newSessionId: string | null = null;
 
-    try {
-      const data = JSON.parse(outputText);
-      newSessionId = data.session_id ?? null;
-      outputText = data.result ?? outputText;
-    } catch {
-      // Fall back to raw output
+    // Fall back to raw output when there is no result event
+    const data = parseClaudeResult(outputText);
+    if (data) {
+      newSessionId = typeof data.session_id === "string" ? data.session_id : null;
+      outputText = typeof data.result === "string" ? data.result : outputText;
+      const usage = parseClaudeUsage(data);
+      if (usage) {
+        params.onUsage?.(usage);
+      }
     }
 
     await writeSessionId(params.sessionFile, newSessionId);
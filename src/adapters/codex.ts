@@ -2,7 +2,8 @@ import { promises as fs } from "fs";
 import fsSync from "fs";
 import path from "path";
 
-import type { AgentConfig } from "../models";
+import type { AgentConfig, AgentUsage } from "../models";
+import { killOnAbort } from "../utils/process";
 import { AgentAdapter, AgentHandle } from "./base";
 import {
   readSessionId as readThreadId,
@@ -10,6 +11,7 @@ import {
   writeSessionId as writeThreadId,
 } from "./session-file";
 import { streamToLog } from "./stream-utils";
+import { parseCodexUsage } from "./usage";
 
 function resolveCodexConfigPath(params: {
   sessionFile?: string;
@@ -217,6 +219,9 @@ export class CodexCLISyncAdapter extends AgentAdapter {
     logFile: string;
     sessionFile?: string;
     appendLog?: boolean;
+    signal?: AbortSignal;
+    onSpawn?: (pid: number) => void;
+    onUsage?: (usage: AgentUsage) => void;
   }): Promise<[boolean, string]> {
     const threadId = await readThreadId(params.sessionFile);
     const codexConfig = buildCodexConfigData(this.config.codex);
@@ -240,6 +245,8 @@ export class CodexCLISyncAdapter extends AgentAdapter {
       stdout: "pipe",
       stderr: "pipe",
     });
+    params.onSpawn?.(proc.pid);
+    killOnAbort(proc, params.signal);
 
     const outputPromise = streamToLog({
       stdout: proc.stdout,
@@ -259,6 +266,10 @@ export class CodexCLISyncAdapter extends AgentAdapter {
 
     const { threadId: newThreadId, finalOutput } = parseCodexOutput(stdoutText || fullOutput);
     await writeThreadId(params.sessionFile, newThreadId);
+    const usage = parseCodexUsage(stdoutText);
+    if (usage) {
+      params.onUsage?.(usage);
+    }
 
     if (proc.exitCode === 0) {
       if (shouldPreferOutput(this.config) && finalOutput.trim().length > 0) {
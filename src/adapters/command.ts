@@ -0,0 +1,226 @@
+import { promises as fs } from "fs";
+import fsSync from "fs";
+import path from "path";
+
+import { type AgentConfig, type CommandConfig, CommandOutput } from "../models";
+import { killOnAbort } from "../utils/process";
+import { AgentAdapter, AgentHandle } from "./base";
+import { readSessionId, readSessionIdSync, writeSessionId } from "./session-file";
+import { streamToLog } from "./stream-utils";
+
+const RESUME_MARKER = "{resume}";
+
+function requireCommand(config: AgentConfig): CommandConfig {
+  if (!config.command) {
+    throw new Error(`Agent ${config.id} has no command config`);
+  }
+  return config.command;
+}
+
+function substitute(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
+
+export function buildCommand(
+  config: AgentConfig,
+  params: { prompt: string; worktree: string; outputFile: string; sessionId?: string | null },
+): { cmd: string[]; stdin: string | null } {
+  const command = requireCommand(config);
+  const values: Record<string, string> = {
+    prompt: params.prompt,
+    model: config.model,
+    thinking: config.thinking ?? "",
+    worktree: params.worktree,
+    output_file: params.outputFile,
+  };
+  const resumeArgs =
+    params.sessionId && command.resumeArgv
+      ? command.resumeArgv.map((entry) =>
+          substitute(entry, { ...values, session_id: params.sessionId ?? "" }),
+        )
+      : [];
+
+  const cmd: string[] = [];
+  for (const entry of command.argv) {
+    if (entry === RESUME_MARKER) {
+      cmd.push(...resumeArgs);
+    } else {
+      cmd.push(substitute(entry, values));
+    }
+  }
+  if (!command.argv.includes(RESUME_MARKER)) {
+    cmd.push(...resumeArgs);
+  }
+
+  const promptInArgv = command.argv.some((entry) => entry.includes("{prompt}"));
+  return { cmd, stdin: promptInArgv ? null : params.prompt };
+}
+
+function getPath(data: unknown, dottedPath: string): unknown {
+  let current = data;
+  for (const key of dottedPath.split(".")) {
+    if (typeof current !== "object" || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function getString(data: unknown, dottedPath?: string): string | null {
+  if (!dottedPath) {
+    return null;
+  }
+  const value = getPath(data, dottedPath);
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+export function parseCommandOutput(
+  command: CommandConfig,
+  stdout: string,
+  fullOutput: string,
+): { sessionId: string | null; finalOutput: string } {
+  let sessionId: string | null = null;
+  let finalOutput = stdout || fullOutput;
+
+  if (command.output === CommandOutput.Json) {
+    try {
+      const data = JSON.parse(stdout);
+      sessionId = getString(data, command.sessionIdPath);
+      finalOutput = getString(data, command.outputPath) ?? finalOutput;
+    } catch {
+      // Fall back to raw output
+    }
+  } else if (command.output === CommandOutput.Jsonl) {
+    const messages: string[] = [];
+    for (const line of stdout.trim().split("\n")) {
+      if (!line) {
+        continue;
+      }
+      try {
+        const event = JSON.parse(line);
+        sessionId ??= getString(event, command.sessionIdPath);
+        const message = getString(event, command.outputPath);
+        if (message) {
+          messages.push(message);
+        }
+      } catch {
+        // Skip non-JSON lines
+      }
+    }
+    if (messages.length > 0) {
+      finalOutput = messages[messages.length - 1];
+    }
+  }
+
+  if (!sessionId && command.sessionIdPattern) {
+    const match = new RegExp(command.sessionIdPattern).exec(fullOutput);
+    sessionId = match ? (match[1] ?? match[0]) : null;
+  }
+  return { sessionId, finalOutput };
+}
+
+/**
+ * Runs any agent CLI described by the agent's `command` config.
+ */
+export class CommandAdapter extends AgentAdapter {
+  spawn(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+  }): AgentHandle {
+    const { worktree, prompt, outputFile, logFile, sessionFile } = params;
+    const sessionId = readSessionIdSync(sessionFile);
+    const { cmd, stdin } = buildCommand(this.config, { prompt, worktree, outputFile, sessionId });
+
+    // Create log file synchronously before spawning to avoid race conditions
+    fsSync.mkdirSync(path.dirname(logFile), { recursive: true });
+    fsSync.writeFileSync(logFile, "", "utf8");
+
+    const proc = Bun.spawn({
+      cmd,
+      cwd: worktree,
+      env: process.env,
+      stdin: stdin === null ? "ignore" : new Blob([stdin]),
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    void streamToLog({ stdout: proc.stdout, stderr: proc.stderr, logFile, appendLog: false });
+    return new AgentHandle(this.config.id, proc, logFile);
+  }
+
+  async runSync(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+    appendLog?: boolean;
+    signal?: AbortSignal;
+    onSpawn?: (pid: number) => void;
+  }): Promise<[boolean, string]> {
+    const command = requireCommand(this.config);
+    const sessionId = await readSessionId(params.sessionFile);
+    const { cmd, stdin } = buildCommand(this.config, {
+      prompt: params.prompt,
+      worktree: params.worktree,
+      outputFile: params.outputFile,
+      sessionId,
+    });
+
+    const proc = Bun.spawn({
+      cmd,
+      cwd: params.worktree,
+      env: process.env,
+      stdin: stdin === null ? "ignore" : new Blob([stdin]),
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    params.onSpawn?.(proc.pid);
+    killOnAbort(proc, params.signal);
+
+    const outputPromise = streamToLog({
+      stdout: proc.stdout,
+      stderr: proc.stderr,
+      logFile: params.logFile,
+      appendLog: params.appendLog ?? false,
+    });
+
+    try {
+      await proc.exited;
+    } catch {
+      // handled below
+    }
+
+    const { stdoutText, stderrText } = await outputPromise;
+    const fullOutput = stdoutText + stderrText;
+
+    const { sessionId: newSessionId, finalOutput } = parseCommandOutput(
+      command,
+      stdoutText,
+      fullOutput,
+    );
+    await writeSessionId(params.sessionFile, newSessionId);
+
+    if (proc.exitCode === 0) {
+      try {
+        const file = Bun.file(params.outputFile);
+        if (!(await file.exists()) || (await fs.stat(params.outputFile)).size === 0) {
+          await fs.writeFile(params.outputFile, finalOutput, "utf8");
+          return [true, finalOutput];
+        }
+        return [true, await fs.readFile(params.outputFile, "utf8")];
+      } catch {
+        return [true, finalOutput];
+      }
+    }
+
+    return [false, fullOutput || "Unknown error"];
+  }
+
+  getName(): string {
+    return `Command (${this.config.command?.argv[0] ?? this.config.id})`;
+  }
+}
@@ -0,0 +1,209 @@
+import { promises as fs } from "fs";
+import fsSync from "fs";
+import path from "path";
+
+import type { AgentConfig, AgentUsage } from "../models";
+import { killOnAbort } from "../utils/process";
+import { AgentAdapter, AgentHandle } from "./base";
+import { readSessionId, readSessionIdSync, writeSessionId } from "./session-file";
+import { streamToLog } from "./stream-utils";
+import { parseGeminiUsage } from "./usage";
+
+function shouldPreferOutput(config: AgentConfig): boolean {
+  // In the default approval mode headless Gemini cannot write files
+  return (config.gemini?.approvalMode ?? "default") === "default";
+}
+
+function buildCmd(
+  config: AgentConfig,
+  prompt: string,
+  sessionId?: string | null,
+  projectRoot?: string | null,
+): string[] {
+  const cmd = ["gemini", "--output-format", "json"];
+
+  if (config.model) {
+    cmd.push("--model", config.model);
+  }
+
+  const geminiConfig = config.gemini;
+  if (geminiConfig?.approvalMode) {
+    cmd.push("--approval-mode", geminiConfig.approvalMode);
+  }
+  if (geminiConfig?.sandbox) {
+    cmd.push("--sandbox");
+  }
+
+  const includeDirs = [...(projectRoot ? [projectRoot] : []), ...(geminiConfig?.addDir ?? [])];
+  if (includeDirs.length > 0) {
+    cmd.push("--include-directories", includeDirs.join(","));
+  }
+
+  if (sessionId) {
+    cmd.push("--resume", sessionId);
+  }
+
+  cmd.push("--prompt", prompt);
+  return cmd;
+}
+
+function parseGeminiOutput(stdout: string): {
+  sessionId: string | null;
+  finalOutput: string;
+  usage: AgentUsage | null;
+} {
+  try {
+    const data = JSON.parse(stdout) as Record<string, unknown>;
+    const sessionId = typeof data.session_id === "string" ? data.session_id : null;
+    const response = typeof data.response === "string" ? data.response : stdout;
+    return { sessionId, finalOutput: response, usage: parseGeminiUsage(data) };
+  } catch {
+    return { sessionId: null, finalOutput: stdout, usage: null };
+  }
+}
+
+export class GeminiCLIAdapter extends AgentAdapter {
+  spawn(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+  }): AgentHandle {
+    const { worktree, prompt, logFile, sessionFile } = params;
+    const sessionId = readSessionIdSync(sessionFile);
+    const cmd = buildCmd(this.config, prompt, sessionId);
+
+    // Create log file synchronously before spawning to avoid race conditions
+    fsSync.mkdirSync(path.dirname(logFile), { recursive: true });
+    fsSync.writeFileSync(logFile, "", "utf8");
+
+    const proc = Bun.spawn({
+      cmd,
+      cwd: worktree,
+      env: process.env,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    void streamToLog({ stdout: proc.stdout, stderr: proc.stderr, logFile, appendLog: false });
+    return new AgentHandle(this.config.id, proc, logFile);
+  }
+
+  getName(): string {
+    return `Gemini CLI (${this.config.model})`;
+  }
+}
+
+export class GeminiCLISyncAdapter extends AgentAdapter {
+  spawn(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+  }): AgentHandle {
+    const { worktree, prompt, logFile, sessionFile } = params;
+    const sessionId = readSessionIdSync(sessionFile);
+    const cmd = buildCmd(this.config, prompt, sessionId, worktree);
+
+    // Create log file synchronously before spawning to avoid race conditions
+    fsSync.mkdirSync(path.dirname(logFile), { recursive: true });
+    fsSync.writeFileSync(logFile, "", "utf8");
+
+    const proc = Bun.spawn({
+      cmd,
+      cwd: worktree,
+      env: process.env,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    void streamToLog({ stdout: proc.stdout, stderr: proc.stderr, logFile, appendLog: false });
+    return new AgentHandle(this.config.id, proc, logFile);
+  }
+
+  async runSync(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+    appendLog?: boolean;
+    signal?: AbortSignal;
+    onSpawn?: (pid: number) => void;
+    onUsage?: (usage: AgentUsage) => void;
+  }): Promise<[boolean, string]> {
+    const sessionId = await readSessionId(params.sessionFile);
+    const cmd = buildCmd(this.config, params.prompt, sessionId, params.worktree);
+
+    const proc = Bun.spawn({
+      cmd,
+      cwd: params.worktree,
+      env: process.env,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    params.onSpawn?.(proc.pid);
+    killOnAbort(proc, params.signal);
+
+    const outputPromise = streamToLog({
+      stdout: proc.stdout,
+      stderr: proc.stderr,
+      logFile: params.logFile,
+      appendLog: params.appendLog ?? false,
+    });
+
+    try {
+      await proc.exited;
+    } catch {
+      // handled below
+    }
+
+    const { stdoutText, stderrText } = await outputPromise;
+    const fullOutput = stdoutText + stderrText;
+
+    const {
+      sessionId: newSessionId,
+      finalOutput,
+      usage,
+    } = parseGeminiOutput(stdoutText || fullOutput);
+    await writeSessionId(params.sessionFile, newSessionId);
+    if (usage) {
+      params.onUsage?.(usage);
+    }
+
+    if (proc.exitCode === 0) {
+      if (shouldPreferOutput(this.config) && finalOutput.trim().length > 0) {
+        try {
+          await fs.writeFile(params.outputFile, finalOutput, "utf8");
+        } catch {
+          // fall through with output
+        }
+        return [true, finalOutput];
+      }
+      try {
+        const file = Bun.file(params.outputFile);
+        const exists = await file.exists();
+        if (!exists) {
+          await fs.writeFile(params.outputFile, finalOutput, "utf8");
+          return [true, finalOutput];
+        }
+
+        const stat = await fs.stat(params.outputFile);
+        if (stat.size === 0) {
+          await fs.writeFile(params.outputFile, finalOutput, "utf8");
+          return [true, finalOutput];
+        }
+
+        return [true, await fs.readFile(params.outputFile, "utf8")];
+      } catch {
+        return [true, finalOutput];
+      }
+    }
+
+    return [false, fullOutput || "Unknown error"];
+  }
+
+  getName(): string {
+    return `Gemini CLI Sync (${this.config.model})`;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Adapter registry - maps an agent's `type` to the adapter that runs it
+ */
+
+import type { AgentConfig } from "../models";
+import type { AgentAdapter } from "./base";
+import { ClaudeCodeSyncAdapter } from "./claude";
+import { CodexCLISyncAdapter } from "./codex";
+import { CommandAdapter } from "./command";
+import { GeminiCLISyncAdapter } from "./gemini";
+import { MockAdapter } from "./mock";
+import { OpenAiHttpAdapter } from "./openai-http";
+
+/**
+ * Create the blocking adapter for an agent, or null when its type is not supported.
+ */
+export function createSyncAdapter(config: AgentConfig): AgentAdapter | null {
+  switch (config.type) {
+    case "claude":
+      return new ClaudeCodeSyncAdapter(config);
+    case "codex":
+      return new CodexCLISyncAdapter(config);
+    case "gemini":
+      return new GeminiCLISyncAdapter(config);
+    case "openai_http":
+      return new OpenAiHttpAdapter(config);
+    case "command":
+      return new CommandAdapter(config);
+    case "mock":
+      return new MockAdapter(config);
+    default:
+      return null;
+  }
+}
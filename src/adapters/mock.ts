@@ -0,0 +1,229 @@
+import { promises as fs } from "fs";
+import fsSync from "fs";
+import path from "path";
+
+import {
+  type AgentConfig,
+  type AgentUsage,
+  type MockConfig,
+  type MockFailure,
+  RunStage,
+} from "../models";
+import { killOnAbort } from "../utils/process";
+import { AgentAdapter, AgentHandle } from "./base";
+import { streamToLog } from "./stream-utils";
+
+// Echoes stdin after the configured latency, to stdout on success or stderr on failure
+const MOCK_AGENT_SCRIPT = `
+(async () => {
+  const text = await Bun.stdin.text();
+  await Bun.sleep(Number(process.env.PL4N_MOCK_LATENCY_MS ?? 0));
+  const exitCode = Number(process.env.PL4N_MOCK_EXIT_CODE ?? 0);
+  (exitCode === 0 ? process.stdout : process.stderr).write(text);
+  process.exitCode = exitCode;
+})();
+`;
+
+// Rough token count so demos have plausible usage figures
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function resolveMockConfig(config: AgentConfig): MockConfig {
+  return config.mock ?? { latency: 0, failures: [] };
+}
+
+export function defaultMockResponse(agentId: string, stage: RunStage, turn: number): string {
+  if (stage === RunStage.Judge) {
+    return "{}";
+  }
+  if (stage === RunStage.Implement) {
+    return `# Implementation report from ${agentId}\n\n- Scripted implement response for turn ${turn}.\n`;
+  }
+  if (stage === RunStage.Critique) {
+    return `# Critique from ${agentId} (turn ${turn})\n\n- The plans look reasonable.\n`;
+  }
+  return [
+    `# Mock plan from ${agentId}`,
+    "",
+    "## Summary",
+    "",
+    `Scripted ${stage} response for turn ${turn}.`,
+    "",
+    "## Tasks",
+    "",
+    "- [ ] **Task 1**: Replace this mock plan",
+    "  - **Files:** `README.md` (modify)",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Reads the canned response for a run: turn-<N>/<stage>.md, then <stage>.md, then a built-in plan.
+ */
+export async function loadMockResponse(params: {
+  agentId: string;
+  mock: MockConfig;
+  worktree: string;
+  stage: RunStage;
+  turn: number;
+}): Promise<string> {
+  const { agentId, mock, worktree, stage, turn } = params;
+  if (mock.fixtures) {
+    const fixturesDir = path.resolve(worktree, mock.fixtures);
+    const candidates = [
+      path.join(fixturesDir, `turn-${turn}`, `${stage}.md`),
+      path.join(fixturesDir, `${stage}.md`),
+    ];
+    for (const candidate of candidates) {
+      try {
+        return await fs.readFile(candidate, "utf8");
+      } catch {
+        // try the next fixture
+      }
+    }
+  }
+  return defaultMockResponse(agentId, stage, turn);
+}
+
+function spawnMockAgent(params: {
+  worktree: string;
+  text: string;
+  latency: number;
+  exitCode: number;
+}): Bun.Subprocess<Blob, "pipe", "pipe"> {
+  return Bun.spawn({
+    cmd: [process.execPath, "-e", MOCK_AGENT_SCRIPT],
+    cwd: params.worktree,
+    env: {
+      ...process.env,
+      PL4N_MOCK_LATENCY_MS: String(Math.round(params.latency * 1000)),
+      PL4N_MOCK_EXIT_CODE: String(params.exitCode),
+    },
+    stdin: new Blob([params.text]),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+}
+
+/**
+ * Answers from fixture files instead of a model, for offline demos and integration tests.
+ * Each run is a real child process so timeouts, retries and `pl4n abort` behave as with a CLI.
+ */
+export class MockAdapter extends AgentAdapter {
+  // Runs seen so far per stage and turn, so failures can be limited to the first attempts
+  private runCounts = new Map<string, number>();
+
+  private takeFailure(stage: RunStage, turn: number): MockFailure | null {
+    const key = `${stage}:${turn}`;
+    const previousRuns = this.runCounts.get(key) ?? 0;
+    this.runCounts.set(key, previousRuns + 1);
+    const failure = resolveMockConfig(this.config).failures.find(
+      (entry) =>
+        (entry.stage === undefined || entry.stage === stage) &&
+        (entry.turn === undefined || entry.turn === turn),
+    );
+    if (!failure || (failure.attempts !== undefined && previousRuns >= failure.attempts)) {
+      return null;
+    }
+    return failure;
+  }
+
+  spawn(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+  }): AgentHandle {
+    const { worktree, logFile } = params;
+    const mock = resolveMockConfig(this.config);
+
+    // Create log file synchronously before spawning to avoid race conditions
+    fsSync.mkdirSync(path.dirname(logFile), { recursive: true });
+    fsSync.writeFileSync(logFile, "", "utf8");
+
+    const proc = spawnMockAgent({
+      worktree,
+      text: defaultMockResponse(this.config.id, RunStage.Draft, 1),
+      latency: mock.latency,
+      exitCode: 0,
+    });
+    void streamToLog({ stdout: proc.stdout, stderr: proc.stderr, logFile, appendLog: false });
+    return new AgentHandle(this.config.id, proc, logFile);
+  }
+
+  async runSync(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+    appendLog?: boolean;
+    signal?: AbortSignal;
+    onSpawn?: (pid: number) => void;
+    onUsage?: (usage: AgentUsage) => void;
+    stage?: RunStage;
+    turn?: number;
+  }): Promise<[boolean, string]> {
+    const mock = resolveMockConfig(this.config);
+    const stage = params.stage ?? RunStage.Draft;
+    const turn = params.turn ?? 1;
+    const failure = this.takeFailure(stage, turn);
+    const text = failure
+      ? failure.message
+      : await loadMockResponse({
+          agentId: this.config.id,
+          mock,
+          worktree: params.worktree,
+          stage,
+          turn,
+        });
+
+    const proc = spawnMockAgent({
+      worktree: params.worktree,
+      text,
+      latency: mock.latency,
+      exitCode: failure?.exitCode ?? 0,
+    });
+    params.onSpawn?.(proc.pid);
+    killOnAbort(proc, params.signal);
+
+    const outputPromise = streamToLog({
+      stdout: proc.stdout,
+      stderr: proc.stderr,
+      logFile: params.logFile,
+      appendLog: params.appendLog ?? false,
+    });
+
+    try {
+      await proc.exited;
+    } catch {
+      // handled below
+    }
+
+    const { stdoutText, stderrText } = await outputPromise;
+    if (params.signal?.aborted) {
+      return [false, "Agent run was cancelled"];
+    }
+    if (proc.exitCode === 0) {
+      params.onUsage?.({
+        inputTokens: estimateTokens(params.prompt),
+        outputTokens: estimateTokens(stdoutText),
+        cachedTokens: 0,
+      });
+      try {
+        await fs.writeFile(params.outputFile, stdoutText, "utf8");
+      } catch {
+        // fall through with output
+      }
+      return [true, stdoutText];
+    }
+
+    return [false, stdoutText + stderrText || "Unknown error"];
+  }
+
+  getName(): string {
+    return `Mock (${this.config.id})`;
+  }
+}
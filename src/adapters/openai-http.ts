@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { AgentConfig, AgentUsage, OpenAiHttpConfig } from "../models";
+import { isRecord } from "../utils/types";
+import { AgentAdapter, type AgentHandle } from "./base";
+import { prepareLogFile } from "./stream-utils";
+import { parseOpenAiUsage } from "./usage";
+
+export type ChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+function requireHttpConfig(config: AgentConfig): OpenAiHttpConfig {
+  if (!config.openaiHttp) {
+    throw new Error(`Agent ${config.id} has no openai_http config`);
+  }
+  return config.openaiHttp;
+}
+
+/**
+ * The conversation history lives next to where CLI adapters keep their session ID.
+ */
+export function resolveHistoryFile(sessionFile: string): string {
+  return path.join(path.dirname(sessionFile), "history.json");
+}
+
+export async function readHistory(historyFile: string | null): Promise<ChatMessage[]> {
+  if (!historyFile) {
+    return [];
+  }
+  try {
+    const data = JSON.parse(await fs.readFile(historyFile, "utf8"));
+    return Array.isArray(data) ? (data as ChatMessage[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeHistory(historyFile: string, messages: ChatMessage[]): Promise<void> {
+  await fs.mkdir(path.dirname(historyFile), { recursive: true });
+  const tempFile = `${historyFile}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(messages, null, 2), "utf8");
+  await fs.rename(tempFile, historyFile);
+}
+
+function extractContent(data: unknown): string | null {
+  if (!isRecord(data) || !Array.isArray(data.choices)) {
+    return null;
+  }
+  const message = isRecord(data.choices[0]) ? data.choices[0].message : undefined;
+  return isRecord(message) && typeof message.content === "string" ? message.content : null;
+}
+
+/**
+ * Talks to any OpenAI-compatible /chat/completions endpoint (Ollama, llama.cpp server, vLLM).
+ * The model has no tools, so its reply is the plan and is written to the output file.
+ */
+export class OpenAiHttpAdapter extends AgentAdapter {
+  spawn(): AgentHandle {
+    throw new Error("openai_http agents have no process to spawn; use runSync");
+  }
+
+  async runSync(params: {
+    worktree: string;
+    prompt: string;
+    outputFile: string;
+    logFile: string;
+    sessionFile?: string;
+    appendLog?: boolean;
+    signal?: AbortSignal;
+    onSpawn?: (pid: number) => void;
+    onUsage?: (usage: AgentUsage) => void;
+  }): Promise<[boolean, string]> {
+    const http = requireHttpConfig(this.config);
+    const url = `${http.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    const historyFile = params.sessionFile ? resolveHistoryFile(params.sessionFile) : null;
+    const messages: ChatMessage[] = [
+      ...(await readHistory(historyFile)),
+      { role: "user", content: params.prompt },
+    ];
+
+    await prepareLogFile(params.logFile, params.appendLog ?? false);
+    const fail = async (message: string): Promise<[boolean, string]> => {
+      await fs.appendFile(params.logFile, `${message}\n`, "utf8");
+      return [false, message];
+    };
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (http.apiKeyEnv) {
+      const apiKey = process.env[http.apiKeyEnv];
+      if (!apiKey) {
+        return fail(`Error: environment variable ${http.apiKeyEnv} is not set`);
+      }
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    await fs.appendFile(
+      params.logFile,
+      `POST ${url} (model ${this.config.model}, ${messages.length} messages)\n`,
+      "utf8",
+    );
+    let response: Response;
+    let body: string;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages,
+          ...(http.temperature === undefined ? {} : { temperature: http.temperature }),
+        }),
+        signal: params.signal,
+      });
+      // The body streams in after the headers, so an abort or timeout can also land here
+      body = await response.text();
+    } catch (error) {
+      if (params.signal?.aborted) {
+        return [false, "Agent run was cancelled"];
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return fail(`Error: network error calling ${url}: ${message}`);
+    }
+
+    if (!response.ok) {
+      return fail(`Error: HTTP ${response.status} from ${url}: ${body}`);
+    }
+
+    let content: string | null = null;
+    try {
+      const data = JSON.parse(body);
+      content = extractContent(data);
+      const usage = parseOpenAiUsage(data);
+      if (usage) {
+        params.onUsage?.(usage);
+      }
+    } catch {
+      // reported below
+    }
+    if (content === null) {
+      return fail(`Error: unexpected response from ${url}: ${body}`);
+    }
+
+    await fs.appendFile(params.logFile, `${content}\n`, "utf8");
+    if (historyFile) {
+      await writeHistory(historyFile, [...messages, { role: "assistant", content }]);
+    }
+    try {
+      await fs.writeFile(params.outputFile, content, "utf8");
+    } catch {
+      // fall through with output
+    }
+    return [true, content];
+  }
+
+  getName(): string {
+    return `OpenAI HTTP (${this.config.model})`;
+  }
+}
@@ -5,15 +5,9 @@ import { promises as fs } from "fs";
 import path from "path";
 
 /**
- * Stream process output to a log file while capturing text.
+ * Create the log file, or append a run separator when appending to an existing log.
  */
-export async function streamToLog(params: {
-  stdout: ReadableStream<Uint8Array> | null;
-  stderr: ReadableStream<Uint8Array> | null;
-  logFile: string;
-  appendLog: boolean;
-}): Promise<{ stdoutText: string; stderrText: string }> {
-  const { stdout, stderr, logFile, appendLog } = params;
+export async function prepareLogFile(logFile: string, appendLog: boolean): Promise<void> {
   await fs.mkdir(path.dirname(logFile), { recursive: true });
 
   if (appendLog) {
@@ -22,6 +16,19 @@ export async function streamToLog(params: {
   } else {
     await fs.writeFile(logFile, "", "utf8");
   }
+}
+
+/**
+ * Stream process output to a log file while capturing text.
+ */
+export async function streamToLog(params: {
+  stdout: ReadableStream<Uint8Array> | null;
+  stderr: ReadableStream<Uint8Array> | null;
+  logFile: string;
+  appendLog: boolean;
+}): Promise<{ stdoutText: string; stderrText: string }> {
+  const { stdout, stderr, logFile, appendLog } = params;
+  await prepareLogFile(logFile, appendLog);
 
   const decoder = new TextDecoder();
 
@@ -0,0 +1,89 @@
+/**
+ * Extract token usage from the output formats of the supported agent CLIs and APIs
+ */
+
+import type { AgentUsage } from "../models";
+import { isRecord } from "../utils/types";
+
+function count(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Claude Code `--output-format json` result: input_tokens excludes cache reads and writes.
+ */
+export function parseClaudeUsage(data: unknown): AgentUsage | null {
+  if (!isRecord(data) || !isRecord(data.usage)) {
+    return null;
+  }
+  const usage = data.usage;
+  const cachedTokens = count(usage.cache_read_input_tokens);
+  return {
+    inputTokens:
+      count(usage.input_tokens) + count(usage.cache_creation_input_tokens) + cachedTokens,
+    outputTokens: count(usage.output_tokens),
+    cachedTokens,
+    costUsd: typeof data.total_cost_usd === "number" ? data.total_cost_usd : undefined,
+  };
+}
+
+/**
+ * Codex `exec --json` events: every turn.completed event carries that turn's usage.
+ */
+export function parseCodexUsage(stdout: string): AgentUsage | null {
+  let usage: AgentUsage | null = null;
+  for (const line of stdout.trim().split("\n")) {
+    if (!line) {
+      continue;
+    }
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!isRecord(event) || event.type !== "turn.completed" || !isRecord(event.usage)) {
+      continue;
+    }
+    usage ??= { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+    usage.inputTokens += count(event.usage.input_tokens);
+    usage.outputTokens += count(event.usage.output_tokens);
+    usage.cachedTokens += count(event.usage.cached_input_tokens);
+  }
+  return usage;
+}
+
+/**
+ * Gemini CLI `--output-format json`: stats.models maps each model used to its token counts.
+ */
+export function parseGeminiUsage(data: unknown): AgentUsage | null {
+  if (!isRecord(data) || !isRecord(data.stats) || !isRecord(data.stats.models)) {
+    return null;
+  }
+  let usage: AgentUsage | null = null;
+  for (const model of Object.values(data.stats.models)) {
+    if (!isRecord(model) || !isRecord(model.tokens)) {
+      continue;
+    }
+    usage ??= { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+    usage.inputTokens += count(model.tokens.prompt);
+    usage.outputTokens += count(model.tokens.candidates) + count(model.tokens.thoughts);
+    usage.cachedTokens += count(model.tokens.cached);
+  }
+  return usage;
+}
+
+/**
+ * OpenAI-compatible /chat/completions response body.
+ */
+export function parseOpenAiUsage(data: unknown): AgentUsage | null {
+  if (!isRecord(data) || !isRecord(data.usage)) {
+    return null;
+  }
+  const details = data.usage.prompt_tokens_details;
+  return {
+    inputTokens: count(data.usage.prompt_tokens),
+    outputTokens: count(data.usage.completion_tokens),
+    cachedTokens: isRecord(details) ? count(details.cached_tokens) : 0,
+  };
+}
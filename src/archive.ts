@@ -0,0 +1,214 @@
+/**
+ * Session archives - a whole planning session as one .tar.gz to share or attach to a PR
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { dump, load } from "js-yaml";
+
+import { migrateSession, type StateDocument } from "./migrations";
+import { AgentStatus, Phase, STAGE_PHASES } from "./models";
+import { generateToken } from "./server/auth";
+import type { SessionManager } from "./session";
+import { fileExists } from "./utils/fs";
+import { type TarEntry, packTarGz, unpackTarGz } from "./utils/tar";
+import { isRecord } from "./utils/types";
+
+/** Describes the archive; its presence is what makes a .tar.gz a session archive */
+export const ARCHIVE_MANIFEST = "pl4n-session.json";
+
+/** Bumped when the archive layout (not the session schema) changes */
+export const ARCHIVE_FORMAT = 1;
+
+export type ArchiveManifest = {
+  format: number;
+  session_id: string;
+  exported_at: string;
+  /** Whether agent and implementation logs are included */
+  logs: boolean;
+};
+
+export type ImportResult = {
+  sessionId: string;
+  /** ID the session had where it was exported */
+  originalId: string;
+  /** Whether the session got a new ID because the original was taken */
+  renamed: boolean;
+};
+
+// Machine-specific or regenerated: locks, CLI conversations, the PLAN.md link, discarded turns
+// and exports
+const EXCLUDED = [
+  /^state\.lock(\.takeover)?$/,
+  /\.tmp$/,
+  /(^|\/)session\.txt$/,
+  /(^|\/)history\.json$/,
+  /^PLAN\.md$/,
+  /^turns\/\.discarded\//,
+  /^export\//,
+];
+const LOG_FILE = /\.log$/;
+
+function excluded(name: string, logs: boolean): boolean {
+  return EXCLUDED.some((pattern) => pattern.test(name)) || (!logs && LOG_FILE.test(name));
+}
+
+// Agent CLI sessions, process IDs and the web token only mean something on this machine
+function stripLocalState(state: Record<string, unknown>) {
+  state.turn_sessions = {};
+  state.agent_pids = {};
+  delete state.runner_pid;
+  delete state.session_token;
+}
+
+// A turn that was running where the archive was made has no runner here. Park it in the error
+// phase, as an aborted turn would be, so `pl4n resume` can pick it up from its checkpoints.
+function interruptRunningTurn(state: StateDocument) {
+  if (!Object.values<string>(STAGE_PHASES).includes(state.phase)) {
+    return;
+  }
+  for (const [agentId, status] of Object.entries(state.agents)) {
+    if (status === AgentStatus.Working) {
+      state.agents[agentId] = AgentStatus.Error;
+      state.agent_errors[agentId] = "Interrupted";
+    }
+  }
+  state.phase = Phase.Error;
+}
+
+function parseYaml(entries: Map<string, Uint8Array>, name: string): Record<string, unknown> {
+  const data = entries.get(name);
+  if (!data) {
+    throw new Error(`Session archive has no ${name}`);
+  }
+  const parsed = load(new TextDecoder().decode(data));
+  if (!isRecord(parsed)) {
+    throw new Error(`Invalid ${name} in session archive`);
+  }
+  return parsed;
+}
+
+/**
+ * Pack a session's meta, state, turns with their snapshots, agent plans and (optionally) logs.
+ */
+export async function exportSessionArchive(
+  manager: SessionManager,
+  sessionId: string,
+  options: { logs?: boolean } = {},
+): Promise<{ archive: Uint8Array<ArrayBuffer>; files: string[] }> {
+  const state = await manager.loadSession(sessionId);
+  if (!state) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  if (manager.isTurnRunning(state)) {
+    throw new Error(`Cannot export while turn ${state.turn} is running`);
+  }
+
+  const paths = manager.getPaths(sessionId);
+  const logs = options.logs ?? false;
+  const names = (await fs.readdir(paths.root, { recursive: true }))
+    .map((name) => name.split(path.sep).join("/"))
+    .filter((name) => !excluded(name, logs))
+    .sort();
+
+  const encoder = new TextEncoder();
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    session_id: sessionId,
+    exported_at: new Date().toISOString(),
+    logs,
+  };
+  const entries: TarEntry[] = [
+    { name: ARCHIVE_MANIFEST, data: encoder.encode(`${JSON.stringify(manifest, null, 2)}\n`) },
+  ];
+  for (const name of names) {
+    const file = path.join(paths.root, name);
+    if (!(await fs.lstat(file)).isFile()) {
+      continue;
+    }
+    if (name === "state.yaml") {
+      const documents = {
+        meta: {},
+        state: load(await fs.readFile(file, "utf8")) as Record<string, unknown>,
+      };
+      migrateSession(documents);
+      stripLocalState(documents.state);
+      entries.push({ name, data: encoder.encode(dump(documents.state)) });
+      continue;
+    }
+    entries.push({ name, data: new Uint8Array(await fs.readFile(file)) });
+  }
+  return { archive: packTarGz(entries), files: entries.map((entry) => entry.name) };
+}
+
+// The archived ID when it is free, otherwise the first free `<id>-N`
+async function importId(manager: SessionManager, originalId: string): Promise<string> {
+  if (!/^[A-Za-z0-9][\w-]*$/.test(originalId)) {
+    return manager.generateUniqueSessionId();
+  }
+  let candidate = originalId;
+  for (let suffix = 2; await fileExists(manager.getPaths(candidate).root); suffix += 1) {
+    candidate = `${originalId}-${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Unpack a session archive as a new session. It gets a fresh web token, a new ID if its own is
+ * taken, and no agent CLI sessions, so agents start new conversations on the next turn. A turn
+ * archived mid-run arrives interrupted, ready for `pl4n resume`.
+ */
+export async function importSessionArchive(
+  manager: SessionManager,
+  archive: Uint8Array,
+): Promise<ImportResult> {
+  const entries = new Map(unpackTarGz(archive).map((entry) => [entry.name, entry.data]));
+  const manifestData = entries.get(ARCHIVE_MANIFEST);
+  if (!manifestData) {
+    throw new Error(`Not a pl4n session archive (no ${ARCHIVE_MANIFEST})`);
+  }
+  const manifest = JSON.parse(new TextDecoder().decode(manifestData)) as ArchiveManifest;
+  if (manifest.format > ARCHIVE_FORMAT) {
+    throw new Error(
+      `Session archive format ${manifest.format} is newer than this pl4n supports (${ARCHIVE_FORMAT})`,
+    );
+  }
+
+  const documents = {
+    meta: parseYaml(entries, "meta.yaml"),
+    state: parseYaml(entries, "state.yaml"),
+  };
+  migrateSession(documents);
+  const originalId = String(documents.meta.session_id ?? manifest.session_id);
+  const sessionId = await importId(manager, originalId);
+  const paths = manager.getPaths(sessionId);
+
+  for (const [name, data] of entries) {
+    if (name === ARCHIVE_MANIFEST || name === "meta.yaml" || name === "state.yaml") {
+      continue;
+    }
+    if (excluded(name, true)) {
+      continue;
+    }
+    const file = path.join(paths.root, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+  await fs.mkdir(paths.turns, { recursive: true });
+
+  const state = documents.state as StateDocument;
+  stripLocalState(documents.state);
+  interruptRunningTurn(state);
+  state.session_token = generateToken();
+  state.revision = 0;
+  await fs.writeFile(paths.meta, dump({ ...documents.meta, session_id: sessionId }), "utf8");
+  await fs.writeFile(paths.state, dump(state), "utf8");
+
+  if (state.phase === Phase.Approved) {
+    await fs.symlink(
+      path.relative(paths.root, paths.turnFile(state.turn)),
+      path.join(paths.root, "PLAN.md"),
+    );
+  }
+  return { sessionId, originalId, renamed: sessionId !== originalId };
+}
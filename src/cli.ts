@@ -2,19 +2,57 @@ import { promises as fs } from "fs";
 import path from "path";
 import sade from "sade";
 
-import { Phase, Pl4nConfig, type SessionState } from "./models";
+import {
+  Phase,
+  Pl4nConfig,
+  type SessionState,
+  type UsageRecord,
+  averageScores,
+  ImplementationStatus,
+  implementationProgressToDict,
+  summarizeTaskProgress,
+  summarizeUsage,
+  taskProgressToDict,
+  turnScoresToDict,
+  usageSummaryToDict,
+  usageTotalsToDict,
+} from "./models";
 import { fileExists } from "./utils/fs";
+import { resolveHead } from "./utils/git";
+import { isProcessAlive } from "./utils/process";
+import { exportSessionArchive, importSessionArchive, type ImportResult } from "./archive";
+import { TaskImplementer } from "./implementer";
+import { type MigrationResult, SCHEMA_VERSION } from "./migrations";
 import { TurnOrchestrator } from "./orchestrator";
-import { SessionManager } from "./session";
+import {
+  buildTaskGraph,
+  lintPlan,
+  planIssueToDict,
+  planIssuesToScript,
+  planSummaryToDict,
+  planToIssues,
+  taskGraphToDict,
+  taskGraphToDot,
+} from "./plan";
+import { type RollbackResult, SessionManager } from "./session";
+import { projectHead, refreshTaskProgress } from "./tracker";
 import { ensureGlobalToken } from "./server/auth";
 import { isDaemonRunning, startDaemon, stopDaemon } from "./server/daemon";
 import { startServer } from "./server/index";
 import { findAvailablePort, getLocalIP } from "./server/network";
 import { resolveServerConfig } from "./server/config";
 import { createProjectId } from "./server/project-id";
+import { findPl4nDirs } from "./server/projects";
+
+const RESUMABLE_PHASES = new Set<string>([
+  Phase.Drafting,
+  Phase.PeerReview,
+  Phase.Synthesizing,
+  Phase.Error,
+]);
 
 type TurnOrchestratorInstance = {
-  runTurn(sessionId: string): Promise<boolean>;
+  runTurn(sessionId: string, options?: { resume?: boolean }): Promise<boolean>;
   getDiff(sessionId: string): Promise<string | null>;
 };
 
@@ -221,6 +259,75 @@ async function loadSessionOrExit(
   return state;
 }
 
+// Usage of every session in a project, archived ones included, skipping sessions with no runs
+async function loadProjectUsage(manager: SessionManager): Promise<Array<[string, UsageRecord[]]>> {
+  const sessions = await manager.listSessions({ archived: "all" });
+  const entries: Array<[string, UsageRecord[]]> = [];
+  for (const session of sessions) {
+    const records = await manager.loadUsage(session.sessionId);
+    if (records.length > 0) {
+      entries.push([session.sessionId, records]);
+    }
+  }
+  return entries;
+}
+
+async function reportTurnResult(
+  success: boolean,
+  sessionId: string,
+  manager: SessionManager,
+  deps: CliDeps,
+  pretty: boolean,
+): Promise<void> {
+  const updatedState = await manager.loadSession(sessionId);
+  if (!updatedState) {
+    exitWithError({ error: "Session disappeared during turn" }, pretty);
+  }
+
+  const paths = manager.getPaths(sessionId);
+  const turnFile = paths.turnFile(updatedState.turn);
+
+  if (success) {
+    const result: Record<string, unknown> = {
+      turn: updatedState.turn,
+      phase: updatedState.phase,
+      file: turnFile,
+      has_questions: await manager.hasQuestions(sessionId),
+      hint: "User should edit file, then call continue or approve",
+    };
+    if (Object.keys(updatedState.agentErrors).length > 0) {
+      result.agent_errors = updatedState.agentErrors;
+    }
+    if (Object.keys(updatedState.strayEdits).length > 0) {
+      result.stray_edits = updatedState.strayEdits;
+    }
+    if (Object.keys(updatedState.lintIssues).length > 0) {
+      result.lint_issues = updatedState.lintIssues;
+    }
+    if (updatedState.phase === Phase.UserReview) {
+      await attachEditUrl(result, sessionId, manager, deps);
+    }
+    outputJson(result, pretty);
+  } else {
+    const errorResult: Record<string, unknown> = {
+      turn: updatedState.turn,
+      phase: updatedState.phase,
+      error: "Turn failed",
+      hint: "Check agent logs in .pl4n/sessions/<id>/agents/, then call resume to retry",
+    };
+    if (Object.keys(updatedState.agentErrors).length > 0) {
+      errorResult.agent_errors = updatedState.agentErrors;
+    }
+    if (Object.keys(updatedState.strayEdits).length > 0) {
+      errorResult.stray_edits = updatedState.strayEdits;
+    }
+    if (Object.keys(updatedState.lintIssues).length > 0) {
+      errorResult.lint_issues = updatedState.lintIssues;
+    }
+    exitWithError(errorResult, pretty);
+  }
+}
+
 function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
   const globalOptions = extractGlobalOptions(argv);
   const deps = resolveDeps(depsOverrides);
@@ -310,6 +417,12 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
         if (Object.keys(updatedState.agentErrors).length > 0) {
           result.agent_errors = updatedState.agentErrors;
         }
+        if (Object.keys(updatedState.strayEdits).length > 0) {
+          result.stray_edits = updatedState.strayEdits;
+        }
+        if (Object.keys(updatedState.lintIssues).length > 0) {
+          result.lint_issues = updatedState.lintIssues;
+        }
         if (updatedState.phase === Phase.UserReview) {
           await attachEditUrl(result, state.sessionId, manager, deps);
         }
@@ -325,6 +438,12 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
         if (Object.keys(updatedState.agentErrors).length > 0) {
           errorResult.agent_errors = updatedState.agentErrors;
         }
+        if (Object.keys(updatedState.strayEdits).length > 0) {
+          errorResult.stray_edits = updatedState.strayEdits;
+        }
+        if (Object.keys(updatedState.lintIssues).length > 0) {
+          errorResult.lint_issues = updatedState.lintIssues;
+        }
         exitWithError(errorResult, pretty);
       }
     });
@@ -353,19 +472,28 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
         archivedFilter = "exclude";
       }
       const sessions = await manager.listSessions({ archived: archivedFilter });
-      outputJson(
-        {
-          sessions: sessions.map((session) => ({
-            session_id: session.sessionId,
-            task: session.task,
-            turn: session.turn,
-            phase: session.phase,
-            archived: session.archived,
-            updated_at: session.updatedAt.toISOString(),
-          })),
-        },
-        pretty,
-      );
+      const items: Record<string, unknown>[] = [];
+      const head = projectHead(manager);
+      for (const session of sessions) {
+        const item: Record<string, unknown> = {
+          session_id: session.sessionId,
+          task: session.task,
+          turn: session.turn,
+          phase: session.phase,
+          archived: session.archived,
+          updated_at: session.updatedAt.toISOString(),
+        };
+        if (session.parentSession) {
+          item.parent_session = session.parentSession;
+          item.parent_turn = session.parentTurn;
+        }
+        const progress = await refreshTaskProgress(manager, session, head);
+        if (progress) {
+          item.progress = summarizeTaskProgress(progress);
+        }
+        items.push(item);
+      }
+      outputJson({ sessions: items }, pretty);
     });
 
   prog
@@ -394,9 +522,52 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
         has_questions: await manager.hasQuestions(sessionId),
         agents: Object.fromEntries(Object.entries(state.agents).map(([k, v]) => [k, v])),
       };
+      if (state.parentSession) {
+        result.parent_session = state.parentSession;
+        result.parent_turn = state.parentTurn;
+      }
       if (Object.keys(state.agentErrors).length > 0) {
         result.agent_errors = state.agentErrors;
       }
+      if (Object.keys(state.strayEdits).length > 0) {
+        result.stray_edits = state.strayEdits;
+      }
+      if (Object.keys(state.lintIssues).length > 0) {
+        result.lint_issues = state.lintIssues;
+      }
+      if (Object.keys(state.agentAttempts).length > 0) {
+        result.agent_attempts = state.agentAttempts;
+      }
+      if (state.pipeline && state.pipelineStep !== undefined) {
+        result.pipeline = state.pipeline;
+        result.pipeline_step = state.pipelineStep;
+      }
+      const scores = await manager.loadScores(sessionId);
+      if (Object.keys(scores).length > 0) {
+        result.scores = Object.fromEntries(
+          Object.entries(scores).map(([turn, turnScores]) => [turn, turnScoresToDict(turnScores)]),
+        );
+        result.average_scores = averageScores(scores);
+      }
+      const usage = await manager.loadUsage(sessionId);
+      if (usage.length > 0) {
+        result.usage = usageSummaryToDict(summarizeUsage(usage));
+      }
+      const plan = result.file ? await manager.loadPlan(sessionId) : null;
+      if (plan) {
+        result.plan = planSummaryToDict(plan);
+      }
+      const implementation = await manager.loadImplementation(sessionId);
+      if (implementation) {
+        result.implementation = implementationProgressToDict(implementation);
+      }
+      const progress = await refreshTaskProgress(manager, state);
+      if (progress) {
+        result.progress = {
+          ...summarizeTaskProgress(progress),
+          ...taskProgressToDict(progress),
+        };
+      }
       await attachEditUrl(result, sessionId, manager, deps);
       outputJson(result, pretty);
     });
@@ -550,42 +721,178 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
       const config = await loadSessionConfig(manager, sessionId, pretty);
       const orchestrator = new deps.TurnOrchestrator(manager, config);
       const success = await orchestrator.runTurn(sessionId);
+      await reportTurnResult(success, sessionId, manager, deps, pretty);
+    });
 
-      const updatedState = await manager.loadSession(sessionId);
-      if (!updatedState) {
-        exitWithError({ error: "Session disappeared during turn" }, pretty);
+  prog
+    .command("resume")
+    .describe("Resume an interrupted turn from its last checkpoint (blocks until complete)")
+    .option("--session", "Session ID")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
       }
 
-      const paths = manager.getPaths(sessionId);
-      const turnFile = paths.turnFile(updatedState.turn);
+      const state = await loadSessionOrExit(manager, sessionId, pretty);
 
-      if (success) {
-        const result: Record<string, unknown> = {
-          turn: updatedState.turn,
-          phase: updatedState.phase,
-          file: turnFile,
-          has_questions: await manager.hasQuestions(sessionId),
-          hint: "User should edit file, then call continue or approve",
-        };
-        if (Object.keys(updatedState.agentErrors).length > 0) {
-          result.agent_errors = updatedState.agentErrors;
-        }
-        if (updatedState.phase === Phase.UserReview) {
-          await attachEditUrl(result, sessionId, manager, deps);
-        }
-        outputJson(result, pretty);
-      } else {
-        const errorResult: Record<string, unknown> = {
-          turn: updatedState.turn,
-          phase: updatedState.phase,
-          error: "Turn failed",
-          hint: "Check agent logs in .pl4n/sessions/<id>/agents/",
-        };
-        if (Object.keys(updatedState.agentErrors).length > 0) {
-          errorResult.agent_errors = updatedState.agentErrors;
-        }
-        exitWithError(errorResult, pretty);
+      if (!RESUMABLE_PHASES.has(state.phase)) {
+        exitWithError(
+          {
+            error: `Cannot resume from phase ${state.phase}`,
+            hint: "Only interrupted or failed turns can be resumed",
+          },
+          pretty,
+        );
+      }
+
+      if (
+        state.runnerPid !== undefined &&
+        state.runnerPid !== process.pid &&
+        isProcessAlive(state.runnerPid)
+      ) {
+        exitWithError(
+          {
+            error: `Turn ${state.turn} is still running (pid ${state.runnerPid})`,
+            hint: "Wait for it to finish, or stop it with abort",
+          },
+          pretty,
+        );
+      }
+
+      // Run remaining work (blocking)
+      const config = await loadSessionConfig(manager, sessionId, pretty);
+      const orchestrator = new deps.TurnOrchestrator(manager, config);
+      const success = await orchestrator.runTurn(sessionId, { resume: true });
+      await reportTurnResult(success, sessionId, manager, deps, pretty);
+    });
+
+  prog
+    .command("abort")
+    .describe("Stop a running turn and its agents so it can be resumed later")
+    .option("--session", "Session ID")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
+      }
+
+      const state = await loadSessionOrExit(manager, sessionId, pretty);
+
+      if (!manager.isTurnRunning(state)) {
+        exitWithError(
+          {
+            error: `Cannot abort from phase ${state.phase}`,
+            hint: "Only running turns can be aborted",
+          },
+          pretty,
+        );
+      }
+
+      const aborted = await manager.abortTurn(sessionId);
+      if (!aborted) {
+        exitWithError({ error: `Session ${sessionId} not found` }, pretty);
+      }
+
+      outputJson(
+        {
+          session_id: sessionId,
+          turn: aborted.turn,
+          phase: aborted.phase,
+          agents: aborted.agents,
+          hint: "Use resume to pick the turn back up from its checkpoints",
+        },
+        pretty,
+      );
+    });
+
+  prog
+    .command("fork")
+    .describe("Start a new session from an earlier turn of an existing one")
+    .option("--session", "Session ID to fork")
+    .option("--from-turn <turn>", "Last turn to copy into the new session")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
+      }
+      if (opts["from-turn"] === undefined) {
+        exitWithError({ error: "Missing --from-turn" }, pretty);
+      }
+      const fromTurn = Number(opts["from-turn"]);
+
+      const source = await loadSessionOrExit(manager, sessionId, pretty);
+      let state: SessionState;
+      try {
+        state = await manager.forkSession(source.sessionId, fromTurn);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        exitWithError({ error: message }, pretty);
       }
+
+      const result: Record<string, unknown> = {
+        session_id: state.sessionId,
+        parent_session: state.parentSession,
+        parent_turn: state.parentTurn,
+        turn: state.turn,
+        phase: state.phase,
+        file: manager.getPaths(state.sessionId).turnFile(state.turn),
+        has_questions: await manager.hasQuestions(state.sessionId),
+        hint: "User should edit file, then call continue or approve",
+      };
+      await attachEditUrl(result, state.sessionId, manager, deps);
+      outputJson(result, pretty);
+    });
+
+  prog
+    .command("rollback")
+    .describe("Make an earlier turn current again, archiving the turns after it")
+    .option("--session", "Session ID")
+    .option("--to-turn <turn>", "Turn to roll back to")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
+      }
+      if (opts["to-turn"] === undefined) {
+        exitWithError({ error: "Missing --to-turn" }, pretty);
+      }
+      const toTurn = Number(opts["to-turn"]);
+
+      const current = await loadSessionOrExit(manager, sessionId, pretty);
+      let rollback: RollbackResult;
+      try {
+        rollback = await manager.rollbackSession(current.sessionId, toTurn);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        exitWithError({ error: message }, pretty);
+      }
+
+      const { state } = rollback;
+      const result: Record<string, unknown> = {
+        session_id: state.sessionId,
+        turn: state.turn,
+        phase: state.phase,
+        file: manager.getPaths(state.sessionId).turnFile(state.turn),
+        discarded: rollback.discarded,
+        archive: rollback.archive,
+        has_questions: await manager.hasQuestions(state.sessionId),
+        hint: "User should edit file, then call continue or approve",
+      };
+      await attachEditUrl(result, state.sessionId, manager, deps);
+      outputJson(result, pretty);
     });
 
   prog
@@ -613,10 +920,12 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
         );
       }
 
-      if (await manager.hasQuestions(sessionId)) {
+      const unanswered = (await manager.loadPlan(sessionId))?.unansweredQuestions ?? [];
+      if (unanswered.length > 0) {
         exitWithError(
           {
             error: "Cannot approve with unanswered questions",
+            unanswered_questions: unanswered.map((question) => question.id),
             hint: "Answer all questions in the plan file first",
           },
           pretty,
@@ -635,7 +944,10 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
       await fs.symlink(relativeTarget, planLink);
 
       state.phase = Phase.Approved;
+      state.approvedCommit =
+        (await resolveHead(path.dirname(path.resolve(manager.pl4nDir)))) ?? undefined;
       await manager.saveState(state);
+      await refreshTaskProgress(manager, state);
 
       outputJson(
         {
@@ -681,7 +993,13 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
         exitWithError({ error: "Missing --session" }, pretty);
       }
 
-      const updated = await manager.setArchived(sessionId, true);
+      let updated: SessionState | null;
+      try {
+        updated = await manager.setArchived(sessionId, true);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        exitWithError({ error: message }, pretty);
+      }
       if (!updated) {
         exitWithError({ error: `Session ${sessionId} not found` }, pretty);
       }
@@ -702,7 +1020,13 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
         exitWithError({ error: "Missing --session" }, pretty);
       }
 
-      const updated = await manager.setArchived(sessionId, false);
+      let updated: SessionState | null;
+      try {
+        updated = await manager.setArchived(sessionId, false);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        exitWithError({ error: message }, pretty);
+      }
       if (!updated) {
         exitWithError({ error: `Session ${sessionId} not found` }, pretty);
       }
@@ -710,6 +1034,103 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
       outputJson({ session_id: sessionId, archived: false }, pretty);
     });
 
+  prog
+    .command("migrate")
+    .describe("Upgrade session files written by older versions of pl4n")
+    .option("--session", "Session ID (default: every session in this project)")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      const sessionIds = sessionId ? [sessionId] : await manager.listSessionIds();
+      const sessions: Record<string, unknown>[] = [];
+      let failed = false;
+      for (const id of sessionIds) {
+        let migrated: MigrationResult | null;
+        try {
+          migrated = await manager.migrateSessionFiles(id);
+        } catch (error) {
+          failed = true;
+          const message = error instanceof Error ? error.message : String(error);
+          sessions.push({ session_id: id, error: message });
+          continue;
+        }
+        if (!migrated) {
+          exitWithError({ error: `Session ${id} not found` }, pretty);
+        }
+        sessions.push({ session_id: id, ...migrated });
+      }
+
+      const result = { schema_version: SCHEMA_VERSION, sessions };
+      if (failed) {
+        exitWithError({ error: "Some sessions could not be migrated", ...result }, pretty);
+      }
+      outputJson(result, pretty);
+    });
+
+  prog
+    .command("usage")
+    .describe("Show token usage and cost for a session, this project, or all projects")
+    .option("--session", "Session ID (default: every session in this project)")
+    .option("--all-projects", "Aggregate every project found in the server workspaces")
+    .option("--workspace", "Workspace root to search with --all-projects")
+    .action(async (opts: Record<string, unknown>) => {
+      const pl4nDir = resolvePl4nDir(opts, globalOptions.pl4nDir);
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      if (opts["all-projects"]) {
+        if (sessionId) {
+          exitWithError({ error: "Use either --session or --all-projects, not both" }, pretty);
+        }
+        const serverConfig = await resolveServerConfig({
+          workspace: opts.workspace as string | undefined,
+          cwd: process.cwd(),
+        });
+        const records: UsageRecord[] = [];
+        const projects: Record<string, unknown> = {};
+        for (const projectDir of await findPl4nDirs(serverConfig.workspaces)) {
+          const sessions = await loadProjectUsage(new SessionManager(projectDir));
+          const projectRecords = sessions.flatMap(([, sessionRecords]) => sessionRecords);
+          records.push(...projectRecords);
+          projects[path.dirname(projectDir)] = {
+            sessions: sessions.length,
+            ...usageTotalsToDict(summarizeUsage(projectRecords)),
+          };
+        }
+        outputJson({ ...usageSummaryToDict(summarizeUsage(records)), projects }, pretty);
+        return;
+      }
+
+      const manager = new SessionManager(pl4nDir);
+      if (sessionId) {
+        await loadSessionOrExit(manager, sessionId, pretty);
+        const records = await manager.loadUsage(sessionId);
+        outputJson(
+          { session_id: sessionId, ...usageSummaryToDict(summarizeUsage(records)) },
+          pretty,
+        );
+        return;
+      }
+
+      const projectRecords = await loadProjectUsage(manager);
+      outputJson(
+        {
+          ...usageSummaryToDict(
+            summarizeUsage(projectRecords.flatMap(([, sessionRecords]) => sessionRecords)),
+          ),
+          sessions: Object.fromEntries(
+            projectRecords.map(([id, sessionRecords]) => [
+              id,
+              usageTotalsToDict(summarizeUsage(sessionRecords)),
+            ]),
+          ),
+        },
+        pretty,
+      );
+    });
+
   prog
     .command("diff")
     .describe("Show changes between turns")
@@ -745,6 +1166,313 @@ function buildProgram(argv = process.argv, depsOverrides?: Partial<CliDeps>) {
       );
     });
 
+  prog
+    .command("lint")
+    .describe("Check the current plan's structure against the plan format")
+    .option("--session", "Session ID")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
+      }
+
+      const state = await loadSessionOrExit(manager, sessionId, pretty);
+      const plan = await manager.loadPlan(sessionId);
+      if (!plan) {
+        exitWithError({ error: `Turn ${state.turn} has no plan file yet` }, pretty);
+      }
+
+      const issues = lintPlan(plan);
+      const result = {
+        session_id: sessionId,
+        turn: state.turn,
+        file: manager.getPaths(sessionId).turnFile(state.turn),
+        valid: issues.length === 0,
+        issues,
+      };
+      if (issues.length > 0) {
+        exitWithError(result, pretty);
+      }
+      outputJson(result, pretty);
+    });
+
+  prog
+    .command("graph")
+    .describe("Show the current plan's task dependency graph and execution order")
+    .option("--session", "Session ID")
+    .option("--format <format>", "Output format: json or dot", "json")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+      const format = String(opts.format ?? "json");
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
+      }
+      if (format !== "json" && format !== "dot") {
+        exitWithError({ error: `Unknown --format ${format} (expected json or dot)` }, pretty);
+      }
+
+      const state = await loadSessionOrExit(manager, sessionId, pretty);
+      const plan = await manager.loadPlan(sessionId);
+      if (!plan) {
+        exitWithError({ error: `Turn ${state.turn} has no plan file yet` }, pretty);
+      }
+
+      const graph = buildTaskGraph(plan);
+      if (format === "dot") {
+        process.stdout.write(taskGraphToDot(graph));
+        return;
+      }
+      outputJson({ session_id: sessionId, turn: state.turn, ...taskGraphToDict(graph) }, pretty);
+    });
+
+  prog
+    .command("implement")
+    .describe("Hand the approved plan to an agent, one task at a time")
+    .option("--session", "Session ID")
+    .option("--approve", "Accept the task waiting for approval and continue")
+    .option("--retry", "Run the task waiting for approval (or the failed task) again")
+    .option("--feedback <text>", "What the agent should change on --retry")
+    .option("--pause", "Stop a running implementation after its current task")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
+      }
+      if (opts.approve && opts.retry) {
+        exitWithError({ error: "Use either --approve or --retry" }, pretty);
+      }
+
+      await loadSessionOrExit(manager, sessionId, pretty);
+      // Uses the current config rather than the session snapshot, so the implementer can be
+      // chosen after planning
+      const implementer = new TaskImplementer(manager, await loadConfig(pretty, manager.pl4nDir));
+
+      if (opts.pause) {
+        try {
+          const progress = await implementer.pause(sessionId);
+          outputJson({ session_id: sessionId, ...implementationProgressToDict(progress) }, pretty);
+        } catch (error) {
+          exitWithError({ error: error instanceof Error ? error.message : String(error) }, pretty);
+        }
+        return;
+      }
+
+      let result: Awaited<ReturnType<TaskImplementer["run"]>>;
+      try {
+        result = await implementer.run(sessionId, {
+          approve: Boolean(opts.approve),
+          retry: Boolean(opts.retry),
+          feedback: opts.feedback === undefined ? undefined : String(opts.feedback),
+        });
+      } catch (error) {
+        exitWithError({ error: error instanceof Error ? error.message : String(error) }, pretty);
+      }
+
+      const { progress } = result;
+      const paths = manager.getPaths(sessionId);
+      const output: Record<string, unknown> = {
+        session_id: sessionId,
+        ...implementationProgressToDict(progress),
+        ran: result.ran,
+        remaining: result.remaining,
+      };
+      if (progress.currentTask !== undefined) {
+        output.report_file = paths.implementationTaskReport(progress.currentTask);
+        output.log_file = paths.implementationTaskLog(progress.currentTask);
+      }
+      const resume = `pl4n implement --session ${sessionId}`;
+      if (progress.status === ImplementationStatus.AwaitingApproval) {
+        output.hint = `Review Task ${progress.currentTask}, then run ${resume} --approve (or --retry --feedback "...")`;
+      } else if (progress.status === ImplementationStatus.Paused) {
+        output.hint = `Run ${resume} to resume`;
+      } else if (progress.status === ImplementationStatus.Failed) {
+        exitWithError({ ...output, hint: `Run ${resume} to retry the task` }, pretty);
+      } else {
+        output.hint = "All tasks are implemented and checked off in PLAN.md";
+      }
+      outputJson(output, pretty);
+    });
+
+  prog
+    .command("export")
+    .describe("Export the approved plan's tasks as issues, or the whole session as an archive")
+    .option("--session", "Session ID")
+    .option(
+      "--format <format>",
+      "Export format: issues or archive (default: archive when --out ends in .tar.gz, else issues)",
+    )
+    .option(
+      "--out <path>",
+      "Directory for issues (default: the session's export directory), or archive file (default: <session>.tar.gz)",
+    )
+    .option("--create", "Run the generated script to create the issues with gh")
+    .option("--logs", "Include agent and implementation logs in the archive")
+    .action(async (opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+      const sessionId = opts.session as string | undefined;
+      const format = String(
+        opts.format ?? (/\.(tar\.gz|tgz)$/.test(String(opts.out ?? "")) ? "archive" : "issues"),
+      );
+
+      if (!sessionId) {
+        exitWithError({ error: "Missing --session" }, pretty);
+      }
+      if (format !== "issues" && format !== "archive") {
+        exitWithError({ error: `Unknown --format ${format} (expected issues or archive)` }, pretty);
+      }
+
+      if (format === "archive") {
+        await loadSessionOrExit(manager, sessionId, pretty);
+        let exported: { archive: Uint8Array; files: string[] };
+        try {
+          exported = await exportSessionArchive(manager, sessionId, { logs: Boolean(opts.logs) });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          exitWithError({ error: message }, pretty);
+        }
+        const file = path.resolve(String(opts.out ?? `${sessionId}.tar.gz`));
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, exported.archive);
+        outputJson(
+          {
+            session_id: sessionId,
+            format,
+            file,
+            files: exported.files.length,
+            logs: Boolean(opts.logs),
+            hint: `Open it elsewhere with: pl4n import ${path.basename(file)}`,
+          },
+          pretty,
+        );
+        return;
+      }
+
+      const state = await loadSessionOrExit(manager, sessionId, pretty);
+      if (state.phase !== Phase.Approved) {
+        exitWithError(
+          {
+            error: `Cannot export from phase ${state.phase}`,
+            hint: "Approve the plan first: pl4n approve --session <id>",
+          },
+          pretty,
+        );
+      }
+
+      const paths = manager.getPaths(sessionId);
+      const planLink = path.join(paths.root, "PLAN.md");
+      let content: string;
+      try {
+        content = await fs.readFile(planLink, "utf8");
+      } catch {
+        exitWithError({ error: `Approved plan not found: ${planLink}` }, pretty);
+      }
+
+      const issues = planToIssues(content, sessionId);
+      if (issues.length === 0) {
+        exitWithError({ error: "The approved plan has no tasks to export" }, pretty);
+      }
+
+      const outDir = opts.out ? path.resolve(String(opts.out)) : paths.exports;
+      const jsonFile = path.join(outDir, "issues.json");
+      const scriptFile = path.join(outDir, "create-issues.sh");
+      await fs.mkdir(outDir, { recursive: true });
+      await fs.writeFile(
+        jsonFile,
+        `${JSON.stringify({ session_id: sessionId, source: planLink, issues: issues.map(planIssueToDict) }, null, 2)}\n`,
+        "utf8",
+      );
+      await fs.writeFile(scriptFile, planIssuesToScript(issues), "utf8");
+      await fs.chmod(scriptFile, 0o755);
+
+      const result: Record<string, unknown> = {
+        session_id: sessionId,
+        format,
+        issues: issues.length,
+        json_path: jsonFile,
+        script_path: scriptFile,
+      };
+      if (!opts.create) {
+        outputJson(
+          { ...result, hint: `Review, then run ${scriptFile} to create the issues` },
+          pretty,
+        );
+        return;
+      }
+
+      // The script uses gh's current repository, i.e. the project this .pl4n directory belongs to
+      const proc = Bun.spawn({
+        cmd: ["bash", scriptFile],
+        cwd: path.resolve(manager.pl4nDir, ".."),
+        env: process.env,
+        stdin: "ignore",
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      const [stdout, stderr, exitCode] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+        proc.exited,
+      ]);
+      const created = Object.fromEntries(
+        Array.from(stdout.matchAll(/^Task (\d+): (\S+)$/gm), (match) => [match[1], match[2]]),
+      );
+      if (exitCode !== 0) {
+        exitWithError(
+          { ...result, error: "Creating issues failed", created, stderr: stderr.trim() },
+          pretty,
+        );
+      }
+      outputJson({ ...result, created }, pretty);
+    });
+
+  prog
+    .command("import <file>")
+    .describe("Open a session exported with export --format archive")
+    .action(async (file: string, opts: Record<string, unknown>) => {
+      const manager = new SessionManager(resolvePl4nDir(opts, globalOptions.pl4nDir));
+      const pretty = resolvePretty(opts, globalOptions.pretty);
+
+      let archive: Uint8Array;
+      try {
+        archive = new Uint8Array(await fs.readFile(path.resolve(file)));
+      } catch {
+        exitWithError({ error: `Archive not found: ${file}` }, pretty);
+      }
+      let imported: ImportResult;
+      try {
+        imported = await importSessionArchive(manager, archive);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        exitWithError({ error: message }, pretty);
+      }
+
+      const state = await loadSessionOrExit(manager, imported.sessionId, pretty);
+      const result: Record<string, unknown> = {
+        session_id: state.sessionId,
+        original_session_id: imported.originalId,
+        renamed: imported.renamed,
+        turn: state.turn,
+        phase: state.phase,
+        file: manager.getPaths(state.sessionId).turnFile(state.turn),
+        hint:
+          state.phase === Phase.Approved
+            ? "The plan is approved; see PLAN.md in the session directory"
+            : "User should edit file, then call continue or approve",
+      };
+      await attachEditUrl(result, state.sessionId, manager, deps);
+      outputJson(result, pretty);
+    });
+
   return { prog, argv: globalOptions.argv };
 }
 
@@ -48,3 +48,22 @@ export const DEFAULT_CLAUDE_ALLOWED_TOOLS = [
   "Bash(sed:*)",
   "Bash(awk:*)",
 ];
+
+/** Output patterns (case-insensitive regexes) treated as transient when an agent has a retry block */
+export const DEFAULT_RETRY_PATTERNS = [
+  "rate.?limit",
+  "\\b429\\b",
+  "overloaded",
+  "\\b50[234]\\b",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "socket hang up",
+  "network error",
+];
+
+/** Criteria the judge scores each plan on when its config has no rubric */
+export const DEFAULT_JUDGE_RUBRIC: Record<string, string> = {
+  completeness: "Covers every part of the task, with concrete tasks and no unresolved gaps",
+  file_accuracy: "Referenced files, functions, and APIs exist and match how the codebase works",
+  risk_coverage: "Identifies the real risks and edge cases and gives workable mitigations",
+};
@@ -0,0 +1,284 @@
+/**
+ * Implementation handoff - walks an approved plan's tasks with one agent, in dependency order
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { AgentAdapter } from "./adapters/base";
+import { createSyncAdapter } from "./adapters/index";
+import { CodexCLISyncAdapter } from "./adapters/codex";
+import {
+  type AgentUsage,
+  ImplementApproval,
+  type ImplementConfig,
+  type ImplementationProgress,
+  ImplementationStatus,
+  Phase,
+  type Pl4nConfig,
+  RunStage,
+} from "./models";
+import { buildTaskGraph, checkOffTask, PlanDocument } from "./plan";
+import { getImplementPrompt } from "./prompts";
+import type { SessionManager } from "./session";
+import { isProcessAlive } from "./utils/process";
+
+export type ImplementOptions = {
+  /** Accept the task waiting for approval and move on to the next one */
+  approve?: boolean;
+  /** Run the task waiting for approval (or the failed task) again */
+  retry?: boolean;
+  /** What the agent should do differently on the rerun */
+  feedback?: string;
+};
+
+export type ImplementResult = {
+  progress: ImplementationProgress;
+  /** Tasks this call ran, in order */
+  ran: number[];
+  /** Tasks not checked off yet, in execution order */
+  remaining: number[];
+  /** The agent's report for the last task it ran */
+  report?: string;
+};
+
+// Last non-empty output line, which is where CLIs usually put the error
+function summarizeFailure(output: string): string {
+  const lines = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return (lines[lines.length - 1] ?? "Agent failed without output").slice(0, 500);
+}
+
+// Every task of the plan in dependency order
+function executionOrder(plan: PlanDocument): number[] {
+  const graph = buildTaskGraph(plan);
+  if (graph.cycles.length > 0 || graph.dangling.length > 0) {
+    throw new Error("The plan's task dependencies have cycles or missing tasks (see pl4n graph)");
+  }
+  return graph.order;
+}
+
+export class TaskImplementer {
+  manager: SessionManager;
+  config: Pl4nConfig;
+  agent: ImplementConfig;
+  adapter: AgentAdapter;
+
+  constructor(manager: SessionManager, config: Pl4nConfig) {
+    this.manager = manager;
+    this.config = config;
+    this.agent = config.implement ?? { ...config.synthesizer, approval: ImplementApproval.Task };
+    this.adapter = createSyncAdapter(this.agent) ?? new CodexCLISyncAdapter(this.agent);
+  }
+
+  /**
+   * Run tasks until one needs approval, one fails, a pause is requested, or the plan is done.
+   * Calling it again resumes where the last call stopped.
+   */
+  async run(sessionId: string, options: ImplementOptions = {}): Promise<ImplementResult> {
+    const state = await this.manager.loadSession(sessionId);
+    if (!state) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (state.phase !== Phase.Approved) {
+      throw new Error(`Cannot implement from phase ${state.phase}`);
+    }
+
+    const paths = this.manager.getPaths(sessionId);
+    const planFile = path.join(paths.root, "PLAN.md");
+    let plan = await this.readPlan(planFile);
+    executionOrder(plan);
+
+    const progress: ImplementationProgress = (await this.manager.loadImplementation(sessionId)) ?? {
+      status: ImplementationStatus.Paused,
+      completed: [],
+      updatedAt: new Date(),
+    };
+    if (
+      progress.status === ImplementationStatus.Running &&
+      progress.runnerPid !== undefined &&
+      progress.runnerPid !== process.pid &&
+      isProcessAlive(progress.runnerPid)
+    ) {
+      throw new Error(`pl4n implement is already running (pid ${progress.runnerPid})`);
+    }
+
+    const awaiting = progress.status === ImplementationStatus.AwaitingApproval;
+    if (options.approve && !awaiting) {
+      throw new Error("No task is waiting for approval");
+    }
+    if (options.retry && !awaiting && progress.status !== ImplementationStatus.Failed) {
+      throw new Error("No task is waiting for approval or has failed");
+    }
+
+    const result: ImplementResult = { progress, ran: [], remaining: [] };
+    // From the latest read of PLAN.md, so tasks added while implementing are scheduled too
+    const remaining = () =>
+      executionOrder(plan).filter(
+        (id) =>
+          !progress.completed.includes(id) && !plan.tasks.find((task) => task.id === id)?.done,
+      );
+
+    if (awaiting && progress.currentTask !== undefined) {
+      if (options.approve) {
+        plan = await this.checkOff(planFile, progress, progress.currentTask);
+        progress.currentTask = undefined;
+      } else if (!options.retry) {
+        // Nothing to do until the user decides; report where things stand
+        result.remaining = remaining();
+        return result;
+      }
+    }
+
+    let feedback = options.feedback;
+    for (;;) {
+      const taskId = progress.currentTask ?? remaining()[0];
+      if (taskId === undefined) {
+        progress.status = ImplementationStatus.Done;
+        progress.runnerPid = undefined;
+        progress.error = undefined;
+        break;
+      }
+      // `pl4n implement --pause` from another shell takes effect between tasks
+      if (result.ran.length > 0) {
+        const latest = await this.manager.loadImplementation(sessionId);
+        if (latest?.status === ImplementationStatus.Paused) {
+          progress.status = ImplementationStatus.Paused;
+          progress.runnerPid = undefined;
+          break;
+        }
+      }
+
+      const task = plan.tasks.find((entry) => entry.id === taskId);
+      if (!task) {
+        // Removed from PLAN.md while it waited for approval, was paused or failed
+        progress.currentTask = undefined;
+        continue;
+      }
+      progress.status = ImplementationStatus.Running;
+      progress.currentTask = taskId;
+      progress.runnerPid = process.pid;
+      progress.error = undefined;
+      await this.manager.saveImplementation(sessionId, progress);
+
+      const completed = plan.tasks.filter(
+        (entry) => entry.done || progress.completed.includes(entry.id),
+      );
+      const reportFile = paths.implementationTaskReport(taskId);
+      const [success, output] = await this.runTask(sessionId, state.turn, {
+        prompt: getImplementPrompt({
+          task,
+          plan: plan.serialize(),
+          planFile,
+          reportFile,
+          completed,
+          feedback,
+        }),
+        reportFile,
+        logFile: paths.implementationTaskLog(taskId),
+        sessionFile: paths.implementationSessionFile(),
+      });
+      result.ran.push(taskId);
+      feedback = undefined;
+
+      if (!success) {
+        progress.status = ImplementationStatus.Failed;
+        progress.runnerPid = undefined;
+        progress.error = `Task ${taskId}: ${summarizeFailure(output)}`;
+        break;
+      }
+      result.report = output;
+
+      if (this.agent.approval === ImplementApproval.Task) {
+        progress.status = ImplementationStatus.AwaitingApproval;
+        progress.runnerPid = undefined;
+        break;
+      }
+      plan = await this.checkOff(planFile, progress, taskId);
+      progress.currentTask = undefined;
+    }
+
+    await this.manager.saveImplementation(sessionId, progress);
+    result.remaining = remaining();
+    return result;
+  }
+
+  /**
+   * Ask a running `pl4n implement` to stop after its current task. A stopped one stays stopped.
+   */
+  async pause(sessionId: string): Promise<ImplementationProgress> {
+    const progress = await this.manager.loadImplementation(sessionId);
+    if (!progress) {
+      throw new Error("pl4n implement has not run for this session");
+    }
+    if (progress.status === ImplementationStatus.Running) {
+      progress.status = ImplementationStatus.Paused;
+      await this.manager.saveImplementation(sessionId, progress);
+    }
+    return progress;
+  }
+
+  private async readPlan(planFile: string): Promise<PlanDocument> {
+    try {
+      return PlanDocument.parse(await fs.readFile(planFile, "utf8"));
+    } catch {
+      throw new Error(`Approved plan not found: ${planFile}`);
+    }
+  }
+
+  // Re-reads PLAN.md so edits made while the agent worked are kept
+  private async checkOff(
+    planFile: string,
+    progress: ImplementationProgress,
+    taskId: number,
+  ): Promise<PlanDocument> {
+    const plan = await this.readPlan(planFile);
+    const task = plan.tasks.find((entry) => entry.id === taskId);
+    if (task && !task.done) {
+      checkOffTask(task);
+      await fs.writeFile(planFile, plan.serialize(), "utf8");
+    }
+    if (!progress.completed.includes(taskId)) {
+      progress.completed.push(taskId);
+    }
+    return plan;
+  }
+
+  private async runTask(
+    sessionId: string,
+    turn: number,
+    params: { prompt: string; reportFile: string; logFile: string; sessionFile: string },
+  ): Promise<[boolean, string]> {
+    await fs.mkdir(path.dirname(params.logFile), { recursive: true });
+    await fs.rm(params.reportFile, { force: true });
+    const timeout = this.agent.timeout;
+    let usage: AgentUsage | undefined;
+    const startedAt = new Date();
+    const [success, output] = await this.adapter.runSync({
+      worktree: path.resolve(this.manager.pl4nDir, ".."),
+      prompt: params.prompt,
+      outputFile: params.reportFile,
+      logFile: params.logFile,
+      sessionFile: params.sessionFile,
+      appendLog: true,
+      signal: timeout ? AbortSignal.timeout(timeout * 1000) : undefined,
+      stage: RunStage.Implement,
+      turn,
+      onUsage: (reported) => {
+        usage = reported;
+      },
+    });
+    await this.manager.appendUsage(sessionId, {
+      agentId: this.agent.id,
+      model: this.agent.model,
+      stage: RunStage.Implement,
+      turn,
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      usage,
+    });
+    return [success, output];
+  }
+}
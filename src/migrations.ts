@@ -0,0 +1,140 @@
+/**
+ * Session schema migrations - upgrade meta.yaml and state.yaml written by older pl4n versions
+ */
+
+import { isRecord } from "./utils/types";
+
+/** Layout of the session files this version of pl4n writes */
+export const SCHEMA_VERSION = 3;
+
+/** meta.yaml as written at the current schema version */
+export type MetaDocument = {
+  session_id: string;
+  task: string;
+  created_at: string;
+  base_commit?: string;
+  config?: Record<string, unknown>;
+};
+
+/** state.yaml as written at the current schema version */
+export type StateDocument = {
+  schema_version: number;
+  revision: number;
+  turn: number;
+  phase: string;
+  updated_at: string;
+  archived: boolean;
+  session_token?: string;
+  agents: Record<string, string>;
+  agent_plan_ids: Record<string, string>;
+  agent_errors: Record<string, string>;
+  agent_attempts: Record<string, number>;
+  pipeline?: string[];
+  pipeline_step?: number;
+  checkpoints: Record<string, Record<string, string>>;
+  runner_pid?: number;
+  agent_pids: Record<string, number>;
+  approved_commit?: string;
+  parent_session?: string;
+  parent_turn?: number;
+  turn_sessions: Record<string, Record<string, string>>;
+  stray_edits: Record<string, string[]>;
+  lint_issues: Record<string, string[]>;
+};
+
+/** Both session files, parsed but not yet upgraded */
+export type SessionDocuments = {
+  meta: Record<string, unknown>;
+  state: Record<string, unknown>;
+};
+
+export type SessionMigration = {
+  /** Version the migration upgrades from; it leaves the documents at `from + 1` */
+  from: number;
+  description: string;
+  migrate: (documents: SessionDocuments) => void;
+};
+
+export type MigrationResult = {
+  from: number;
+  to: number;
+  /** Descriptions of the migrations that ran, in order */
+  applied: string[];
+};
+
+// Maps that older layouts left out while empty
+const STATE_MAPS = [
+  "agents",
+  "agent_plan_ids",
+  "agent_errors",
+  "agent_attempts",
+  "checkpoints",
+  "agent_pids",
+  "turn_sessions",
+  "stray_edits",
+  "lint_issues",
+] as const;
+
+/**
+ * Every schema change, oldest first. Files without `schema_version` predate versioning and start
+ * at version 1. Loading applies migrations in memory on every read until the upgrade is saved, so
+ * they must give the same result each time.
+ */
+export const MIGRATIONS: SessionMigration[] = [
+  {
+    // Version 1: the original layout, before sessions could be archived or opened in the web editor.
+    // The session token is left to SessionManager.ensureSessionToken, which saves the one it makes.
+    from: 1,
+    description: "Add the archived flag",
+    migrate: ({ state }) => {
+      state.archived ??= false;
+    },
+  },
+  {
+    // Version 2: maps were only written when non-empty and revisions were optional
+    from: 2,
+    description: "Write every state map and the save revision",
+    migrate: ({ state }) => {
+      for (const key of STATE_MAPS) {
+        if (!isRecord(state[key])) {
+          state[key] = {};
+        }
+      }
+      state.revision ??= 0;
+    },
+  },
+];
+
+/**
+ * Schema version recorded in state.yaml. Throws for versions newer than this pl4n understands.
+ */
+export function readSchemaVersion(state: Record<string, unknown>): number {
+  const version = state.schema_version ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid schema_version: ${String(version)}`);
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Session schema version ${version} is newer than this pl4n supports (${SCHEMA_VERSION}); upgrade pl4n to open it`,
+    );
+  }
+  return version;
+}
+
+/**
+ * Upgrade parsed session files to the current schema version in place.
+ */
+export function migrateSession(documents: SessionDocuments): MigrationResult {
+  const from = readSchemaVersion(documents.state);
+  const applied: string[] = [];
+  for (let version = from; version < SCHEMA_VERSION; version += 1) {
+    const migration = MIGRATIONS.find((entry) => entry.from === version);
+    if (!migration) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    migration.migrate(documents);
+    applied.push(migration.description);
+  }
+  documents.state.schema_version = SCHEMA_VERSION;
+  return { from, to: SCHEMA_VERSION, applied };
+}
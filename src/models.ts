@@ -5,15 +5,69 @@
  * New code should import directly from "./models/".
  */
 
-export { Phase, AgentStatus } from "./models/enums";
+export {
+  Phase,
+  AgentStatus,
+  PipelineStage,
+  ReviewTopology,
+  RunStage,
+  Isolation,
+  ImplementApproval,
+  ImplementationStatus,
+  TaskStatus,
+  CommandOutput,
+  STAGE_PHASES,
+  DEFAULT_PIPELINE,
+} from "./models/enums";
 export type {
   ClaudeConfig,
   CodexConfig,
+  GeminiConfig,
+  OpenAiHttpConfig,
+  MockConfig,
+  MockFailure,
+  CommandConfig,
+  RetryConfig,
+  ReviewConfig,
   AgentConfig,
+  JudgeConfig,
+  LintConfig,
+  ImplementConfig,
+  ImplementationProgress,
+  TaskTracking,
+  TaskProgress,
   AgentStatusMap,
   AgentPlanIdMap,
   AgentErrorMap,
+  TurnCheckpointMap,
+  TurnSessionMap,
+  AgentPidMap,
+  StrayEditMap,
+  LintIssueMap,
+  AgentAttemptMap,
+  PlanScore,
+  TurnScores,
+  AgentUsage,
+  UsageRecord,
+  UsageTotals,
+  UsageSummary,
   Pl4nConfigParams,
 } from "./models/types";
-export { SessionState, SessionPaths } from "./models/session";
+export {
+  SessionState,
+  SessionPaths,
+  turnScoresToDict,
+  turnScoresFromDict,
+  averageScores,
+  usageRecordToDict,
+  usageRecordFromDict,
+  summarizeUsage,
+  usageTotalsToDict,
+  usageSummaryToDict,
+  implementationProgressToDict,
+  implementationProgressFromDict,
+  taskProgressToDict,
+  taskProgressFromDict,
+  summarizeTaskProgress,
+} from "./models/session";
 export { Pl4nConfig } from "./models/config";
@@ -6,9 +6,37 @@ import { promises as fs } from "fs";
 import path from "path";
 import { load as loadYaml } from "js-yaml";
 
-import { DEFAULT_CLAUDE_ALLOWED_TOOLS } from "../defaults";
+import {
+  DEFAULT_CLAUDE_ALLOWED_TOOLS,
+  DEFAULT_JUDGE_RUBRIC,
+  DEFAULT_RETRY_PATTERNS,
+} from "../defaults";
 import { isRecord } from "../utils/types";
-import type { AgentConfig, ClaudeConfig, CodexConfig, Pl4nConfigParams } from "./types";
+import {
+  CommandOutput,
+  DEFAULT_PIPELINE,
+  ImplementApproval,
+  Isolation,
+  PipelineStage,
+  ReviewTopology,
+  RunStage,
+} from "./enums";
+import type {
+  AgentConfig,
+  ClaudeConfig,
+  CodexConfig,
+  CommandConfig,
+  GeminiConfig,
+  ImplementConfig,
+  JudgeConfig,
+  LintConfig,
+  MockConfig,
+  MockFailure,
+  OpenAiHttpConfig,
+  Pl4nConfigParams,
+  RetryConfig,
+  ReviewConfig,
+} from "./types";
 
 const DEFAULT_CLAUDE_CONFIG: ClaudeConfig = {
   allowedTools: DEFAULT_CLAUDE_ALLOWED_TOOLS,
@@ -19,6 +47,25 @@ const DEFAULT_CODEX_CONFIG: CodexConfig = {
   search: true,
 };
 
+// Headless Gemini can't prompt for approval, so edits (writing the plan file) must be pre-approved
+const DEFAULT_GEMINI_CONFIG: GeminiConfig = {
+  approvalMode: "auto_edit",
+};
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_BACKOFF = 5;
+const DEFAULT_RETRY_MULTIPLIER = 2;
+
+const PIPELINE_STAGES = new Set<string>(Object.values(PipelineStage));
+const REVIEW_TOPOLOGIES = new Set<string>(Object.values(ReviewTopology));
+const COMMAND_OUTPUTS = new Set<string>(Object.values(CommandOutput));
+const COMMAND_PLACEHOLDERS = new Set(["prompt", "model", "thinking", "worktree", "output_file"]);
+const RUN_STAGES = new Set<string>(Object.values(RunStage));
+const ISOLATION_MODES = new Set<string>(Object.values(Isolation));
+const IMPLEMENT_APPROVALS = new Set<string>(Object.values(ImplementApproval));
+const DEFAULT_MOCK_EXIT_CODE = 1;
+const DEFAULT_MOCK_FAILURE_MESSAGE = "Error: mock failure";
+const GEMINI_APPROVAL_MODES = new Set(["default", "auto_edit", "yolo"]);
 const CODEX_REASONING_EFFORTS = new Set(["none", "minimal", "low", "medium", "high", "xhigh"]);
 let warnedCodexXmax = false;
 
@@ -110,6 +157,207 @@ function optionalBoolean(value: unknown, field: string): boolean | undefined {
   return value;
 }
 
+function optionalPositiveNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${field} must be a positive number`);
+  }
+  return value;
+}
+
+function parseRetryConfig(value: unknown, field: string): RetryConfig {
+  if (!isRecord(value)) {
+    throw new Error(`${field} must be a mapping`);
+  }
+  const maxAttemptsValue = value.max_attempts ?? value.maxAttempts;
+  const maxAttempts = maxAttemptsValue ?? DEFAULT_RETRY_ATTEMPTS;
+  if (typeof maxAttempts !== "number" || !Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error(`${field}.max_attempts must be a positive integer`);
+  }
+  const backoff = value.backoff ?? DEFAULT_RETRY_BACKOFF;
+  if (typeof backoff !== "number" || !Number.isFinite(backoff) || backoff < 0) {
+    throw new Error(`${field}.backoff must be a non-negative number`);
+  }
+  const multiplier = value.multiplier ?? DEFAULT_RETRY_MULTIPLIER;
+  if (typeof multiplier !== "number" || !Number.isFinite(multiplier) || multiplier < 1) {
+    throw new Error(`${field}.multiplier must be a number of at least 1`);
+  }
+  const patterns =
+    value.patterns === undefined
+      ? [...DEFAULT_RETRY_PATTERNS]
+      : parseStringList(value.patterns, `${field}.patterns`);
+  for (const [index, pattern] of patterns.entries()) {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      throw new Error(`${field}.patterns[${index}] must be a valid regular expression`);
+    }
+  }
+  return { maxAttempts, backoff, multiplier, patterns };
+}
+
+function checkPlaceholders(entries: string[], field: string, allowed: Set<string>): void {
+  for (const [index, entry] of entries.entries()) {
+    for (const [, name] of entry.matchAll(/\{(\w+)\}/g)) {
+      if (!allowed.has(name)) {
+        throw new Error(`${field}[${index}] uses unknown placeholder {${name}}`);
+      }
+    }
+  }
+}
+
+function parseCommandConfig(value: unknown, field: string): CommandConfig {
+  if (!isRecord(value)) {
+    throw new Error(`${field} must be a mapping`);
+  }
+  const argv = parseStringList(value.argv, `${field}.argv`);
+  checkPlaceholders(
+    argv.filter((entry) => entry !== "{resume}"),
+    `${field}.argv`,
+    COMMAND_PLACEHOLDERS,
+  );
+
+  const output = optionalString(value.output, `${field}.output`)?.trim() ?? CommandOutput.Text;
+  if (!COMMAND_OUTPUTS.has(output)) {
+    throw new Error(`${field}.output must be one of ${[...COMMAND_OUTPUTS].join(", ")}`);
+  }
+  const outputPath = optionalString(value.output_path, `${field}.output_path`);
+  const sessionIdPath = optionalString(value.session_id_path, `${field}.session_id_path`);
+  if (output === CommandOutput.Text) {
+    if (outputPath !== undefined) {
+      throw new Error(`${field}.output_path is only valid for json and jsonl output`);
+    }
+    if (sessionIdPath !== undefined) {
+      throw new Error(`${field}.session_id_path is only valid for json and jsonl output`);
+    }
+  } else if (outputPath === undefined) {
+    throw new Error(`${field}.output_path must be set for ${output} output`);
+  }
+
+  const sessionIdPattern = optionalString(value.session_id_pattern, `${field}.session_id_pattern`);
+  if (sessionIdPattern !== undefined) {
+    try {
+      new RegExp(sessionIdPattern);
+    } catch {
+      throw new Error(`${field}.session_id_pattern must be a valid regular expression`);
+    }
+  }
+
+  const resumeArgv =
+    value.resume_argv === undefined
+      ? undefined
+      : parseStringList(value.resume_argv, `${field}.resume_argv`);
+  if (resumeArgv) {
+    checkPlaceholders(
+      resumeArgv,
+      `${field}.resume_argv`,
+      new Set([...COMMAND_PLACEHOLDERS, "session_id"]),
+    );
+    if (!resumeArgv.some((entry) => entry.includes("{session_id}"))) {
+      throw new Error(`${field}.resume_argv must use {session_id}`);
+    }
+    if (sessionIdPath === undefined && sessionIdPattern === undefined) {
+      throw new Error(`${field}.resume_argv requires session_id_path or session_id_pattern`);
+    }
+  }
+
+  return {
+    argv,
+    resumeArgv,
+    output: output as CommandOutput,
+    outputPath,
+    sessionIdPath,
+    sessionIdPattern,
+  };
+}
+
+function parseOpenAiHttpConfig(value: unknown, field: string): OpenAiHttpConfig {
+  if (!isRecord(value)) {
+    throw new Error(`${field} must be a mapping`);
+  }
+  const baseUrl = requireString(value.base_url ?? value.baseUrl, `${field}.base_url`).trim();
+  let protocol: string;
+  try {
+    protocol = new URL(baseUrl).protocol;
+  } catch {
+    protocol = "";
+  }
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new Error(`${field}.base_url must be an http(s) URL`);
+  }
+  const temperature = value.temperature;
+  if (
+    temperature !== undefined &&
+    (typeof temperature !== "number" || !Number.isFinite(temperature) || temperature < 0)
+  ) {
+    throw new Error(`${field}.temperature must be a non-negative number`);
+  }
+  return {
+    baseUrl,
+    apiKeyEnv: optionalString(value.api_key_env ?? value.apiKeyEnv, `${field}.api_key_env`),
+    temperature,
+  };
+}
+
+function optionalPositiveInteger(value: unknown, field: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${field} must be a positive integer`);
+  }
+  return value;
+}
+
+function parseMockFailure(value: unknown, field: string): MockFailure {
+  if (!isRecord(value)) {
+    throw new Error(`${field} must be a mapping`);
+  }
+  const stage = optionalString(value.stage, `${field}.stage`)?.trim();
+  if (stage !== undefined && !RUN_STAGES.has(stage)) {
+    throw new Error(`${field}.stage must be one of ${[...RUN_STAGES].join(", ")}`);
+  }
+  const exitCode = value.exit_code ?? value.exitCode ?? DEFAULT_MOCK_EXIT_CODE;
+  if (
+    typeof exitCode !== "number" ||
+    !Number.isInteger(exitCode) ||
+    exitCode < 1 ||
+    exitCode > 255
+  ) {
+    throw new Error(`${field}.exit_code must be an integer from 1 to 255`);
+  }
+  return {
+    stage: stage as RunStage | undefined,
+    turn: optionalPositiveInteger(value.turn, `${field}.turn`),
+    attempts: optionalPositiveInteger(value.attempts, `${field}.attempts`),
+    exitCode,
+    message: optionalString(value.message, `${field}.message`) ?? DEFAULT_MOCK_FAILURE_MESSAGE,
+  };
+}
+
+function parseMockConfig(value: unknown, field: string): MockConfig {
+  if (!isRecord(value)) {
+    throw new Error(`${field} must be a mapping`);
+  }
+  const latency = value.latency ?? 0;
+  if (typeof latency !== "number" || !Number.isFinite(latency) || latency < 0) {
+    throw new Error(`${field}.latency must be a non-negative number`);
+  }
+  const failures = value.failures ?? [];
+  if (!Array.isArray(failures)) {
+    throw new Error(`${field}.failures must be a list`);
+  }
+  return {
+    fixtures: optionalString(value.fixtures, `${field}.fixtures`),
+    latency,
+    failures: failures.map((entry, index) =>
+      parseMockFailure(entry, `${field}.failures[${index}]`),
+    ),
+  };
+}
+
 function parseStringList(value: unknown, field: string): string[] {
   if (!Array.isArray(value)) {
     throw new Error(`${field} must be a list`);
@@ -142,6 +390,18 @@ function mergeClaudeConfig(base?: ClaudeConfig, override?: ClaudeConfig): Claude
   };
 }
 
+function mergeGeminiConfig(base?: GeminiConfig, override?: GeminiConfig): GeminiConfig | undefined {
+  if (!base && !override) {
+    return undefined;
+  }
+  const addDir = override?.addDir ?? base?.addDir;
+  return {
+    approvalMode: override?.approvalMode ?? base?.approvalMode,
+    sandbox: override?.sandbox ?? base?.sandbox,
+    addDir: addDir ? [...addDir] : undefined,
+  };
+}
+
 function mergeCodexConfig(base?: CodexConfig, override?: CodexConfig): CodexConfig | undefined {
   if (!base && !override) {
     return undefined;
@@ -177,6 +437,28 @@ function parseClaudeConfig(value: unknown, field: string): ClaudeConfig {
   };
 }
 
+function parseGeminiConfig(value: unknown, field: string): GeminiConfig {
+  if (!isRecord(value)) {
+    throw new Error(`${field} must be a mapping`);
+  }
+  const approvalMode = optionalString(
+    value.approval_mode ?? value.approvalMode,
+    `${field}.approval_mode`,
+  )?.trim();
+  if (approvalMode !== undefined && !GEMINI_APPROVAL_MODES.has(approvalMode)) {
+    throw new Error(
+      `${field}.approval_mode must be one of ${[...GEMINI_APPROVAL_MODES].join(", ")}`,
+    );
+  }
+  const addDirValue = value.add_dir ?? value.addDir;
+  return {
+    approvalMode,
+    sandbox: optionalBoolean(value.sandbox, `${field}.sandbox`),
+    addDir:
+      addDirValue === undefined ? undefined : parseStringList(addDirValue, `${field}.add_dir`),
+  };
+}
+
 function parseCodexConfig(value: unknown, field: string): CodexConfig {
   if (!isRecord(value)) {
     throw new Error(`${field} must be a mapping`);
@@ -229,8 +511,13 @@ function normalizeCodexThinking(value: string | undefined, field: string): strin
 type AgentDefaults = {
   claude?: ClaudeConfig;
   codex?: CodexConfig;
+  gemini?: GeminiConfig;
 };
 
+const VENDOR_CONFIG_KEYS = ["claude", "codex", "gemini"];
+// Agent types whose same-named config block is required and only valid for that type
+const REQUIRED_CONFIG_TYPES = ["command", "openai_http"];
+
 function parseAgentConfig(value: unknown, field: string, defaults: AgentDefaults): AgentConfig {
   if (!isRecord(value)) {
     throw new Error(`${field} must be a mapping`);
@@ -238,25 +525,49 @@ function parseAgentConfig(value: unknown, field: string, defaults: AgentDefaults
   const type = requireString(value.type, `${field}.type`);
   const claudeValue = value.claude;
   const codexValue = value.codex;
+  const geminiValue = value.gemini;
+  const commandValue = value.command;
+  const openaiHttpValue = value.openai_http;
+  const mockValue = value.mock;
   let thinking = optionalString(value.thinking, `${field}.thinking`);
   let claudeConfig =
     claudeValue === undefined ? undefined : parseClaudeConfig(claudeValue, `${field}.claude`);
   let codexConfig =
     codexValue === undefined ? undefined : parseCodexConfig(codexValue, `${field}.codex`);
+  let geminiConfig =
+    geminiValue === undefined ? undefined : parseGeminiConfig(geminiValue, `${field}.gemini`);
 
-  if (type === "claude") {
-    if (codexValue !== undefined) {
-      throw new Error(`${field}.codex is not valid for claude agents`);
+  const vendorKeys = VENDOR_CONFIG_KEYS.filter((key) => value[key] !== undefined);
+  if (VENDOR_CONFIG_KEYS.includes(type)) {
+    const invalid = vendorKeys.find((key) => key !== type);
+    if (invalid) {
+      throw new Error(`${field}.${invalid} is not valid for ${type} agents`);
     }
+  } else if (vendorKeys.length > 0) {
+    throw new Error(`${field} cannot include claude/codex/gemini config for type ${type}`);
+  }
+
+  if (type === "claude") {
     claudeConfig = mergeClaudeConfig(defaults.claude, claudeConfig);
   } else if (type === "codex") {
-    if (claudeValue !== undefined) {
-      throw new Error(`${field}.claude is not valid for codex agents`);
-    }
     codexConfig = mergeCodexConfig(defaults.codex, codexConfig);
     thinking = normalizeCodexThinking(thinking, `${field}.thinking`);
-  } else if (claudeValue !== undefined || codexValue !== undefined) {
-    throw new Error(`${field} cannot include claude/codex config for type ${type}`);
+  } else if (type === "gemini") {
+    geminiConfig = mergeGeminiConfig(defaults.gemini, geminiConfig);
+  }
+  if ((type === "gemini" || type === "openai_http") && thinking !== undefined) {
+    throw new Error(`${field}.thinking is not supported for ${type} agents`);
+  }
+  for (const key of REQUIRED_CONFIG_TYPES) {
+    if (type === key && value[key] === undefined) {
+      throw new Error(`${field}.${key} must be set for ${key} agents`);
+    }
+    if (type !== key && value[key] !== undefined) {
+      throw new Error(`${field}.${key} is only valid for ${key} agents`);
+    }
+  }
+  if (type !== "mock" && mockValue !== undefined) {
+    throw new Error(`${field}.mock is only valid for mock agents`);
   }
 
   return {
@@ -266,7 +577,17 @@ function parseAgentConfig(value: unknown, field: string, defaults: AgentDefaults
     thinking,
     claude: claudeConfig,
     codex: codexConfig,
+    gemini: geminiConfig,
+    openaiHttp:
+      openaiHttpValue === undefined
+        ? undefined
+        : parseOpenAiHttpConfig(openaiHttpValue, `${field}.openai_http`),
+    command:
+      commandValue === undefined ? undefined : parseCommandConfig(commandValue, `${field}.command`),
+    mock: type === "mock" ? parseMockConfig(mockValue ?? {}, `${field}.mock`) : undefined,
     enabled: parseEnabled(value.enabled, `${field}.enabled`),
+    timeout: optionalPositiveNumber(value.timeout, `${field}.timeout`),
+    retry: value.retry === undefined ? undefined : parseRetryConfig(value.retry, `${field}.retry`),
   };
 }
 
@@ -277,6 +598,9 @@ function applyAgentDefaults(agent: AgentConfig, defaults: AgentDefaults): AgentC
   if (agent.type === "codex") {
     return { ...agent, codex: mergeCodexConfig(agent.codex, defaults.codex) };
   }
+  if (agent.type === "gemini") {
+    return { ...agent, gemini: mergeGeminiConfig(agent.gemini, defaults.gemini) };
+  }
   return agent;
 }
 
@@ -302,6 +626,107 @@ function parseAgents(value: unknown, defaults: AgentDefaults): AgentConfig[] {
   return agents;
 }
 
+function parsePipeline(value: unknown): PipelineStage[] {
+  if (!Array.isArray(value)) {
+    throw new Error("pipeline must be a list");
+  }
+  if (value.length === 0) {
+    throw new Error("pipeline must include at least one stage");
+  }
+  const stages = value.map((entry, index) => {
+    const stage = requireString(entry, `pipeline[${index}]`).trim();
+    if (!PIPELINE_STAGES.has(stage)) {
+      throw new Error(`pipeline[${index}] must be one of ${[...PIPELINE_STAGES].join(", ")}`);
+    }
+    return stage as PipelineStage;
+  });
+  if (stages[0] !== PipelineStage.Draft) {
+    throw new Error("pipeline must start with draft");
+  }
+  if (stages.lastIndexOf(PipelineStage.Draft) !== 0) {
+    throw new Error("pipeline must include draft only once");
+  }
+  if (stages.indexOf(PipelineStage.Synthesize) !== stages.length - 1) {
+    throw new Error("pipeline must end with a single synthesize stage");
+  }
+  return stages;
+}
+
+function isDefaultPipeline(pipeline: PipelineStage[]): boolean {
+  return (
+    pipeline.length === DEFAULT_PIPELINE.length &&
+    pipeline.every((stage, index) => stage === DEFAULT_PIPELINE[index])
+  );
+}
+
+function parseReviewConfig(value: unknown, agents: AgentConfig[]): ReviewConfig {
+  if (!isRecord(value)) {
+    throw new Error("review must be a mapping");
+  }
+  const topologyValue = optionalString(value.topology, "review.topology")?.trim();
+  const topology = topologyValue ?? ReviewTopology.Ring;
+  if (!REVIEW_TOPOLOGIES.has(topology)) {
+    throw new Error(`review.topology must be one of ${[...REVIEW_TOPOLOGIES].join(", ")}`);
+  }
+  const critic = optionalString(value.critic, "review.critic");
+  if (topology !== ReviewTopology.Critic) {
+    if (critic !== undefined) {
+      throw new Error("review.critic is only valid when review.topology is critic");
+    }
+    return { topology: topology as ReviewTopology };
+  }
+  if (critic === undefined) {
+    throw new Error("review.critic must be set when review.topology is critic");
+  }
+  if (!agents.some((agent) => agent.id === critic && agent.enabled !== false)) {
+    throw new Error(`review.critic must name an enabled agent: ${critic}`);
+  }
+  return { topology: ReviewTopology.Critic, critic };
+}
+
+function parseRubric(value: unknown, field: string): Record<string, string> {
+  if (!isRecord(value)) {
+    throw new Error(`${field} must be a mapping of criterion to description`);
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) {
+    throw new Error(`${field} must include at least one criterion`);
+  }
+  return Object.fromEntries(
+    entries.map(([name, description]) => [name, requireString(description, `${field}.${name}`)]),
+  );
+}
+
+function parseJudgeConfig(value: unknown, defaults: AgentDefaults): JudgeConfig {
+  const agent = parseAgentConfig(value, "judge", defaults);
+  const rubricValue = isRecord(value) ? value.rubric : undefined;
+  return {
+    ...agent,
+    rubric:
+      rubricValue === undefined
+        ? { ...DEFAULT_JUDGE_RUBRIC }
+        : parseRubric(rubricValue, "judge.rubric"),
+  };
+}
+
+function parseLintConfig(value: unknown): LintConfig {
+  if (!isRecord(value)) {
+    throw new Error("lint must be a mapping");
+  }
+  return { maxFixes: optionalPositiveInteger(value.max_fixes, "lint.max_fixes") ?? 1 };
+}
+
+function parseImplementConfig(value: unknown, defaults: AgentDefaults): ImplementConfig {
+  const agent = parseAgentConfig(value, "implement", defaults);
+  const approval =
+    optionalString(isRecord(value) ? value.approval : undefined, "implement.approval")?.trim() ??
+    ImplementApproval.Task;
+  if (!IMPLEMENT_APPROVALS.has(approval)) {
+    throw new Error(`implement.approval must be one of ${[...IMPLEMENT_APPROVALS].join(", ")}`);
+  }
+  return { ...agent, approval: approval as ImplementApproval };
+}
+
 function parsePl4nConfig(value: unknown): Pl4nConfigParams {
   if (!isRecord(value)) {
     throw new Error("config must be a mapping");
@@ -316,9 +741,14 @@ function parsePl4nConfig(value: unknown): Pl4nConfigParams {
     DEFAULT_CODEX_CONFIG,
     value.codex === undefined ? undefined : parseCodexConfig(value.codex, "codex"),
   );
+  const geminiDefaults = mergeGeminiConfig(
+    DEFAULT_GEMINI_CONFIG,
+    value.gemini === undefined ? undefined : parseGeminiConfig(value.gemini, "gemini"),
+  );
   const agentDefaults: AgentDefaults = {
     claude: claudeDefaults,
     codex: codexDefaults,
+    gemini: geminiDefaults,
   };
 
   const agents =
@@ -329,7 +759,35 @@ function parsePl4nConfig(value: unknown): Pl4nConfigParams {
     value.synthesizer === undefined
       ? applyAgentDefaults(defaults.synthesizer, agentDefaults)
       : parseAgentConfig(value.synthesizer, "synthesizer", agentDefaults);
-  return { agents, synthesizer };
+  const pipeline =
+    value.pipeline === undefined ? [...DEFAULT_PIPELINE] : parsePipeline(value.pipeline);
+  const review =
+    value.review === undefined
+      ? { topology: ReviewTopology.Ring }
+      : parseReviewConfig(value.review, agents);
+  const judge =
+    value.judge === undefined ? undefined : parseJudgeConfig(value.judge, agentDefaults);
+  const turnTimeout = optionalPositiveNumber(value.turn_timeout, "turn_timeout");
+  const isolation = optionalString(value.isolation, "isolation")?.trim() ?? Isolation.None;
+  if (!ISOLATION_MODES.has(isolation)) {
+    throw new Error(`isolation must be one of ${[...ISOLATION_MODES].join(", ")}`);
+  }
+  const lint = value.lint === undefined ? undefined : parseLintConfig(value.lint);
+  const implement =
+    value.implement === undefined
+      ? undefined
+      : parseImplementConfig(value.implement, agentDefaults);
+  return {
+    agents,
+    synthesizer,
+    pipeline,
+    review,
+    judge,
+    turnTimeout,
+    isolation: isolation as Isolation,
+    lint,
+    implement,
+  };
 }
 
 async function resolveConfigPath(pl4nDir: string): Promise<string | null> {
@@ -349,10 +807,24 @@ async function resolveConfigPath(pl4nDir: string): Promise<string | null> {
 export class Pl4nConfig {
   agents: AgentConfig[];
   synthesizer: AgentConfig;
+  pipeline: PipelineStage[];
+  review: ReviewConfig;
+  judge?: JudgeConfig;
+  turnTimeout?: number;
+  isolation: Isolation;
+  lint?: LintConfig;
+  implement?: ImplementConfig;
 
   constructor(params: Pl4nConfigParams) {
     this.agents = params.agents;
     this.synthesizer = params.synthesizer;
+    this.pipeline = params.pipeline ? [...params.pipeline] : [...DEFAULT_PIPELINE];
+    this.review = params.review ? { ...params.review } : { topology: ReviewTopology.Ring };
+    this.judge = params.judge;
+    this.turnTimeout = params.turnTimeout;
+    this.isolation = params.isolation ?? Isolation.None;
+    this.lint = params.lint ? { ...params.lint } : undefined;
+    this.implement = params.implement;
   }
 
   static default(): Pl4nConfig {
@@ -440,6 +912,79 @@ export class Pl4nConfig {
       return Object.keys(data).length > 0 ? data : null;
     };
 
+    const serializeGemini = (config?: GeminiConfig): Record<string, unknown> | null => {
+      if (!config) {
+        return null;
+      }
+      const data: Record<string, unknown> = {};
+      if (config.approvalMode) {
+        data.approval_mode = config.approvalMode;
+      }
+      if (config.sandbox !== undefined) {
+        data.sandbox = config.sandbox;
+      }
+      if (config.addDir && config.addDir.length > 0) {
+        data.add_dir = config.addDir;
+      }
+      return Object.keys(data).length > 0 ? data : null;
+    };
+
+    const serializeOpenAiHttp = (config: OpenAiHttpConfig): Record<string, unknown> => {
+      const data: Record<string, unknown> = { base_url: config.baseUrl };
+      if (config.apiKeyEnv) {
+        data.api_key_env = config.apiKeyEnv;
+      }
+      if (config.temperature !== undefined) {
+        data.temperature = config.temperature;
+      }
+      return data;
+    };
+
+    const serializeMock = (config: MockConfig): Record<string, unknown> | null => {
+      const data: Record<string, unknown> = {};
+      if (config.fixtures) {
+        data.fixtures = config.fixtures;
+      }
+      if (config.latency > 0) {
+        data.latency = config.latency;
+      }
+      if (config.failures.length > 0) {
+        data.failures = config.failures.map((failure) => {
+          const entry: Record<string, unknown> = {};
+          if (failure.stage) {
+            entry.stage = failure.stage;
+          }
+          if (failure.turn !== undefined) {
+            entry.turn = failure.turn;
+          }
+          if (failure.attempts !== undefined) {
+            entry.attempts = failure.attempts;
+          }
+          entry.exit_code = failure.exitCode;
+          entry.message = failure.message;
+          return entry;
+        });
+      }
+      return Object.keys(data).length > 0 ? data : null;
+    };
+
+    const serializeCommand = (config: CommandConfig): Record<string, unknown> => {
+      const data: Record<string, unknown> = { argv: [...config.argv], output: config.output };
+      if (config.resumeArgv) {
+        data.resume_argv = [...config.resumeArgv];
+      }
+      if (config.outputPath) {
+        data.output_path = config.outputPath;
+      }
+      if (config.sessionIdPath) {
+        data.session_id_path = config.sessionIdPath;
+      }
+      if (config.sessionIdPattern) {
+        data.session_id_pattern = config.sessionIdPattern;
+      }
+      return data;
+    };
+
     const serializeAgent = (agent: AgentConfig): Record<string, unknown> => {
       const data: Record<string, unknown> = {
         id: agent.id,
@@ -457,9 +1002,34 @@ export class Pl4nConfig {
       if (codex) {
         data.codex = codex;
       }
+      const gemini = serializeGemini(agent.gemini);
+      if (gemini) {
+        data.gemini = gemini;
+      }
+      if (agent.openaiHttp) {
+        data.openai_http = serializeOpenAiHttp(agent.openaiHttp);
+      }
+      if (agent.command) {
+        data.command = serializeCommand(agent.command);
+      }
+      const mock = agent.mock ? serializeMock(agent.mock) : null;
+      if (mock) {
+        data.mock = mock;
+      }
       if (agent.enabled !== undefined) {
         data.enabled = agent.enabled;
       }
+      if (agent.timeout !== undefined) {
+        data.timeout = agent.timeout;
+      }
+      if (agent.retry) {
+        data.retry = {
+          max_attempts: agent.retry.maxAttempts,
+          backoff: agent.retry.backoff,
+          multiplier: agent.retry.multiplier,
+          patterns: [...agent.retry.patterns],
+        };
+      }
       return data;
     };
 
@@ -467,6 +1037,29 @@ export class Pl4nConfig {
       agents: this.agents.map((agent) => serializeAgent(agent)),
       synthesizer: serializeAgent(this.synthesizer),
     };
+    if (!isDefaultPipeline(this.pipeline)) {
+      config.pipeline = [...this.pipeline];
+    }
+    if (this.review.topology !== ReviewTopology.Ring) {
+      config.review = this.review.critic
+        ? { topology: this.review.topology, critic: this.review.critic }
+        : { topology: this.review.topology };
+    }
+    if (this.judge) {
+      config.judge = { ...serializeAgent(this.judge), rubric: { ...this.judge.rubric } };
+    }
+    if (this.turnTimeout !== undefined) {
+      config.turn_timeout = this.turnTimeout;
+    }
+    if (this.isolation !== Isolation.None) {
+      config.isolation = this.isolation;
+    }
+    if (this.lint) {
+      config.lint = { max_fixes: this.lint.maxFixes };
+    }
+    if (this.implement) {
+      config.implement = { ...serializeAgent(this.implement), approval: this.implement.approval };
+    }
     return config;
   }
 }
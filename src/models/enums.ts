@@ -17,4 +17,75 @@ export enum AgentStatus {
   Working = "working",
   Done = "done",
   Error = "error",
+  TimedOut = "timed_out",
 }
+
+export enum PipelineStage {
+  Draft = "draft",
+  Review = "review",
+  Synthesize = "synthesize",
+}
+
+export enum ReviewTopology {
+  Ring = "ring",
+  All = "all",
+  Critic = "critic",
+}
+
+export enum Isolation {
+  /** Agents run in the project checkout */
+  None = "none",
+  /** Each agent run gets a throwaway git worktree at the session's base commit */
+  Worktree = "worktree",
+}
+
+/** The pipeline step an individual agent run belongs to */
+export enum RunStage {
+  Draft = "draft",
+  Review = "review",
+  Critique = "critique",
+  Judge = "judge",
+  Synthesize = "synthesize",
+  Implement = "implement",
+}
+
+/** When `pl4n implement` stops for the user between tasks */
+export enum ImplementApproval {
+  /** After every task; `pl4n implement --approve` moves on */
+  Task = "task",
+  /** Never; all tasks run back to back */
+  None = "none",
+}
+
+export enum ImplementationStatus {
+  Running = "running",
+  AwaitingApproval = "awaiting_approval",
+  Paused = "paused",
+  Failed = "failed",
+  Done = "done",
+}
+
+/** How far a task of an approved plan has got, as tracked from PLAN.md and git history */
+export enum TaskStatus {
+  Todo = "todo",
+  InProgress = "in_progress",
+  Done = "done",
+}
+
+export enum CommandOutput {
+  Text = "text",
+  Json = "json",
+  Jsonl = "jsonl",
+}
+
+export const STAGE_PHASES: Record<PipelineStage, Phase> = {
+  [PipelineStage.Draft]: Phase.Drafting,
+  [PipelineStage.Review]: Phase.PeerReview,
+  [PipelineStage.Synthesize]: Phase.Synthesizing,
+};
+
+export const DEFAULT_PIPELINE: PipelineStage[] = [
+  PipelineStage.Draft,
+  PipelineStage.Review,
+  PipelineStage.Synthesize,
+];
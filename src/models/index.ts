@@ -2,15 +2,69 @@
  * Models module - re-exports all model types and classes
  */
 
-export { Phase, AgentStatus } from "./enums";
+export {
+  Phase,
+  AgentStatus,
+  PipelineStage,
+  ReviewTopology,
+  RunStage,
+  Isolation,
+  ImplementApproval,
+  ImplementationStatus,
+  TaskStatus,
+  CommandOutput,
+  STAGE_PHASES,
+  DEFAULT_PIPELINE,
+} from "./enums";
 export type {
   ClaudeConfig,
   CodexConfig,
+  GeminiConfig,
+  OpenAiHttpConfig,
+  MockConfig,
+  MockFailure,
+  CommandConfig,
+  RetryConfig,
+  ReviewConfig,
   AgentConfig,
+  JudgeConfig,
+  LintConfig,
+  ImplementConfig,
+  ImplementationProgress,
+  TaskTracking,
+  TaskProgress,
   AgentStatusMap,
   AgentPlanIdMap,
   AgentErrorMap,
+  TurnCheckpointMap,
+  TurnSessionMap,
+  AgentPidMap,
+  StrayEditMap,
+  LintIssueMap,
+  AgentAttemptMap,
+  PlanScore,
+  TurnScores,
+  AgentUsage,
+  UsageRecord,
+  UsageTotals,
+  UsageSummary,
   Pl4nConfigParams,
 } from "./types";
-export { SessionState, SessionPaths } from "./session";
+export {
+  SessionState,
+  SessionPaths,
+  turnScoresToDict,
+  turnScoresFromDict,
+  averageScores,
+  usageRecordToDict,
+  usageRecordFromDict,
+  summarizeUsage,
+  usageTotalsToDict,
+  usageSummaryToDict,
+  implementationProgressToDict,
+  implementationProgressFromDict,
+  taskProgressToDict,
+  taskProgressFromDict,
+  summarizeTaskProgress,
+} from "./session";
 export { Pl4nConfig } from "./config";
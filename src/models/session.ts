@@ -4,8 +4,31 @@
 
 import path from "path";
 
-import { Phase } from "./enums";
-import type { AgentStatusMap, AgentPlanIdMap, AgentErrorMap } from "./types";
+import {
+  ImplementationStatus,
+  Phase,
+  type PipelineStage,
+  type RunStage,
+  TaskStatus,
+} from "./enums";
+import type {
+  AgentStatusMap,
+  AgentPlanIdMap,
+  AgentErrorMap,
+  AgentAttemptMap,
+  AgentPidMap,
+  ImplementationProgress,
+  LintIssueMap,
+  StrayEditMap,
+  TaskProgress,
+  TaskTracking,
+  TurnCheckpointMap,
+  TurnScores,
+  TurnSessionMap,
+  UsageRecord,
+  UsageSummary,
+  UsageTotals,
+} from "./types";
 
 export class SessionState {
   sessionId: string;
@@ -18,7 +41,26 @@ export class SessionState {
   agents: AgentStatusMap;
   agentPlanIds: AgentPlanIdMap;
   agentErrors: AgentErrorMap;
+  agentAttempts: AgentAttemptMap;
   sessionToken?: string;
+  pipeline?: PipelineStage[];
+  pipelineStep?: number;
+  checkpoints: TurnCheckpointMap;
+  runnerPid?: number;
+  agentPids: AgentPidMap;
+  /** Commit HEAD pointed at when the session was created; isolated worktrees start here */
+  baseCommit?: string;
+  /** Commit HEAD pointed at when the plan was approved; task tracking starts here */
+  approvedCommit?: string;
+  /** Session and turn this session was forked from */
+  parentSession?: string;
+  parentTurn?: number;
+  /** Agent CLI session IDs at the end of each turn, so a rollback can rewind conversations */
+  turnSessions: TurnSessionMap;
+  /** Number of times state.yaml has been saved; a save expects the file to still be at it */
+  revision: number;
+  strayEdits: StrayEditMap;
+  lintIssues: LintIssueMap;
 
   constructor(params: {
     sessionId: string;
@@ -31,7 +73,21 @@ export class SessionState {
     agents?: AgentStatusMap;
     agentPlanIds?: AgentPlanIdMap;
     agentErrors?: AgentErrorMap;
+    agentAttempts?: AgentAttemptMap;
     sessionToken?: string;
+    pipeline?: PipelineStage[];
+    pipelineStep?: number;
+    checkpoints?: TurnCheckpointMap;
+    runnerPid?: number;
+    agentPids?: AgentPidMap;
+    baseCommit?: string;
+    approvedCommit?: string;
+    parentSession?: string;
+    parentTurn?: number;
+    turnSessions?: TurnSessionMap;
+    revision?: number;
+    strayEdits?: StrayEditMap;
+    lintIssues?: LintIssueMap;
   }) {
     this.sessionId = params.sessionId;
     this.task = params.task;
@@ -43,7 +99,21 @@ export class SessionState {
     this.agents = params.agents ?? {};
     this.agentPlanIds = params.agentPlanIds ?? {};
     this.agentErrors = params.agentErrors ?? {};
+    this.agentAttempts = params.agentAttempts ?? {};
     this.sessionToken = params.sessionToken;
+    this.pipeline = params.pipeline;
+    this.pipelineStep = params.pipelineStep;
+    this.checkpoints = params.checkpoints ?? {};
+    this.runnerPid = params.runnerPid;
+    this.agentPids = params.agentPids ?? {};
+    this.baseCommit = params.baseCommit;
+    this.approvedCommit = params.approvedCommit;
+    this.parentSession = params.parentSession;
+    this.parentTurn = params.parentTurn;
+    this.turnSessions = params.turnSessions ?? {};
+    this.revision = params.revision ?? 0;
+    this.strayEdits = params.strayEdits ?? {};
+    this.lintIssues = params.lintIssues ?? {};
   }
 
   toDict(): Record<string, unknown> {
@@ -57,6 +127,7 @@ export class SessionState {
       archived: this.archived,
       agents: Object.fromEntries(Object.entries(this.agents).map(([key, value]) => [key, value])),
       agent_plan_ids: this.agentPlanIds,
+      revision: this.revision,
     };
     if (this.sessionToken) {
       dict.session_token = this.sessionToken;
@@ -64,6 +135,43 @@ export class SessionState {
     if (Object.keys(this.agentErrors).length > 0) {
       dict.agent_errors = this.agentErrors;
     }
+    if (Object.keys(this.agentAttempts).length > 0) {
+      dict.agent_attempts = this.agentAttempts;
+    }
+    if (this.pipeline) {
+      dict.pipeline = this.pipeline;
+    }
+    if (this.pipelineStep !== undefined) {
+      dict.pipeline_step = this.pipelineStep;
+    }
+    if (Object.keys(this.checkpoints).length > 0) {
+      dict.checkpoints = this.checkpoints;
+    }
+    if (this.runnerPid !== undefined) {
+      dict.runner_pid = this.runnerPid;
+    }
+    if (Object.keys(this.agentPids).length > 0) {
+      dict.agent_pids = this.agentPids;
+    }
+    if (this.baseCommit) {
+      dict.base_commit = this.baseCommit;
+    }
+    if (this.approvedCommit) {
+      dict.approved_commit = this.approvedCommit;
+    }
+    if (this.parentSession) {
+      dict.parent_session = this.parentSession;
+      dict.parent_turn = this.parentTurn;
+    }
+    if (Object.keys(this.turnSessions).length > 0) {
+      dict.turn_sessions = this.turnSessions;
+    }
+    if (Object.keys(this.strayEdits).length > 0) {
+      dict.stray_edits = this.strayEdits;
+    }
+    if (Object.keys(this.lintIssues).length > 0) {
+      dict.lint_issues = this.lintIssues;
+    }
     return dict;
   }
 }
@@ -73,18 +181,32 @@ export class SessionPaths {
   meta: string;
   state: string;
   input: string;
+  lock: string;
   turns: string;
+  discardedTurns: string;
   agents: string;
   plans: string;
+  usage: string;
+  exports: string;
+  implementation: string;
+  tasks: string;
+  fork: string;
 
   constructor(root: string) {
     this.root = root;
     this.meta = path.join(root, "meta.yaml");
     this.state = path.join(root, "state.yaml");
     this.input = path.join(root, "input.md");
+    this.lock = path.join(root, "state.lock");
     this.turns = path.join(root, "turns");
+    this.discardedTurns = path.join(this.turns, ".discarded");
     this.agents = path.join(root, "agents");
     this.plans = path.join(root, "plans");
+    this.usage = path.join(root, "usage.yaml");
+    this.exports = path.join(root, "export");
+    this.implementation = path.join(root, "implementation");
+    this.tasks = path.join(root, "tasks.yaml");
+    this.fork = path.join(root, "fork.md");
   }
 
   static fromRoot(root: string): SessionPaths {
@@ -99,6 +221,31 @@ export class SessionPaths {
     return path.join(this.turns, `${String(turn).padStart(3, "0")}`);
   }
 
+  turnVerifyFile(turn: number): string {
+    return path.join(this.turns, `${String(turn).padStart(3, "0")}.verify.json`);
+  }
+
+  turnScoresFile(turn: number): string {
+    return path.join(this.turnSnapshotDir(turn), "scores.json");
+  }
+
+  implementationProgressFile(): string {
+    return path.join(this.implementation, "progress.yaml");
+  }
+
+  /** Agent conversation shared by every task, so later tasks see what earlier ones did */
+  implementationSessionFile(): string {
+    return path.join(this.implementation, "session.txt");
+  }
+
+  implementationTaskLog(task: number): string {
+    return path.join(this.implementation, `task-${String(task).padStart(3, "0")}.log`);
+  }
+
+  implementationTaskReport(task: number): string {
+    return path.join(this.implementation, `task-${String(task).padStart(3, "0")}.md`);
+  }
+
   agentPlanFile(planId: string): string {
     return path.join(this.plans, `${planId}.md`);
   }
@@ -115,3 +262,256 @@ export class SessionPaths {
     return path.join(this.agents, planId);
   }
 }
+
+export function turnScoresToDict(scores: TurnScores): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(scores).map(([agentId, score]) => {
+      const dict: Record<string, unknown> = {
+        plan_id: score.planId,
+        criteria: score.criteria,
+        total: score.total,
+      };
+      if (score.notes) {
+        dict.notes = score.notes;
+      }
+      return [agentId, dict];
+    }),
+  );
+}
+
+export function turnScoresFromDict(data: Record<string, unknown>): TurnScores {
+  const scores: TurnScores = {};
+  for (const [agentId, value] of Object.entries(data)) {
+    const entry = value as {
+      plan_id: string;
+      criteria?: Record<string, number>;
+      total: number;
+      notes?: string;
+    };
+    scores[agentId] = {
+      planId: entry.plan_id,
+      criteria: entry.criteria ?? {},
+      total: entry.total,
+      notes: entry.notes,
+    };
+  }
+  return scores;
+}
+
+/**
+ * Mean judge total per agent across turns, rounded to two decimals.
+ */
+export function averageScores(history: Record<string, TurnScores>): Record<string, number> {
+  const totals: Record<string, number[]> = {};
+  for (const scores of Object.values(history)) {
+    for (const [agentId, score] of Object.entries(scores)) {
+      (totals[agentId] ??= []).push(score.total);
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(totals).map(([agentId, values]) => [
+      agentId,
+      Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100,
+    ]),
+  );
+}
+
+export function implementationProgressToDict(
+  progress: ImplementationProgress,
+): Record<string, unknown> {
+  const dict: Record<string, unknown> = {
+    status: progress.status,
+    completed: progress.completed,
+    updated_at: progress.updatedAt.toISOString(),
+  };
+  if (progress.currentTask !== undefined) {
+    dict.current_task = progress.currentTask;
+  }
+  if (progress.runnerPid !== undefined) {
+    dict.runner_pid = progress.runnerPid;
+  }
+  if (progress.error) {
+    dict.error = progress.error;
+  }
+  return dict;
+}
+
+export function implementationProgressFromDict(
+  data: Record<string, unknown>,
+): ImplementationProgress {
+  const entry = data as {
+    status?: string;
+    current_task?: number;
+    completed?: number[];
+    runner_pid?: number;
+    error?: string;
+    updated_at?: string;
+  };
+  return {
+    status: (entry.status as ImplementationStatus | undefined) ?? ImplementationStatus.Paused,
+    currentTask: entry.current_task,
+    completed: entry.completed ?? [],
+    runnerPid: entry.runner_pid,
+    error: entry.error,
+    updatedAt: entry.updated_at ? new Date(entry.updated_at) : new Date(),
+  };
+}
+
+export function taskProgressToDict(progress: TaskProgress): Record<string, unknown> {
+  const dict: Record<string, unknown> = {
+    updated_at: progress.updatedAt.toISOString(),
+    tasks: Object.fromEntries(
+      Object.entries(progress.tasks).map(([task, tracking]) => [
+        task,
+        { status: tracking.status, commits: tracking.commits },
+      ]),
+    ),
+  };
+  if (progress.head) {
+    dict.head = progress.head;
+  }
+  return dict;
+}
+
+export function taskProgressFromDict(data: Record<string, unknown>): TaskProgress {
+  const entry = data as {
+    head?: string;
+    tasks?: Record<string, { status?: string; commits?: string[] }>;
+    updated_at?: string;
+  };
+  const tasks: Record<number, TaskTracking> = {};
+  for (const [task, tracking] of Object.entries(entry.tasks ?? {})) {
+    tasks[Number(task)] = {
+      status: (tracking.status as TaskStatus | undefined) ?? TaskStatus.Todo,
+      commits: tracking.commits ?? [],
+    };
+  }
+  return {
+    head: entry.head,
+    tasks,
+    updatedAt: entry.updated_at ? new Date(entry.updated_at) : new Date(),
+  };
+}
+
+/**
+ * Task counts by status, for progress bars and listings.
+ */
+export function summarizeTaskProgress(progress: TaskProgress): Record<string, number> {
+  const statuses = Object.values(progress.tasks).map((tracking) => tracking.status);
+  return {
+    total: statuses.length,
+    done: statuses.filter((status) => status === TaskStatus.Done).length,
+    in_progress: statuses.filter((status) => status === TaskStatus.InProgress).length,
+    todo: statuses.filter((status) => status === TaskStatus.Todo).length,
+  };
+}
+
+export function usageRecordToDict(record: UsageRecord): Record<string, unknown> {
+  const dict: Record<string, unknown> = {
+    agent: record.agentId,
+    model: record.model,
+    stage: record.stage,
+    turn: record.turn,
+    started_at: record.startedAt.toISOString(),
+    duration_ms: record.durationMs,
+  };
+  if (record.usage) {
+    dict.input_tokens = record.usage.inputTokens;
+    dict.output_tokens = record.usage.outputTokens;
+    dict.cached_tokens = record.usage.cachedTokens;
+    if (record.usage.costUsd !== undefined) {
+      dict.cost_usd = record.usage.costUsd;
+    }
+  }
+  return dict;
+}
+
+export function usageRecordFromDict(data: Record<string, unknown>): UsageRecord {
+  const entry = data as {
+    agent: string;
+    model?: string;
+    stage: string;
+    turn: number;
+    started_at: string;
+    duration_ms?: number;
+    input_tokens?: number;
+    output_tokens?: number;
+    cached_tokens?: number;
+    cost_usd?: number;
+  };
+  const record: UsageRecord = {
+    agentId: entry.agent,
+    model: entry.model ?? "",
+    stage: entry.stage as RunStage,
+    turn: entry.turn,
+    startedAt: new Date(entry.started_at),
+    durationMs: entry.duration_ms ?? 0,
+  };
+  if (entry.input_tokens !== undefined || entry.output_tokens !== undefined) {
+    record.usage = {
+      inputTokens: entry.input_tokens ?? 0,
+      outputTokens: entry.output_tokens ?? 0,
+      cachedTokens: entry.cached_tokens ?? 0,
+      costUsd: entry.cost_usd,
+    };
+  }
+  return record;
+}
+
+function emptyTotals(): UsageTotals {
+  return { runs: 0, inputTokens: 0, outputTokens: 0, cachedTokens: 0, durationMs: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.runs += 1;
+  totals.durationMs += record.durationMs;
+  if (!record.usage) {
+    return;
+  }
+  totals.inputTokens += record.usage.inputTokens;
+  totals.outputTokens += record.usage.outputTokens;
+  totals.cachedTokens += record.usage.cachedTokens;
+  if (record.usage.costUsd !== undefined) {
+    totals.costUsd = (totals.costUsd ?? 0) + record.usage.costUsd;
+  }
+}
+
+/**
+ * Totals over the given runs, overall and broken down by agent and by stage.
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byAgent: {}, byStage: {} };
+  for (const record of records) {
+    addToTotals(summary, record);
+    addToTotals((summary.byAgent[record.agentId] ??= emptyTotals()), record);
+    addToTotals((summary.byStage[record.stage] ??= emptyTotals()), record);
+  }
+  return summary;
+}
+
+export function usageTotalsToDict(totals: UsageTotals): Record<string, unknown> {
+  const dict: Record<string, unknown> = {
+    runs: totals.runs,
+    input_tokens: totals.inputTokens,
+    output_tokens: totals.outputTokens,
+    cached_tokens: totals.cachedTokens,
+    duration_ms: totals.durationMs,
+  };
+  if (totals.costUsd !== undefined) {
+    // Rounded to hide floating point noise from summing many small costs
+    dict.cost_usd = Math.round(totals.costUsd * 1_000_000) / 1_000_000;
+  }
+  return dict;
+}
+
+export function usageSummaryToDict(summary: UsageSummary): Record<string, unknown> {
+  const mapTotals = (group: Record<string, UsageTotals>) =>
+    Object.fromEntries(
+      Object.entries(group).map(([key, totals]) => [key, usageTotalsToDict(totals)]),
+    );
+  return {
+    ...usageTotalsToDict(summary),
+    by_agent: mapTotals(summary.byAgent),
+    by_stage: mapTotals(summary.byStage),
+  };
+}
@@ -2,7 +2,17 @@
  * Type definitions for agent and session configurations
  */
 
-import type { AgentStatus } from "./enums";
+import type {
+  AgentStatus,
+  CommandOutput,
+  ImplementApproval,
+  ImplementationStatus,
+  Isolation,
+  PipelineStage,
+  ReviewTopology,
+  RunStage,
+  TaskStatus,
+} from "./enums";
 
 export interface ClaudeConfig {
   allowedTools?: string[];
@@ -20,6 +30,68 @@ export interface CodexConfig {
   mcp?: Record<string, unknown>;
 }
 
+export interface GeminiConfig {
+  /** default, auto_edit, or yolo */
+  approvalMode?: string;
+  sandbox?: boolean;
+  addDir?: string[];
+}
+
+export interface OpenAiHttpConfig {
+  /** API root that serves /chat/completions, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Environment variable holding the bearer token; omit for servers without auth */
+  apiKeyEnv?: string;
+  temperature?: number;
+}
+
+export interface MockFailure {
+  /** Only fail runs of this stage; any stage when omitted */
+  stage?: RunStage;
+  /** Only fail runs in this turn; any turn when omitted */
+  turn?: number;
+  /** Fail only the first N matching runs, so retries can succeed; every run when omitted */
+  attempts?: number;
+  exitCode: number;
+  message: string;
+}
+
+export interface MockConfig {
+  /** Directory of canned responses: turn-<N>/<stage>.md, falling back to <stage>.md */
+  fixtures?: string;
+  /** Seconds each run takes before responding */
+  latency: number;
+  failures: MockFailure[];
+}
+
+export interface CommandConfig {
+  /**
+   * Command template, one entry per argument. {prompt}, {model}, {thinking}, {worktree} and
+   * {output_file} are substituted; a bare {resume} entry marks where resumeArgv goes. Without a
+   * {prompt} placeholder the prompt is written to stdin.
+   */
+  argv: string[];
+  /** Arguments added when a session ID was saved by a previous run; {session_id} is substituted */
+  resumeArgv?: string[];
+  output: CommandOutput;
+  /** Dotted path to the message in the JSON output, or in each JSONL event (last one wins) */
+  outputPath?: string;
+  /** Dotted path to the session ID in the JSON output or any JSONL event */
+  sessionIdPath?: string;
+  /** Regex matched against the output; its first capture group is the session ID */
+  sessionIdPattern?: string;
+}
+
+export interface RetryConfig {
+  maxAttempts: number;
+  /** Seconds to wait before the first retry */
+  backoff: number;
+  /** Factor applied to the wait after each further failure */
+  multiplier: number;
+  /** Case-insensitive regexes; a failed run is only retried when its output matches one */
+  patterns: string[];
+}
+
 export interface AgentConfig {
   id: string;
   type: string;
@@ -27,14 +99,141 @@ export interface AgentConfig {
   thinking?: string;
   claude?: ClaudeConfig;
   codex?: CodexConfig;
+  gemini?: GeminiConfig;
+  openaiHttp?: OpenAiHttpConfig;
+  command?: CommandConfig;
+  mock?: MockConfig;
   enabled?: boolean;
+  /** Seconds before a single agent run is terminated */
+  timeout?: number;
+  retry?: RetryConfig;
+}
+
+export interface JudgeConfig extends AgentConfig {
+  /** Criterion name -> what the judge should check, in scoring order */
+  rubric: Record<string, string>;
+}
+
+export interface ReviewConfig {
+  topology: ReviewTopology;
+  /** Agent ID that critiques every draft when the topology is critic */
+  critic?: string;
+}
+
+export interface ImplementConfig extends AgentConfig {
+  approval: ImplementApproval;
+}
+
+export interface LintConfig {
+  /** How many times an agent is asked to fix plan lint violations after each run */
+  maxFixes: number;
 }
 
 export type AgentStatusMap = Record<string, AgentStatus>;
 export type AgentPlanIdMap = Record<string, string>;
 export type AgentErrorMap = Record<string, string>;
+/** Agent ID (or "synthesizer") -> attempt number of its latest run this turn */
+export type AgentAttemptMap = Record<string, number>;
+/** Agent ID (or "synthesizer") -> files it changed in its isolated worktree this turn */
+export type StrayEditMap = Record<string, string[]>;
+/** Agent ID (or "synthesizer") -> plan lint violations left after its last run this turn */
+export type LintIssueMap = Record<string, string[]>;
+/** Agent ID (or "synthesizer") -> PID of its running CLI process */
+export type AgentPidMap = Record<string, number>;
+/** Pipeline step index -> agent ID (or "synthesizer") -> snapshot path relative to the session */
+export type TurnCheckpointMap = Record<string, Record<string, string>>;
+/** Turn -> agent directory (plan ID, "synthesizer" or "judge") -> CLI session ID when it ended */
+export type TurnSessionMap = Record<string, Record<string, string>>;
+
+export interface PlanScore {
+  planId: string;
+  /** Criterion name -> score from 1 to 10 */
+  criteria: Record<string, number>;
+  total: number;
+  notes?: string;
+}
+
+/** Agent ID -> the judge's score for that agent's plan in one turn */
+export type TurnScores = Record<string, PlanScore>;
+
+/** Where `pl4n implement` is in an approved plan, kept in implementation/progress.yaml */
+export interface ImplementationProgress {
+  status: ImplementationStatus;
+  /** Task being implemented, or waiting for approval */
+  currentTask?: number;
+  /** Tasks finished and checked off in PLAN.md, in the order they were completed */
+  completed: number[];
+  /** PID of the running `pl4n implement` */
+  runnerPid?: number;
+  /** Why the last task run failed */
+  error?: string;
+  updatedAt: Date;
+}
+
+/** One task's tracked status and the commits attributed to it */
+export interface TaskTracking {
+  status: TaskStatus;
+  /** Abbreviated hashes, oldest first */
+  commits: string[];
+}
+
+/** Per-task status of an approved plan, kept in tasks.yaml */
+export interface TaskProgress {
+  /** HEAD when the status was computed */
+  head?: string;
+  /** Task ID -> tracked status */
+  tasks: Record<number, TaskTracking>;
+  updatedAt: Date;
+}
+
+/** Token counts and cost an agent CLI or API reported for one run */
+export interface AgentUsage {
+  /** All prompt tokens, including cached ones */
+  inputTokens: number;
+  outputTokens: number;
+  /** The part of inputTokens served from the provider's prompt cache */
+  cachedTokens: number;
+  costUsd?: number;
+}
+
+/** One agent run as recorded in a session's usage.yaml */
+export interface UsageRecord {
+  /** Agent ID, or "synthesizer"/"judge" */
+  agentId: string;
+  model: string;
+  stage: RunStage;
+  turn: number;
+  startedAt: Date;
+  durationMs: number;
+  /** Missing when the adapter does not report usage */
+  usage?: AgentUsage;
+}
+
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  durationMs: number;
+  /** Sum over runs that reported a cost; missing when none did */
+  costUsd?: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byAgent: Record<string, UsageTotals>;
+  byStage: Record<string, UsageTotals>;
+}
 
 export type Pl4nConfigParams = {
   agents: AgentConfig[];
   synthesizer: AgentConfig;
+  pipeline?: PipelineStage[];
+  review?: ReviewConfig;
+  judge?: JudgeConfig;
+  /** Seconds before a whole turn is cancelled */
+  turnTimeout?: number;
+  isolation?: Isolation;
+  lint?: LintConfig;
+  /** Agent that implements the approved plan; the synthesizer when not configured */
+  implement?: ImplementConfig;
 };
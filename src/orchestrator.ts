@@ -1,16 +1,66 @@
 import { promises as fs } from "fs";
+import os from "os";
 import path from "path";
 import { createTwoFilesPatch } from "diff";
 
 import type { AgentAdapter } from "./adapters/base";
 import { fileExists } from "./utils/fs";
-import { ClaudeCodeSyncAdapter } from "./adapters/claude";
+import { addWorktree, listChangedFiles, removeWorktree, resolveHead, runGit } from "./utils/git";
+import { isRecord } from "./utils/types";
 import { CodexCLISyncAdapter } from "./adapters/codex";
-import { AgentStatus, Phase, Pl4nConfig } from "./models";
+import { createSyncAdapter } from "./adapters/index";
+import {
+  type AgentUsage,
+  AgentStatus,
+  Isolation,
+  Phase,
+  PipelineStage,
+  Pl4nConfig,
+  ReviewTopology,
+  RunStage,
+  STAGE_PHASES,
+  type SessionPaths,
+  type SessionState,
+  type TurnScores,
+  type UsageRecord,
+  turnScoresFromDict,
+  turnScoresToDict,
+} from "./models";
 import { generateUniqueName } from "./names";
-import { getDraftPrompt, getPeerReviewPrompt, getSynthesisPrompt } from "./prompts";
+import {
+  getCritiquePrompt,
+  getCritiqueRevisionPrompt,
+  getDraftPrompt,
+  getForkContext,
+  getJudgePrompt,
+  getLintFixPrompt,
+  getPeerReviewPrompt,
+  getSynthesisPrompt,
+  type PeerDraft,
+} from "./prompts";
+import { lintPlan, PlanDocument, type PlanReferenceFinding, verifyPlan } from "./plan";
 import { SessionManager } from "./session";
 
+/**
+ * Questions the user answered (or re-answered) while editing, listed under the feedback diff so
+ * agents do not have to dig the answers out of it.
+ */
+function formatNewAnswers(original: string, edited: string): string {
+  const previous = new Map(
+    PlanDocument.parse(original).questions.map((question) => [
+      question.id,
+      question.answer?.trim() ?? "",
+    ]),
+  );
+  const answers = PlanDocument.parse(edited).questions.flatMap((question) => {
+    const answer = question.answer?.trim() ?? "";
+    return answer && answer !== previous.get(question.id)
+      ? [`- ${question.id} (${question.question}): ${answer}`]
+      : [];
+  });
+  return answers.length > 0 ? `\n\nAnswers to open questions:\n${answers.join("\n")}` : "";
+}
+
 function extractErrorSummary(output: string): string {
   // Look for common error patterns and extract a concise summary
   const lines = output.trim().split("\n");
@@ -48,6 +98,118 @@ function extractErrorSummary(output: string): string {
   return output.length > 200 ? output.slice(0, 200) + "..." : output;
 }
 
+// Checkpoint and PID key for the synthesizer, which is not one of the configured agents
+const SYNTHESIZER_KEY = "synthesizer";
+// Checkpoint key for the critic's critique, kept apart from the critic's own plan
+const CRITIQUE_KEY = "critique";
+// Checkpoint and PID key for the judge, which is not one of the configured agents
+const JUDGE_KEY = "judge";
+
+type StageContext = {
+  state: SessionState;
+  paths: SessionPaths;
+  snapshotDir: string;
+  task: string;
+  turn: number;
+  userFeedback: string;
+  deadline?: AbortSignal;
+};
+
+type AgentRunParams = {
+  worktree: string;
+  prompt: string;
+  outputFile: string;
+  logFile: string;
+  sessionFile?: string;
+  appendLog?: boolean;
+  stage: RunStage;
+};
+
+type AgentRunResult = {
+  success: boolean;
+  output: string;
+  timeoutError?: string;
+};
+
+type IsolatedRun = {
+  worktree: string;
+  params: AgentRunParams;
+};
+
+// Where an isolated agent writes its output inside its worktree; copied back after the run
+const ISOLATED_OUTPUT_DIR = ".pl4n-output";
+
+/**
+ * Sleep for the given time, returning false early if the signal aborts first.
+ */
+function waitUnlessAborted(ms: number, signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) {
+    return Promise.resolve(false);
+  }
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse the judge's JSON scores, keyed by plan ID, into scores keyed by agent ID.
+ * Unknown plans and criteria are dropped and scores are clamped to 1-10.
+ */
+function parseJudgeScores(
+  raw: string,
+  rubric: Record<string, string>,
+  planAgents: Record<string, string>,
+): TurnScores | null {
+  // Tolerate code fences or prose around the JSON object
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) {
+    return null;
+  }
+
+  const scores: TurnScores = {};
+  for (const [planId, agentId] of Object.entries(planAgents)) {
+    const entry = data[planId];
+    if (!isRecord(entry) || !isRecord(entry.scores)) {
+      continue;
+    }
+    const criteria: Record<string, number> = {};
+    for (const name of Object.keys(rubric)) {
+      const value = entry.scores[name];
+      if (typeof value === "number" && Number.isFinite(value)) {
+        criteria[name] = Math.min(10, Math.max(1, value));
+      }
+    }
+    if (Object.keys(criteria).length === 0) {
+      continue;
+    }
+    const notes = typeof entry.notes === "string" ? entry.notes.trim() : "";
+    scores[agentId] = {
+      planId,
+      criteria,
+      total: Object.values(criteria).reduce((sum, value) => sum + value, 0),
+      notes: notes || undefined,
+    };
+  }
+  return Object.keys(scores).length > 0 ? scores : null;
+}
+
 function unifiedDiff(params: {
   fromFile: string;
   toFile: string;
@@ -69,6 +231,9 @@ export class TurnOrchestrator {
   manager: SessionManager;
   config: Pl4nConfig;
   adapters: Record<string, AgentAdapter>;
+  judgeAdapter?: AgentAdapter;
+  private saveQueue: Promise<void> = Promise.resolve();
+  private usageQueue: Promise<void> = Promise.resolve();
 
   constructor(manager: SessionManager, config: Pl4nConfig) {
     this.manager = manager;
@@ -79,15 +244,19 @@ export class TurnOrchestrator {
       if (agentConfig.enabled === false) {
         continue;
       }
-      if (agentConfig.type === "claude") {
-        this.adapters[agentConfig.id] = new ClaudeCodeSyncAdapter(agentConfig);
-      } else if (agentConfig.type === "codex") {
-        this.adapters[agentConfig.id] = new CodexCLISyncAdapter(agentConfig);
+      const adapter = createSyncAdapter(agentConfig);
+      if (adapter) {
+        this.adapters[agentConfig.id] = adapter;
       }
     }
+
+    const judge = config.judge;
+    if (judge && judge.enabled !== false) {
+      this.judgeAdapter = createSyncAdapter(judge) ?? new CodexCLISyncAdapter(judge);
+    }
   }
 
-  async runTurn(sessionId: string): Promise<boolean> {
+  async runTurn(sessionId: string, options: { resume?: boolean } = {}): Promise<boolean> {
     const state = await this.manager.loadSession(sessionId);
     if (!state) {
       return false;
@@ -109,22 +278,397 @@ export class TurnOrchestrator {
         state.agentPlanIds[agentId] = planId;
       }
     }
+    // Checkpoints are indexed by pipeline step, so a resumed turn keeps its original pipeline
+    const resuming = Boolean(options.resume && state.pipeline);
+    const pipeline = resuming && state.pipeline ? state.pipeline : [...this.config.pipeline];
+    if (!resuming) {
+      state.checkpoints = {};
+      state.strayEdits = {};
+      state.lintIssues = {};
+    }
+    state.pipeline = pipeline;
+    state.runnerPid = process.pid;
+    state.agentPids = {};
+    state.agentAttempts = {};
     await this.manager.saveState(state);
 
-    state.phase = Phase.Drafting;
+    const turnTimeout = this.config.turnTimeout;
+    const deadline = turnTimeout ? AbortSignal.timeout(turnTimeout * 1000) : undefined;
+    const context: StageContext = { state, paths, snapshotDir, task, turn, userFeedback, deadline };
+    let plans: Record<string, string> = {};
+    let reviewRound = 0;
+
+    for (const [index, stage] of pipeline.entries()) {
+      if (deadline?.aborted) {
+        return await this.failTurn(state);
+      }
+      state.phase = STAGE_PHASES[stage];
+      state.pipelineStep = index;
+      await this.manager.saveState(state);
+
+      if (stage === PipelineStage.Draft) {
+        plans = await this.runDraftStage(context, index);
+        if (Object.keys(plans).length === 0) {
+          return await this.failTurn(state);
+        }
+      } else if (stage === PipelineStage.Review) {
+        reviewRound += 1;
+        plans = await this.runReviewStage(context, index, plans, reviewRound);
+      } else if (!(await this.runSynthesisStage(context, index, plans))) {
+        return await this.failTurn(state);
+      }
+    }
+
+    state.phase = Phase.UserReview;
+    state.pipelineStep = undefined;
+    state.checkpoints = {};
+    state.runnerPid = undefined;
+    state.turnSessions[String(turn)] = await this.manager.readAgentSessions(sessionId);
     await this.manager.saveState(state);
 
+    return true;
+  }
+
+  // Checkpoints are kept so the failed turn can be picked up again with `pl4n resume`
+  private async failTurn(state: SessionState): Promise<boolean> {
+    state.phase = Phase.Error;
+    state.runnerPid = undefined;
+    state.agentPids = {};
+    await this.saveStateSerialized(state);
+    return false;
+  }
+
+  // Runs one agent, retrying transient failures according to its retry policy
+  private async runAgent(
+    context: StageContext,
+    key: string,
+    adapter: AgentAdapter,
+    params: AgentRunParams,
+  ): Promise<AgentRunResult> {
+    const { state, deadline } = context;
+    const retry = adapter.config.retry;
+    const maxAttempts = retry?.maxAttempts ?? 1;
+
+    for (let attempt = 1; ; attempt += 1) {
+      state.agentAttempts[key] = attempt;
+      await this.saveStateSerialized(state);
+
+      const result = await this.runAttempt(context, key, adapter, params);
+      // Timeouts are not retried: another attempt would most likely hang the same way
+      if (result.success || result.timeoutError || !retry || attempt >= maxAttempts) {
+        return result;
+      }
+      if (!retry.patterns.some((pattern) => new RegExp(pattern, "i").test(result.output))) {
+        return result;
+      }
+
+      const delay = retry.backoff * retry.multiplier ** (attempt - 1);
+      await fs.appendFile(
+        params.logFile,
+        `\n[pl4n] Attempt ${attempt}/${maxAttempts} failed: ${extractErrorSummary(result.output)}\n` +
+          `[pl4n] Retrying in ${delay}s\n`,
+        "utf8",
+      );
+      if (!(await waitUnlessAborted(delay * 1000, deadline))) {
+        return {
+          success: false,
+          output: result.output,
+          timeoutError: `Turn timed out after ${this.config.turnTimeout}s`,
+        };
+      }
+    }
+  }
+
+  // Runs an agent that writes a plan, then resumes its session to fix any plan lint violations
+  private async runPlanAgent(
+    context: StageContext,
+    key: string,
+    adapter: AgentAdapter,
+    params: AgentRunParams,
+  ): Promise<AgentRunResult> {
+    let result = await this.runAgent(context, key, adapter, params);
+    const lint = this.config.lint;
+    if (!lint || !result.success) {
+      return result;
+    }
+
+    const readPlan = async (run: AgentRunResult) =>
+      (await fileExists(params.outputFile))
+        ? await fs.readFile(params.outputFile, "utf8")
+        : run.output;
+    let plan = await readPlan(result);
+    let issues = lintPlan(plan);
+    for (let fix = 1; issues.length > 0 && fix <= lint.maxFixes; fix += 1) {
+      if (context.deadline?.aborted) {
+        break;
+      }
+      await fs.appendFile(
+        params.logFile,
+        `\n[pl4n] Plan lint found ${issues.length} issue(s), asking for fix ${fix}/${lint.maxFixes}\n`,
+        "utf8",
+      );
+      const fixed = await this.runAgent(context, key, adapter, {
+        ...params,
+        prompt: getLintFixPrompt({ planFile: params.outputFile, issues }),
+      });
+      // A failed fix must not cost the agent its plan: put back what the last good run wrote
+      if (!fixed.success) {
+        await fs.writeFile(params.outputFile, plan, "utf8");
+        break;
+      }
+      result = fixed;
+      plan = await readPlan(result);
+      issues = lintPlan(plan);
+    }
+
+    if (issues.length > 0) {
+      context.state.lintIssues[key] = issues.map((issue) => issue.message);
+    } else {
+      delete context.state.lintIssues[key];
+    }
+    return result;
+  }
+
+  // A fork's agents start new conversations, so their first run gets a summary of the copied turns
+  private async withForkContext(
+    context: StageContext,
+    params: AgentRunParams,
+  ): Promise<AgentRunParams> {
+    const { state, paths } = context;
+    if (
+      !state.parentSession ||
+      state.parentTurn === undefined ||
+      !params.sessionFile ||
+      (await fileExists(params.sessionFile)) ||
+      !(await fileExists(paths.fork))
+    ) {
+      return params;
+    }
+    const forkContext = getForkContext({
+      parentSession: state.parentSession,
+      parentTurn: state.parentTurn,
+      summary: await fs.readFile(paths.fork, "utf8"),
+    });
+    return { ...params, prompt: `${forkContext}${params.prompt}` };
+  }
+
+  // Runs one agent under its own timeout and the turn deadline, recording its PID for `pl4n abort`
+  private async runAttempt(
+    context: StageContext,
+    key: string,
+    adapter: AgentAdapter,
+    original: AgentRunParams,
+  ): Promise<AgentRunResult> {
+    const { state, deadline } = context;
+    const params = await this.withForkContext(context, original);
+    const timeout = adapter.config.timeout;
+    const agentSignal = timeout ? AbortSignal.timeout(timeout * 1000) : undefined;
+    const signals = [agentSignal, deadline].filter(
+      (signal): signal is AbortSignal => signal !== undefined,
+    );
+
+    let isolated: IsolatedRun | null = null;
+    if (this.config.isolation === Isolation.Worktree) {
+      try {
+        isolated = await this.createIsolatedRun(state, params);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { success: false, output: `Error: could not isolate agent: ${message}` };
+      }
+    }
+
+    let pidSaved: Promise<void> = Promise.resolve();
+    let success = false;
+    let output = "";
+    let usage: AgentUsage | undefined;
+    const startedAt = new Date();
+    try {
+      [success, output] = await adapter.runSync({
+        ...(isolated?.params ?? params),
+        turn: state.turn,
+        signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+        onSpawn: (pid) => {
+          state.agentPids[key] = pid;
+          pidSaved = this.saveStateSerialized(state);
+        },
+        onUsage: (reported) => {
+          usage = reported;
+        },
+      });
+    } finally {
+      await pidSaved;
+      delete state.agentPids[key];
+      if (isolated) {
+        await this.finishIsolatedRun(state, key, params, isolated, success);
+      }
+    }
+    await this.recordUsage(state.sessionId, {
+      agentId: key,
+      model: adapter.config.model,
+      stage: params.stage,
+      turn: state.turn,
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      usage,
+    });
+
+    if (deadline?.aborted) {
+      return {
+        success: false,
+        output,
+        timeoutError: `Turn timed out after ${this.config.turnTimeout}s`,
+      };
+    }
+    if (agentSignal?.aborted) {
+      return { success: false, output, timeoutError: `Timed out after ${timeout}s` };
+    }
+    return { success, output };
+  }
+
+  // Checks out the session's base commit for one agent run and points its output into the worktree
+  private async createIsolatedRun(
+    state: SessionState,
+    params: AgentRunParams,
+  ): Promise<IsolatedRun> {
+    const projectRoot = path.resolve(this.manager.pl4nDir, "..");
+    const baseCommit = state.baseCommit ?? (await resolveHead(projectRoot));
+    if (!baseCommit) {
+      throw new Error("isolation: worktree requires a git repository with at least one commit");
+    }
+
+    const worktree = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-worktree-"));
+    try {
+      await addWorktree(projectRoot, worktree, baseCommit);
+    } catch (error) {
+      await fs.rm(worktree, { recursive: true, force: true });
+      throw error;
+    }
+
+    const outputFile = path.join(worktree, ISOLATED_OUTPUT_DIR, path.basename(params.outputFile));
+    await fs.mkdir(path.dirname(outputFile), { recursive: true });
+    // Later turns revise the previous plan in place
+    if (await fileExists(params.outputFile)) {
+      await fs.copyFile(params.outputFile, outputFile);
+    }
+    return {
+      worktree,
+      params: {
+        ...params,
+        worktree,
+        outputFile,
+        prompt: params.prompt.split(params.outputFile).join(outputFile),
+      },
+    };
+  }
+
+  // Copies back only the output file, records any other edits, and removes the worktree
+  private async finishIsolatedRun(
+    state: SessionState,
+    key: string,
+    params: AgentRunParams,
+    isolated: IsolatedRun,
+    success: boolean,
+  ): Promise<void> {
+    const projectRoot = path.resolve(this.manager.pl4nDir, "..");
+    if (success && (await fileExists(isolated.params.outputFile))) {
+      await fs.copyFile(isolated.params.outputFile, params.outputFile);
+    }
+
+    const strayEdits = (await listChangedFiles(isolated.worktree)).filter(
+      (file) => !file.startsWith(`${ISOLATED_OUTPUT_DIR}/`),
+    );
+    if (strayEdits.length > 0) {
+      state.strayEdits[key] = [
+        ...new Set([...(state.strayEdits[key] ?? []), ...strayEdits]),
+      ].sort();
+      await fs.appendFile(
+        params.logFile,
+        `\n[pl4n] Discarded edits outside the plan file: ${strayEdits.join(", ")}\n`,
+        "utf8",
+      );
+      await this.saveStateSerialized(state);
+    }
+
+    try {
+      await removeWorktree(projectRoot, isolated.worktree);
+    } catch {
+      await fs.rm(isolated.worktree, { recursive: true, force: true });
+      await runGit(["worktree", "prune"], projectRoot);
+    }
+  }
+
+  private async readCheckpoint(
+    context: StageContext,
+    step: number,
+    key: string,
+  ): Promise<string | null> {
+    const relativePath = context.state.checkpoints[String(step)]?.[key];
+    if (!relativePath) {
+      return null;
+    }
+    try {
+      return await fs.readFile(path.join(context.paths.root, relativePath), "utf8");
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeCheckpoint(
+    context: StageContext,
+    step: number,
+    key: string,
+    snapshotFile: string,
+  ): Promise<void> {
+    const stepKey = String(step);
+    const checkpoints = context.state.checkpoints;
+    checkpoints[stepKey] = {
+      ...checkpoints[stepKey],
+      [key]: path.relative(context.paths.root, snapshotFile),
+    };
+    await this.saveStateSerialized(context.state);
+  }
+
+  // Parallel agents finish independently; chain writes so state.yaml is never written concurrently
+  private saveStateSerialized(state: SessionState): Promise<void> {
+    const next = this.saveQueue.then(() => this.manager.saveState(state));
+    this.saveQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  // Parallel agents finish together, so appends to usage.yaml are queued like state saves
+  private recordUsage(sessionId: string, record: UsageRecord): Promise<void> {
+    const next = this.usageQueue.then(() => this.manager.appendUsage(sessionId, record));
+    this.usageQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async runDraftStage(
+    context: StageContext,
+    step: number,
+  ): Promise<Record<string, string>> {
+    const { state, paths, snapshotDir, task, turn, userFeedback } = context;
     const drafts: Record<string, string> = {};
     const projectRoot = path.resolve(this.manager.pl4nDir, "..");
 
+    const pending: Array<[string, AgentAdapter]> = [];
+    for (const [agentId, adapter] of Object.entries(this.adapters)) {
+      const checkpoint = await this.readCheckpoint(context, step, agentId);
+      if (checkpoint !== null) {
+        drafts[agentId] = checkpoint;
+        state.agents[agentId] = AgentStatus.Done;
+      } else {
+        pending.push([agentId, adapter]);
+      }
+    }
+
     // Mark all agents as working upfront
-    for (const agentId of Object.keys(this.adapters)) {
+    for (const [agentId] of pending) {
       state.agents[agentId] = AgentStatus.Working;
     }
     await this.manager.saveState(state);
 
     // Run all agents in parallel
-    const draftPromises = Object.entries(this.adapters).map(async ([agentId, adapter]) => {
+    const draftPromises = pending.map(async ([agentId, adapter]) => {
       const planId = state.agentPlanIds[agentId];
       const planFile = paths.agentPlanFile(planId);
 
@@ -144,119 +688,253 @@ export class TurnOrchestrator {
       const sessionFile = paths.agentSessionFile(planId);
       await fs.mkdir(path.dirname(sessionFile), { recursive: true });
 
-      const [success, output] = await adapter.runSync({
+      const result = await this.runPlanAgent(context, agentId, adapter, {
         worktree: projectRoot,
         prompt,
         outputFile: planFile,
         logFile: sessionLog,
         sessionFile,
         appendLog: true,
+        stage: RunStage.Draft,
       });
 
-      return { agentId, planId, planFile, snapshotFile, success, output };
-    });
-
-    const draftResults = await Promise.all(draftPromises);
-
-    // Process results and update state
-    for (const { agentId, planFile, snapshotFile, success, output } of draftResults) {
-      if (success) {
-        const content = (await fileExists(planFile)) ? await fs.readFile(planFile, "utf8") : output;
+      // Record each result as soon as it lands so a crash only loses unfinished agents
+      if (result.success) {
+        const content = (await fileExists(planFile))
+          ? await fs.readFile(planFile, "utf8")
+          : result.output;
         drafts[agentId] = content;
         await fs.writeFile(snapshotFile, content, "utf8");
         state.agents[agentId] = AgentStatus.Done;
         delete state.agentErrors[agentId];
+        await this.writeCheckpoint(context, step, agentId, snapshotFile);
       } else {
-        state.agents[agentId] = AgentStatus.Error;
-        state.agentErrors[agentId] = extractErrorSummary(output);
+        this.recordAgentFailure(state, agentId, result);
+        await this.saveStateSerialized(state);
       }
-    }
+    });
+
+    await Promise.all(draftPromises);
     await this.manager.saveState(state);
 
-    if (Object.keys(drafts).length === 0) {
-      state.phase = Phase.Error;
-      await this.manager.saveState(state);
-      return false;
+    return drafts;
+  }
+
+  private async runReviewStage(
+    context: StageContext,
+    step: number,
+    drafts: Record<string, string>,
+    round: number,
+  ): Promise<Record<string, string>> {
+    const { state, task } = context;
+    const agentIds = Object.keys(drafts);
+    const { topology, critic } = this.config.review;
+    const toPeerDraft = (agentId: string): PeerDraft => ({
+      planId: state.agentPlanIds[agentId],
+      draft: drafts[agentId],
+    });
+
+    if (topology === ReviewTopology.Critic && critic && this.adapters[critic]) {
+      const critique = await this.runCritique(context, step, drafts, round, critic);
+      if (critique === null) {
+        return drafts;
+      }
+      const criticId = state.agentPlanIds[critic];
+      const revisers = agentIds.filter((agentId) => agentId !== critic);
+      return await this.runRevisions(context, step, drafts, round, revisers, (agentId) =>
+        getCritiqueRevisionPrompt({ task, ownDraft: drafts[agentId], criticId, critique }),
+      );
+    }
+
+    return await this.runRevisions(context, step, drafts, round, agentIds, (agentId) => {
+      const peerIds =
+        topology === ReviewTopology.All && agentIds.length > 1
+          ? agentIds.filter((peerId) => peerId !== agentId)
+          : [agentIds[(agentIds.indexOf(agentId) + 1) % agentIds.length]];
+      return getPeerReviewPrompt({
+        task,
+        ownDraft: drafts[agentId],
+        peers: peerIds.map(toPeerDraft),
+      });
+    });
+  }
+
+  private async runCritique(
+    context: StageContext,
+    step: number,
+    drafts: Record<string, string>,
+    round: number,
+    criticAgentId: string,
+  ): Promise<string | null> {
+    const { state, paths, snapshotDir, task } = context;
+    const critiqueFile = path.join(
+      snapshotDir,
+      round === 1 ? "critique.md" : `critique-${round}.md`,
+    );
+
+    const checkpoint = await this.readCheckpoint(context, step, CRITIQUE_KEY);
+    if (checkpoint !== null) {
+      state.agents[criticAgentId] = AgentStatus.Done;
+      return checkpoint;
     }
 
-    state.phase = Phase.PeerReview;
+    state.agents[criticAgentId] = AgentStatus.Working;
     await this.manager.saveState(state);
 
+    const planId = state.agentPlanIds[criticAgentId];
+    const prompt = getCritiquePrompt({
+      task,
+      drafts: Object.entries(drafts).map(([agentId, draft]) => ({
+        planId: state.agentPlanIds[agentId],
+        draft,
+      })),
+      outputFile: critiqueFile,
+    });
+
+    const result = await this.runAgent(context, criticAgentId, this.adapters[criticAgentId], {
+      worktree: path.resolve(this.manager.pl4nDir, ".."),
+      prompt,
+      outputFile: critiqueFile,
+      logFile: paths.agentLogFile(planId),
+      sessionFile: paths.agentSessionFile(planId),
+      appendLog: true,
+      stage: RunStage.Critique,
+    });
+
+    if (!result.success) {
+      this.recordAgentFailure(state, criticAgentId, result);
+      await this.saveStateSerialized(state);
+      return null;
+    }
+
+    const critique = (await fileExists(critiqueFile))
+      ? await fs.readFile(critiqueFile, "utf8")
+      : result.output;
+    await fs.writeFile(critiqueFile, critique, "utf8");
+    state.agents[criticAgentId] = AgentStatus.Done;
+    delete state.agentErrors[criticAgentId];
+    await this.writeCheckpoint(context, step, CRITIQUE_KEY, critiqueFile);
+    return critique;
+  }
+
+  private async runRevisions(
+    context: StageContext,
+    step: number,
+    drafts: Record<string, string>,
+    round: number,
+    revisers: string[],
+    buildPrompt: (agentId: string) => string,
+  ): Promise<Record<string, string>> {
+    const { state, paths, snapshotDir } = context;
     const finals: Record<string, string> = {};
     const agentIds = Object.keys(drafts);
+    const snapshotSuffix = round === 1 ? "reviewed" : `reviewed-${round}`;
 
-    // Mark all agents as working upfront
+    const pending: string[] = [];
     for (const agentId of agentIds) {
+      if (!revisers.includes(agentId)) {
+        finals[agentId] = drafts[agentId];
+        continue;
+      }
+      const checkpoint = await this.readCheckpoint(context, step, agentId);
+      if (checkpoint !== null) {
+        finals[agentId] = checkpoint;
+        state.agents[agentId] = AgentStatus.Done;
+      } else {
+        pending.push(agentId);
+      }
+    }
+
+    // Mark all agents as working upfront
+    for (const agentId of pending) {
       if (this.adapters[agentId]) {
         state.agents[agentId] = AgentStatus.Working;
       }
     }
     await this.manager.saveState(state);
 
-    // Run all peer reviews in parallel
-    const reviewPromises = agentIds.map(async (agentId, i) => {
+    // Run all revisions in parallel
+    const reviewPromises = pending.map(async (agentId) => {
       const adapter = this.adapters[agentId];
       if (!adapter) {
-        return null;
+        return;
       }
 
       const planId = state.agentPlanIds[agentId];
-      const peerIdx = (i + 1) % agentIds.length;
-      const peerAgentId = agentIds[peerIdx];
-      const peerPlanId = state.agentPlanIds[peerAgentId];
-      const peerDraft = drafts[peerAgentId] ?? "";
-
-      const prompt = getPeerReviewPrompt({
-        task,
-        ownDraft: drafts[agentId],
-        peerId: peerPlanId,
-        peerDraft,
-      });
+      const prompt = buildPrompt(agentId);
 
       const planFile = paths.agentPlanFile(planId);
       const sessionLog = paths.agentLogFile(planId);
-      const snapshotFile = path.join(snapshotDir, `${planId}-reviewed.md`);
+      const snapshotFile = path.join(snapshotDir, `${planId}-${snapshotSuffix}.md`);
 
       const sessionFile = paths.agentSessionFile(planId);
 
-      const [success, output] = await adapter.runSync({
+      const result = await this.runPlanAgent(context, agentId, adapter, {
         worktree: path.resolve(this.manager.pl4nDir, ".."),
         prompt,
         outputFile: planFile,
         logFile: sessionLog,
         sessionFile,
         appendLog: true,
+        stage: RunStage.Review,
       });
 
-      return { agentId, planFile, snapshotFile, success, output, fallbackDraft: drafts[agentId] };
-    });
-
-    const reviewResults = await Promise.all(reviewPromises);
-
-    // Process results and update state
-    for (const result of reviewResults) {
-      if (!result) continue;
-
-      const { agentId, planFile, snapshotFile, success, output, fallbackDraft } = result;
-
-      if (success) {
-        const content = (await fileExists(planFile)) ? await fs.readFile(planFile, "utf8") : output;
+      if (result.success) {
+        const content = (await fileExists(planFile))
+          ? await fs.readFile(planFile, "utf8")
+          : result.output;
         finals[agentId] = content;
         await fs.writeFile(snapshotFile, content, "utf8");
         state.agents[agentId] = AgentStatus.Done;
         delete state.agentErrors[agentId];
+        await this.writeCheckpoint(context, step, agentId, snapshotFile);
       } else {
-        finals[agentId] = fallbackDraft;
-        state.agents[agentId] = AgentStatus.Error;
-        state.agentErrors[agentId] = extractErrorSummary(output);
+        finals[agentId] = drafts[agentId];
+        this.recordAgentFailure(state, agentId, result);
+        await this.saveStateSerialized(state);
       }
-    }
-    await this.manager.saveState(state);
+    });
 
-    state.phase = Phase.Synthesizing;
+    await Promise.all(reviewPromises);
     await this.manager.saveState(state);
 
-    const synthesis = await this.synthesize(task, finals, paths, userFeedback);
+    // Keep the draft order stable regardless of which agent finished first
+    return Object.fromEntries(
+      agentIds.filter((agentId) => agentId in finals).map((agentId) => [agentId, finals[agentId]]),
+    );
+  }
+
+  private recordAgentFailure(state: SessionState, agentId: string, result: AgentRunResult): void {
+    state.agents[agentId] = result.timeoutError ? AgentStatus.TimedOut : AgentStatus.Error;
+    const summary = result.timeoutError ?? extractErrorSummary(result.output);
+    const attempts = state.agentAttempts[agentId] ?? 1;
+    state.agentErrors[agentId] = attempts > 1 ? `${summary} (after ${attempts} attempts)` : summary;
+  }
+
+  private async runSynthesisStage(
+    context: StageContext,
+    step: number,
+    finals: Record<string, string>,
+  ): Promise<boolean> {
+    const { state, paths, snapshotDir, task, turn, userFeedback } = context;
+    const synthesisFile = path.join(snapshotDir, "synthesis.md");
+    let synthesis = await this.readCheckpoint(context, step, SYNTHESIZER_KEY);
+    if (synthesis === null) {
+      const scores = await this.runJudge(context, step, finals);
+      if (context.deadline?.aborted) {
+        return false;
+      }
+      const referenceFindings =
+        Object.keys(finals).length > 1 ? await this.verifyPlans(finals) : undefined;
+      synthesis = await this.synthesize(task, finals, paths, userFeedback, context, {
+        scores,
+        referenceFindings,
+      });
+    }
+    // Don't publish the combined fallback when the turn ran out of time mid-synthesis
+    if (context.deadline?.aborted) {
+      return false;
+    }
 
     const turnFile = paths.turnFile(turn);
     await fs.mkdir(path.dirname(turnFile), { recursive: true });
@@ -264,16 +942,96 @@ export class TurnOrchestrator {
 
     const snapshotFile = turnFile.replace(/\.md$/, ".snapshot.md");
     await fs.writeFile(snapshotFile, synthesis, "utf8");
+    await fs.writeFile(synthesisFile, synthesis, "utf8");
+
+    const verification = await verifyPlan(synthesis, path.resolve(this.manager.pl4nDir, ".."));
+    await this.manager.saveVerification(state.sessionId, turn, synthesis, verification);
+    await this.writeCheckpoint(context, step, SYNTHESIZER_KEY, synthesisFile);
 
     for (const agentId of Object.keys(this.adapters)) {
       const planId = state.agentPlanIds[agentId];
       await fs.writeFile(paths.agentPlanFile(planId), synthesis, "utf8");
     }
+    return true;
+  }
 
-    state.phase = Phase.UserReview;
-    await this.manager.saveState(state);
+  // File and symbol references in each final plan that do not check out, for the synthesizer
+  private async verifyPlans(
+    finals: Record<string, string>,
+  ): Promise<Record<string, PlanReferenceFinding[]>> {
+    const projectRoot = path.resolve(this.manager.pl4nDir, "..");
+    const findings: Record<string, PlanReferenceFinding[]> = {};
+    for (const [agentId, plan] of Object.entries(finals)) {
+      findings[agentId] = (await verifyPlan(plan, projectRoot)).findings;
+    }
+    return findings;
+  }
 
-    return true;
+  // Scores are advisory: a failed or unparseable judge run only drops them from synthesis
+  private async runJudge(
+    context: StageContext,
+    step: number,
+    finals: Record<string, string>,
+  ): Promise<TurnScores | undefined> {
+    const adapter = this.judgeAdapter;
+    const rubric = this.config.judge?.rubric;
+    if (!adapter || !rubric) {
+      return undefined;
+    }
+
+    const { state, paths, task, turn } = context;
+    const checkpoint = await this.readCheckpoint(context, step, JUDGE_KEY);
+    if (checkpoint !== null) {
+      return turnScoresFromDict(JSON.parse(checkpoint));
+    }
+
+    const planAgents = Object.fromEntries(
+      Object.keys(finals).map((agentId) => [state.agentPlanIds[agentId], agentId]),
+    );
+    const judgeFile = path.join(paths.agents, "judge_temp.json");
+    const logFile = paths.agentLogFile(JUDGE_KEY);
+    await fs.mkdir(path.dirname(logFile), { recursive: true });
+
+    const prompt = getJudgePrompt({
+      task,
+      plans: Object.entries(finals).map(([agentId, draft]) => ({
+        planId: state.agentPlanIds[agentId],
+        draft,
+      })),
+      rubric,
+      outputFile: judgeFile,
+    });
+    const result = await this.runAgent(context, JUDGE_KEY, adapter, {
+      worktree: path.resolve(this.manager.pl4nDir, ".."),
+      prompt,
+      outputFile: judgeFile,
+      logFile,
+      sessionFile: paths.agentSessionFile(JUDGE_KEY),
+      appendLog: true,
+      stage: RunStage.Judge,
+    });
+
+    let raw: string | null = null;
+    if (result.success) {
+      raw = (await fileExists(judgeFile)) ? await fs.readFile(judgeFile, "utf8") : result.output;
+    }
+    await fs.rm(judgeFile, { force: true });
+    const scores = raw === null ? null : parseJudgeScores(raw, rubric, planAgents);
+    if (!scores) {
+      if (raw !== null) {
+        await fs.appendFile(logFile, "\n[pl4n] Could not parse judge scores\n", "utf8");
+      }
+      return undefined;
+    }
+
+    const scoresFile = paths.turnScoresFile(turn);
+    await fs.writeFile(
+      scoresFile,
+      `${JSON.stringify(turnScoresToDict(scores), null, 2)}\n`,
+      "utf8",
+    );
+    await this.writeCheckpoint(context, step, JUDGE_KEY, scoresFile);
+    return scores;
   }
 
   private async getUserFeedback(paths: { turnFile: (turn: number) => string }, turn: number) {
@@ -299,7 +1057,7 @@ export class TurnOrchestrator {
       });
 
       if (diff.trim().length > 0) {
-        return `\`\`\`diff\n${diff}\n\`\`\``;
+        return `\`\`\`diff\n${diff}\n\`\`\`${formatNewAnswers(original, edited)}`;
       }
     }
 
@@ -316,16 +1074,18 @@ export class TurnOrchestrator {
       agentSessionFile: (id: string) => string;
     },
     userDiff: string,
+    context?: StageContext,
+    review: {
+      scores?: TurnScores;
+      referenceFindings?: Record<string, PlanReferenceFinding[]>;
+    } = {},
   ): Promise<string> {
     if (Object.keys(agentPlans).length === 1) {
       return Object.values(agentPlans)[0];
     }
 
     const synthConfig = this.config.synthesizer;
-    const adapter =
-      synthConfig.type === "claude"
-        ? new ClaudeCodeSyncAdapter(synthConfig)
-        : new CodexCLISyncAdapter(synthConfig);
+    const adapter = createSyncAdapter(synthConfig) ?? new CodexCLISyncAdapter(synthConfig);
 
     const synthFile = path.join(paths.agents, "synthesis_temp.md");
     await fs.mkdir(path.dirname(synthFile), { recursive: true });
@@ -335,6 +1095,8 @@ export class TurnOrchestrator {
       agentPlans,
       outputFile: synthFile,
       userDiff,
+      scores: review.scores,
+      referenceFindings: review.referenceFindings,
     });
 
     const logFile = paths.agentLogFile("synthesizer");
@@ -343,14 +1105,18 @@ export class TurnOrchestrator {
     const synthSessionFile = paths.agentSessionFile("synthesizer");
     await fs.mkdir(path.dirname(synthSessionFile), { recursive: true });
 
-    const [success, _output] = await adapter.runSync({
+    const runParams: AgentRunParams = {
       worktree: path.resolve(this.manager.pl4nDir, ".."),
       prompt,
       outputFile: synthFile,
       logFile,
       sessionFile: synthSessionFile,
       appendLog: true,
-    });
+      stage: RunStage.Synthesize,
+    };
+    const success = context
+      ? (await this.runPlanAgent(context, SYNTHESIZER_KEY, adapter, runParams)).success
+      : (await adapter.runSync(runParams))[0];
 
     if (success && (await fileExists(synthFile))) {
       const result = await fs.readFile(synthFile, "utf8");
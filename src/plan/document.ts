@@ -0,0 +1,686 @@
+/**
+ * Structured plan model - parses turn files written in PLAN_FORMAT into typed sections
+ *
+ * Every section and item keeps the source lines it was parsed from, so serializing an unmodified
+ * document reproduces the file byte for byte. Items that were changed after parsing are rendered
+ * in the canonical PLAN_FORMAT layout.
+ */
+
+export type PlanSectionKind =
+  | "background"
+  | "summary"
+  | "diagrams"
+  | "clarifications"
+  | "assumptions"
+  | "questions"
+  | "notes"
+  | "tasks"
+  | "risks"
+  | "alternatives"
+  | "other";
+
+export type PlanAssumption = {
+  id: string;
+  assumption: string;
+  rationale: string;
+};
+
+export type PlanQuestion = {
+  id: string;
+  question: string;
+  context?: string;
+  recommendation?: string;
+  /** Undefined when the question has no **Answer:** field at all */
+  answer?: string;
+  extra: string[];
+};
+
+export type PlanTaskFile = {
+  path: string;
+  action?: string;
+};
+
+export type PlanTask = {
+  id: number;
+  description: string;
+  done: boolean;
+  files: PlanTaskFile[];
+  rationale?: string;
+  /** Undefined when the task has no **Dependencies:** field */
+  dependencies?: number[];
+  extra: string[];
+};
+
+export type PlanRisk = {
+  name: string;
+  severity?: string;
+  mitigation?: string;
+  extra: string[];
+};
+
+export type PlanAlternative = {
+  name: string;
+  description: string;
+  extra: string[];
+};
+
+type PlanListItems = {
+  assumptions: PlanAssumption;
+  questions: PlanQuestion;
+  tasks: PlanTask;
+  risks: PlanRisk;
+  alternatives: PlanAlternative;
+};
+
+export type PlanListKind = keyof PlanListItems;
+
+type SectionHeading = {
+  /** The heading line as written, e.g. "## Tasks" */
+  heading: string;
+  level: number;
+  title: string;
+};
+
+export type PlanTextSection = SectionHeading & {
+  kind: Exclude<PlanSectionKind, PlanListKind>;
+  lines: string[];
+};
+
+export type PlanListSection<K extends PlanListKind = PlanListKind> = SectionHeading & {
+  kind: K;
+  /** Lines between the heading and the first item */
+  intro: string[];
+  items: PlanListItems[K][];
+  /** Lines between consecutive items (blank lines, separators) */
+  separators: string[][];
+  /** Lines after the last item */
+  outro: string[];
+};
+
+export type PlanSection =
+  | PlanTextSection
+  | { [K in PlanListKind]: PlanListSection<K> }[PlanListKind];
+
+const SECTION_TITLES: [RegExp, PlanSectionKind][] = [
+  [/^background/i, "background"],
+  [/^summary/i, "summary"],
+  [/^diagrams?\b/i, "diagrams"],
+  [/^clarifications/i, "clarifications"],
+  [/^assumptions/i, "assumptions"],
+  [/^(open )?questions/i, "questions"],
+  [/^notes/i, "notes"],
+  [/^tasks/i, "tasks"],
+  [/^risks/i, "risks"],
+  [/^alternatives/i, "alternatives"],
+];
+
+// Subsections (e.g. "### Phase 1" under "## Tasks") stay part of their parent list
+const INHERITED_KINDS = new Set<PlanSectionKind>(["questions", "tasks", "risks", "alternatives"]);
+
+const LIST_KINDS = new Set<PlanSectionKind>([
+  "assumptions",
+  "questions",
+  "tasks",
+  "risks",
+  "alternatives",
+]);
+
+const HEADING = /^(#{2,3})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR = /^\|[\s:|-]+\|\s*$/;
+const QUESTION_START = /^(?:#{3,4}\s+|[-*]\s+)?\*{0,2}Q\d+\b/;
+const TASK_START = /^[-*]\s+(?:\[([ xX])\]\s+)?\*\*Task\s+(\d+)\b(.*)$/;
+const BOLD_ITEM_START = /^[-*]\s+\*\*(.+?)\*\*(.*)$/;
+
+type ItemSource = { lines: string[]; snapshot: string };
+
+const sources = new WeakMap<object, ItemSource>();
+
+function track<T extends object>(item: T, lines: string[]): T {
+  sources.set(item, { lines, snapshot: JSON.stringify(item) });
+  return item;
+}
+
+/** The lines an item was parsed from, or undefined for items created after parsing */
+export function itemSourceLines(item: object): string[] | undefined {
+  return sources.get(item)?.lines;
+}
+
+/**
+ * Mark a task done. A task parsed from markdown and otherwise unchanged keeps its lines as written,
+ * with only the checkbox ticked.
+ */
+export function checkOffTask(task: PlanTask): void {
+  const source = sources.get(task);
+  const untouched = source?.snapshot === JSON.stringify(task);
+  task.done = true;
+  if (source && untouched) {
+    const [heading, ...rest] = source.lines;
+    track(task, [heading.replace(/^([-*]\s+)(?:\[[ xX]\]\s+)?/, "$1[x] "), ...rest]);
+  }
+}
+
+function itemLines<T extends object>(item: T, render: (item: T) => string[]): string[] {
+  const source = sources.get(item);
+  if (source && source.snapshot === JSON.stringify(item)) {
+    return source.lines;
+  }
+  return render(item);
+}
+
+function classify(title: string, parent: PlanSectionKind | null, level: number): PlanSectionKind {
+  for (const [pattern, kind] of SECTION_TITLES) {
+    if (pattern.test(title)) {
+      return kind;
+    }
+  }
+  if (level === 3 && parent && INHERITED_KINDS.has(parent)) {
+    return parent;
+  }
+  return "other";
+}
+
+function isFiller(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length === 0 ||
+    /^(-{3,}|\*{3,}|_{3,})$/.test(trimmed) ||
+    (trimmed.startsWith("<!--") && trimmed.endsWith("-->"))
+  );
+}
+
+function isIndented(line: string): boolean {
+  return /^\s/.test(line);
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Split a list section body into items. A block runs from its start line to the next start (or,
+ * for indented lists, to the first unindented line); trailing blank lines and rules move into
+ * the separator that follows it.
+ */
+function splitItems(
+  lines: string[],
+  isStart: (line: string) => boolean,
+  options: { indented: boolean },
+): { intro: string[]; blocks: string[][]; separators: string[][]; outro: string[] } {
+  const starts: number[] = [];
+  let fenced = false;
+  for (const [index, line] of lines.entries()) {
+    if (FENCE.test(line)) {
+      fenced = !fenced;
+    }
+    if (!fenced && isStart(line)) {
+      starts.push(index);
+    }
+  }
+  if (starts.length === 0) {
+    return { intro: lines, blocks: [], separators: [], outro: [] };
+  }
+
+  const blocks: string[][] = [];
+  const gaps: string[][] = [];
+  for (const [position, start] of starts.entries()) {
+    const next = starts[position + 1] ?? lines.length;
+    let end = start + 1;
+    fenced = false;
+    while (end < next) {
+      const line = lines[end];
+      if (options.indented && !fenced && line.trim() && !isIndented(line)) {
+        break;
+      }
+      if (FENCE.test(line)) {
+        fenced = !fenced;
+      }
+      end += 1;
+    }
+    while (end > start + 1 && isFiller(lines[end - 1])) {
+      end -= 1;
+    }
+    blocks.push(lines.slice(start, end));
+    gaps.push(lines.slice(end, next));
+  }
+  return {
+    intro: lines.slice(0, starts[0]),
+    blocks,
+    separators: gaps.slice(0, -1),
+    outro: gaps[gaps.length - 1],
+  };
+}
+
+/**
+ * Match a "**Label:** value" / "- Label: value" field line against a set of known labels.
+ */
+function matchField(line: string, labels: Record<string, string>): [string, string] | null {
+  const match = /^\s*(?:[-*]\s+)?(?:\*\*)?([A-Za-z][A-Za-z ]*?)(?::\*\*|\*\*\s*:|:)\s*(.*)$/.exec(
+    line,
+  );
+  if (!match) {
+    return null;
+  }
+  const field = labels[match[1].trim().toLowerCase()];
+  return field ? [field, match[2].trim()] : null;
+}
+
+/**
+ * Group the lines after an item's first line into known fields (with continuation lines) and
+ * unrecognized extra lines.
+ */
+function collectFields(
+  lines: string[],
+  labels: Record<string, string>,
+): { fields: Record<string, string>; extra: string[] } {
+  const fields: Record<string, string> = {};
+  const extra: string[] = [];
+  let current: string | null = null;
+  let fieldIndent = 0;
+  for (const line of lines) {
+    const field = matchField(line, labels);
+    if (field) {
+      [current] = field;
+      fields[current] = field[1];
+      fieldIndent = indentation(line);
+      continue;
+    }
+    // Continuation lines are nested deeper, or are plain text under a non-list field
+    const nested =
+      indentation(line) > fieldIndent ||
+      (indentation(line) === fieldIndent && !/^\s*[-*]\s/.test(line));
+    if (current && nested && line.trim() && !isFiller(line)) {
+      fields[current] = fields[current] ? `${fields[current]}\n${line.trim()}` : line.trim();
+      continue;
+    }
+    current = null;
+    extra.push(line);
+  }
+  // Blank lines between fields are formatting, not content
+  while (extra.length > 0 && !extra[extra.length - 1].trim()) {
+    extra.pop();
+  }
+  return { fields, extra: extra.every((line) => !line.trim()) ? [] : extra };
+}
+
+function stripBold(text: string): string {
+  let result = text.replace(/^(?:\*\*|:|\s)+/, "").trim();
+  if (result.endsWith("**") && result.indexOf("**") === result.length - 2) {
+    result = result.slice(0, -2).trim();
+  }
+  return result;
+}
+
+export function splitCells(row: string): string[] {
+  const inner = row.trim().replace(/^\|/, "").replace(/\|$/, "");
+  return inner.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+function parseAssumption(row: string): PlanAssumption {
+  const [id = "", assumption = "", rationale = ""] = splitCells(row);
+  return track({ id, assumption, rationale }, [row]);
+}
+
+const QUESTION_FIELDS: Record<string, string> = {
+  context: "context",
+  "agent recommends": "recommendation",
+  recommendation: "recommendation",
+  recommended: "recommendation",
+  answer: "answer",
+};
+
+function parseQuestion(lines: string[]): PlanQuestion {
+  const plain = lines[0]
+    .replace(/^(?:#{3,4}\s+|[-*]\s+)/, "")
+    .replaceAll("**", "")
+    .trim();
+  const match = /^Q(\d+)\b\s*[:.)]?\s*(.*)$/.exec(plain);
+  const { fields, extra } = collectFields(lines.slice(1), QUESTION_FIELDS);
+  return track(
+    {
+      id: `Q${match?.[1] ?? ""}`,
+      question: match?.[2].trim() ?? plain,
+      context: fields.context,
+      recommendation: fields.recommendation,
+      answer: fields.answer,
+      extra,
+    },
+    lines,
+  );
+}
+
+const TASK_FIELDS: Record<string, string> = {
+  files: "files",
+  file: "files",
+  rationale: "rationale",
+  dependencies: "dependencies",
+  "depends on": "dependencies",
+};
+
+export function parseTaskFiles(value: string): PlanTaskFile[] {
+  const files: PlanTaskFile[] = [];
+  for (const match of value.matchAll(/`([^`]+)`(?:\s*\(([^)]*)\))?/g)) {
+    files.push(match[2] ? { path: match[1], action: match[2].trim() } : { path: match[1] });
+  }
+  if (files.length > 0 || !value.trim()) {
+    return files;
+  }
+  return value
+    .split(/[,\n]/)
+    .map((entry) => entry.replace(/^[-*]\s+/, "").trim())
+    .filter((entry) => entry && !/^none$/i.test(entry))
+    .map((entry) => {
+      const match = /^(.*?)\s*\(([^)]*)\)$/.exec(entry);
+      return match?.[1] && match[2].trim()
+        ? { path: match[1], action: match[2].trim() }
+        : { path: entry };
+    });
+}
+
+export function parseTaskDependencies(value: string): number[] {
+  return Array.from(value.matchAll(/\d+/g), (match) => Number(match[0]));
+}
+
+function parseTask(lines: string[]): PlanTask {
+  const match = TASK_START.exec(lines[0]);
+  const { fields, extra } = collectFields(lines.slice(1), TASK_FIELDS);
+  return track(
+    {
+      id: Number(match?.[2] ?? 0),
+      description: stripBold(match?.[3] ?? ""),
+      done: (match?.[1] ?? " ").toLowerCase() === "x",
+      files: parseTaskFiles(fields.files ?? ""),
+      rationale: fields.rationale,
+      dependencies:
+        fields.dependencies === undefined ? undefined : parseTaskDependencies(fields.dependencies),
+      extra,
+    },
+    lines,
+  );
+}
+
+function parseRisk(lines: string[]): PlanRisk {
+  const match = BOLD_ITEM_START.exec(lines[0]);
+  const rest = match?.[2] ?? "";
+  const severity =
+    /severity:\s*([a-z]+)/i.exec(rest)?.[1] ?? /\((high|medium|low)\)/i.exec(rest)?.[1];
+  const { fields, extra } = collectFields(lines.slice(1), { mitigation: "mitigation" });
+  return track(
+    {
+      name: (match?.[1] ?? "").replace(/:$/, "").trim(),
+      severity: severity?.toLowerCase(),
+      mitigation: fields.mitigation,
+      extra,
+    },
+    lines,
+  );
+}
+
+function parseAlternative(lines: string[]): PlanAlternative {
+  const match = BOLD_ITEM_START.exec(lines[0]);
+  return track(
+    {
+      name: (match?.[1] ?? "").replace(/:$/, "").trim(),
+      description: (match?.[2] ?? "").replace(/^\s*:/, "").trim(),
+      extra: lines.slice(1),
+    },
+    lines,
+  );
+}
+
+function parseListSection(
+  heading: SectionHeading,
+  kind: PlanListKind,
+  body: string[],
+): PlanSection {
+  if (kind === "assumptions") {
+    const separator = body.findIndex((line) => TABLE_SEPARATOR.test(line));
+    let end = separator + 1;
+    while (separator >= 0 && end < body.length && body[end].trim().startsWith("|")) {
+      end += 1;
+    }
+    const rows = separator >= 0 ? body.slice(separator + 1, end) : [];
+    return {
+      ...heading,
+      kind,
+      intro: separator >= 0 ? body.slice(0, separator + 1) : body,
+      items: rows.map(parseAssumption),
+      separators: rows.slice(1).map(() => []),
+      outro: separator >= 0 ? body.slice(end) : [],
+    };
+  }
+  if (kind === "questions") {
+    const split = splitItems(body, (line) => QUESTION_START.test(line), { indented: false });
+    return { ...heading, kind, ...split, items: split.blocks.map(parseQuestion) };
+  }
+  if (kind === "tasks") {
+    const split = splitItems(body, (line) => TASK_START.test(line), { indented: true });
+    return { ...heading, kind, ...split, items: split.blocks.map(parseTask) };
+  }
+  const split = splitItems(body, (line) => BOLD_ITEM_START.test(line), { indented: true });
+  return kind === "risks"
+    ? { ...heading, kind, ...split, items: split.blocks.map(parseRisk) }
+    : { ...heading, kind, ...split, items: split.blocks.map(parseAlternative) };
+}
+
+function renderQuestion(question: PlanQuestion): string[] {
+  const lines = [`**${question.id}: ${question.question}**`];
+  if (question.context !== undefined) {
+    lines.push(`- Context: ${question.context}`);
+  }
+  if (question.recommendation !== undefined) {
+    lines.push(`- Agent recommends: ${question.recommendation}`);
+  }
+  if (question.answer !== undefined) {
+    lines.push(`- **Answer:** ${question.answer}`.trimEnd());
+  }
+  return [...lines, ...question.extra];
+}
+
+function renderTaskFiles(files: PlanTaskFile[]): string {
+  return files
+    .map((file) => (file.action ? `\`${file.path}\` (${file.action})` : `\`${file.path}\``))
+    .join(", ");
+}
+
+function renderTask(task: PlanTask): string[] {
+  const lines = [`- [${task.done ? "x" : " "}] **Task ${task.id}**: ${task.description}`];
+  if (task.files.length > 0) {
+    lines.push(`  - **Files:** ${renderTaskFiles(task.files)}`);
+  }
+  if (task.rationale !== undefined) {
+    lines.push(`  - **Rationale:** ${task.rationale}`);
+  }
+  if (task.dependencies !== undefined) {
+    const dependencies = task.dependencies.map((id) => `Task ${id}`).join(", ");
+    lines.push(`  - **Dependencies:** ${dependencies || "none"}`);
+  }
+  return [...lines, ...task.extra];
+}
+
+function renderRisk(risk: PlanRisk): string[] {
+  const severity = risk.severity ? ` (severity: ${risk.severity})` : "";
+  const lines = [`- **${risk.name}**${severity}`];
+  if (risk.mitigation !== undefined) {
+    lines.push(`  - **Mitigation:** ${risk.mitigation}`);
+  }
+  return [...lines, ...risk.extra];
+}
+
+function renderAlternative(alternative: PlanAlternative): string[] {
+  const description = alternative.description ? `: ${alternative.description}` : "";
+  return [`- **${alternative.name}**${description}`, ...alternative.extra];
+}
+
+function renderAssumption(assumption: PlanAssumption): string[] {
+  return [`| ${assumption.id} | ${assumption.assumption} | ${assumption.rationale} |`];
+}
+
+function renderItem(section: PlanListSection, item: object): string[] {
+  switch (section.kind) {
+    case "assumptions":
+      return itemLines(item as PlanAssumption, renderAssumption);
+    case "questions":
+      return itemLines(item as PlanQuestion, renderQuestion);
+    case "tasks":
+      return itemLines(item as PlanTask, renderTask);
+    case "risks":
+      return itemLines(item as PlanRisk, renderRisk);
+    case "alternatives":
+      return itemLines(item as PlanAlternative, renderAlternative);
+  }
+}
+
+function sectionLines(section: PlanSection): string[] {
+  if (!LIST_KINDS.has(section.kind)) {
+    return [section.heading, ...(section as PlanTextSection).lines];
+  }
+  const list = section as PlanListSection;
+  const lines = [section.heading, ...list.intro];
+  // Items added after parsing are separated like the existing ones
+  const defaultSeparator = list.kind === "questions" ? [""] : [];
+  for (const [index, item] of (list.items as object[]).entries()) {
+    if (index > 0) {
+      lines.push(...(list.separators[index - 1] ?? defaultSeparator));
+    }
+    lines.push(...renderItem(list, item));
+  }
+  lines.push(...list.outro);
+  return lines;
+}
+
+export class PlanDocument {
+  /** Lines before the first ## heading (usually the "# Plan" title) */
+  preamble: string[];
+  sections: PlanSection[];
+  /** "\r\n" for files written with Windows line endings, restored on serialize */
+  lineEnding: string;
+
+  constructor(preamble: string[], sections: PlanSection[], lineEnding = "\n") {
+    this.preamble = preamble;
+    this.sections = sections;
+    this.lineEnding = lineEnding;
+  }
+
+  static parse(markdown: string): PlanDocument {
+    // Files with mixed line endings keep their stray \r inside the lines
+    const crlf = markdown.includes("\r\n") && !/(^|[^\r])\n/.test(markdown);
+    const lineEnding = crlf ? "\r\n" : "\n";
+    const lines = markdown.split(lineEnding);
+    const preamble: string[] = [];
+    const raw: { heading: SectionHeading; kind: PlanSectionKind; body: string[] }[] = [];
+    let parent: PlanSectionKind | null = null;
+    let fenced = false;
+
+    for (const line of lines) {
+      const current = raw[raw.length - 1];
+      if (FENCE.test(line)) {
+        fenced = !fenced;
+      }
+      const match = fenced ? null : HEADING.exec(line);
+      // "### Q1: ..." headings are questions, not subsections
+      const isQuestion = current?.kind === "questions" && QUESTION_START.test(line);
+      if (!match || isQuestion) {
+        (current ? current.body : preamble).push(line);
+        continue;
+      }
+      const level = match[1].length;
+      const title = match[2];
+      const kind = classify(title, parent, level);
+      if (level === 2) {
+        parent = kind;
+      }
+      raw.push({ heading: { heading: line, level, title }, kind, body: [] });
+    }
+
+    const sections = raw.map(({ heading, kind, body }): PlanSection => {
+      if (LIST_KINDS.has(kind)) {
+        return parseListSection(heading, kind as PlanListKind, body);
+      }
+      return { ...heading, kind: kind as PlanTextSection["kind"], lines: body };
+    });
+    return new PlanDocument(preamble, sections, lineEnding);
+  }
+
+  serialize(): string {
+    return [...this.preamble, ...this.sections.flatMap(sectionLines)].join(this.lineEnding);
+  }
+
+  /** Trimmed text of the first section of a text kind */
+  text(kind: PlanTextSection["kind"]): string | undefined {
+    const section = this.sections.find((entry) => entry.kind === kind) as
+      | PlanTextSection
+      | undefined;
+    return section?.lines.join("\n").trim();
+  }
+
+  /** The first list section of a kind, for adding or removing items */
+  listSection<K extends PlanListKind>(kind: K): PlanListSection<K> | undefined {
+    return this.sections.find((section) => section.kind === kind) as PlanListSection<K> | undefined;
+  }
+
+  list<K extends PlanListKind>(kind: K): PlanListItems[K][] {
+    return this.sections.flatMap((section) =>
+      section.kind === kind ? (section as PlanListSection<K>).items : [],
+    );
+  }
+
+  get background(): string | undefined {
+    return this.text("background");
+  }
+
+  get summary(): string | undefined {
+    return this.text("summary");
+  }
+
+  get notes(): string | undefined {
+    return this.text("notes");
+  }
+
+  get assumptions(): PlanAssumption[] {
+    return this.list("assumptions");
+  }
+
+  get questions(): PlanQuestion[] {
+    return this.list("questions");
+  }
+
+  get tasks(): PlanTask[] {
+    return this.list("tasks");
+  }
+
+  get risks(): PlanRisk[] {
+    return this.list("risks");
+  }
+
+  get alternatives(): PlanAlternative[] {
+    return this.list("alternatives");
+  }
+
+  /** Questions with an empty or missing **Answer:** field */
+  get unansweredQuestions(): PlanQuestion[] {
+    return this.questions.filter((question) => !question.answer?.trim());
+  }
+}
+
+export function parsePlan(markdown: string): PlanDocument {
+  return PlanDocument.parse(markdown);
+}
+
+export function serializePlan(document: PlanDocument): string {
+  return document.serialize();
+}
+
+/**
+ * Counts reported by `pl4n status` and the server.
+ */
+export function planSummaryToDict(document: PlanDocument): Record<string, unknown> {
+  const tasks = document.tasks;
+  return {
+    tasks: tasks.length,
+    tasks_done: tasks.filter((task) => task.done).length,
+    questions: document.questions.length,
+    unanswered_questions: document.unansweredQuestions.map((question) => question.id),
+    risks: document.risks.length,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Task graph - the plan's tasks as a dependency DAG with an execution order
+ */
+
+import { PlanDocument } from "./document";
+
+export type TaskGraphNode = {
+  id: number;
+  description: string;
+  done: boolean;
+  dependencies: number[];
+};
+
+export type TaskGraph = {
+  /** Tasks in document order; a renumbered duplicate keeps its first occurrence */
+  nodes: TaskGraphNode[];
+  /** [dependency, dependent] pairs between existing tasks */
+  edges: [number, number][];
+  /** Topological execution order of every task that can be scheduled, lowest id first on ties */
+  order: number[];
+  /** Strongly connected tasks (and self-dependencies), each sorted by id */
+  cycles: number[][];
+  /** Dependencies on tasks the plan does not define */
+  dangling: { task: number; dependency: number }[];
+  /** Tasks outside any cycle that can never start because something they wait on never finishes */
+  unreachable: number[];
+};
+
+function graphNodes(plan: PlanDocument): TaskGraphNode[] {
+  const seen = new Set<number>();
+  const nodes: TaskGraphNode[] = [];
+  for (const task of plan.tasks) {
+    if (seen.has(task.id)) {
+      continue;
+    }
+    seen.add(task.id);
+    nodes.push({
+      id: task.id,
+      description: task.description,
+      done: task.done,
+      dependencies: [...new Set(task.dependencies ?? [])],
+    });
+  }
+  return nodes;
+}
+
+// Tarjan's algorithm; recursion depth is bounded by the number of tasks in a plan
+function findCycles(nodes: TaskGraphNode[], ids: Set<number>): number[][] {
+  const index = new Map<number, number>();
+  const lowlink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const cycles: number[][] = [];
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+
+  const visit = (id: number) => {
+    index.set(id, index.size);
+    lowlink.set(id, index.get(id) as number);
+    stack.push(id);
+    onStack.add(id);
+    for (const dependency of byId.get(id)?.dependencies ?? []) {
+      if (!ids.has(dependency)) {
+        continue;
+      }
+      if (!index.has(dependency)) {
+        visit(dependency);
+        lowlink.set(id, Math.min(lowlink.get(id) as number, lowlink.get(dependency) as number));
+      } else if (onStack.has(dependency)) {
+        lowlink.set(id, Math.min(lowlink.get(id) as number, index.get(dependency) as number));
+      }
+    }
+    if (lowlink.get(id) !== index.get(id)) {
+      return;
+    }
+    const component: number[] = [];
+    let member: number;
+    do {
+      member = stack.pop() as number;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    if (component.length > 1 || byId.get(id)?.dependencies.includes(id)) {
+      cycles.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (const node of nodes) {
+    if (!index.has(node.id)) {
+      visit(node.id);
+    }
+  }
+  return cycles.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Build the dependency graph of a plan's tasks. Cycles, dangling references and the tasks they
+ * block are reported rather than thrown, so a broken plan still yields a partial order.
+ */
+export function buildTaskGraph(plan: string | PlanDocument): TaskGraph {
+  const document = typeof plan === "string" ? PlanDocument.parse(plan) : plan;
+  const nodes = graphNodes(document);
+  const ids = new Set(nodes.map((node) => node.id));
+
+  const edges: [number, number][] = [];
+  const dangling: { task: number; dependency: number }[] = [];
+  for (const node of nodes) {
+    for (const dependency of node.dependencies) {
+      if (ids.has(dependency)) {
+        edges.push([dependency, node.id]);
+      } else {
+        dangling.push({ task: node.id, dependency });
+      }
+    }
+  }
+
+  const cycles = findCycles(nodes, ids);
+
+  // Kahn's algorithm: tasks in a cycle or waiting on a missing task never become ready
+  const waiting = new Map(nodes.map((node) => [node.id, node.dependencies.length]));
+  const dependents = new Map<number, number[]>();
+  for (const [dependency, dependent] of edges) {
+    dependents.set(dependency, [...(dependents.get(dependency) ?? []), dependent]);
+  }
+  const ready = nodes.filter((node) => node.dependencies.length === 0).map((node) => node.id);
+  const order: number[] = [];
+  while (ready.length > 0) {
+    ready.sort((a, b) => a - b);
+    const id = ready.shift() as number;
+    order.push(id);
+    for (const dependent of dependents.get(id) ?? []) {
+      const remaining = (waiting.get(dependent) as number) - 1;
+      waiting.set(dependent, remaining);
+      if (remaining === 0) {
+        ready.push(dependent);
+      }
+    }
+  }
+
+  const scheduled = new Set(order);
+  const inCycle = new Set(cycles.flat());
+  const unreachable = nodes
+    .map((node) => node.id)
+    .filter((id) => !scheduled.has(id) && !inCycle.has(id));
+
+  return { nodes, edges, order, cycles, dangling, unreachable };
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Graphviz rendering: done tasks are filled, cycle members red, blocked tasks grey, and missing
+ * dependencies dashed.
+ */
+export function taskGraphToDot(graph: TaskGraph): string {
+  const inCycle = new Set(graph.cycles.flat());
+  const unreachable = new Set(graph.unreachable);
+  const lines = ["digraph tasks {", "  rankdir=LR;", "  node [shape=box];"];
+  for (const node of graph.nodes) {
+    const attributes = [`label=${dotString(`Task ${node.id}: ${node.description}`)}`];
+    if (node.done) {
+      attributes.push('style=filled fillcolor="#e6f4ea"');
+    }
+    if (inCycle.has(node.id)) {
+      attributes.push("color=red");
+    } else if (unreachable.has(node.id)) {
+      attributes.push("color=gray fontcolor=gray");
+    }
+    lines.push(`  task${node.id} [${attributes.join(" ")}];`);
+  }
+  for (const dependency of new Set(graph.dangling.map((entry) => entry.dependency))) {
+    lines.push(
+      `  task${dependency} [label=${dotString(`Task ${dependency} (missing)`)} style=dashed color=red];`,
+    );
+  }
+  for (const [dependency, dependent] of graph.edges) {
+    const color = inCycle.has(dependency) && inCycle.has(dependent) ? " [color=red]" : "";
+    lines.push(`  task${dependency} -> task${dependent}${color};`);
+  }
+  for (const { task, dependency } of graph.dangling) {
+    lines.push(`  task${dependency} -> task${task} [style=dashed color=red];`);
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+export function taskGraphToDict(graph: TaskGraph): Record<string, unknown> {
+  return {
+    valid: graph.cycles.length === 0 && graph.dangling.length === 0,
+    nodes: graph.nodes.map((node) => ({
+      id: node.id,
+      description: node.description,
+      done: node.done,
+      dependencies: node.dependencies,
+    })),
+    edges: graph.edges.map(([from, to]) => ({ from, to })),
+    order: graph.order,
+    cycles: graph.cycles,
+    dangling: graph.dangling,
+    unreachable: graph.unreachable,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Plan module - structured access to turn files written in PLAN_FORMAT
+ */
+
+export {
+  checkOffTask,
+  PlanDocument,
+  parsePlan,
+  parseTaskDependencies,
+  parseTaskFiles,
+  planSummaryToDict,
+  serializePlan,
+  type PlanAlternative,
+  type PlanAssumption,
+  type PlanListKind,
+  type PlanListSection,
+  type PlanQuestion,
+  type PlanRisk,
+  type PlanSection,
+  type PlanSectionKind,
+  type PlanTask,
+  type PlanTaskFile,
+  type PlanTextSection,
+} from "./document";
+export {
+  buildTaskGraph,
+  taskGraphToDict,
+  taskGraphToDot,
+  type TaskGraph,
+  type TaskGraphNode,
+} from "./graph";
+export {
+  planIssuesToScript,
+  planIssueToDict,
+  planToIssues,
+  type PlanIssue,
+} from "./issues";
+export { formatLintIssues, lintPlan, type PlanLintIssue, type PlanLintRule } from "./lint";
+export {
+  planVerificationToDict,
+  verifyPlan,
+  type PlanReferenceFinding,
+  type PlanReferenceProblem,
+  type PlanVerification,
+} from "./verify";
@@ -0,0 +1,149 @@
+/**
+ * Issue export - turns an approved plan's tasks into tracker issues
+ */
+
+import { itemSourceLines, PlanDocument, type PlanRisk, type PlanTask } from "./document";
+import { buildTaskGraph } from "./graph";
+
+export type PlanIssue = {
+  task: number;
+  title: string;
+  /** Markdown body; dependencies are named as tasks since issue numbers are not known yet */
+  body: string;
+  labels: string[];
+  dependsOn: number[];
+};
+
+const SEVERITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3 };
+const BASE_LABEL = "pl4n";
+
+function riskText(risk: PlanRisk): string {
+  return (itemSourceLines(risk) ?? [risk.name, risk.mitigation ?? "", ...risk.extra]).join("\n");
+}
+
+function mentionsTask(text: string, task: PlanTask): boolean {
+  return (
+    new RegExp(`\\bTask ${task.id}\\b`).test(text) ||
+    task.files.some((file) => text.includes(file.path))
+  );
+}
+
+// A risk naming tasks or their files labels just those tasks; any other risk applies plan-wide
+function riskLabel(task: PlanTask, tasks: PlanTask[], risks: PlanRisk[]): string | null {
+  let highest: string | null = null;
+  for (const risk of risks) {
+    const severity = risk.severity?.toLowerCase();
+    if (!severity || !SEVERITY_RANK[severity]) {
+      continue;
+    }
+    const text = riskText(risk);
+    const targeted = tasks.some((candidate) => mentionsTask(text, candidate));
+    if (targeted && !mentionsTask(text, task)) {
+      continue;
+    }
+    if (!highest || SEVERITY_RANK[severity] > SEVERITY_RANK[highest]) {
+      highest = severity;
+    }
+  }
+  return highest ? `risk:${highest}` : null;
+}
+
+function issueBody(task: PlanTask, sessionId: string): string {
+  const blocks = [task.description];
+  const extra = task.extra.map((line) => line.replace(/^ {2}/, "")).filter((line) => line.trim());
+  if (extra.length > 0) {
+    blocks.push(extra.join("\n"));
+  }
+  if (task.rationale) {
+    blocks.push(`**Rationale:** ${task.rationale}`);
+  }
+  if (task.files.length > 0) {
+    const files = task.files.map(
+      (file) => `- \`${file.path}\`${file.action ? ` (${file.action})` : ""}`,
+    );
+    blocks.push(`**Files:**\n${files.join("\n")}`);
+  }
+  blocks.push(`_Task ${task.id} of pl4n session ${sessionId}_`);
+  return blocks.join("\n\n");
+}
+
+/**
+ * One issue per task, in execution order (tasks the graph cannot schedule come last, by id).
+ */
+export function planToIssues(plan: string | PlanDocument, sessionId: string): PlanIssue[] {
+  const document = typeof plan === "string" ? PlanDocument.parse(plan) : plan;
+  const graph = buildTaskGraph(document);
+  const byId = new Map(document.tasks.map((task) => [task.id, task]));
+  const ordered = [
+    ...graph.order,
+    ...graph.nodes.map((node) => node.id).filter((id) => !graph.order.includes(id)),
+  ];
+  const tasks = ordered.map((id) => byId.get(id) as PlanTask);
+
+  return tasks.map((task) => {
+    const label = riskLabel(task, tasks, document.risks);
+    return {
+      task: task.id,
+      title: task.description || `Task ${task.id}`,
+      body: issueBody(task, sessionId),
+      labels: label ? [BASE_LABEL, label] : [BASE_LABEL],
+      dependsOn: [...new Set(task.dependencies ?? [])],
+    };
+  });
+}
+
+export function planIssueToDict(issue: PlanIssue): Record<string, unknown> {
+  const dependencies = issue.dependsOn.map((id) => `Task ${id}`).join(", ");
+  return {
+    task: issue.task,
+    title: issue.title,
+    body: dependencies ? `${issue.body}\n\n**Depends on:** ${dependencies}` : issue.body,
+    labels: issue.labels,
+    depends_on: issue.dependsOn,
+  };
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Bash script creating the issues with `gh issue create`, in order, so each body can link the
+ * issues it depends on by URL. Run it from a checkout of the target repository.
+ */
+export function planIssuesToScript(issues: PlanIssue[]): string {
+  const lines = [
+    "#!/usr/bin/env bash",
+    "# Generated by pl4n export --format issues",
+    "set -euo pipefail",
+    "",
+  ];
+  for (const label of [...new Set(issues.flatMap((issue) => issue.labels))].sort()) {
+    lines.push(`gh label create ${shellQuote(label)} --force >/dev/null`);
+  }
+
+  const created = new Set<number>();
+  for (const issue of issues) {
+    const dependencies = issue.dependsOn.map((id) =>
+      created.has(id) ? `\${task_${id}}` : `Task ${id}`,
+    );
+    lines.push(
+      "",
+      `# Task ${issue.task}`,
+      `body=$(cat <<'PL4N_ISSUE_BODY'`,
+      issue.body,
+      "PL4N_ISSUE_BODY",
+      ")",
+    );
+    if (dependencies.length > 0) {
+      lines.push(`body+=$'\\n\\n'"**Depends on:** ${dependencies.join(", ")}"`);
+    }
+    const labels = issue.labels.map((label) => `--label ${shellQuote(label)}`).join(" ");
+    lines.push(
+      `task_${issue.task}=$(gh issue create --title ${shellQuote(issue.title)} --body "$body" ${labels})`,
+      `echo "Task ${issue.task}: \${task_${issue.task}}"`,
+    );
+    created.add(issue.task);
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,159 @@
+/**
+ * Plan linter - checks a turn file's structure against PLAN_FORMAT
+ */
+
+import { itemSourceLines, PlanDocument, type PlanListSection, splitCells } from "./document";
+
+export type PlanLintRule =
+  | "missing-section"
+  | "empty-tasks"
+  | "duplicate-task"
+  | "task-order"
+  | "unknown-dependency"
+  | "self-dependency"
+  | "missing-answer"
+  | "duplicate-question"
+  | "assumption-columns"
+  | "risk-severity";
+
+export type PlanLintIssue = {
+  rule: PlanLintRule;
+  message: string;
+};
+
+const REQUIRED_SECTIONS: [kind: "background" | "summary" | "tasks", heading: string][] = [
+  ["background", "## Background and Context"],
+  ["summary", "## Summary"],
+  ["tasks", "## Tasks"],
+];
+
+const SEVERITIES = new Set(["high", "medium", "low"]);
+
+function lintSections(plan: PlanDocument): PlanLintIssue[] {
+  return REQUIRED_SECTIONS.filter(
+    ([kind]) => !plan.sections.some((section) => section.kind === kind),
+  ).map(([, heading]) => ({ rule: "missing-section", message: `Missing ${heading} section` }));
+}
+
+function lintTasks(plan: PlanDocument): PlanLintIssue[] {
+  const issues: PlanLintIssue[] = [];
+  const tasks = plan.tasks;
+  if (tasks.length === 0) {
+    if (plan.sections.some((section) => section.kind === "tasks")) {
+      issues.push({
+        rule: "empty-tasks",
+        message: "## Tasks has no items in the form `- [ ] **Task 1**: ...`",
+      });
+    }
+    return issues;
+  }
+
+  const ids = new Set<number>();
+  for (const [index, task] of tasks.entries()) {
+    if (ids.has(task.id)) {
+      issues.push({
+        rule: "duplicate-task",
+        message: `Task ${task.id} is numbered more than once`,
+      });
+    } else if (task.id !== index + 1) {
+      issues.push({
+        rule: "task-order",
+        message: `Task ${task.id} should be Task ${index + 1}: number tasks 1, 2, 3, ... in order`,
+      });
+    }
+    ids.add(task.id);
+  }
+
+  for (const task of tasks) {
+    for (const dependency of task.dependencies ?? []) {
+      if (dependency === task.id) {
+        issues.push({ rule: "self-dependency", message: `Task ${task.id} depends on itself` });
+      } else if (!ids.has(dependency)) {
+        issues.push({
+          rule: "unknown-dependency",
+          message: `Task ${task.id} depends on Task ${dependency}, which does not exist`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function lintQuestions(plan: PlanDocument): PlanLintIssue[] {
+  const issues: PlanLintIssue[] = [];
+  const ids = new Set<string>();
+  for (const question of plan.questions) {
+    if (ids.has(question.id)) {
+      issues.push({
+        rule: "duplicate-question",
+        message: `${question.id} is numbered more than once`,
+      });
+    }
+    ids.add(question.id);
+    if (question.answer === undefined) {
+      issues.push({
+        rule: "missing-answer",
+        message: `${question.id} has no \`- **Answer:**\` line (leave it empty for the user)`,
+      });
+    }
+  }
+  return issues;
+}
+
+function lintAssumptions(plan: PlanDocument): PlanLintIssue[] {
+  const issues: PlanLintIssue[] = [];
+  for (const section of plan.sections) {
+    if (section.kind !== "assumptions") {
+      continue;
+    }
+    const { intro, items } = section as PlanListSection<"assumptions">;
+    // Rows are only parsed after a table separator, which ends the intro right below the header
+    const header = intro[intro.length - 2];
+    if (items.length === 0 || !header?.trim().startsWith("|")) {
+      continue;
+    }
+    const columns = splitCells(header).length;
+    for (const item of items) {
+      const row = itemSourceLines(item)?.[0];
+      const cells = row ? splitCells(row).length : columns;
+      if (cells !== columns) {
+        issues.push({
+          rule: "assumption-columns",
+          message: `Assumption ${item.id || "row"} has ${cells} columns, the table header has ${columns}`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function lintRisks(plan: PlanDocument): PlanLintIssue[] {
+  return plan.risks
+    .filter((risk) => !risk.severity || !SEVERITIES.has(risk.severity))
+    .map((risk) => ({
+      rule: "risk-severity",
+      message: `Risk "${risk.name}" needs "(severity: high|medium|low)"`,
+    }));
+}
+
+/**
+ * Structural problems in a plan, in document order of the checks. An empty list means the plan
+ * follows PLAN_FORMAT closely enough for pl4n to work with it.
+ */
+export function lintPlan(plan: string | PlanDocument): PlanLintIssue[] {
+  const document = typeof plan === "string" ? PlanDocument.parse(plan) : plan;
+  return [
+    ...lintSections(document),
+    ...lintAssumptions(document),
+    ...lintQuestions(document),
+    ...lintTasks(document),
+    ...lintRisks(document),
+  ];
+}
+
+/**
+ * Bullet list of issues for prompts and logs.
+ */
+export function formatLintIssues(issues: PlanLintIssue[]): string {
+  return issues.map((issue) => `- ${issue.message} (${issue.rule})`).join("\n");
+}
@@ -0,0 +1,183 @@
+/**
+ * Plan verification - checks the files and symbols a plan references against the project
+ */
+
+import path from "path";
+
+import { fileExists } from "../utils/fs";
+import { runGit } from "../utils/git";
+import { PlanDocument } from "./document";
+
+export type PlanReferenceProblem =
+  | "missing"
+  | "already-exists"
+  | "outside-project"
+  | "unknown-symbol";
+
+export type PlanReferenceFinding = {
+  reference: string;
+  kind: "file" | "symbol";
+  problem: PlanReferenceProblem;
+  /** Task listing the file; undefined for references in the background section */
+  task?: number;
+  message: string;
+};
+
+export type PlanVerification = {
+  filesChecked: number;
+  symbolsChecked: number;
+  findings: PlanReferenceFinding[];
+};
+
+// Background references are checked as symbols when they look like identifiers, e.g.
+// `loadSession`, `SessionManager.saveState`, `runTurn()`
+const SYMBOL = /^[A-Za-z_$][\w$]*(?:(?:\.|::|#)[A-Za-z_$][\w$]*)*(?:\(\))?$/;
+const CREATE_ACTION = /^(?:create|new|add)/i;
+const MAX_SYMBOLS = 50;
+
+// Bare file names like `session.ts` are ambiguous (which directory?) and are not checked
+function looksLikePath(reference: string): boolean {
+  return !/\s/.test(reference) && reference.includes("/");
+}
+
+// Symbols without a dot that are too short or plain words would match almost anything
+function looksLikeSymbol(reference: string): boolean {
+  return (
+    SYMBOL.test(reference) &&
+    (/[.#:(]/.test(reference) || /[a-z][A-Z]|_|^[A-Z]/.test(reference)) &&
+    reference.length >= 3
+  );
+}
+
+function resolveInProject(root: string, reference: string): string | null {
+  const resolved = path.resolve(root, reference.replace(/[\\/]+$/, ""));
+  const relative = path.relative(root, resolved);
+  return relative.startsWith("..") || path.isAbsolute(relative) ? null : resolved;
+}
+
+async function isGitRepository(root: string): Promise<boolean> {
+  return (await runGit(["rev-parse", "--is-inside-work-tree"], root)).exitCode === 0;
+}
+
+async function symbolExists(root: string, symbol: string): Promise<boolean> {
+  // `package.json` and friends look like member accesses
+  if (await fileExists(path.join(root, symbol))) {
+    return true;
+  }
+  const name =
+    symbol
+      .replace(/\(\)$/, "")
+      .split(/\.|::|#/)
+      .pop() ?? symbol;
+  const result = await runGit(["grep", "-q", "-w", "-F", "-e", name, "--", "."], root);
+  return result.exitCode === 0;
+}
+
+/**
+ * Resolve every `**Files:**` entry against the project root: modified files must exist, created
+ * files must not (unless an earlier task creates them). In a git repository, identifiers quoted in
+ * the background section must appear somewhere in the tracked files.
+ */
+export async function verifyPlan(
+  plan: string | PlanDocument,
+  root: string,
+): Promise<PlanVerification> {
+  const document = typeof plan === "string" ? PlanDocument.parse(plan) : plan;
+  const findings: PlanReferenceFinding[] = [];
+  const created = new Set<string>();
+  let filesChecked = 0;
+
+  for (const task of document.tasks) {
+    for (const file of task.files) {
+      filesChecked += 1;
+      const resolved = resolveInProject(root, file.path);
+      if (!resolved) {
+        findings.push({
+          reference: file.path,
+          kind: "file",
+          problem: "outside-project",
+          task: task.id,
+          message: `Task ${task.id}: ${file.path} is outside the project`,
+        });
+        continue;
+      }
+      const creates = CREATE_ACTION.test(file.action ?? "");
+      const present = await fileExists(resolved);
+      if (creates && present) {
+        findings.push({
+          reference: file.path,
+          kind: "file",
+          problem: "already-exists",
+          task: task.id,
+          message: `Task ${task.id}: ${file.path} is marked create but already exists`,
+        });
+      } else if (!creates && !present && !created.has(resolved)) {
+        findings.push({
+          reference: file.path,
+          kind: "file",
+          problem: "missing",
+          task: task.id,
+          message: `Task ${task.id}: ${file.path} does not exist`,
+        });
+      }
+      if (creates) {
+        created.add(resolved);
+      }
+    }
+  }
+
+  const quoted = [
+    ...new Set(Array.from((document.background ?? "").matchAll(/`([^`\n]+)`/g), (m) => m[1])),
+  ];
+  for (const reference of quoted.filter(looksLikePath)) {
+    filesChecked += 1;
+    const resolved = resolveInProject(root, reference);
+    if (resolved && !(await fileExists(resolved))) {
+      findings.push({
+        reference,
+        kind: "file",
+        problem: "missing",
+        message: `Background: ${reference} does not exist`,
+      });
+    }
+  }
+
+  let symbolsChecked = 0;
+  const symbols = quoted.filter(
+    (reference) => !looksLikePath(reference) && looksLikeSymbol(reference),
+  );
+  if (symbols.length > 0 && (await isGitRepository(root))) {
+    for (const symbol of symbols.slice(0, MAX_SYMBOLS)) {
+      symbolsChecked += 1;
+      if (!(await symbolExists(root, symbol))) {
+        findings.push({
+          reference: symbol,
+          kind: "symbol",
+          problem: "unknown-symbol",
+          message: `Background: ${symbol} was not found in the project`,
+        });
+      }
+    }
+  }
+
+  return { filesChecked, symbolsChecked, findings };
+}
+
+export function planVerificationToDict(verification: PlanVerification): Record<string, unknown> {
+  return {
+    files_checked: verification.filesChecked,
+    symbols_checked: verification.symbolsChecked,
+    findings: verification.findings.map((finding) => {
+      const dict: Record<string, unknown> = {
+        reference: finding.reference,
+        kind: finding.kind,
+        problem: finding.problem,
+        message: finding.message,
+      };
+      if (finding.task !== undefined) {
+        dict.task = finding.task;
+      }
+      return dict;
+    }),
+  };
+}
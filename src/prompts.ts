@@ -1,3 +1,11 @@
+import type { TurnScores } from "./models";
+import {
+  formatLintIssues,
+  type PlanLintIssue,
+  type PlanReferenceFinding,
+  type PlanTask,
+} from "./plan";
+
 export const PLAN_FORMAT = `
 ## Background and Context
 [Overview of the parts of the project relevant to the task and how they work, with bullets and references to code files as needed.]
@@ -110,7 +118,48 @@ This file contains the synthesized plan from the previous turn.
 
 const PEER_REVIEW_PROMPT = `# Peer Review Task
 
-You wrote an initial draft. Now review your peer's draft and improve your plan.
+You wrote an initial draft. Now review {peer_drafts_label} and improve your plan.
+
+## Task
+{task}
+
+## Your Draft
+{own_draft}
+
+{peer_drafts}## Instructions
+1. Review {peer_approach_label}
+2. Identify ideas from their {plan_label} that improve yours
+3. Note any conflicts and resolve them
+4. Write an improved plan incorporating the best of {combined_label}
+
+Your final plan should be BETTER than your draft.
+
+{plan_format}
+`;
+
+const CRITIQUE_PROMPT = `# Critique Task
+
+You are the designated critic. Review every draft plan below and write a critique that the
+other planners will use to revise their plans.
+
+## Task
+{task}
+
+{drafts}## Instructions
+1. Check each plan against the codebase: do the referenced files, APIs, and conventions exist?
+2. Point out gaps, risks, and incorrect assumptions in each plan, citing its plan ID
+3. Call out the strongest ideas worth adopting across plans
+4. Where plans conflict, say which approach is better and why
+
+Do not write a plan yourself.
+
+Write your critique to: \`{output_file}\`
+`;
+
+const CRITIQUE_REVISION_PROMPT = `# Revision Task
+
+You wrote an initial draft. A critic ({critic_id}) has reviewed every draft. Use the critique to
+improve your plan.
 
 ## Task
 {task}
@@ -118,27 +167,55 @@ You wrote an initial draft. Now review your peer's draft and improve your plan.
 ## Your Draft
 {own_draft}
 
-## Peer's Draft ({peer_id})
-{peer_draft}
+## Critique ({critic_id})
+{critique}
 
 ## Instructions
-1. Review your peer's approach
-2. Identify ideas from their plan that improve yours
-3. Note any conflicts and resolve them
-4. Write an improved plan incorporating the best of both
+1. Read the critique, focusing on the points about your plan
+2. Fix the gaps and incorrect assumptions it identifies
+3. Adopt ideas it recommends from other plans where they improve yours
+4. If you disagree with a point, keep your approach and explain why under Risks or Alternatives Considered
 
 Your final plan should be BETTER than your draft.
 
 {plan_format}
 `;
 
+const JUDGE_PROMPT = `# Judging Task
+
+You are the judge. Score every plan below against the rubric. Do not write or edit a plan.
+
+## Task
+{task}
+
+## Rubric
+{rubric}
+
+{plans}## Instructions
+1. Check each plan against the codebase: do the referenced files, APIs, and conventions exist?
+2. Score every plan on every criterion from 1 (poor) to 10 (excellent)
+3. Score each plan on its own merits; do not rank plans against each other
+4. Justify the scores in one or two sentences per plan
+
+Write your scores as JSON to: \`{output_file}\`
+
+\`\`\`json
+{
+  "<plan id>": {
+    "scores": { "<criterion>": <1-10> },
+    "notes": "<justification>"
+  }
+}
+\`\`\`
+`;
+
 const SYNTHESIS_PROMPT = `# Synthesis Task
 
 Combine multiple agent plans into a unified plan.
 
 ## Task
 {task}
-{user_changes_section}## Agent Plans
+{user_changes_section}{scores_section}{references_section}## Agent Plans
 
 {agent_plans}
 
@@ -182,6 +259,87 @@ If the user deleted something, it stays deleted even if agents still mention it.
   in Clarifications with your "Agent recommends" — don't leave raw questions scattered in the plan
 `;
 
+const SYNTHESIS_SCORES = `
+## Judge Scores
+
+A judge scored each plan from 1 to 10 per criterion. Prefer the approach of higher-scoring plans
+where they conflict, but keep strong ideas from any plan.
+
+{score_table}
+{score_notes}
+`;
+
+const LINT_FIX_PROMPT = `# Format Fix Task
+
+The plan you just wrote to \`{plan_file}\` does not follow the required format:
+
+{issues}
+
+## Instructions
+1. Fix only the listed problems; keep the plan's content and approach unchanged
+2. Keep every section heading, question, and task in the format below
+3. Write the corrected plan back to: \`{plan_file}\`
+
+{plan_format}
+`;
+
+const SYNTHESIS_REFERENCES = `
+## Reference Check
+
+These files and symbols referenced by the plans did not check out against the project:
+
+{findings}
+Do not carry them into the unified plan as written: correct the path, switch between create and
+modify, or drop the reference.
+`;
+
+const FORK_CONTEXT = `# Earlier Turns
+
+This planning session was forked from session {parent_session} at turn {parent_turn}. Your earlier
+conversation about it is not available, so here is what happened in each turn so far:
+
+{summary}
+Your plan file already holds the plan as of turn {parent_turn}. The task for this run follows.
+
+---
+
+`;
+
+const IMPLEMENT_PROMPT = `# Implementation Task
+
+The plan below was approved. It is implemented one task at a time, in dependency order; this run
+is for Task {task_id} only.
+
+## Current Task
+
+{task}
+{progress_section}{feedback_section}
+## Instructions
+1. Implement Task {task_id} in the project; leave later tasks for their own runs
+2. Follow the plan's approach, and stop to explain in the report if it does not work as written
+3. Do not edit the plan file \`{plan_file}\`; pl4n checks tasks off as they are approved
+4. Write a short report to \`{report_file}\`: what you changed, which files, and what a reviewer
+   should check
+
+## Approved Plan
+
+{plan}
+`;
+
+const IMPLEMENT_PROGRESS = `
+## Already Done
+
+{tasks}
+`;
+
+const IMPLEMENT_FEEDBACK = `
+## Reviewer Feedback
+
+Your previous attempt at this task was sent back:
+
+{feedback}
+`;
+
 function format(template: string, values: Record<string, string | number>): string {
   return template.replace(/\{(\w+)\}/g, (_, key) => String(values[key] ?? ""));
 }
@@ -212,29 +370,121 @@ export function getDraftPrompt(params: {
   });
 }
 
+export type PeerDraft = {
+  planId: string;
+  draft: string;
+};
+
+function formatDrafts(heading: string, drafts: PeerDraft[]): string {
+  return drafts.map(({ planId, draft }) => `## ${heading} (${planId})\n${draft}\n\n`).join("");
+}
+
 export function getPeerReviewPrompt(params: {
   task: string;
   ownDraft: string;
-  peerId: string;
-  peerDraft: string;
+  peers: PeerDraft[];
 }): string {
-  const { task, ownDraft, peerId, peerDraft } = params;
+  const { task, ownDraft, peers } = params;
+  const single = peers.length === 1;
   return format(PEER_REVIEW_PROMPT, {
     task,
     own_draft: ownDraft,
-    peer_id: peerId,
-    peer_draft: peerDraft,
+    peer_drafts: formatDrafts("Peer's Draft", peers),
+    peer_drafts_label: single ? "your peer's draft" : "your peers' drafts",
+    peer_approach_label: single ? "your peer's approach" : "each peer's approach",
+    plan_label: single ? "plan" : "plans",
+    combined_label: single ? "both" : "all of them",
     plan_format: PLAN_FORMAT,
   });
 }
 
+export function getCritiquePrompt(params: {
+  task: string;
+  drafts: PeerDraft[];
+  outputFile: string;
+}): string {
+  const { task, drafts, outputFile } = params;
+  return format(CRITIQUE_PROMPT, {
+    task,
+    drafts: formatDrafts("Draft", drafts),
+    output_file: outputFile,
+  });
+}
+
+export function getCritiqueRevisionPrompt(params: {
+  task: string;
+  ownDraft: string;
+  criticId: string;
+  critique: string;
+}): string {
+  const { task, ownDraft, criticId, critique } = params;
+  return format(CRITIQUE_REVISION_PROMPT, {
+    task,
+    own_draft: ownDraft,
+    critic_id: criticId,
+    critique,
+    plan_format: PLAN_FORMAT,
+  });
+}
+
+export function getJudgePrompt(params: {
+  task: string;
+  plans: PeerDraft[];
+  rubric: Record<string, string>;
+  outputFile: string;
+}): string {
+  const { task, plans, rubric, outputFile } = params;
+  return format(JUDGE_PROMPT, {
+    task,
+    rubric: Object.entries(rubric)
+      .map(([name, description]) => `- **${name}**: ${description}`)
+      .join("\n"),
+    plans: formatDrafts("Plan", plans),
+    output_file: outputFile,
+  });
+}
+
+function formatScores(scores: TurnScores): string {
+  const criteria = [
+    ...new Set(Object.values(scores).flatMap((score) => Object.keys(score.criteria))),
+  ];
+  const rows = Object.entries(scores).map(
+    ([agentId, score]) =>
+      `| ${[agentId, ...criteria.map((name) => score.criteria[name] ?? "-"), score.total].join(" | ")} |`,
+  );
+  const notes = Object.entries(scores)
+    .filter(([, score]) => score.notes)
+    .map(([agentId, score]) => `- **${agentId}**: ${score.notes}`);
+  return format(SYNTHESIS_SCORES, {
+    score_table: [
+      `| ${["Plan", ...criteria, "Total"].join(" | ")} |`,
+      `|${["Plan", ...criteria, "Total"].map(() => "---").join("|")}|`,
+      ...rows,
+    ].join("\n"),
+    score_notes: notes.length > 0 ? `\n${notes.join("\n")}\n` : "",
+  });
+}
+
+function formatReferenceFindings(findings: Record<string, PlanReferenceFinding[]>): string {
+  const sections = Object.entries(findings)
+    .filter(([, planFindings]) => planFindings.length > 0)
+    .map(
+      ([agentId, planFindings]) =>
+        `### ${agentId}\n${planFindings.map((finding) => `- ${finding.message}`).join("\n")}\n`,
+    );
+  return sections.length > 0 ? format(SYNTHESIS_REFERENCES, { findings: sections.join("\n") }) : "";
+}
+
 export function getSynthesisPrompt(params: {
   task: string;
   agentPlans: Record<string, string>;
   outputFile: string;
   userDiff?: string;
+  scores?: TurnScores;
+  /** Agent ID -> file and symbol references in its plan that did not verify */
+  referenceFindings?: Record<string, PlanReferenceFinding[]>;
 }): string {
-  const { task, agentPlans, outputFile, userDiff } = params;
+  const { task, agentPlans, outputFile, userDiff, scores, referenceFindings } = params;
 
   let plansText = "";
   for (const [agentId, plan] of Object.entries(agentPlans)) {
@@ -244,12 +494,81 @@ export function getSynthesisPrompt(params: {
   const userChangesSection = userDiff
     ? format(SYNTHESIS_USER_CHANGES, { user_diff: userDiff })
     : "";
+  const scoresSection = scores && Object.keys(scores).length > 0 ? formatScores(scores) : "";
 
   return format(SYNTHESIS_PROMPT, {
     task,
     user_changes_section: userChangesSection,
+    scores_section: scoresSection,
+    references_section: referenceFindings ? formatReferenceFindings(referenceFindings) : "",
     agent_plans: plansText,
     output_file: outputFile,
     plan_format: PLAN_FORMAT,
   });
 }
+
+export function getLintFixPrompt(params: { planFile: string; issues: PlanLintIssue[] }): string {
+  const { planFile, issues } = params;
+  return format(LINT_FIX_PROMPT, {
+    plan_file: planFile,
+    issues: formatLintIssues(issues),
+    plan_format: PLAN_FORMAT,
+  });
+}
+
+function formatTask(task: PlanTask): string {
+  const lines = [`**Task ${task.id}**: ${task.description}`];
+  if (task.files.length > 0) {
+    const files = task.files.map(
+      (file) => `\`${file.path}\`${file.action ? ` (${file.action})` : ""}`,
+    );
+    lines.push(`- **Files:** ${files.join(", ")}`);
+  }
+  if (task.rationale) {
+    lines.push(`- **Rationale:** ${task.rationale}`);
+  }
+  return [...lines, ...task.extra.map((line) => line.trim())].join("\n");
+}
+
+/**
+ * Context prepended to the first prompt of a forked session's fresh agent conversation.
+ */
+export function getForkContext(params: {
+  parentSession: string;
+  parentTurn: number;
+  summary: string;
+}): string {
+  return format(FORK_CONTEXT, {
+    parent_session: params.parentSession,
+    parent_turn: params.parentTurn,
+    summary: params.summary,
+  });
+}
+
+export function getImplementPrompt(params: {
+  task: PlanTask;
+  plan: string;
+  planFile: string;
+  reportFile: string;
+  completed: PlanTask[];
+  feedback?: string;
+}): string {
+  const { task, plan, planFile, reportFile, completed, feedback } = params;
+  const progressSection =
+    completed.length > 0
+      ? format(IMPLEMENT_PROGRESS, {
+          tasks: completed.map((done) => `- Task ${done.id}: ${done.description}`).join("\n"),
+        })
+      : "";
+  return format(IMPLEMENT_PROMPT, {
+    task_id: task.id,
+    task: formatTask(task),
+    progress_section: progressSection,
+    feedback_section: feedback?.trim()
+      ? format(IMPLEMENT_FEEDBACK, { feedback: feedback.trim() })
+      : "",
+    plan_file: planFile,
+    report_file: reportFile,
+    plan,
+  });
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { type AgentActivityKind, parseActivityLine } from "../adapters/activity";
+import type { SessionManager } from "../session";
+import { serializeEvent } from "./sse";
+
+export type AgentActivityEvent = {
+  agent: string;
+  kind: AgentActivityKind;
+  summary: string;
+  timestamp: string;
+};
+
+const DEFAULT_POLL_MS = 500;
+const SNAPSHOT_LIMIT = 20;
+const NEWLINE = 0x0a;
+
+/**
+ * Follows every agents/<plan_id>/agent.log of a session and turns new complete lines into
+ * activity events. Logs that shrink were restarted by a new run and are read from the top.
+ */
+export class AgentLogTailer {
+  private offsets = new Map<string, number>();
+
+  constructor(
+    private agentsDir: string,
+    private root?: string,
+  ) {}
+
+  /**
+   * Activity written since the previous poll. labels maps log directories (plan IDs) to agent IDs.
+   */
+  async poll(labels: Record<string, string> = {}, now = new Date()): Promise<AgentActivityEvent[]> {
+    let dirs: string[];
+    try {
+      dirs = (await fs.readdir(this.agentsDir, { withFileTypes: true }))
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+
+    const events: AgentActivityEvent[] = [];
+    for (const dir of dirs) {
+      const logFile = path.join(this.agentsDir, dir, "agent.log");
+      let size: number;
+      try {
+        size = (await fs.stat(logFile)).size;
+      } catch {
+        continue;
+      }
+      let offset = this.offsets.get(logFile) ?? 0;
+      if (size < offset) {
+        offset = 0;
+      }
+      if (size === offset) {
+        this.offsets.set(logFile, offset);
+        continue;
+      }
+      const bytes = new Uint8Array(await Bun.file(logFile).slice(offset, size).arrayBuffer());
+      // Leave a trailing partial line (or multi-byte character) for the next poll
+      const end = bytes.lastIndexOf(NEWLINE) + 1;
+      this.offsets.set(logFile, offset + end);
+      if (end === 0) {
+        continue;
+      }
+      const agent = labels[dir] ?? dir;
+      for (const line of new TextDecoder().decode(bytes.subarray(0, end)).split("\n")) {
+        for (const activity of parseActivityLine(line, this.root)) {
+          events.push({ agent, ...activity, timestamp: now.toISOString() });
+        }
+      }
+    }
+    return events;
+  }
+}
+
+function planIdLabels(agentPlanIds: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(agentPlanIds).map(([agentId, planId]) => [planId, agentId]),
+  );
+}
+
+/**
+ * SSE stream of one session's agent activity: an agent_activity_snapshot with the latest events
+ * per agent, then an agent_activity event for every new tool call or message.
+ */
+export function createAgentActivityStream(params: {
+  manager: SessionManager;
+  sessionId: string;
+  root?: string;
+  pollMs?: number;
+}): Response {
+  const { manager, sessionId } = params;
+  const tailer = new AgentLogTailer(manager.getPaths(sessionId).agents, params.root);
+  const readActivity = async (): Promise<AgentActivityEvent[]> => {
+    const session = await manager.loadSession(sessionId);
+    return tailer.poll(planIdLabels(session?.agentPlanIds ?? {}));
+  };
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+  let polling = false;
+  const stop = () => {
+    closed = true;
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const stream = new ReadableStream<string>({
+    async start(controller) {
+      const agents: Record<string, AgentActivityEvent[]> = {};
+      for (const event of await readActivity()) {
+        agents[event.agent] = [...(agents[event.agent] ?? []), event].slice(-SNAPSHOT_LIMIT);
+      }
+      controller.enqueue(serializeEvent("agent_activity_snapshot", { agents }));
+
+      timer = setInterval(async () => {
+        if (polling || closed) {
+          return;
+        }
+        polling = true;
+        try {
+          for (const event of await readActivity()) {
+            if (closed) {
+              break;
+            }
+            controller.enqueue(serializeEvent("agent_activity", event));
+          }
+        } catch {
+          // The client disconnected or the session was removed
+          stop();
+        } finally {
+          polling = false;
+        }
+      }, params.pollMs ?? DEFAULT_POLL_MS);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -2,8 +2,21 @@ import { promises as fs } from "fs";
 import path from "path";
 import { createTwoFilesPatch } from "diff";
 
-import { Phase } from "../models";
-import type { SessionManager } from "../session";
+import { exportSessionArchive } from "../archive";
+import {
+  Phase,
+  type SessionState,
+  averageScores,
+  summarizeTaskProgress,
+  summarizeUsage,
+  turnScoresToDict,
+  usageSummaryToDict,
+} from "../models";
+import { buildTaskGraph, taskGraphToDict, verifyPlan } from "../plan";
+import type { RollbackResult, SessionManager } from "../session";
+import { projectHead, refreshTaskProgress } from "../tracker";
+import { resolveHead } from "../utils/git";
+import { createAgentActivityStream } from "./agent-activity";
 import { ensureGlobalToken, validateGlobalToken, validateSessionToken } from "./auth";
 import { updateServerActivity } from "./daemon";
 import type { ProjectInfo, ProjectRegistry } from "./projects";
@@ -39,6 +52,10 @@ type AutosavePayload = {
   content: string;
 };
 
+type RollbackPayload = {
+  turn: number;
+};
+
 type ArchivedFilter = "exclude" | "only" | "all";
 
 function jsonResponse(status: number, data: Record<string, unknown>): Response {
@@ -241,6 +258,32 @@ function escapeJsonForHtml(payload: Record<string, unknown>): string {
   return JSON.stringify(payload).replace(/</g, "\\u003c");
 }
 
+// Task counts for the progress bar of an approved session; empty before approval
+async function sessionTaskProgress(
+  manager: SessionManager,
+  session: SessionState,
+  head: () => Promise<string | null>,
+): Promise<{ progress?: Record<string, number> }> {
+  const progress = await refreshTaskProgress(manager, session, head);
+  return progress ? { progress: summarizeTaskProgress(progress) } : {};
+}
+
+// Task counts summed over a project's approved sessions, or null when none has tasks
+async function projectTaskProgress(
+  manager: SessionManager,
+  sessions: SessionState[],
+): Promise<Record<string, number> | null> {
+  const totals: Record<string, number> = { total: 0, done: 0, in_progress: 0, todo: 0 };
+  const head = projectHead(manager);
+  for (const session of sessions) {
+    const { progress } = await sessionTaskProgress(manager, session, head);
+    for (const [key, count] of Object.entries(progress ?? {})) {
+      totals[key] = (totals[key] ?? 0) + count;
+    }
+  }
+  return totals.total > 0 ? totals : null;
+}
+
 function projectNotFound(projectId: string): Response {
   return jsonResponse(404, { error: `project ${projectId} not found` });
 }
@@ -301,12 +344,14 @@ export function createHandlers(context: HandlerContext) {
       for (const project of projects) {
         const sessions = await project.manager.listSessions();
         const latest = sessions[0]?.updatedAt?.toISOString() ?? null;
+        const progress = await projectTaskProgress(project.manager, sessions);
         items.push({
           project_id: project.id,
           name: project.name,
           path: project.root,
           session_count: sessions.length,
           updated_at: latest,
+          ...(progress ? { progress } : {}),
         });
       }
       // Sort by last activity (most recent first), then by name for projects with no activity
@@ -336,12 +381,14 @@ export function createHandlers(context: HandlerContext) {
       for (const project of projects) {
         const sessions = await project.manager.listSessions();
         const latest = sessions[0]?.updatedAt?.toISOString() ?? null;
+        const progress = await projectTaskProgress(project.manager, sessions);
         payload.push({
           project_id: project.id,
           name: project.name,
           path: project.root,
           session_count: sessions.length,
           updated_at: latest,
+          ...(progress ? { progress } : {}),
         });
       }
       // Sort by last activity (most recent first), then by name for projects with no activity
@@ -371,6 +418,7 @@ export function createHandlers(context: HandlerContext) {
         archived: parseArchivedFilter(req, "exclude"),
       });
       const items = [] as Record<string, unknown>[];
+      const head = projectHead(project.manager);
       for (const session of sessions) {
         const canEdit = session.phase === Phase.UserReview;
         const sessionToken = canEdit
@@ -387,6 +435,10 @@ export function createHandlers(context: HandlerContext) {
             canEdit && sessionToken
               ? `/projects/${projectId}/edit/${session.sessionId}?t=${sessionToken}`
               : null,
+          ...(session.parentSession
+            ? { parent_session: session.parentSession, parent_turn: session.parentTurn }
+            : {}),
+          ...(await sessionTaskProgress(project.manager, session, head)),
         });
       }
 
@@ -422,6 +474,7 @@ export function createHandlers(context: HandlerContext) {
 
       const sessions = await project.manager.listSessions({ archived: parseArchivedFilter(req) });
       const payload = [];
+      const head = projectHead(project.manager);
       for (const session of sessions) {
         const canEdit = session.phase === Phase.UserReview;
         const sessionToken = canEdit
@@ -438,6 +491,10 @@ export function createHandlers(context: HandlerContext) {
             canEdit && sessionToken
               ? `/projects/${projectId}/edit/${session.sessionId}?t=${sessionToken}`
               : null,
+          ...(session.parentSession
+            ? { parent_session: session.parentSession, parent_turn: session.parentTurn }
+            : {}),
+          ...(await sessionTaskProgress(project.manager, session, head)),
         });
       }
       return jsonResponse(200, { sessions: payload });
@@ -533,6 +590,10 @@ export function createHandlers(context: HandlerContext) {
         autosave: autosaveContent,
         snapshot: snapshotContent,
         agents: session.agents,
+        attempts: session.agentAttempts,
+        usage: usageSummaryToDict(summarizeUsage(await project.manager.loadUsage(sessionId))),
+        references: await project.manager.loadVerification(sessionId, session.turn, loaded.content),
+        graph: taskGraphToDict(buildTaskGraph(loaded.content)),
       });
     },
 
@@ -552,6 +613,10 @@ export function createHandlers(context: HandlerContext) {
         return sessionNotFound();
       }
 
+      if (project.manager.isTurnRunning(session)) {
+        return jsonResponse(409, { error: "session running" });
+      }
+
       const nextArchived = !session.archived;
       const updated = await project.manager.setArchived(sessionId, nextArchived);
       if (!updated) {
@@ -594,7 +659,20 @@ export function createHandlers(context: HandlerContext) {
 
       await updateServerActivity(context.globalDir, now());
 
-      return jsonResponse(200, { mtime: result.mtime });
+      // Checking references runs git, so unchanged content reuses the last check
+      const references =
+        (await project.manager.loadVerification(sessionId, session.turn, payload.content)) ??
+        (await project.manager.saveVerification(
+          sessionId,
+          session.turn,
+          payload.content,
+          await verifyPlan(payload.content, project.root),
+        ));
+      return jsonResponse(200, {
+        mtime: result.mtime,
+        references,
+        graph: taskGraphToDict(buildTaskGraph(payload.content)),
+      });
     },
 
     async handleAutosave(req: Request, projectId: string, sessionId: string): Promise<Response> {
@@ -674,6 +752,76 @@ export function createHandlers(context: HandlerContext) {
       return jsonResponse(202, { accepted: true });
     },
 
+    async handleAbort(req: Request, projectId: string, sessionId: string): Promise<Response> {
+      const project = requireProject(projectId);
+      if (!project) {
+        return projectNotFound(projectId);
+      }
+      const authError = await requireSessionAuth(req, sessionId, project.manager);
+      if (authError) {
+        return authError;
+      }
+
+      const session = await project.manager.loadSession(sessionId);
+      if (!session) {
+        return sessionNotFound();
+      }
+      if (!project.manager.isTurnRunning(session)) {
+        return jsonResponse(409, { error: "session not running" });
+      }
+
+      const aborted = await project.manager.abortTurn(sessionId);
+      if (!aborted) {
+        return sessionNotFound();
+      }
+      await updateServerActivity(context.globalDir, now());
+
+      return jsonResponse(200, {
+        turn: aborted.turn,
+        phase: aborted.phase,
+        agents: aborted.agents,
+        attempts: aborted.agentAttempts,
+      });
+    },
+
+    async handleRollback(req: Request, projectId: string, sessionId: string): Promise<Response> {
+      const project = requireProject(projectId);
+      if (!project) {
+        return projectNotFound(projectId);
+      }
+      const authError = await requireSessionAuth(req, sessionId, project.manager);
+      if (authError) {
+        return authError;
+      }
+
+      const session = await project.manager.loadSession(sessionId);
+      if (!session) {
+        return sessionNotFound();
+      }
+      if (session.phase !== Phase.UserReview && session.phase !== Phase.Error) {
+        return jsonResponse(423, { error: "session locked" });
+      }
+
+      const payload = await parseJson<RollbackPayload>(req);
+      if (!payload || typeof payload.turn !== "number") {
+        return jsonResponse(400, { error: "invalid payload" });
+      }
+
+      let rollback: RollbackResult;
+      try {
+        rollback = await project.manager.rollbackSession(sessionId, payload.turn);
+      } catch (error) {
+        return jsonResponse(400, { error: error instanceof Error ? error.message : String(error) });
+      }
+      await updateServerActivity(context.globalDir, now());
+
+      return jsonResponse(200, {
+        turn: rollback.state.turn,
+        phase: rollback.state.phase,
+        discarded: rollback.discarded,
+      });
+    },
+
     async handleApprove(req: Request, projectId: string, sessionId: string): Promise<Response> {
       const project = requireProject(projectId);
       if (!project) {
@@ -692,8 +840,12 @@ export function createHandlers(context: HandlerContext) {
         return jsonResponse(423, { error: "session locked" });
       }
 
-      if (await project.manager.hasQuestions(sessionId)) {
-        return jsonResponse(400, { error: "unanswered questions" });
+      const unanswered = (await project.manager.loadPlan(sessionId))?.unansweredQuestions ?? [];
+      if (unanswered.length > 0) {
+        return jsonResponse(400, {
+          error: "unanswered questions",
+          unanswered_questions: unanswered.map((question) => question.id),
+        });
       }
 
       const paths = project.manager.getPaths(sessionId);
@@ -710,7 +862,9 @@ export function createHandlers(context: HandlerContext) {
       await fs.symlink(relativeTarget, planLink);
 
       session.phase = Phase.Approved;
+      session.approvedCommit = (await resolveHead(project.root)) ?? undefined;
       await project.manager.saveState(session);
+      await refreshTaskProgress(project.manager, session);
 
       return jsonResponse(200, {
         phase: session.phase,
@@ -782,6 +936,33 @@ export function createHandlers(context: HandlerContext) {
       });
     },
 
+    async handleDownload(req: Request, projectId: string, sessionId: string): Promise<Response> {
+      const project = requireProject(projectId);
+      if (!project) {
+        return projectNotFound(projectId);
+      }
+      const authError = await requireSessionAuth(req, sessionId, project.manager);
+      if (authError) {
+        return authError;
+      }
+
+      const session = await project.manager.loadSession(sessionId);
+      if (!session) {
+        return sessionNotFound();
+      }
+      if (project.manager.isTurnRunning(session)) {
+        return jsonResponse(409, { error: "session running" });
+      }
+
+      const { archive } = await exportSessionArchive(project.manager, sessionId);
+      return new Response(archive, {
+        headers: {
+          "Content-Type": "application/gzip",
+          "Content-Disposition": `attachment; filename="${sessionId}.tar.gz"`,
+        },
+      });
+    },
+
     async handleStatus(req: Request, projectId: string, sessionId: string): Promise<Response> {
       const project = requireProject(projectId);
       if (!project) {
@@ -797,10 +978,40 @@ export function createHandlers(context: HandlerContext) {
         return sessionNotFound();
       }
 
+      const scores = await project.manager.loadScores(sessionId);
       return jsonResponse(200, {
         turn: session.turn,
         phase: session.phase,
         agents: session.agents,
+        attempts: session.agentAttempts,
+        scores: Object.fromEntries(
+          Object.entries(scores).map(([turn, turnScores]) => [turn, turnScoresToDict(turnScores)]),
+        ),
+        average_scores: averageScores(scores),
+        usage: usageSummaryToDict(summarizeUsage(await project.manager.loadUsage(sessionId))),
+      });
+    },
+
+    async handleAgentActivity(
+      req: Request,
+      projectId: string,
+      sessionId: string,
+    ): Promise<Response> {
+      const project = requireProject(projectId);
+      if (!project) {
+        return projectNotFound(projectId);
+      }
+      const authError = await requireSessionAuth(req, sessionId, project.manager);
+      if (authError) {
+        return authError;
+      }
+      if (!(await project.manager.loadSession(sessionId))) {
+        return sessionNotFound();
+      }
+      return createAgentActivityStream({
+        manager: project.manager,
+        sessionId,
+        root: project.root,
       });
     },
 
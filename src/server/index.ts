@@ -145,18 +145,36 @@ export async function startServer(opts?: Partial<ServerStart>): Promise<void> {
             }
             return await handlers.handleContinue(req, projectId, segments[4]);
           }
+          if (segments[3] === "abort" && segments.length === 5) {
+            if (req.method !== "POST") {
+              return new Response("Method Not Allowed", { status: 405 });
+            }
+            return await handlers.handleAbort(req, projectId, segments[4]);
+          }
           if (segments[3] === "status" && segments.length === 5) {
             return await handlers.handleStatus(req, projectId, segments[4]);
           }
+          if (segments[3] === "rollback" && segments.length === 5) {
+            if (req.method !== "POST") {
+              return new Response("Method Not Allowed", { status: 405 });
+            }
+            return await handlers.handleRollback(req, projectId, segments[4]);
+          }
           if (segments[3] === "approve" && segments.length === 5) {
             if (req.method !== "POST") {
               return new Response("Method Not Allowed", { status: 405 });
             }
             return await handlers.handleApprove(req, projectId, segments[4]);
           }
+          if (segments[3] === "activity" && segments.length === 5) {
+            return await handlers.handleAgentActivity(req, projectId, segments[4]);
+          }
           if (segments[3] === "diff" && segments.length === 5) {
             return await handlers.handleDiff(req, projectId, segments[4]);
           }
+          if (segments[3] === "download" && segments.length === 5) {
+            return await handlers.handleDownload(req, projectId, segments[4]);
+          }
         }
 
         if (segments[1] === "activity" && segments.length === 2) {
@@ -71,6 +71,61 @@ async function readStatePhase(filePath: string): Promise<SessionStateSummary | n
   }
 }
 
+function isIgnoredPath(targetPath: string, ignored: Set<string>): boolean {
+  return targetPath.split(path.sep).some((part) => ignored.has(part));
+}
+
+/**
+ * Find .pl4n directories under the workspaces, searching at most depth levels below each.
+ */
+export async function findPl4nDirs(
+  workspaces: string[],
+  options: { depth?: number; ignored?: string[] } = {},
+): Promise<string[]> {
+  const depth = options.depth ?? 3;
+  const ignored = new Set(options.ignored ?? DEFAULT_IGNORES);
+  const found: string[] = [];
+  const queue: Array<{ dir: string; depth: number }> = workspaces.map((dir) => ({
+    dir,
+    depth: 0,
+  }));
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current) {
+      continue;
+    }
+    if (isIgnoredPath(current.dir, ignored)) {
+      continue;
+    }
+
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(current.dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      if (ignored.has(entry.name)) {
+        continue;
+      }
+      const fullPath = path.join(current.dir, entry.name);
+      if (entry.name === ".pl4n") {
+        found.push(fullPath);
+        continue;
+      }
+      if (current.depth < depth) {
+        queue.push({ dir: fullPath, depth: current.depth + 1 });
+      }
+    }
+  }
+  return found;
+}
+
 export class ProjectRegistry extends EventEmitter {
   private workspaces: string[];
   private depth: number;
@@ -137,48 +192,16 @@ export class ProjectRegistry extends EventEmitter {
   }
 
   private isIgnoredPath(targetPath: string): boolean {
-    const parts = targetPath.split(path.sep);
-    return parts.some((part) => this.ignored.has(part));
+    return isIgnoredPath(targetPath, this.ignored);
   }
 
   private async discoverProjects(): Promise<void> {
-    const queue: Array<{ dir: string; depth: number }> = this.workspaces.map((dir) => ({
-      dir,
-      depth: 0,
-    }));
-
-    while (queue.length > 0) {
-      const current = queue.shift();
-      if (!current) {
-        continue;
-      }
-      if (this.isIgnoredPath(current.dir)) {
-        continue;
-      }
-
-      let entries: Dirent[];
-      try {
-        entries = await fs.readdir(current.dir, { withFileTypes: true });
-      } catch {
-        continue;
-      }
-
-      for (const entry of entries) {
-        if (!entry.isDirectory()) {
-          continue;
-        }
-        if (this.ignored.has(entry.name)) {
-          continue;
-        }
-        const fullPath = path.join(current.dir, entry.name);
-        if (entry.name === ".pl4n") {
-          await this.addProject(fullPath);
-          continue;
-        }
-        if (current.depth < this.depth) {
-          queue.push({ dir: fullPath, depth: current.depth + 1 });
-        }
-      }
+    const pl4nDirs = await findPl4nDirs(this.workspaces, {
+      depth: this.depth,
+      ignored: [...this.ignored],
+    });
+    for (const pl4nDir of pl4nDirs) {
+      await this.addProject(pl4nDir);
     }
   }
 
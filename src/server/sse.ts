@@ -10,7 +10,7 @@ export type SseManager = {
   close: () => void;
 };
 
-function serializeEvent(eventName: string, data: Record<string, unknown>): string {
+export function serializeEvent(eventName: string, data: Record<string, unknown>): string {
   return `event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`;
 }
 
@@ -1,10 +1,58 @@
+import crypto from "crypto";
 import { promises as fs } from "fs";
 import path from "path";
+import { diffLines } from "diff";
 import { dump, load } from "js-yaml";
 
-import { AgentStatus, Phase, SessionPaths, SessionState, Pl4nConfig } from "./models";
+import {
+  AgentStatus,
+  Phase,
+  type PipelineStage,
+  SessionPaths,
+  SessionState,
+  Pl4nConfig,
+  STAGE_PHASES,
+  type TurnScores,
+  turnScoresFromDict,
+  type ImplementationProgress,
+  implementationProgressFromDict,
+  implementationProgressToDict,
+  type TaskProgress,
+  taskProgressFromDict,
+  taskProgressToDict,
+  type UsageRecord,
+  usageRecordFromDict,
+  usageRecordToDict,
+} from "./models";
+import {
+  type MetaDocument,
+  type MigrationResult,
+  migrateSession,
+  readSchemaVersion,
+  SCHEMA_VERSION,
+  type SessionDocuments,
+  type StateDocument,
+} from "./migrations";
 import { generateName } from "./names";
+import { PlanDocument, type PlanVerification, planVerificationToDict } from "./plan";
 import { generateToken } from "./server/auth";
+import { fileExists, writeFileAtomic } from "./utils/fs";
+import { resolveHead } from "./utils/git";
+import { withFileLock } from "./utils/lock";
+import { KILL_GRACE_MS, terminateProcess } from "./utils/process";
+import { isRecord } from "./utils/types";
+
+function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export type RollbackResult = {
+  state: SessionState;
+  /** Turns moved out of the way, oldest first */
+  discarded: number[];
+  /** Directory under turns/.discarded/ they were moved to */
+  archive: string;
+};
 
 export class SessionManager {
   pl4nDir: string;
@@ -25,6 +73,7 @@ export class SessionManager {
     await fs.mkdir(paths.agents, { recursive: true });
     await fs.mkdir(paths.plans, { recursive: true });
 
+    const baseCommit = await resolveHead(path.resolve(this.pl4nDir, ".."));
     const state = new SessionState({
       sessionId,
       task,
@@ -34,6 +83,7 @@ export class SessionManager {
       updatedAt: now,
       archived: false,
       sessionToken: generateToken(),
+      baseCommit: baseCommit ?? undefined,
     });
 
     const meta: Record<string, unknown> = {
@@ -41,6 +91,9 @@ export class SessionManager {
       task,
       created_at: now.toISOString(),
     };
+    if (baseCommit) {
+      meta.base_commit = baseCommit;
+    }
     if (config) {
       meta.config = config.toConfigDict();
     }
@@ -80,6 +133,10 @@ export class SessionManager {
     return Pl4nConfig.fromConfigData(config, `${paths.meta} config`);
   }
 
+  /**
+   * Load a session, upgrading files written at an older schema version in memory. The upgrade is
+   * written back by the next save (or by `pl4n migrate`).
+   */
   async loadSession(sessionId: string): Promise<SessionState | null> {
     const paths = this.getPaths(sessionId);
     try {
@@ -88,41 +145,15 @@ export class SessionManager {
       return null;
     }
 
-    const metaContent = await fs.readFile(paths.meta, "utf8");
-    const stateContent = await fs.readFile(paths.state, "utf8");
-
-    let meta: { task: string; created_at: string };
+    const documents = await this.readSessionDocuments(paths);
     try {
-      meta = load(metaContent) as { task: string; created_at: string };
+      migrateSession(documents);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to parse YAML";
-      throw new Error(`Invalid session meta ${paths.meta}: ${message}`);
-    }
-
-    let stateData: {
-      turn: number;
-      phase: string;
-      updated_at: string;
-      archived?: boolean;
-      session_token?: string;
-      agents?: Record<string, string>;
-      agent_plan_ids?: Record<string, string>;
-      agent_errors?: Record<string, string>;
-    };
-    try {
-      stateData = load(stateContent) as {
-        turn: number;
-        phase: string;
-        updated_at: string;
-        session_token?: string;
-        agents?: Record<string, string>;
-        agent_plan_ids?: Record<string, string>;
-        agent_errors?: Record<string, string>;
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to parse YAML";
-      throw new Error(`Invalid session state ${paths.state}: ${message}`);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Unsupported session state ${paths.state}: ${message}`);
     }
+    const meta = documents.meta as MetaDocument;
+    const stateData = documents.state as StateDocument;
 
     return new SessionState({
       sessionId,
@@ -131,38 +162,174 @@ export class SessionManager {
       phase: stateData.phase as Phase,
       createdAt: new Date(meta.created_at),
       updatedAt: new Date(stateData.updated_at),
-      archived: stateData.archived ?? false,
+      archived: stateData.archived,
       agents: Object.fromEntries(
-        Object.entries(stateData.agents ?? {}).map(([key, value]) => [key, value as AgentStatus]),
+        Object.entries(stateData.agents).map(([key, value]) => [key, value as AgentStatus]),
       ),
-      agentPlanIds: stateData.agent_plan_ids ?? {},
-      agentErrors: stateData.agent_errors ?? {},
+      agentPlanIds: stateData.agent_plan_ids,
+      agentErrors: stateData.agent_errors,
+      agentAttempts: stateData.agent_attempts,
       sessionToken: stateData.session_token,
+      pipeline: stateData.pipeline?.map((stage) => stage as PipelineStage),
+      pipelineStep: stateData.pipeline_step,
+      checkpoints: stateData.checkpoints,
+      runnerPid: stateData.runner_pid,
+      agentPids: stateData.agent_pids,
+      baseCommit: meta.base_commit,
+      approvedCommit: stateData.approved_commit,
+      parentSession: stateData.parent_session,
+      parentTurn: stateData.parent_turn,
+      revision: stateData.revision,
+      turnSessions: stateData.turn_sessions,
+      strayEdits: stateData.stray_edits,
+      lintIssues: stateData.lint_issues,
     });
   }
 
-  async saveState(state: SessionState, updateTimestamp = true): Promise<void> {
-    if (updateTimestamp) {
-      state.updatedAt = new Date();
+  private async readSessionDocuments(paths: SessionPaths): Promise<SessionDocuments> {
+    const metaContent = await fs.readFile(paths.meta, "utf8");
+    const stateContent = await fs.readFile(paths.state, "utf8");
+
+    let meta: unknown;
+    try {
+      meta = load(metaContent);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to parse YAML";
+      throw new Error(`Invalid session meta ${paths.meta}: ${message}`);
+    }
+    let state: unknown;
+    try {
+      state = load(stateContent);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to parse YAML";
+      throw new Error(`Invalid session state ${paths.state}: ${message}`);
+    }
+    if (!isRecord(meta)) {
+      throw new Error(`Invalid session meta ${paths.meta}: expected a mapping`);
+    }
+    if (!isRecord(state)) {
+      throw new Error(`Invalid session state ${paths.state}: expected a mapping`);
+    }
+    return { meta, state };
+  }
+
+  /**
+   * Rewrite a session's files at the current schema version. Sessions already there are left
+   * untouched; migrated state gets a new revision so holders of the old one cannot overwrite it.
+   */
+  async migrateSessionFiles(sessionId: string): Promise<MigrationResult | null> {
+    const paths = this.getPaths(sessionId);
+    if (!(await fileExists(paths.state))) {
+      return null;
     }
+    return withFileLock(paths.lock, async () => {
+      const documents = await this.readSessionDocuments(paths);
+      const metaBefore = dump(documents.meta);
+      const result = migrateSession(documents);
+      if (result.applied.length === 0) {
+        return result;
+      }
+      const state = documents.state as StateDocument;
+      state.revision += 1;
+      const metaAfter = dump(documents.meta);
+      if (metaAfter !== metaBefore) {
+        await writeFileAtomic(paths.meta, metaAfter);
+      }
+      await writeFileAtomic(paths.state, dump(state));
+      return result;
+    });
+  }
 
+  /**
+   * Write state.yaml under the session's lock. Every save bumps `revision`, and saving a state
+   * that someone else has saved since it was loaded fails instead of overwriting their changes.
+   */
+  async saveState(state: SessionState, updateTimestamp = true): Promise<void> {
     const paths = this.getPaths(state.sessionId);
-    const stateData: Record<string, unknown> = {
+    await withFileLock(paths.lock, async () => {
+      const current = await this.readRevision(paths.state);
+      if (current !== state.revision) {
+        throw new Error(
+          `Session ${state.sessionId} was saved elsewhere since it was loaded (revision ${current}, expected ${state.revision})`,
+        );
+      }
+      if (updateTimestamp) {
+        state.updatedAt = new Date();
+      }
+      await writeFileAtomic(paths.state, dump(this.stateToDict(state, current + 1)));
+      state.revision = current + 1;
+    });
+  }
+
+  // Revision of the saved state; 0 before the first save and for state saved before revisions.
+  // State written by a newer pl4n is never overwritten with an older layout.
+  private async readRevision(stateFile: string): Promise<number> {
+    let data: unknown;
+    try {
+      data = load(await fs.readFile(stateFile, "utf8"));
+    } catch {
+      return 0;
+    }
+    if (!isRecord(data)) {
+      return 0;
+    }
+    readSchemaVersion(data);
+    return typeof data.revision === "number" ? data.revision : 0;
+  }
+
+  private stateToDict(state: SessionState, revision: number): StateDocument {
+    const stateData: StateDocument = {
+      schema_version: SCHEMA_VERSION,
+      revision,
       turn: state.turn,
       phase: state.phase,
       updated_at: state.updatedAt.toISOString(),
       archived: state.archived,
       agents: Object.fromEntries(Object.entries(state.agents).map(([key, value]) => [key, value])),
       agent_plan_ids: state.agentPlanIds,
+      agent_errors: state.agentErrors,
+      agent_attempts: state.agentAttempts,
+      checkpoints: state.checkpoints,
+      agent_pids: state.agentPids,
+      turn_sessions: state.turnSessions,
+      stray_edits: state.strayEdits,
+      lint_issues: state.lintIssues,
     };
     if (state.sessionToken) {
       stateData.session_token = state.sessionToken;
     }
-    if (Object.keys(state.agentErrors).length > 0) {
-      stateData.agent_errors = state.agentErrors;
+    if (state.pipeline) {
+      stateData.pipeline = state.pipeline;
+    }
+    if (state.pipelineStep !== undefined) {
+      stateData.pipeline_step = state.pipelineStep;
     }
+    if (state.runnerPid !== undefined) {
+      stateData.runner_pid = state.runnerPid;
+    }
+    if (state.approvedCommit) {
+      stateData.approved_commit = state.approvedCommit;
+    }
+    if (state.parentSession) {
+      stateData.parent_session = state.parentSession;
+      stateData.parent_turn = state.parentTurn;
+    }
+    return stateData;
+  }
 
-    await fs.writeFile(paths.state, dump(stateData), "utf8");
+  /**
+   * Names of every session directory, including sessions that cannot be loaded.
+   */
+  async listSessionIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.sessionsDir, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
   }
 
   async listSessions(options?: { archived?: "exclude" | "only" | "all" }): Promise<SessionState[]> {
@@ -203,7 +370,241 @@ export class SessionManager {
     return SessionPaths.fromRoot(path.join(this.sessionsDir, sessionId));
   }
 
-  private async generateUniqueSessionId(): Promise<string> {
+  /**
+   * Start a new session from turn `fromTurn` of another. Turns 1..fromTurn, their snapshots and the
+   * agents' plans are copied. CLI session IDs cannot be forked, so agent conversations start fresh
+   * and their first run is seeded with a summary of the copied turns (fork.md).
+   */
+  async forkSession(sourceId: string, fromTurn: number): Promise<SessionState> {
+    const source = await this.loadSession(sourceId);
+    if (!source) {
+      throw new Error(`Session ${sourceId} not found`);
+    }
+    if (!Number.isInteger(fromTurn) || fromTurn < 1 || fromTurn > source.turn) {
+      throw new Error(`Turn must be between 1 and ${source.turn}`);
+    }
+    const sourcePaths = this.getPaths(sourceId);
+    if (!(await fileExists(sourcePaths.turnFile(fromTurn)))) {
+      throw new Error(`Turn ${fromTurn} of ${sourceId} has no plan yet`);
+    }
+
+    const sessionId = await this.generateUniqueSessionId();
+    const now = new Date();
+    const paths = this.getPaths(sessionId);
+    await fs.mkdir(paths.turns, { recursive: true });
+    await fs.mkdir(paths.agents, { recursive: true });
+    await fs.mkdir(paths.plans, { recursive: true });
+
+    const copy = async (from: string, to: string) => {
+      if (await fileExists(from)) {
+        await fs.cp(from, to, { recursive: true });
+      }
+    };
+    const meta = load(await fs.readFile(sourcePaths.meta, "utf8")) as Record<string, unknown>;
+    await fs.writeFile(
+      paths.meta,
+      dump({ ...meta, session_id: sessionId, created_at: now.toISOString() }),
+      "utf8",
+    );
+    await copy(sourcePaths.input, paths.input);
+    for (let turn = 1; turn <= fromTurn; turn += 1) {
+      const turnFile = sourcePaths.turnFile(turn);
+      await copy(turnFile, paths.turnFile(turn));
+      await copy(
+        turnFile.replace(/\.md$/, ".snapshot.md"),
+        paths.turnFile(turn).replace(/\.md$/, ".snapshot.md"),
+      );
+      await copy(sourcePaths.turnVerifyFile(turn), paths.turnVerifyFile(turn));
+      await copy(sourcePaths.turnSnapshotDir(turn), paths.turnSnapshotDir(turn));
+    }
+
+    // Agent plans hold the latest turn; an earlier turn's synthesis is what they held back then
+    const synthesis = await this.readSynthesis(sourcePaths, fromTurn);
+    for (const planId of Object.values(source.agentPlanIds)) {
+      if (fromTurn === source.turn) {
+        await copy(sourcePaths.agentPlanFile(planId), paths.agentPlanFile(planId));
+      } else {
+        await fs.writeFile(paths.agentPlanFile(planId), synthesis, "utf8");
+      }
+    }
+    await fs.writeFile(paths.fork, await this.summarizeTurns(sourcePaths, fromTurn), "utf8");
+
+    const state = new SessionState({
+      sessionId,
+      task: source.task,
+      turn: fromTurn,
+      phase: Phase.UserReview,
+      createdAt: now,
+      updatedAt: now,
+      agents: Object.fromEntries(
+        Object.keys(source.agentPlanIds).map((agentId) => [agentId, AgentStatus.Done]),
+      ),
+      agentPlanIds: { ...source.agentPlanIds },
+      sessionToken: generateToken(),
+      baseCommit: source.baseCommit,
+      parentSession: sourceId,
+      parentTurn: fromTurn,
+    });
+    await this.saveState(state, false);
+    return state;
+  }
+
+  /**
+   * Make an earlier turn current again. Later turns move to `turns/.discarded/`, agent plans go
+   * back to that turn's synthesis, and agent conversations are rewound to the CLI sessions they
+   * had when it ended (or started afresh when none was recorded).
+   */
+  async rollbackSession(sessionId: string, toTurn: number): Promise<RollbackResult> {
+    const state = await this.loadSession(sessionId);
+    if (!state) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (state.phase !== Phase.UserReview && state.phase !== Phase.Error) {
+      throw new Error(`Cannot roll back from phase ${state.phase}`);
+    }
+    if (state.turn < 2) {
+      throw new Error(`Session ${sessionId} has no earlier turn`);
+    }
+    if (!Number.isInteger(toTurn) || toTurn < 1 || toTurn >= state.turn) {
+      throw new Error(`Turn must be between 1 and ${state.turn - 1}`);
+    }
+    const paths = this.getPaths(sessionId);
+    if (!(await fileExists(paths.turnFile(toTurn)))) {
+      throw new Error(`Turn ${toTurn} of ${sessionId} has no plan yet`);
+    }
+
+    const now = new Date();
+    const archive = path.join(paths.discardedTurns, now.toISOString().replace(/[:.]/g, "-"));
+    await fs.mkdir(archive, { recursive: true });
+    const discarded: number[] = [];
+    for (let turn = toTurn + 1; turn <= state.turn; turn += 1) {
+      const turnFile = paths.turnFile(turn);
+      const files = [
+        turnFile,
+        turnFile.replace(/\.md$/, ".snapshot.md"),
+        turnFile.replace(/\.md$/, "-autosave.md"),
+        paths.turnVerifyFile(turn),
+        paths.turnSnapshotDir(turn),
+      ];
+      for (const file of files) {
+        if (await fileExists(file)) {
+          await fs.rename(file, path.join(archive, path.basename(file)));
+        }
+      }
+      discarded.push(turn);
+    }
+
+    const synthesis = await this.readSynthesis(paths, toTurn);
+    for (const planId of Object.values(state.agentPlanIds)) {
+      await fs.writeFile(paths.agentPlanFile(planId), synthesis, "utf8");
+    }
+    const recorded = state.turnSessions[String(toTurn)] ?? {};
+    const agentDirs = await fs.readdir(paths.agents).catch(() => [] as string[]);
+    for (const dir of agentDirs) {
+      const sessionFile = paths.agentSessionFile(dir);
+      if (recorded[dir]) {
+        await fs.writeFile(sessionFile, recorded[dir], "utf8");
+      } else {
+        // HTTP agents keep their whole conversation next to it and cannot be rewound either
+        await fs.rm(sessionFile, { force: true });
+        await fs.rm(path.join(paths.agentDir(dir), "history.json"), { force: true });
+      }
+    }
+
+    state.turn = toTurn;
+    state.phase = Phase.UserReview;
+    state.agents = Object.fromEntries(
+      Object.keys(state.agentPlanIds).map((agentId) => [agentId, AgentStatus.Done]),
+    );
+    state.agentErrors = {};
+    state.agentAttempts = {};
+    state.pipelineStep = undefined;
+    state.checkpoints = {};
+    state.runnerPid = undefined;
+    state.agentPids = {};
+    state.strayEdits = {};
+    state.lintIssues = {};
+    state.turnSessions = Object.fromEntries(
+      Object.entries(state.turnSessions).filter(([turn]) => Number(turn) <= toTurn),
+    );
+    await this.saveState(state);
+    return { state, discarded, archive };
+  }
+
+  /**
+   * CLI session ID each agent directory holds right now, keyed by directory name.
+   */
+  async readAgentSessions(sessionId: string): Promise<Record<string, string>> {
+    const paths = this.getPaths(sessionId);
+    const sessions: Record<string, string> = {};
+    const agentDirs = await fs.readdir(paths.agents).catch(() => [] as string[]);
+    for (const dir of agentDirs) {
+      try {
+        const value = (await fs.readFile(paths.agentSessionFile(dir), "utf8")).trim();
+        if (value) {
+          sessions[dir] = value;
+        }
+      } catch {
+        // No conversation yet, or an agent that does not keep one
+      }
+    }
+    return sessions;
+  }
+
+  // The turn's plan as the synthesizer wrote it, before the user edited it
+  private async readSynthesis(paths: SessionPaths, turn: number): Promise<string> {
+    const snapshotFile = paths.turnFile(turn).replace(/\.md$/, ".snapshot.md");
+    return fs.readFile(
+      (await fileExists(snapshotFile)) ? snapshotFile : paths.turnFile(turn),
+      "utf8",
+    );
+  }
+
+  // Summary, decisions and user edits of each turn, standing in for a fork's lost conversations
+  private async summarizeTurns(paths: SessionPaths, upTo: number): Promise<string> {
+    const sections: string[] = [];
+    for (let turn = 1; turn <= upTo; turn += 1) {
+      const turnFile = paths.turnFile(turn);
+      if (!(await fileExists(turnFile))) {
+        continue;
+      }
+      const edited = await fs.readFile(turnFile, "utf8");
+      const snapshotFile = turnFile.replace(/\.md$/, ".snapshot.md");
+      const original = (await fileExists(snapshotFile))
+        ? await fs.readFile(snapshotFile, "utf8")
+        : edited;
+      const plan = PlanDocument.parse(edited);
+
+      const lines = [`### Turn ${turn}`, ""];
+      const summary = plan.summary?.split(/\n\s*\n/)[0];
+      if (summary) {
+        lines.push(summary, "");
+      }
+      lines.push(`- ${plan.tasks.length} tasks, ${plan.risks.length} risks`);
+      for (const question of plan.questions) {
+        if (question.answer?.trim()) {
+          lines.push(`- ${question.id}: ${question.question} Answer: ${question.answer.trim()}`);
+        }
+      }
+      let added = 0;
+      let removed = 0;
+      for (const change of diffLines(original, edited)) {
+        const count = change.value.replace(/\n$/, "").split("\n").length;
+        if (change.added) {
+          added += count;
+        } else if (change.removed) {
+          removed += count;
+        }
+      }
+      if (added + removed > 0) {
+        lines.push(`- The user edited the synthesized plan (+${added}/-${removed} lines)`);
+      }
+      sections.push(lines.join("\n"));
+    }
+    return `${sections.join("\n\n")}\n`;
+  }
+
+  async generateUniqueSessionId(): Promise<string> {
     for (let i = 0; i < 10; i += 1) {
       const sessionId = generateName();
       try {
@@ -229,6 +630,10 @@ export class SessionManager {
     return true;
   }
 
+  /**
+   * Archive or unarchive a session. Refused while a turn is running, whose runner would otherwise
+   * fail on its next save.
+   */
   async setArchived(sessionId: string, archived: boolean): Promise<SessionState | null> {
     const state = await this.loadSession(sessionId);
     if (!state) {
@@ -237,11 +642,53 @@ export class SessionManager {
     if (state.archived === archived) {
       return state;
     }
+    if (this.isTurnRunning(state)) {
+      throw new Error(`Turn ${state.turn} of ${sessionId} is still running`);
+    }
     state.archived = archived;
     await this.saveState(state, false);
     return state;
   }
 
+  isTurnRunning(state: SessionState): boolean {
+    return Object.values(STAGE_PHASES).includes(state.phase);
+  }
+
+  /**
+   * Stop a running turn: terminate its runner and agent processes, then park the session in
+   * the error phase so `pl4n resume` can pick it up from its checkpoints.
+   */
+  async abortTurn(sessionId: string, graceMs = KILL_GRACE_MS): Promise<SessionState | null> {
+    const initial = await this.loadSession(sessionId);
+    if (!initial) {
+      return null;
+    }
+
+    // Stop the runner first so it cannot record results or spawn agents after we clean up
+    if (initial.runnerPid !== undefined && initial.runnerPid !== process.pid) {
+      await terminateProcess(initial.runnerPid, graceMs);
+    }
+
+    const state = (await this.loadSession(sessionId)) ?? initial;
+    const agentPids = new Set([
+      ...Object.values(initial.agentPids),
+      ...Object.values(state.agentPids),
+    ]);
+    await Promise.all([...agentPids].map((pid) => terminateProcess(pid, graceMs)));
+
+    for (const [agentId, status] of Object.entries(state.agents)) {
+      if (status === AgentStatus.Working) {
+        state.agents[agentId] = AgentStatus.Error;
+        state.agentErrors[agentId] = "Aborted";
+      }
+    }
+    state.phase = Phase.Error;
+    state.runnerPid = undefined;
+    state.agentPids = {};
+    await this.saveState(state);
+    return state;
+  }
+
   async getCurrentTurnFile(sessionId: string): Promise<string | null> {
     const state = await this.loadSession(sessionId);
     if (!state) {
@@ -252,6 +699,138 @@ export class SessionManager {
     return paths.turnFile(state.turn);
   }
 
+  /**
+   * Load the judge's scores for every turn that has them, keyed by turn number.
+   */
+  async loadScores(sessionId: string): Promise<Record<string, TurnScores>> {
+    const state = await this.loadSession(sessionId);
+    if (!state) {
+      return {};
+    }
+
+    const paths = this.getPaths(sessionId);
+    const history: Record<string, TurnScores> = {};
+    for (let turn = 1; turn <= state.turn; turn += 1) {
+      try {
+        const content = await fs.readFile(paths.turnScoresFile(turn), "utf8");
+        history[String(turn)] = turnScoresFromDict(JSON.parse(content));
+      } catch {
+        // Judge not configured or failed for this turn
+      }
+    }
+    return history;
+  }
+
+  /**
+   * References of a turn as last checked (turns/NNN.verify.json), or null when the turn was not
+   * checked or its file has changed since. Sidecars from before content hashes are trusted as is.
+   */
+  async loadVerification(
+    sessionId: string,
+    turn: number,
+    content: string,
+  ): Promise<Record<string, unknown> | null> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(this.getPaths(sessionId).turnVerifyFile(turn), "utf8"));
+    } catch {
+      return null;
+    }
+    if (
+      !isRecord(data) ||
+      (data.content_hash !== undefined && data.content_hash !== hashContent(content))
+    ) {
+      return null;
+    }
+    return {
+      files_checked: data.files_checked,
+      symbols_checked: data.symbols_checked,
+      findings: data.findings,
+    };
+  }
+
+  /** Record the references checked for a turn's content; returns them as served to the editor */
+  async saveVerification(
+    sessionId: string,
+    turn: number,
+    content: string,
+    verification: PlanVerification,
+  ): Promise<Record<string, unknown>> {
+    const references = planVerificationToDict(verification);
+    await writeFileAtomic(
+      this.getPaths(sessionId).turnVerifyFile(turn),
+      `${JSON.stringify({ turn, content_hash: hashContent(content), ...references }, null, 2)}\n`,
+    );
+    return references;
+  }
+
+  async loadUsage(sessionId: string): Promise<UsageRecord[]> {
+    const paths = this.getPaths(sessionId);
+    let data: unknown;
+    try {
+      data = load(await fs.readFile(paths.usage, "utf8"));
+    } catch {
+      // No agent has finished a run yet
+      return [];
+    }
+    const runs = isRecord(data) && Array.isArray(data.runs) ? data.runs : [];
+    return runs.filter(isRecord).map((entry) => usageRecordFromDict(entry));
+  }
+
+  // Turns and pl4n implement can append at the same time, so the read-modify-write takes the
+  // session lock
+  async appendUsage(sessionId: string, record: UsageRecord): Promise<void> {
+    const paths = this.getPaths(sessionId);
+    await withFileLock(paths.lock, async () => {
+      const records = await this.loadUsage(sessionId);
+      records.push(record);
+      await writeFileAtomic(
+        paths.usage,
+        dump({ runs: records.map((entry) => usageRecordToDict(entry)) }),
+      );
+    });
+  }
+
+  async loadImplementation(sessionId: string): Promise<ImplementationProgress | null> {
+    const paths = this.getPaths(sessionId);
+    let data: unknown;
+    try {
+      data = load(await fs.readFile(paths.implementationProgressFile(), "utf8"));
+    } catch {
+      // pl4n implement has not run for this session
+      return null;
+    }
+    return isRecord(data) ? implementationProgressFromDict(data) : null;
+  }
+
+  async saveImplementation(sessionId: string, progress: ImplementationProgress): Promise<void> {
+    const paths = this.getPaths(sessionId);
+    progress.updatedAt = new Date();
+    await fs.mkdir(paths.implementation, { recursive: true });
+    await writeFileAtomic(
+      paths.implementationProgressFile(),
+      dump(implementationProgressToDict(progress)),
+    );
+  }
+
+  async loadTaskProgress(sessionId: string): Promise<TaskProgress | null> {
+    const paths = this.getPaths(sessionId);
+    let data: unknown;
+    try {
+      data = load(await fs.readFile(paths.tasks, "utf8"));
+    } catch {
+      // Tasks are tracked once the plan is approved
+      return null;
+    }
+    return isRecord(data) ? taskProgressFromDict(data) : null;
+  }
+
+  async saveTaskProgress(sessionId: string, progress: TaskProgress): Promise<void> {
+    const paths = this.getPaths(sessionId);
+    progress.updatedAt = new Date();
+    await writeFileAtomic(paths.tasks, dump(taskProgressToDict(progress)));
+  }
+
   async ensureSessionToken(sessionId: string): Promise<string> {
     const state = await this.loadSession(sessionId);
     if (!state) {
@@ -265,43 +844,24 @@ export class SessionManager {
     return state.sessionToken;
   }
 
-  async hasQuestions(sessionId: string): Promise<boolean> {
+  /**
+   * Parse the current turn file, or null when the session or its turn file is missing.
+   */
+  async loadPlan(sessionId: string): Promise<PlanDocument | null> {
     const turnFile = await this.getCurrentTurnFile(sessionId);
     if (!turnFile) {
-      return false;
+      return null;
     }
 
     try {
-      await fs.access(turnFile);
+      return PlanDocument.parse(await fs.readFile(turnFile, "utf8"));
     } catch {
-      return false;
-    }
-
-    const content = await fs.readFile(turnFile, "utf8");
-    if (!content.includes("## Questions")) {
-      return false;
-    }
-
-    const lines = content.split("\n");
-    for (let i = 0; i < lines.length; i += 1) {
-      const line = lines[i];
-      if (line.trim().startsWith("**Answer:**")) {
-        const answerContent = line.replace("**Answer:**", "").trim();
-        if (!answerContent) {
-          if (i + 1 < lines.length) {
-            const nextLine = lines[i + 1].trim();
-            const isEmpty = nextLine.length === 0;
-            const isSection = nextLine.startsWith("###") || nextLine.startsWith("---");
-            if (isEmpty || isSection) {
-              return true;
-            }
-          } else {
-            return true;
-          }
-        }
-      }
+      return null;
     }
+  }
 
-    return false;
+  async hasQuestions(sessionId: string): Promise<boolean> {
+    const plan = await this.loadPlan(sessionId);
+    return (plan?.unansweredQuestions.length ?? 0) > 0;
   }
 }
@@ -0,0 +1,264 @@
+/**
+ * Task tracking - how far implementation of an approved plan has got, from PLAN.md and git history
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+  type ImplementationProgress,
+  ImplementationStatus,
+  Phase,
+  type SessionState,
+  type TaskProgress,
+  TaskStatus,
+  type TaskTracking,
+} from "./models";
+import { PlanDocument } from "./plan";
+import type { SessionManager } from "./session";
+import { resolveHead, runGit } from "./utils/git";
+
+export type PlanCommit = {
+  /** Abbreviated hash */
+  hash: string;
+  subject: string;
+  /** Paths touched, relative to the project root */
+  files: string[];
+  /** Values of the commit's Plan-Task trailers */
+  trailers: string[];
+};
+
+export const PLAN_TASK_TRAILER = "Plan-Task";
+
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+const TRAILER_SEPARATOR = "\x1d";
+
+// "3", "3 wip", "swift-river#3", "swift-river#3 (done)"
+const TRAILER_PATTERN = /^(?:([\w-]+)#)?(\d+)(?:\s+\(?(wip|in[- ]progress|done)\)?)?$/i;
+
+const STATUS_RANK: Record<TaskStatus, number> = {
+  [TaskStatus.Todo]: 0,
+  [TaskStatus.InProgress]: 1,
+  [TaskStatus.Done]: 2,
+};
+
+/**
+ * Commits on HEAD after `since` (or made after `after` when no commit is known), oldest first.
+ * Outside a git repository, or when `since` is no longer in the history, there are none.
+ */
+export async function readPlanCommits(
+  cwd: string,
+  range: { since?: string; after?: Date },
+): Promise<PlanCommit[]> {
+  const args = [
+    "log",
+    "--reverse",
+    "--no-merges",
+    "--relative",
+    "--name-only",
+    `--format=${RECORD_SEPARATOR}%h${FIELD_SEPARATOR}%s${FIELD_SEPARATOR}%(trailers:key=${PLAN_TASK_TRAILER},valueonly,separator=%x1d)`,
+  ];
+  if (range.since) {
+    args.push(`${range.since}..HEAD`);
+  } else if (range.after) {
+    args.push(`--since=${range.after.toISOString()}`, "HEAD");
+  }
+  const result = await runGit(args, cwd);
+  if (result.exitCode !== 0) {
+    return [];
+  }
+  return result.stdout
+    .split(RECORD_SEPARATOR)
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [header, ...files] = record.split("\n");
+      const [hash, subject, trailers] = header.split(FIELD_SEPARATOR);
+      return {
+        hash,
+        subject: subject ?? "",
+        files: files.map((file) => file.trim()).filter(Boolean),
+        trailers: (trailers ?? "")
+          .split(TRAILER_SEPARATOR)
+          .map((value) => value.trim())
+          .filter(Boolean),
+      };
+    });
+}
+
+type TaskClaim = { task: number; status: TaskStatus };
+
+// Trailers naming another session are ignored; a bare number applies to any session
+function parseTrailer(value: string, sessionId: string): TaskClaim | null {
+  const match = value.match(TRAILER_PATTERN);
+  if (!match || (match[1] && match[1] !== sessionId)) {
+    return null;
+  }
+  const word = match[3]?.toLowerCase();
+  return {
+    task: Number(match[2]),
+    status: word && word !== "done" ? TaskStatus.InProgress : TaskStatus.Done,
+  };
+}
+
+function normalizePath(file: string): string {
+  return file.replace(/^\.\//, "");
+}
+
+/**
+ * Status of every task from the plan's checkboxes, `pl4n implement` progress and the commits made
+ * since approval. A `Plan-Task: N` trailer attributes a commit to task N and marks it done (or in
+ * progress with `N wip`); commits without trailers count towards tasks whose **Files:** they touch,
+ * and a task is done once all of its files have been touched.
+ */
+export function trackTasks(
+  plan: PlanDocument,
+  commits: PlanCommit[],
+  options: { sessionId: string; implementation?: ImplementationProgress | null },
+): Record<number, TaskTracking> {
+  const tracked: Record<number, TaskTracking> = {};
+  const touched = new Map<number, Set<string>>();
+  const raise = (task: number, status: TaskStatus) => {
+    if (STATUS_RANK[status] > STATUS_RANK[tracked[task].status]) {
+      tracked[task].status = status;
+    }
+  };
+  const attribute = (task: number, hash: string) => {
+    if (!tracked[task].commits.includes(hash)) {
+      tracked[task].commits.push(hash);
+    }
+  };
+
+  for (const task of plan.tasks) {
+    if (!tracked[task.id]) {
+      tracked[task.id] = { status: TaskStatus.Todo, commits: [] };
+      touched.set(task.id, new Set());
+    }
+  }
+
+  for (const commit of commits) {
+    const claims = commit.trailers
+      .map((value) => parseTrailer(value, options.sessionId))
+      .filter((claim): claim is TaskClaim => claim !== null && tracked[claim.task] !== undefined);
+    for (const claim of claims) {
+      attribute(claim.task, commit.hash);
+      raise(claim.task, claim.status);
+    }
+    if (claims.length > 0) {
+      continue;
+    }
+    const files = new Set(commit.files.map(normalizePath));
+    for (const task of plan.tasks) {
+      const matched = task.files
+        .map((file) => normalizePath(file.path))
+        .filter((file) => files.has(file));
+      if (matched.length === 0) {
+        continue;
+      }
+      attribute(task.id, commit.hash);
+      for (const file of matched) {
+        touched.get(task.id)?.add(file);
+      }
+    }
+  }
+
+  for (const task of plan.tasks) {
+    const files = new Set(task.files.map((file) => normalizePath(file.path)));
+    const seen = touched.get(task.id)?.size ?? 0;
+    if (seen > 0) {
+      raise(task.id, seen >= files.size ? TaskStatus.Done : TaskStatus.InProgress);
+    }
+    if (task.done) {
+      raise(task.id, TaskStatus.Done);
+    }
+  }
+
+  const implementation = options.implementation;
+  for (const task of implementation?.completed ?? []) {
+    if (tracked[task]) {
+      raise(task, TaskStatus.Done);
+    }
+  }
+  const current = implementation?.currentTask;
+  if (
+    current !== undefined &&
+    tracked[current] &&
+    (implementation?.status === ImplementationStatus.Running ||
+      implementation?.status === ImplementationStatus.AwaitingApproval)
+  ) {
+    raise(current, TaskStatus.InProgress);
+  }
+  return tracked;
+}
+
+/**
+ * HEAD of a manager's project, resolved on first use. Listings share one across their sessions.
+ */
+export function projectHead(manager: SessionManager): () => Promise<string | null> {
+  let head: Promise<string | null> | undefined;
+  return () => {
+    head ??= resolveHead(path.resolve(manager.pl4nDir, ".."));
+    return head;
+  };
+}
+
+/**
+ * Task status of an approved session. The saved tasks.yaml is used as long as HEAD, PLAN.md and
+ * pl4n implement's progress are unchanged since it was written; otherwise the status is
+ * recomputed from git history, and written back only when it or HEAD differs from the saved one,
+ * so listings do not rewrite tasks.yaml. Returns null before approval, and the last saved status
+ * when PLAN.md cannot be read.
+ */
+export async function refreshTaskProgress(
+  manager: SessionManager,
+  state: SessionState,
+  head: () => Promise<string | null> = projectHead(manager),
+): Promise<TaskProgress | null> {
+  if (state.phase !== Phase.Approved) {
+    return null;
+  }
+  const paths = manager.getPaths(state.sessionId);
+  const planFile = path.join(paths.root, "PLAN.md");
+  const saved = await manager.loadTaskProgress(state.sessionId);
+  let content: string;
+  let planModified: Date;
+  try {
+    content = await fs.readFile(planFile, "utf8");
+    planModified = (await fs.stat(planFile)).mtime;
+  } catch {
+    return saved;
+  }
+
+  const currentHead = (await head()) ?? undefined;
+  const implementation = await manager.loadImplementation(state.sessionId);
+  if (
+    saved &&
+    saved.head === currentHead &&
+    planModified <= saved.updatedAt &&
+    (!implementation || implementation.updatedAt <= saved.updatedAt)
+  ) {
+    return saved;
+  }
+
+  // Sessions approved before tracking existed fall back to their base commit or creation time
+  const projectRoot = path.resolve(manager.pl4nDir, "..");
+  const since = state.approvedCommit ?? state.baseCommit;
+  const commits = await readPlanCommits(projectRoot, {
+    since,
+    after: since ? undefined : state.createdAt,
+  });
+  const tasks = trackTasks(PlanDocument.parse(content), commits, {
+    sessionId: state.sessionId,
+    implementation,
+  });
+  if (
+    saved &&
+    saved.head === currentHead &&
+    JSON.stringify(saved.tasks) === JSON.stringify(tasks)
+  ) {
+    return saved;
+  }
+  const progress: TaskProgress = { head: currentHead, tasks, updatedAt: new Date() };
+  await manager.saveTaskProgress(state.sessionId, progress);
+  return progress;
+}
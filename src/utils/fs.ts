@@ -1,6 +1,7 @@
 /**
  * Shared filesystem utilities
  */
+import crypto from "crypto";
 import { promises as fs } from "fs";
 
 /**
@@ -14,3 +15,17 @@ export async function fileExists(filePath: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Write a file through a temporary sibling and a rename, so readers never see it half-written.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempFile = `${filePath}.${process.pid}.${crypto.randomUUID().slice(0, 8)}.tmp`;
+  try {
+    await fs.writeFile(tempFile, content, "utf8");
+    await fs.rename(tempFile, filePath);
+  } catch (error) {
+    await fs.rm(tempFile, { force: true });
+    throw error;
+  }
+}
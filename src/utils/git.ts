@@ -0,0 +1,87 @@
+/**
+ * Shared git utilities
+ */
+
+export type GitResult = {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+};
+
+/**
+ * Run a git command in the given directory without throwing on failure.
+ */
+export async function runGit(args: string[], cwd: string): Promise<GitResult> {
+  try {
+    const proc = Bun.spawn({
+      cmd: ["git", ...args],
+      cwd,
+      env: process.env,
+      stdin: "ignore",
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    return { exitCode, stdout, stderr };
+  } catch (error) {
+    // git is not installed or cwd does not exist
+    const message = error instanceof Error ? error.message : String(error);
+    return { exitCode: -1, stdout: "", stderr: message };
+  }
+}
+
+/**
+ * Commit hash checked out in the given directory, or null outside a git repository.
+ */
+export async function resolveHead(cwd: string): Promise<string | null> {
+  const result = await runGit(["rev-parse", "--verify", "HEAD"], cwd);
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Check out a commit into a new detached worktree at dir.
+ */
+export async function addWorktree(repoDir: string, dir: string, commit: string): Promise<void> {
+  const result = await runGit(["worktree", "add", "--detach", dir, commit], repoDir);
+  if (result.exitCode !== 0) {
+    throw new Error(`git worktree add failed: ${result.stderr.trim()}`);
+  }
+}
+
+/**
+ * Remove a worktree created by addWorktree, discarding any changes made in it.
+ */
+export async function removeWorktree(repoDir: string, dir: string): Promise<void> {
+  const result = await runGit(["worktree", "remove", "--force", dir], repoDir);
+  if (result.exitCode !== 0) {
+    throw new Error(`git worktree remove failed: ${result.stderr.trim()}`);
+  }
+}
+
+/**
+ * Paths (relative to the worktree root) that are modified, added, deleted, or untracked.
+ */
+export async function listChangedFiles(cwd: string): Promise<string[]> {
+  const result = await runGit(["status", "--porcelain", "-z", "--untracked-files=all"], cwd);
+  if (result.exitCode !== 0) {
+    return [];
+  }
+  const files: string[] = [];
+  const entries = result.stdout.split("\0");
+  for (let index = 0; index < entries.length; index += 1) {
+    const entry = entries[index];
+    if (entry.length < 4) {
+      continue;
+    }
+    files.push(entry.slice(3));
+    // Renames and copies are followed by their source path
+    if (entry[0] === "R" || entry[0] === "C") {
+      index += 1;
+    }
+  }
+  return files;
+}
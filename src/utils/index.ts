@@ -1,5 +1,16 @@
 /**
  * Shared utilities
  */
-export { fileExists } from "./fs";
+export { fileExists, writeFileAtomic } from "./fs";
+export {
+  addWorktree,
+  listChangedFiles,
+  removeWorktree,
+  resolveHead,
+  runGit,
+  type GitResult,
+} from "./git";
+export { LOCK_TIMEOUT_MS, withFileLock } from "./lock";
+export { packTarGz, unpackTarGz, type TarEntry } from "./tar";
+export { isProcessAlive, killOnAbort, terminateProcess, KILL_GRACE_MS } from "./process";
 export { isRecord } from "./types";
@@ -0,0 +1,93 @@
+/**
+ * Advisory lock files - serialize writers across the CLI, the web server and spawned turns
+ */
+import crypto from "crypto";
+import { promises as fs } from "fs";
+
+import { isProcessAlive } from "./process";
+
+/** How long a writer waits for a lock before giving up */
+export const LOCK_TIMEOUT_MS = 10_000;
+
+const LOCK_POLL_MS = 20;
+
+// PID recorded in a lock file, or null while its owner is still writing it
+async function readLockOwner(lockFile: string): Promise<number | null> {
+  try {
+    const pid = Number.parseInt(await fs.readFile(lockFile, "utf8"), 10);
+    return Number.isNaN(pid) ? null : pid;
+  } catch {
+    return null;
+  }
+}
+
+// Waiters that find the same stale lock take turns removing it, so none of them can remove a lock
+// another waiter has just created. A guard left by a waiter that died mid-takeover is itself stale.
+async function removeStaleLock(lockFile: string, staleOwner: number): Promise<boolean> {
+  const guard = `${lockFile}.takeover`;
+  try {
+    await fs.writeFile(guard, `${process.pid}\n`, { encoding: "utf8", flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw error;
+    }
+    const guardOwner = await readLockOwner(guard);
+    if (guardOwner !== null && !isProcessAlive(guardOwner)) {
+      await fs.rm(guard, { force: true });
+    }
+    return false;
+  }
+  try {
+    if ((await readLockOwner(lockFile)) === staleOwner) {
+      await fs.rm(lockFile, { force: true });
+    }
+    return true;
+  } finally {
+    await fs.rm(guard, { force: true });
+  }
+}
+
+/**
+ * Run `fn` while holding `lockFile`. The file holds the owner's PID; a lock whose owner is no
+ * longer running is stale and taken over.
+ */
+export async function withFileLock<T>(
+  lockFile: string,
+  fn: () => Promise<T>,
+  timeoutMs = LOCK_TIMEOUT_MS,
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  // Tells this holder's lock apart from later ones, including others in the same process
+  const content = `${process.pid}\n${crypto.randomUUID()}\n`;
+  let owner: number | null = null;
+  for (;;) {
+    try {
+      await fs.writeFile(lockFile, content, { encoding: "utf8", flag: "wx" });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    owner = await readLockOwner(lockFile);
+    if (owner !== null && !isProcessAlive(owner) && (await removeStaleLock(lockFile, owner))) {
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Timed out waiting for ${lockFile}${owner !== null ? ` (held by pid ${owner})` : ""}`,
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // Leave the lock alone if it was taken over while fn ran
+    const current = await fs.readFile(lockFile, "utf8").catch(() => null);
+    if (current === content) {
+      await fs.rm(lockFile, { force: true });
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Shared process utilities
+ */
+
+/**
+ * Check whether a process with the given PID is still running.
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** How long a process gets to exit after SIGTERM before it is sent SIGKILL */
+export const KILL_GRACE_MS = 5000;
+
+const EXIT_POLL_MS = 100;
+
+/**
+ * Send SIGTERM to a process, escalating to SIGKILL if it outlives the grace period.
+ * Returns false when the process was already gone.
+ */
+export async function terminateProcess(pid: number, graceMs = KILL_GRACE_MS): Promise<boolean> {
+  if (!isProcessAlive(pid)) {
+    return false;
+  }
+  try {
+    process.kill(pid, "SIGTERM");
+  } catch {
+    return false;
+  }
+
+  const deadline = Date.now() + graceMs;
+  while (Date.now() < deadline) {
+    await Bun.sleep(EXIT_POLL_MS);
+    if (!isProcessAlive(pid)) {
+      return true;
+    }
+  }
+
+  try {
+    process.kill(pid, "SIGKILL");
+  } catch {
+    // exited between the last poll and the kill
+  }
+  return true;
+}
+
+/**
+ * Terminate a spawned child when the signal aborts, with the same SIGTERM/SIGKILL escalation.
+ */
+export function killOnAbort(
+  proc: Bun.Subprocess,
+  signal: AbortSignal | undefined,
+  graceMs = KILL_GRACE_MS,
+): void {
+  if (!signal) {
+    return;
+  }
+
+  const onAbort = () => {
+    proc.kill("SIGTERM");
+    const timer = setTimeout(() => {
+      if (proc.exitCode === null && proc.signalCode === null) {
+        proc.kill("SIGKILL");
+      }
+    }, graceMs);
+    void proc.exited.finally(() => clearTimeout(timer));
+  };
+
+  if (signal.aborted) {
+    onAbort();
+    return;
+  }
+  signal.addEventListener("abort", onAbort, { once: true });
+  void proc.exited.finally(() => signal.removeEventListener("abort", onAbort));
+}
@@ -0,0 +1,120 @@
+/**
+ * Minimal gzipped tar (ustar) reading and writing for session archives
+ */
+import { gunzipSync, gzipSync } from "zlib";
+
+export type TarEntry = {
+  /** Relative path with forward slashes */
+  name: string;
+  data: Uint8Array;
+};
+
+const BLOCK_SIZE = 512;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function writeString(block: Uint8Array, offset: number, length: number, value: string) {
+  block.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number) {
+  writeString(block, offset, length, `${value.toString(8).padStart(length - 1, "0")}\0`);
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+// Paths up to 255 bytes fit by splitting them across the prefix and name fields
+function splitName(name: string): [string, string] {
+  if (encoder.encode(name).length <= 100) {
+    return ["", name];
+  }
+  const slash = name.lastIndexOf("/", 155);
+  if (slash <= 0 || encoder.encode(name.slice(slash + 1)).length > 100) {
+    throw new Error(`Path too long for a tar archive: ${name}`);
+  }
+  return [name.slice(0, slash), name.slice(slash + 1)];
+}
+
+function header(entry: TarEntry, mtime: number): Uint8Array {
+  const block = new Uint8Array(BLOCK_SIZE);
+  const [prefix, name] = splitName(entry.name);
+  writeString(block, 0, 100, name);
+  writeOctal(block, 100, 8, 0o644);
+  writeOctal(block, 108, 8, 0);
+  writeOctal(block, 116, 8, 0);
+  writeOctal(block, 124, 12, entry.data.length);
+  writeOctal(block, 136, 12, mtime);
+  writeString(block, 148, 8, "        ");
+  writeString(block, 156, 1, "0");
+  writeString(block, 257, 6, "ustar\0");
+  writeString(block, 263, 2, "00");
+  writeString(block, 345, 155, prefix);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeString(block, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+  return block;
+}
+
+/**
+ * Pack files into a gzipped tar archive.
+ */
+export function packTarGz(entries: TarEntry[], mtime = new Date()): Uint8Array<ArrayBuffer> {
+  const seconds = Math.floor(mtime.getTime() / 1000);
+  const chunks: Uint8Array[] = [];
+  for (const entry of entries) {
+    chunks.push(header(entry, seconds), entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    chunks.push(new Uint8Array(padding));
+  }
+  chunks.push(new Uint8Array(BLOCK_SIZE * 2));
+
+  const tar = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    tar.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new Uint8Array(gzipSync(tar));
+}
+
+/**
+ * Regular files in a gzipped tar archive. Directories, links and other entry types are skipped,
+ * and paths that would land outside the extraction directory are rejected.
+ */
+export function unpackTarGz(archive: Uint8Array): TarEntry[] {
+  let tar: Uint8Array;
+  try {
+    tar = gunzipSync(archive);
+  } catch {
+    throw new Error("Not a gzip-compressed archive");
+  }
+  const entries: TarEntry[] = [];
+  for (let offset = 0; offset + BLOCK_SIZE <= tar.length; ) {
+    const block = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (block.every((byte) => byte === 0)) {
+      break;
+    }
+    if (readString(block, 257, 5) !== "ustar") {
+      throw new Error("Not a tar archive");
+    }
+    const size = Number.parseInt(readString(block, 124, 12).trim() || "0", 8);
+    const type = readString(block, 156, 1);
+    const prefix = readString(block, 345, 155);
+    const name = prefix ? `${prefix}/${readString(block, 0, 100)}` : readString(block, 0, 100);
+    const dataStart = offset + BLOCK_SIZE;
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type !== "0" && type !== "") {
+      continue;
+    }
+    const parts = name.replace(/^\.\//, "").split("/");
+    if (name.startsWith("/") || parts.some((part) => part === ".." || part === "")) {
+      throw new Error(`Unsafe path in archive: ${name}`);
+    }
+    entries.push({ name: parts.join("/"), data: tar.slice(dataStart, dataStart + size) });
+  }
+  return entries;
+}
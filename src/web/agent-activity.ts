@@ -0,0 +1,49 @@
+export type AgentActivityEvent = {
+  agent: string;
+  kind: "tool" | "message" | "reasoning";
+  summary: string;
+  timestamp: string;
+};
+
+export type AgentActivityFeed = Record<string, AgentActivityEvent[]>;
+
+const FEED_LIMIT = 20;
+
+/**
+ * Add an event to its agent's feed, keeping the most recent events last.
+ */
+export function appendAgentActivity(
+  feed: AgentActivityFeed,
+  event: AgentActivityEvent,
+  limit = FEED_LIMIT,
+): AgentActivityFeed {
+  return { ...feed, [event.agent]: [...(feed[event.agent] ?? []), event].slice(-limit) };
+}
+
+export function openAgentActivityStream(
+  projectId: string,
+  sessionId: string,
+  token: string,
+  onSnapshot: (feed: AgentActivityFeed) => void,
+  onActivity: (event: AgentActivityEvent) => void,
+): EventSource {
+  const source = new EventSource(
+    `/api/projects/${projectId}/activity/${sessionId}?t=${encodeURIComponent(token)}`,
+  );
+  source.addEventListener("agent_activity_snapshot", (event) => {
+    try {
+      const payload = JSON.parse((event as MessageEvent).data) as { agents: AgentActivityFeed };
+      onSnapshot(payload.agents ?? {});
+    } catch {
+      // ignore malformed payloads
+    }
+  });
+  source.addEventListener("agent_activity", (event) => {
+    try {
+      onActivity(JSON.parse((event as MessageEvent).data) as AgentActivityEvent);
+    } catch {
+      // ignore malformed payloads
+    }
+  });
+  return source;
+}
@@ -1,9 +1,18 @@
 import { LitElement, html } from "lit";
 import * as Diff from "diff";
+import {
+  type AgentActivityEvent,
+  type AgentActivityFeed,
+  appendAgentActivity,
+  openAgentActivityStream,
+} from "./agent-activity.js";
 import { PlanEditor } from "./plan-editor.js";
 import { buildLineDiff, type LineChange } from "./diff-render.js";
 import { type ActivityEvent, formatActionLabel, openActivityStream } from "./notifications.js";
 import { parseMarkdown, serializeMarkdown } from "./prosemirror-schema.js";
+import { type PlanReferences, referenceTooltips } from "./references.js";
+import type { TaskGraphData } from "./task-graph.js";
+import { type UsageSummary, formatUsageLabel, formatUsageTooltip } from "./usage-format.js";
 
 function formatPhase(phase: string): string {
   return phase.replace(/_/g, " ");
@@ -14,6 +23,9 @@ function normalizeMarkdown(content: string): string {
 }
 
 type AgentStatusMap = Record<string, string>;
+type AgentAttemptMap = Record<string, number>;
+
+const RUNNING_PHASES = new Set(["drafting", "peer_review", "synthesizing"]);
 type DiffDisplayLine = LineChange | { type: "collapsed"; count: number };
 
 function getAgentStatusInfo(status: string): { icon: string; label: string; className: string } {
@@ -28,12 +40,21 @@ function getAgentStatusInfo(status: string): { icon: string; label: string; clas
       return { icon: "✓", label: "Done - Agent completed successfully", className: "agent-done" };
     case "error":
       return { icon: "✗", label: "Error - Agent encountered a problem", className: "agent-error" };
+    case "timed_out":
+      return {
+        icon: "⏱",
+        label: "Timed out - Agent was stopped after its time limit",
+        className: "agent-timeout",
+      };
     default:
       return { icon: "○", label: "Idle - Agent is waiting", className: "agent-idle" };
   }
 }
 
-function renderAgentStatusNodes(agents: AgentStatusMap | undefined): DocumentFragment {
+function renderAgentStatusNodes(
+  agents: AgentStatusMap | undefined,
+  attempts: AgentAttemptMap = {},
+): DocumentFragment {
   const fragment = document.createDocumentFragment();
   if (!agents || Object.keys(agents).length === 0) {
     return fragment;
@@ -47,8 +68,9 @@ function renderAgentStatusNodes(agents: AgentStatusMap | undefined): DocumentFra
     const info = getAgentStatusInfo(status);
     const span = document.createElement("span");
     span.className = `agent-status-item ${info.className}`;
-    span.title = info.label;
-    span.textContent = `${info.icon} ${id}`;
+    const attempt = attempts[id] ?? 1;
+    span.title = attempt > 1 ? `${info.label} (attempt ${attempt})` : info.label;
+    span.textContent = attempt > 1 ? `${info.icon} ${id} ↻${attempt}` : `${info.icon} ${id}`;
     fragment.append(span);
   }
   return fragment;
@@ -106,9 +128,15 @@ class Pl4nEditor extends LitElement {
   private compareTurnsLoading = false;
   private activity: ActivityEvent[] = [];
   private eventSource: EventSource | null = null;
+  private agentStream: EventSource | null = null;
+  private agentFeed: AgentActivityFeed = {};
   private agents: AgentStatusMap = {};
+  private attempts: AgentAttemptMap = {};
+  private usage: UsageSummary | undefined;
   private archived = false;
   private archiving = false;
+  private aborting = false;
+  private rollingBack = false;
 
   createRenderRoot() {
     return this;
@@ -142,6 +170,7 @@ class Pl4nEditor extends LitElement {
     this.editor?.destroy();
     this.eventSource?.close();
     this.eventSource = null;
+    this.closeAgentStream();
   }
 
   firstUpdated() {
@@ -190,7 +219,7 @@ class Pl4nEditor extends LitElement {
     const el = document.getElementById("agent-status");
     if (el) {
       el.textContent = "";
-      el.append(renderAgentStatusNodes(this.agents));
+      el.append(renderAgentStatusNodes(this.agents, this.attempts));
     }
   }
 
@@ -326,6 +355,10 @@ class Pl4nEditor extends LitElement {
         autosave: string | null;
         snapshot: string | null;
         agents?: AgentStatusMap;
+        attempts?: AgentAttemptMap;
+        usage?: UsageSummary;
+        references?: PlanReferences | null;
+        graph?: TaskGraphData;
       };
       this.mtime = data.mtime;
       this.turn = data.turn;
@@ -343,8 +376,11 @@ class Pl4nEditor extends LitElement {
       this.showAutosaveBanner = autosaveDiffers;
       this.autosaveContent = autosaveDiffers ? normalizedAutosave : null;
       this.agents = data.agents ?? {};
+      this.attempts = data.attempts ?? {};
+      this.usage = data.usage;
       this.updateAgentStatusDisplay();
       this.updateArchivedIndicator();
+      this.updateUsageDisplay();
 
       if (this.editor) {
         this.suppressChange = true;
@@ -352,8 +388,14 @@ class Pl4nEditor extends LitElement {
         this.editor.setBaseline(normalizedContent);
         this.editor.setValue(normalizedContent, { addToHistory: false });
         this.editor.setReadOnly(data.readOnly);
+        this.editor.setReferenceIssues(referenceTooltips(data.references));
+        this.editor.setTaskGraph(data.graph ?? null);
         this.suppressChange = false;
       }
+      // A turn started from the CLI is already running when the page opens
+      if (RUNNING_PHASES.has(data.phase)) {
+        this.pollStatus();
+      }
 
       this.dirty = false;
       this.statusMessage = data.readOnly ? "Read-only" : "Ready";
@@ -465,8 +507,14 @@ Try editing this text to see the diff highlighting in action!`;
         this.statusMessage = "Plan locked.";
         this.readOnly = true;
       } else if (response.ok) {
-        const payload = (await response.json()) as { mtime: number };
+        const payload = (await response.json()) as {
+          mtime: number;
+          references?: PlanReferences | null;
+          graph?: TaskGraphData;
+        };
         this.mtime = payload.mtime;
+        this.editor.setReferenceIssues(referenceTooltips(payload.references));
+        this.editor.setTaskGraph(payload.graph ?? null);
         this.dirty = false;
         this.showAutosaveBanner = false;
         this.autosaveContent = null;
@@ -625,6 +673,58 @@ Try editing this text to see the diff highlighting in action!`;
     }
   }
 
+  private async rollback() {
+    if (this.rollingBack || this.turn < 2) {
+      return;
+    }
+    const answer = window.prompt(
+      `Roll back to which turn (1-${this.turn - 1})?\n\nLater turns, including unsaved edits to this one, are archived under turns/.discarded/.`,
+      String(this.turn - 1),
+    );
+    if (answer === null) {
+      return;
+    }
+    const turn = Number(answer);
+    if (!Number.isInteger(turn) || turn < 1 || turn >= this.turn) {
+      this.statusMessage = `Rollback failed: pick a turn between 1 and ${this.turn - 1}`;
+      this.requestUpdate();
+      return;
+    }
+    this.rollingBack = true;
+    this.statusMessage = `Rolling back to turn ${turn}...`;
+    this.requestUpdate();
+    try {
+      const response = await fetch(
+        `/api/projects/${this.projectId}/rollback/${this.session}?t=${this.token}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ turn }),
+        },
+      );
+      if (response.status === 423) {
+        this.statusMessage = "Plan locked.";
+        this.readOnly = true;
+        return;
+      }
+      if (!response.ok) {
+        this.statusMessage = `Rollback failed (${response.status})`;
+        return;
+      }
+      if (this.autosaveTimer !== null) {
+        window.clearTimeout(this.autosaveTimer);
+        this.autosaveTimer = null;
+      }
+      await this.loadContent();
+      this.statusMessage = `Rolled back to turn ${turn}`;
+    } catch {
+      this.statusMessage = "Rollback failed";
+    } finally {
+      this.rollingBack = false;
+      this.requestUpdate();
+    }
+  }
+
   private async toggleArchive() {
     if (this.archiving) {
       return;
@@ -662,6 +762,7 @@ Try editing this text to see the diff highlighting in action!`;
     if (this.pollTimer !== null) {
       return;
     }
+    this.openAgentStream();
     this.pollTimer = window.setInterval(async () => {
       try {
         const response = await fetch(
@@ -674,19 +775,27 @@ Try editing this text to see the diff highlighting in action!`;
           turn: number;
           phase: string;
           agents?: AgentStatusMap;
+          attempts?: AgentAttemptMap;
+          usage?: UsageSummary;
         };
         this.agents = data.agents ?? {};
+        this.attempts = data.attempts ?? {};
+        this.usage = data.usage;
         this.updateAgentStatusDisplay();
+        this.updateUsageDisplay();
         if (data.phase === "user_review" && data.turn !== this.turn) {
-          if (this.pollTimer !== null) {
-            window.clearInterval(this.pollTimer);
-            this.pollTimer = null;
-          }
+          this.stopPolling();
           this.continuing = false;
           this.turn = data.turn;
           this.phase = data.phase;
           this.statusMessage = "New turn ready";
           await this.loadContent();
+        } else if (data.phase === "error") {
+          this.stopPolling();
+          this.continuing = false;
+          this.phase = data.phase;
+          this.statusMessage = "Turn failed. Run pl4n resume to retry.";
+          this.requestUpdate();
         } else {
           this.statusMessage = `Working (${formatPhase(data.phase)})`;
           this.requestUpdate();
@@ -697,6 +806,81 @@ Try editing this text to see the diff highlighting in action!`;
     }, 2500);
   }
 
+  private stopPolling() {
+    if (this.pollTimer !== null) {
+      window.clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.closeAgentStream();
+  }
+
+  private openAgentStream() {
+    if (this.agentStream || !this.token || typeof EventSource === "undefined") {
+      return;
+    }
+    this.agentFeed = {};
+    this.agentStream = openAgentActivityStream(
+      this.projectId,
+      this.session,
+      this.token,
+      (feed) => {
+        this.agentFeed = feed;
+        this.requestUpdate();
+      },
+      (event) => {
+        this.agentFeed = appendAgentActivity(this.agentFeed, event);
+        this.requestUpdate();
+      },
+    );
+  }
+
+  private closeAgentStream() {
+    this.agentStream?.close();
+    this.agentStream = null;
+  }
+
+  private async abortRun() {
+    if (this.aborting) {
+      return;
+    }
+    const confirmed = window.confirm(
+      "Stop the running agents?\n\nThe turn can be picked up again later with pl4n resume.",
+    );
+    if (!confirmed) {
+      return;
+    }
+    this.aborting = true;
+    this.statusMessage = "Stopping agents...";
+    this.requestUpdate();
+    try {
+      const response = await fetch(
+        `/api/projects/${this.projectId}/abort/${this.session}?t=${this.token}`,
+        { method: "POST" },
+      );
+      if (!response.ok) {
+        this.statusMessage = `Abort failed (${response.status})`;
+        return;
+      }
+      const data = (await response.json()) as {
+        phase: string;
+        agents?: AgentStatusMap;
+        attempts?: AgentAttemptMap;
+      };
+      this.stopPolling();
+      this.continuing = false;
+      this.phase = data.phase;
+      this.agents = data.agents ?? {};
+      this.attempts = data.attempts ?? {};
+      this.updateAgentStatusDisplay();
+      this.statusMessage = "Turn aborted";
+    } catch {
+      this.statusMessage = "Abort failed";
+    } finally {
+      this.aborting = false;
+      this.requestUpdate();
+    }
+  }
+
   private updateUndoRedoState() {
     if (this.editor) {
       this.canUndo = this.editor.canUndo();
@@ -1197,12 +1381,15 @@ Try editing this text to see the diff highlighting in action!`;
             <div class="header-meta">Turn ${this.turn} - ${formatPhase(this.phase)}</div>
           </div>
           <div class="header-actions">
+            ${this.renderAbortButton()}
+            ${this.renderDownloadLink()}
             ${this.renderArchiveToggle()}
             ${this.archived ? html`<span class="badge archived">Archived</span>` : html``}
             ${approved ? html`<span class="badge approved">Approved</span>` : html``}
           </div>
         </div>
         ${this.renderActivityBar()}
+        ${this.renderAgentFeed()}
 
         ${
           this.showAutosaveBanner
@@ -1254,6 +1441,14 @@ Try editing this text to see the diff highlighting in action!`;
                       >
                         Compare Turns
                       </button>
+                      <button
+                        class="button secondary"
+                        ?disabled=${this.turn < 2 || this.continuing || this.rollingBack}
+                        title=${this.turn < 2 ? "No earlier turn" : "Make an earlier turn current again"}
+                        @click=${() => this.rollback()}
+                      >
+                        Roll Back
+                      </button>
                       <button class="button" ?disabled=${this.saving || !this.dirty || this.continuing} @click=${() => this.save()}>
                         Save
                       </button>
@@ -1309,6 +1504,42 @@ Try editing this text to see the diff highlighting in action!`;
     archivedEl.classList.toggle("status-archived", this.archived);
   }
 
+  private updateUsageDisplay() {
+    const usageEl = document.getElementById("info-usage");
+    if (!usageEl) {
+      return;
+    }
+    usageEl.textContent = formatUsageLabel(this.usage);
+    usageEl.title = formatUsageTooltip(this.usage);
+  }
+
+  private renderAbortButton() {
+    if (!this.continuing && !RUNNING_PHASES.has(this.phase)) {
+      return null;
+    }
+    return html`
+      <button class="button secondary" ?disabled=${this.aborting} @click=${() => this.abortRun()}>
+        ${this.aborting ? "Stopping..." : "Abort"}
+      </button>
+    `;
+  }
+
+  // Same archive as pl4n export --format archive, for pl4n import on another machine
+  private renderDownloadLink() {
+    if (this.continuing || RUNNING_PHASES.has(this.phase)) {
+      return null;
+    }
+    return html`
+      <a
+        class="button secondary"
+        href=${`/api/projects/${this.projectId}/download/${this.session}?t=${this.token}`}
+        download=${`${this.session}.tar.gz`}
+      >
+        Download
+      </a>
+    `;
+  }
+
   private renderArchiveToggle() {
     return html`
       <button class="button secondary" ?disabled=${this.archiving} @click=${() => this.toggleArchive()}>
@@ -1344,6 +1575,31 @@ Try editing this text to see the diff highlighting in action!`;
       </div>
     `;
   }
+
+  private renderAgentFeed() {
+    const agents = Object.entries(this.agentFeed);
+    if (!this.agentStream || agents.length === 0) {
+      return null;
+    }
+    return html`
+      <div class="tui-agent-feed">
+        ${agents.map(
+          ([agent, events]) => html`
+            <div class="tui-agent-feed-agent">
+              <div class="tui-activity-title">${agent}</div>
+              ${events.slice(-3).map(
+                (event: AgentActivityEvent) => html`
+                  <div class="tui-agent-feed-item ${event.kind}" title=${event.summary}>
+                    ${event.summary}
+                  </div>
+                `,
+              )}
+            </div>
+          `,
+        )}
+      </div>
+    `;
+  }
 }
 
 customElements.define("pl4n-editor", Pl4nEditor);
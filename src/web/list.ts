@@ -5,6 +5,7 @@ import {
   getTokenFromLocation,
   openActivityStream,
 } from "./notifications.js";
+import { renderTaskProgress, type TaskProgressSummary } from "./task-progress.js";
 
 type SessionItem = {
   session_id: string;
@@ -14,6 +15,11 @@ type SessionItem = {
   archived: boolean;
   updated_at: string;
   edit_path: string | null;
+  /** Task counts once the plan is approved */
+  progress?: TaskProgressSummary;
+  /** Session and turn this one was forked from */
+  parent_session?: string;
+  parent_turn?: number;
 };
 
 type ListPayload = {
@@ -79,6 +85,23 @@ function truncateTask(task: string): string {
   return first.length > 200 ? first.slice(0, 200) + "…" : first;
 }
 
+// Forks this session descends from, nearest first; stops at parents that are not listed
+function forkLineage(
+  session: SessionItem,
+  sessions: SessionItem[],
+): { session_id: string; turn?: number }[] {
+  const byId = new Map(sessions.map((entry) => [entry.session_id, entry]));
+  const lineage: { session_id: string; turn?: number }[] = [];
+  const seen = new Set([session.session_id]);
+  let current: SessionItem | undefined = session;
+  while (current?.parent_session && !seen.has(current.parent_session)) {
+    lineage.push({ session_id: current.parent_session, turn: current.parent_turn });
+    seen.add(current.parent_session);
+    current = byId.get(current.parent_session);
+  }
+  return lineage;
+}
+
 function parseFilterFromLocation(): ListFilter {
   const url = new URL(window.location.href);
   const value = url.searchParams.get("archived");
@@ -269,6 +292,8 @@ class Pl4nList extends LitElement {
                       </span>
                     </div>
                     <div class="tui-card-task">${truncateTask(session.task)}</div>
+                    ${this.renderLineage(session)}
+                    ${renderTaskProgress(session.progress)}
                     <div class="tui-card-meta">
                       <span class="tui-card-meta-left">
                         <span>Turn ${session.turn}</span>
@@ -464,6 +489,23 @@ class Pl4nList extends LitElement {
     `;
   }
 
+  private renderLineage(session: SessionItem) {
+    const lineage = forkLineage(session, this.sessionsData);
+    if (lineage.length === 0) {
+      return null;
+    }
+    return html`
+      <div class="tui-card-lineage" title="Forked sessions, nearest first">
+        ⑂ forked from
+        ${lineage.map(
+          (parent, index) => html`${index > 0 ? " ← " : ""}<span class="tui-card-lineage-session"
+              >${parent.session_id}</span
+            >${parent.turn !== undefined ? ` @ turn ${parent.turn}` : ""}`,
+        )}
+      </div>
+    `;
+  }
+
   private renderActivityBar() {
     if (this.activity.length === 0) {
       return null;
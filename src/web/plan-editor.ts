@@ -19,6 +19,8 @@ import { splitListItem, liftListItem, sinkListItem } from "prosemirror-schema-li
 import { Node, Mark, ResolvedPos } from "prosemirror-model";
 import * as Diff from "diff";
 import { parseMarkdown, serializeMarkdown, schema } from "./prosemirror-schema.js";
+import { findReferenceSpans } from "./references.js";
+import { renderTaskGraphPanel, type TaskGraphData } from "./task-graph.js";
 
 export interface PlanEditorOptions {
   /** Initial markdown content */
@@ -40,6 +42,12 @@ type SectionFoldState = {
 
 const sectionFoldKey = new PluginKey<SectionFoldState>("section-fold");
 
+// Reference -> tooltip for file and symbol references that failed verification
+const referenceKey = new PluginKey<Record<string, string>>("references");
+
+// Task dependency graph shown under the ## Tasks heading
+const taskGraphKey = new PluginKey<TaskGraphData | null>("task-graph");
+
 // Extract plain text with position mapping from a doc
 function extractTextWithPositions(doc: Node): { text: string; positions: number[] } {
   const text: string[] = [];
@@ -340,6 +348,84 @@ function sectionFoldPlugin(): Plugin<SectionFoldState> {
   });
 }
 
+function referencePlugin(): Plugin<Record<string, string>> {
+  return new Plugin({
+    key: referenceKey,
+    state: {
+      init: () => ({}),
+      apply(tr, value) {
+        return (tr.getMeta(referenceKey) as Record<string, string> | undefined) ?? value;
+      },
+    },
+    props: {
+      decorations(state) {
+        const tooltips = referenceKey.getState(state);
+        if (!tooltips || Object.keys(tooltips).length === 0) {
+          return null;
+        }
+        const decorations: Decoration[] = [];
+        state.doc.descendants((node, pos) => {
+          if (node.isText && node.text) {
+            for (const span of findReferenceSpans(node.text, tooltips)) {
+              decorations.push(
+                Decoration.inline(pos + span.from, pos + span.to, {
+                  class: "pm-bad-reference",
+                  title: tooltips[span.reference],
+                }),
+              );
+            }
+          }
+          return true;
+        });
+        return DecorationSet.create(state.doc, decorations);
+      },
+    },
+  });
+}
+
+function taskGraphPlugin(onSelect: (taskId: number) => void): Plugin<TaskGraphData | null> {
+  return new Plugin({
+    key: taskGraphKey,
+    state: {
+      init: (): TaskGraphData | null => null,
+      apply(tr, value) {
+        const next = tr.getMeta(taskGraphKey) as TaskGraphData | null | undefined;
+        return next === undefined ? value : next;
+      },
+    },
+    props: {
+      decorations(state) {
+        const graph = taskGraphKey.getState(state);
+        if (!graph || graph.nodes.length === 0) {
+          return null;
+        }
+        let widgetPos: number | null = null;
+        state.doc.forEach((node, offset) => {
+          if (
+            widgetPos === null &&
+            node.type.name === "heading" &&
+            Number(node.attrs.level) === 2 &&
+            /^tasks\b/i.test(node.textContent.trim())
+          ) {
+            widgetPos = offset + node.nodeSize;
+          }
+        });
+        if (widgetPos === null) {
+          return null;
+        }
+        return DecorationSet.create(state.doc, [
+          Decoration.widget(widgetPos, () => renderTaskGraphPanel(graph, onSelect), {
+            key: `task-graph-${JSON.stringify(graph)}`,
+            side: -1,
+            ignoreSelection: true,
+            stopEvent: () => true,
+          }),
+        ]);
+      },
+    },
+  });
+}
+
 type ActiveHeading = {
   pos: number;
   node: Node;
@@ -1370,6 +1456,8 @@ export class PlanEditor {
         diffPlugin(),
         sectionFoldPlugin(),
         inlineMarkEditPlugin(),
+        referencePlugin(),
+        taskGraphPlugin((taskId) => this.focusTask(taskId)),
       ],
     });
 
@@ -1463,6 +1551,44 @@ export class PlanEditor {
     this.scheduleLineNumberUpdate();
   }
 
+  /** Highlight file and symbol references that failed verification (reference -> tooltip) */
+  setReferenceIssues(tooltips: Record<string, string>): void {
+    this.view.dispatch(
+      this.view.state.tr.setMeta(referenceKey, tooltips).setMeta("addToHistory", false),
+    );
+  }
+
+  /** Show the task dependency graph under the ## Tasks heading (null hides it) */
+  setTaskGraph(graph: TaskGraphData | null): void {
+    this.view.dispatch(
+      this.view.state.tr.setMeta(taskGraphKey, graph).setMeta("addToHistory", false),
+    );
+  }
+
+  /** Move the cursor to a task's list item and scroll it into view */
+  focusTask(taskId: number): void {
+    const pattern = new RegExp(`^(?:\\[[ xX]\\]\\s*)?Task ${taskId}\\b`);
+    let target: number | null = null;
+    this.view.state.doc.descendants((node, pos) => {
+      if (target !== null) {
+        return false;
+      }
+      if (node.type.name === "paragraph" && pattern.test(node.textContent.trim())) {
+        target = pos + 1;
+        return false;
+      }
+      return true;
+    });
+    if (target === null) {
+      return;
+    }
+    const { state } = this.view;
+    this.view.dispatch(
+      state.tr.setSelection(TextSelection.create(state.doc, target)).scrollIntoView(),
+    );
+    this.view.focus();
+  }
+
   /** Set read-only state */
   setReadOnly(readOnly: boolean): void {
     this.options.readOnly = readOnly;
@@ -5,6 +5,7 @@ import {
   getTokenFromLocation,
   openActivityStream,
 } from "./notifications.js";
+import { renderTaskProgress, type TaskProgressSummary } from "./task-progress.js";
 
 function formatRelativeTime(dateStr: string | null | undefined): string {
   if (!dateStr) return "No activity";
@@ -31,6 +32,8 @@ type ProjectItem = {
   path: string;
   session_count?: number;
   updated_at?: string | null;
+  /** Task counts summed over the project's approved sessions */
+  progress?: TaskProgressSummary;
 };
 
 type ProjectsPayload = {
@@ -133,6 +136,7 @@ class Pl4nProjects extends LitElement {
                       <span class="tui-card-title">${project.name}</span>
                       <span class=${badgeClass}>${sessionCount}</span>
                     </div>
+                    ${renderTaskProgress(project.progress)}
                     <div class="tui-card-meta">
                       <span class="tui-card-meta-left">
                         <span>${sessionCount} ${sessionLabel}</span>
@@ -0,0 +1,52 @@
+export type PlanReferenceFinding = {
+  reference: string;
+  kind: "file" | "symbol";
+  problem: string;
+  task?: number;
+  message: string;
+};
+
+export type PlanReferences = {
+  files_checked: number;
+  symbols_checked: number;
+  findings: PlanReferenceFinding[];
+};
+
+export type ReferenceSpan = {
+  /** Offset of the opening backtick */
+  from: number;
+  /** Offset just past the closing backtick */
+  to: number;
+  reference: string;
+};
+
+/**
+ * Reference -> tooltip listing every problem found with it.
+ */
+export function referenceTooltips(
+  references: PlanReferences | null | undefined,
+): Record<string, string> {
+  const tooltips: Record<string, string> = {};
+  for (const finding of references?.findings ?? []) {
+    tooltips[finding.reference] = tooltips[finding.reference]
+      ? `${tooltips[finding.reference]}\n${finding.message}`
+      : finding.message;
+  }
+  return tooltips;
+}
+
+/**
+ * Inline code spans in a line of text that quote a flagged reference.
+ */
+export function findReferenceSpans(
+  text: string,
+  tooltips: Record<string, string>,
+): ReferenceSpan[] {
+  const spans: ReferenceSpan[] = [];
+  for (const match of text.matchAll(/`([^`]+)`/g)) {
+    if (Object.hasOwn(tooltips, match[1])) {
+      spans.push({ from: match.index, to: match.index + match[0].length, reference: match[1] });
+    }
+  }
+  return spans;
+}
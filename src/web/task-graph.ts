@@ -0,0 +1,263 @@
+export type TaskGraphNode = {
+  id: number;
+  description: string;
+  done: boolean;
+  dependencies: number[];
+};
+
+export type TaskGraphData = {
+  valid: boolean;
+  nodes: TaskGraphNode[];
+  edges: { from: number; to: number }[];
+  order: number[];
+  cycles: number[][];
+  dangling: { task: number; dependency: number }[];
+  unreachable: number[];
+};
+
+export type TaskGraphNodeStatus = "done" | "todo" | "cycle" | "blocked";
+
+export type PositionedTask = TaskGraphNode & {
+  /** Longest chain of dependencies below the task; cycles are cut where they close */
+  layer: number;
+  row: number;
+  x: number;
+  y: number;
+  status: TaskGraphNodeStatus;
+};
+
+export type TaskGraphLayout = {
+  nodes: PositionedTask[];
+  width: number;
+  height: number;
+};
+
+export const TASK_NODE_WIDTH = 180;
+export const TASK_NODE_HEIGHT = 44;
+const GAP_X = 48;
+const GAP_Y = 16;
+const PADDING = 8;
+const SVG_NS = "http://www.w3.org/2000/svg";
+const DESCRIPTION_LIMIT = 24;
+
+function nodeStatus(node: TaskGraphNode, graph: TaskGraphData): TaskGraphNodeStatus {
+  if (graph.cycles.some((cycle) => cycle.includes(node.id))) {
+    return "cycle";
+  }
+  if (
+    graph.unreachable.includes(node.id) ||
+    graph.dangling.some((entry) => entry.task === node.id)
+  ) {
+    return "blocked";
+  }
+  return node.done ? "done" : "todo";
+}
+
+/**
+ * Place tasks left to right by dependency depth, one column per layer and ordered by id within it.
+ */
+export function layoutTaskGraph(graph: TaskGraphData): TaskGraphLayout {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const layers = new Map<number, number>();
+  const visiting = new Set<number>();
+
+  const layerOf = (id: number): number => {
+    const known = layers.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+    visiting.add(id);
+    let layer = 0;
+    for (const dependency of byId.get(id)?.dependencies ?? []) {
+      if (byId.has(dependency) && !visiting.has(dependency)) {
+        layer = Math.max(layer, layerOf(dependency) + 1);
+      }
+    }
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  const rows = new Map<number, number>();
+  const nodes = [...graph.nodes]
+    .sort((a, b) => a.id - b.id)
+    .map((node) => {
+      const layer = layerOf(node.id);
+      const row = rows.get(layer) ?? 0;
+      rows.set(layer, row + 1);
+      return {
+        ...node,
+        layer,
+        row,
+        x: PADDING + layer * (TASK_NODE_WIDTH + GAP_X),
+        y: PADDING + row * (TASK_NODE_HEIGHT + GAP_Y),
+        status: nodeStatus(node, graph),
+      };
+    });
+
+  const columns = Math.max(0, ...nodes.map((node) => node.layer + 1));
+  const height = Math.max(0, ...rows.values());
+  return {
+    nodes,
+    width: PADDING * 2 + columns * TASK_NODE_WIDTH + Math.max(0, columns - 1) * GAP_X,
+    height: PADDING * 2 + height * TASK_NODE_HEIGHT + Math.max(0, height - 1) * GAP_Y,
+  };
+}
+
+/**
+ * One-line problems with the graph, worded for the panel header.
+ */
+export function describeTaskGraphProblems(graph: TaskGraphData): string[] {
+  return [
+    ...graph.cycles.map((cycle) =>
+      cycle.length === 1
+        ? `Task ${cycle[0]} depends on itself`
+        : `Cycle: ${cycle.map((id) => `Task ${id}`).join(" → ")}`,
+    ),
+    ...graph.dangling.map(
+      (entry) => `Task ${entry.task} depends on missing Task ${entry.dependency}`,
+    ),
+    ...(graph.unreachable.length > 0
+      ? [`Blocked: ${graph.unreachable.map((id) => `Task ${id}`).join(", ")}`]
+      : []),
+  ];
+}
+
+function svgElement<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string | number>,
+): SVGElementTagNameMap[K] {
+  const element = document.createElementNS(SVG_NS, tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, String(value));
+  }
+  return element;
+}
+
+function truncate(text: string): string {
+  return text.length > DESCRIPTION_LIMIT ? `${text.slice(0, DESCRIPTION_LIMIT - 1)}…` : text;
+}
+
+/**
+ * Collapsible panel with the execution order, any problems and an SVG of the graph. Hovering a
+ * task highlights its dependencies and dependents; clicking it calls onSelect.
+ */
+export function renderTaskGraphPanel(
+  graph: TaskGraphData,
+  onSelect: (taskId: number) => void,
+): HTMLElement {
+  const panel = document.createElement("details");
+  panel.className = "task-graph-panel";
+  panel.open = true;
+  panel.contentEditable = "false";
+
+  const summary = document.createElement("summary");
+  summary.textContent =
+    graph.order.length > 0
+      ? `Task graph · order ${graph.order.join(" → ")}`
+      : "Task graph · no task can start";
+  panel.appendChild(summary);
+
+  for (const problem of describeTaskGraphProblems(graph)) {
+    const line = document.createElement("div");
+    line.className = "task-graph-problem";
+    line.textContent = problem;
+    panel.appendChild(line);
+  }
+
+  const layout = layoutTaskGraph(graph);
+  const positions = new Map(layout.nodes.map((node) => [node.id, node]));
+  const svg = svgElement("svg", {
+    class: "task-graph",
+    width: layout.width,
+    height: layout.height,
+    viewBox: `0 0 ${layout.width} ${layout.height}`,
+  });
+  const marker = svgElement("marker", {
+    id: "task-graph-arrow",
+    viewBox: "0 0 10 10",
+    refX: 10,
+    refY: 5,
+    markerWidth: 6,
+    markerHeight: 6,
+    orient: "auto-start-reverse",
+  });
+  marker.appendChild(svgElement("path", { d: "M 0 0 L 10 5 L 0 10 z" }));
+  const defs = svgElement("defs", {});
+  defs.appendChild(marker);
+  svg.appendChild(defs);
+
+  const edgeElements: { from: number; to: number; element: SVGPathElement }[] = [];
+  for (const edge of graph.edges) {
+    const from = positions.get(edge.from);
+    const to = positions.get(edge.to);
+    if (!from || !to) {
+      continue;
+    }
+    const startX = from.x + TASK_NODE_WIDTH;
+    const startY = from.y + TASK_NODE_HEIGHT / 2;
+    const endX = to.x;
+    const endY = to.y + TASK_NODE_HEIGHT / 2;
+    const bend = Math.max(24, Math.abs(endX - startX) / 2);
+    const element = svgElement("path", {
+      class: `task-graph-edge${from.status === "cycle" && to.status === "cycle" ? " cycle" : ""}`,
+      d: `M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`,
+      "marker-end": "url(#task-graph-arrow)",
+    });
+    edgeElements.push({ ...edge, element });
+    svg.appendChild(element);
+  }
+
+  const nodeElements = new Map<number, SVGGElement>();
+  const highlight = (taskId: number | null) => {
+    const related = new Set<number>();
+    for (const edge of edgeElements) {
+      const active = taskId !== null && (edge.from === taskId || edge.to === taskId);
+      edge.element.classList.toggle("related", active);
+      if (active) {
+        related.add(edge.from);
+        related.add(edge.to);
+      }
+    }
+    for (const [id, element] of nodeElements) {
+      element.classList.toggle("related", related.has(id) && id !== taskId);
+    }
+  };
+
+  for (const node of layout.nodes) {
+    const group = svgElement("g", {
+      class: `task-graph-node ${node.status}`,
+      transform: `translate(${node.x} ${node.y})`,
+      tabindex: 0,
+      role: "button",
+    });
+    const title = svgElement("title", {});
+    title.textContent = `Task ${node.id}: ${node.description}`;
+    group.appendChild(title);
+    group.appendChild(
+      svgElement("rect", { width: TASK_NODE_WIDTH, height: TASK_NODE_HEIGHT, rx: 6 }),
+    );
+    const label = svgElement("text", { x: 10, y: 18, class: "task-graph-id" });
+    label.textContent = `Task ${node.id}${node.done ? " ✓" : ""}`;
+    const description = svgElement("text", { x: 10, y: 34 });
+    description.textContent = truncate(node.description);
+    group.append(label, description);
+    group.addEventListener("mouseenter", () => highlight(node.id));
+    group.addEventListener("mouseleave", () => highlight(null));
+    group.addEventListener("click", () => onSelect(node.id));
+    group.addEventListener("keydown", (event) => {
+      if (event.key === "Enter" || event.key === " ") {
+        event.preventDefault();
+        onSelect(node.id);
+      }
+    });
+    nodeElements.set(node.id, group);
+    svg.appendChild(group);
+  }
+
+  const scroller = document.createElement("div");
+  scroller.className = "task-graph-scroll";
+  scroller.appendChild(svg);
+  panel.appendChild(scroller);
+  return panel;
+}
@@ -0,0 +1,51 @@
+import { html } from "lit";
+
+export type TaskProgressSummary = {
+  total: number;
+  done: number;
+  in_progress: number;
+  todo: number;
+};
+
+/**
+ * Short label for a progress bar, e.g. "3/5 tasks · 1 in progress".
+ */
+export function formatTaskProgress(progress: TaskProgressSummary): string {
+  const label = `${progress.done}/${progress.total} ${progress.total === 1 ? "task" : "tasks"}`;
+  return progress.in_progress > 0 ? `${label} · ${progress.in_progress} in progress` : label;
+}
+
+/**
+ * Widths of the done and in-progress segments, in whole percent.
+ */
+export function taskProgressWidths(progress: TaskProgressSummary): {
+  done: number;
+  inProgress: number;
+} {
+  if (progress.total === 0) {
+    return { done: 0, inProgress: 0 };
+  }
+  const done = Math.round((progress.done / progress.total) * 100);
+  const inProgress = Math.min(
+    100 - done,
+    Math.round((progress.in_progress / progress.total) * 100),
+  );
+  return { done, inProgress };
+}
+
+export function renderTaskProgress(progress: TaskProgressSummary | undefined) {
+  if (!progress || progress.total === 0) {
+    return null;
+  }
+  const widths = taskProgressWidths(progress);
+  const label = formatTaskProgress(progress);
+  return html`
+    <div class="tui-progress" title=${label}>
+      <span class="tui-progress-bar" role="progressbar" aria-valuenow=${widths.done} aria-valuemin="0" aria-valuemax="100">
+        <span class="tui-progress-done" style="width: ${widths.done}%"></span>
+        <span class="tui-progress-active" style="width: ${widths.inProgress}%"></span>
+      </span>
+      <span class="tui-progress-label">${label}</span>
+    </div>
+  `;
+}
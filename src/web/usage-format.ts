@@ -0,0 +1,53 @@
+export type UsageTotals = {
+  runs: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+  duration_ms: number;
+  cost_usd?: number;
+};
+
+export type UsageSummary = UsageTotals & {
+  by_agent?: Record<string, UsageTotals>;
+};
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const tokens = `${formatTokenCount(totals.input_tokens)} in / ${formatTokenCount(totals.output_tokens)} out`;
+  return totals.cost_usd === undefined ? tokens : `${tokens} · $${totals.cost_usd.toFixed(2)}`;
+}
+
+/**
+ * Short label for the info bar, e.g. "12.3k in / 4.1k out · $0.42".
+ */
+export function formatUsageLabel(usage: UsageSummary | undefined): string {
+  if (!usage || usage.runs === 0) {
+    return "—";
+  }
+  return formatTotals(usage);
+}
+
+/**
+ * One line per agent for the info bar tooltip.
+ */
+export function formatUsageTooltip(usage: UsageSummary | undefined): string {
+  if (!usage || usage.runs === 0) {
+    return "No agent runs recorded yet";
+  }
+  const lines = Object.entries(usage.by_agent ?? {}).map(
+    ([agentId, totals]) =>
+      `${agentId}: ${formatTotals(totals)} (${totals.runs} run${totals.runs === 1 ? "" : "s"})`,
+  );
+  const cached = usage.cached_tokens > 0 ? `, ${formatTokenCount(usage.cached_tokens)} cached` : "";
+  lines.push(`Total time ${Math.round(usage.duration_ms / 1000)}s${cached}`);
+  return lines.join("\n");
+}
@@ -7,7 +7,25 @@ import { describe, expect, it } from "bun:test";
 import { AgentAdapter, AgentHandle } from "../src/adapters/base";
 import { ClaudeCodeAdapter, ClaudeCodeSyncAdapter } from "../src/adapters/claude";
 import { CodexCLIAdapter, CodexCLISyncAdapter } from "../src/adapters/codex";
-import { AgentStatus } from "../src/models";
+import { CommandAdapter, buildCommand } from "../src/adapters/command";
+import { GeminiCLIAdapter, GeminiCLISyncAdapter } from "../src/adapters/gemini";
+import { createSyncAdapter } from "../src/adapters/index";
+import { MockAdapter } from "../src/adapters/mock";
+import { OpenAiHttpAdapter, resolveHistoryFile } from "../src/adapters/openai-http";
+import {
+  parseClaudeUsage,
+  parseCodexUsage,
+  parseGeminiUsage,
+  parseOpenAiUsage,
+} from "../src/adapters/usage";
+import {
+  AgentStatus,
+  type AgentConfig,
+  type AgentUsage,
+  CommandOutput,
+  RunStage,
+} from "../src/models";
+import { isProcessAlive, killOnAbort } from "../src/utils/process";
 
 async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-adapter-"));
@@ -934,6 +952,58 @@ for (const line of lines) {
     });
   });
 
+  it("Claude adapter reads the result event from stream-json output", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      const argsFile = path.join(root, "args.json");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "claude"),
+        `#!/usr/bin/env bun
+await Bun.write(${JSON.stringify(argsFile)}, JSON.stringify(process.argv.slice(2)));
+const events = [
+  { type: "system", subtype: "init", session_id: "sess-stream" },
+  { type: "assistant", message: { content: [{ type: "tool_use", name: "Read", input: { file_path: "a.ts" } }] } },
+  { type: "result", subtype: "success", session_id: "sess-stream", result: "# Streamed plan", total_cost_usd: 0.01, usage: { input_tokens: 5, output_tokens: 7 } },
+];
+for (const event of events) {
+  process.stdout.write(JSON.stringify(event) + "\\n");
+}
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new ClaudeCodeSyncAdapter({ id: "opus", type: "claude", model: "opus" });
+        const logFile = path.join(root, "claude.log");
+        const sessionFile = path.join(root, "claude-session.txt");
+        const reported: AgentUsage[] = [];
+
+        const [success, output] = await adapter.runSync({
+          worktree: root,
+          prompt: "test",
+          outputFile: path.join(root, "output.md"),
+          logFile,
+          sessionFile,
+          onUsage: (usage) => reported.push(usage),
+        });
+
+        expect(success).toBe(true);
+        expect(output).toBe("# Streamed plan");
+        expect(await fs.readFile(sessionFile, "utf8")).toBe("sess-stream");
+        expect(reported).toEqual([
+          { inputTokens: 5, outputTokens: 7, cachedTokens: 0, costUsd: 0.01 },
+        ]);
+        expect(JSON.parse(await fs.readFile(argsFile, "utf8")).slice(0, 4)).toEqual([
+          "--print",
+          "--output-format",
+          "stream-json",
+          "--verbose",
+        ]);
+        expect((await fs.readFile(logFile, "utf8")).split("\n")).toHaveLength(4);
+      });
+    });
+  });
+
   it("Claude adapter falls back to raw output on invalid JSON", async () => {
     await withTempDir(async (root) => {
       const binDir = path.join(root, "bin");
@@ -1033,6 +1103,60 @@ process.exit(1);
     });
   });
 
+  it("Claude adapter terminates the CLI when the run is aborted", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+
+      await writeExecutable(
+        path.join(binDir, "claude"),
+        `#!/usr/bin/env bun
+setInterval(() => {}, 1000);
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new ClaudeCodeSyncAdapter({ id: "opus", type: "claude", model: "opus" });
+        const pids: number[] = [];
+
+        const [success] = await adapter.runSync({
+          worktree: root,
+          prompt: "test",
+          outputFile: path.join(root, "claude-hung.md"),
+          logFile: path.join(root, "claude.log"),
+          signal: AbortSignal.timeout(200),
+          onSpawn: (pid) => pids.push(pid),
+        });
+
+        expect(success).toBe(false);
+        expect(pids).toHaveLength(1);
+        expect(isProcessAlive(pids[0])).toBe(false);
+      });
+    });
+  });
+
+  it("killOnAbort escalates to SIGKILL when SIGTERM is ignored", async () => {
+    const proc = Bun.spawn({
+      cmd: [
+        process.execPath,
+        "-e",
+        'process.on("SIGTERM", () => {}); console.log("ready"); setInterval(() => {}, 1000);',
+      ],
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const reader = proc.stdout.getReader();
+    await reader.read();
+    reader.releaseLock();
+
+    const controller = new AbortController();
+    killOnAbort(proc, controller.signal, 100);
+    controller.abort();
+
+    await proc.exited;
+    expect(proc.signalCode).toBe("SIGKILL");
+  });
+
   it("Claude adapter writes to preexisting empty output file", async () => {
     await withTempDir(async (root) => {
       const binDir = path.join(root, "bin");
@@ -1176,4 +1300,675 @@ for (const line of lines) {
       });
     });
   });
+  it("creates adapters by agent type", () => {
+    expect(createSyncAdapter({ id: "opus", type: "claude", model: "opus" })).toBeInstanceOf(
+      ClaudeCodeSyncAdapter,
+    );
+    expect(createSyncAdapter({ id: "codex", type: "codex", model: "codex" })).toBeInstanceOf(
+      CodexCLISyncAdapter,
+    );
+    expect(
+      createSyncAdapter({ id: "gemini", type: "gemini", model: "gemini-2.5-pro" }),
+    ).toBeInstanceOf(GeminiCLISyncAdapter);
+    expect(
+      createSyncAdapter({
+        id: "aider",
+        type: "command",
+        model: "sonnet",
+        command: { argv: ["aider"], output: CommandOutput.Text },
+      }),
+    ).toBeInstanceOf(CommandAdapter);
+    expect(
+      createSyncAdapter({
+        id: "local",
+        type: "openai_http",
+        model: "llama3",
+        openaiHttp: { baseUrl: "http://localhost:11434/v1" },
+      }),
+    ).toBeInstanceOf(OpenAiHttpAdapter);
+    expect(createSyncAdapter({ id: "demo", type: "mock", model: "mock" })).toBeInstanceOf(
+      MockAdapter,
+    );
+    expect(createSyncAdapter({ id: "other", type: "other", model: "x" })).toBeNull();
+  });
+
+  it("Gemini adapter builds its command, parses JSON, and resumes the session", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      const argsFile = path.join(root, "args.json");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "gemini"),
+        `#!/usr/bin/env bun
+const args = process.argv.slice(2);
+await Bun.write(${JSON.stringify(argsFile)}, JSON.stringify(args));
+const resumed = args.includes("--resume");
+process.stdout.write(JSON.stringify({
+  session_id: resumed ? "gem-2" : "gem-1",
+  response: "# Plan from Gemini",
+  stats: { models: { "gemini-2.5-pro": { tokens: { prompt: 40, candidates: 8, cached: 0 } } } },
+}));
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new GeminiCLISyncAdapter({
+          id: "gemini",
+          type: "gemini",
+          model: "gemini-2.5-pro",
+          gemini: { approvalMode: "auto_edit", sandbox: true, addDir: ["/extra"] },
+        });
+        const outputFile = path.join(root, "output.md");
+        const sessionFile = path.join(root, "session.txt");
+        const runParams = {
+          worktree: root,
+          prompt: "Plan it",
+          outputFile,
+          logFile: path.join(root, "gemini.log"),
+          sessionFile,
+        };
+
+        const reported: AgentUsage[] = [];
+        const [success, output] = await adapter.runSync({
+          ...runParams,
+          onUsage: (usage) => reported.push(usage),
+        });
+        expect(success).toBe(true);
+        expect(output).toBe("# Plan from Gemini");
+        expect(reported).toEqual([{ inputTokens: 40, outputTokens: 8, cachedTokens: 0 }]);
+        expect(await fs.readFile(outputFile, "utf8")).toBe("# Plan from Gemini");
+        expect(await fs.readFile(sessionFile, "utf8")).toBe("gem-1");
+        expect(JSON.parse(await fs.readFile(argsFile, "utf8"))).toEqual([
+          "--output-format",
+          "json",
+          "--model",
+          "gemini-2.5-pro",
+          "--approval-mode",
+          "auto_edit",
+          "--sandbox",
+          "--include-directories",
+          `${root},/extra`,
+          "--prompt",
+          "Plan it",
+        ]);
+
+        const [success2] = await adapter.runSync({ ...runParams, appendLog: true });
+        expect(success2).toBe(true);
+        const resumedArgs = JSON.parse(await fs.readFile(argsFile, "utf8")) as string[];
+        expect(resumedArgs.slice(-4)).toEqual(["--resume", "gem-1", "--prompt", "Plan it"]);
+        expect(await fs.readFile(sessionFile, "utf8")).toBe("gem-2");
+      });
+    });
+  });
+
+  it("parses token usage from each agent's output format", () => {
+    expect(
+      parseClaudeUsage({
+        total_cost_usd: 0.12,
+        usage: {
+          input_tokens: 10,
+          cache_creation_input_tokens: 200,
+          cache_read_input_tokens: 3000,
+          output_tokens: 400,
+        },
+      }),
+    ).toEqual({ inputTokens: 3210, outputTokens: 400, cachedTokens: 3000, costUsd: 0.12 });
+    expect(parseClaudeUsage({ result: "no usage" })).toBeNull();
+
+    const codexEvents = [
+      { type: "thread.started", thread_id: "t" },
+      {
+        type: "turn.completed",
+        usage: { input_tokens: 100, cached_input_tokens: 40, output_tokens: 7 },
+      },
+      { type: "turn.completed", usage: { input_tokens: 50, output_tokens: 3 } },
+    ];
+    expect(
+      parseCodexUsage(
+        `${codexEvents.map((event) => JSON.stringify(event)).join("\n")}\nnot json\n`,
+      ),
+    ).toEqual({
+      inputTokens: 150,
+      outputTokens: 10,
+      cachedTokens: 40,
+    });
+    expect(parseCodexUsage('{"type":"item.completed"}')).toBeNull();
+
+    expect(
+      parseGeminiUsage({
+        stats: {
+          models: {
+            "gemini-2.5-pro": {
+              tokens: { prompt: 900, candidates: 80, thoughts: 20, cached: 300 },
+            },
+            "gemini-2.5-flash": { tokens: { prompt: 100, candidates: 10 } },
+          },
+        },
+      }),
+    ).toEqual({ inputTokens: 1000, outputTokens: 110, cachedTokens: 300 });
+    expect(parseGeminiUsage({ stats: {} })).toBeNull();
+
+    expect(
+      parseOpenAiUsage({
+        usage: {
+          prompt_tokens: 12,
+          completion_tokens: 34,
+          prompt_tokens_details: { cached_tokens: 5 },
+        },
+      }),
+    ).toEqual({ inputTokens: 12, outputTokens: 34, cachedTokens: 5 });
+    expect(parseOpenAiUsage({ choices: [] })).toBeNull();
+  });
+
+  it("Gemini adapter prefers output when it cannot approve edits", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "gemini"),
+        `#!/usr/bin/env bun
+process.stdout.write(JSON.stringify({ response: "Fresh plan" }));
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new GeminiCLISyncAdapter({
+          id: "gemini",
+          type: "gemini",
+          model: "gemini-2.5-pro",
+          gemini: { approvalMode: "default" },
+        });
+        const outputFile = path.join(root, "output.md");
+        await fs.writeFile(outputFile, "Stale plan", "utf8");
+
+        const [success, output] = await adapter.runSync({
+          worktree: root,
+          prompt: "Plan it",
+          outputFile,
+          logFile: path.join(root, "gemini.log"),
+        });
+        expect(success).toBe(true);
+        expect(output).toBe("Fresh plan");
+        expect(await fs.readFile(outputFile, "utf8")).toBe("Fresh plan");
+      });
+    });
+  });
+
+  it("Gemini adapter returns error output on nonzero exit", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "gemini"),
+        `#!/usr/bin/env bun
+console.error("Error: quota exceeded");
+process.exit(1);
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new GeminiCLISyncAdapter({ id: "gemini", type: "gemini", model: "flash" });
+        const [success, output] = await adapter.runSync({
+          worktree: root,
+          prompt: "Plan it",
+          outputFile: path.join(root, "output.md"),
+          logFile: path.join(root, "gemini.log"),
+        });
+        expect(success).toBe(false);
+        expect(output).toContain("quota exceeded");
+        expect(adapter.getName()).toBe("Gemini CLI Sync (flash)");
+      });
+    });
+  });
+
+  it("Gemini spawn streams output to the log", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "gemini"),
+        `#!/usr/bin/env bun
+process.stdout.write(JSON.stringify({ response: "Spawned" }));
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const logFile = path.join(root, "gemini.log");
+        const handle = new GeminiCLIAdapter({
+          id: "gemini",
+          type: "gemini",
+          model: "flash",
+        }).spawn({
+          worktree: root,
+          prompt: "Plan it",
+          outputFile: path.join(root, "output.md"),
+          logFile,
+        });
+        await handle.process.exited;
+        expect(handle.getStatus()).toBe(AgentStatus.Done);
+        await Bun.sleep(50);
+        expect(await fs.readFile(logFile, "utf8")).toContain("Spawned");
+      });
+    });
+  });
+
+  it("OpenAI HTTP adapter sends the conversation history and persists the reply", async () => {
+    await withTempDir(async (root) => {
+      const requests: Array<{ auth: string | null; body: Record<string, unknown> }> = [];
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const body = (await req.json()) as Record<string, unknown>;
+          requests.push({ auth: req.headers.get("authorization"), body });
+          return Response.json({
+            choices: [{ message: { role: "assistant", content: `# Plan ${requests.length}` } }],
+          });
+        },
+      });
+      process.env.PL4N_TEST_API_KEY = "secret";
+      try {
+        const adapter = new OpenAiHttpAdapter({
+          id: "local",
+          type: "openai_http",
+          model: "llama3",
+          openaiHttp: {
+            baseUrl: `http://localhost:${server.port}/v1/`,
+            apiKeyEnv: "PL4N_TEST_API_KEY",
+            temperature: 0,
+          },
+        });
+        const outputFile = path.join(root, "output.md");
+        const sessionFile = path.join(root, "agents", "sunny-glade", "session.txt");
+        const runParams = {
+          worktree: root,
+          prompt: "Turn 1",
+          outputFile,
+          logFile: path.join(root, "agents", "sunny-glade", "agent.log"),
+          sessionFile,
+        };
+
+        const [success, output] = await adapter.runSync(runParams);
+        expect(success).toBe(true);
+        expect(output).toBe("# Plan 1");
+        expect(await fs.readFile(outputFile, "utf8")).toBe("# Plan 1");
+
+        await adapter.runSync({ ...runParams, prompt: "Turn 2", appendLog: true });
+        expect(requests[1].auth).toBe("Bearer secret");
+        expect(requests[1].body).toEqual({
+          model: "llama3",
+          temperature: 0,
+          messages: [
+            { role: "user", content: "Turn 1" },
+            { role: "assistant", content: "# Plan 1" },
+            { role: "user", content: "Turn 2" },
+          ],
+        });
+
+        const historyFile = resolveHistoryFile(sessionFile);
+        expect(historyFile).toBe(path.join(root, "agents", "sunny-glade", "history.json"));
+        const history = JSON.parse(await fs.readFile(historyFile, "utf8")) as unknown[];
+        expect(history).toHaveLength(4);
+        expect(await fs.readFile(runParams.logFile, "utf8")).toContain("# Plan 2");
+      } finally {
+        delete process.env.PL4N_TEST_API_KEY;
+        server.stop(true);
+      }
+    });
+  });
+
+  it("OpenAI HTTP adapter reports HTTP errors and missing API keys", async () => {
+    await withTempDir(async (root) => {
+      const server = Bun.serve({
+        port: 0,
+        fetch() {
+          return new Response("rate limited", { status: 429 });
+        },
+      });
+      try {
+        const config = {
+          id: "local",
+          type: "openai_http",
+          model: "llama3",
+          openaiHttp: { baseUrl: `http://localhost:${server.port}/v1` },
+        };
+        const runParams = {
+          worktree: root,
+          prompt: "Plan it",
+          outputFile: path.join(root, "output.md"),
+          logFile: path.join(root, "agent.log"),
+          sessionFile: path.join(root, "session.txt"),
+        };
+
+        const [success, output] = await new OpenAiHttpAdapter(config).runSync(runParams);
+        expect(success).toBe(false);
+        expect(output).toContain("HTTP 429");
+        expect(output).toContain("rate limited");
+        expect(await fileExists(resolveHistoryFile(runParams.sessionFile))).toBe(false);
+
+        const [keySuccess, keyOutput] = await new OpenAiHttpAdapter({
+          ...config,
+          openaiHttp: { ...config.openaiHttp, apiKeyEnv: "PL4N_TEST_MISSING_KEY" },
+        }).runSync(runParams);
+        expect(keySuccess).toBe(false);
+        expect(keyOutput).toBe("Error: environment variable PL4N_TEST_MISSING_KEY is not set");
+      } finally {
+        server.stop(true);
+      }
+    });
+  });
+
+  it("OpenAI HTTP adapter reports a cancelled run while the body is streaming", async () => {
+    await withTempDir(async (root) => {
+      const server = Bun.serve({
+        port: 0,
+        fetch() {
+          // Headers and a first chunk, then the body stalls until the client goes away
+          const body = new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('{"choices": ['));
+            },
+          });
+          return new Response(body, { headers: { "Content-Type": "application/json" } });
+        },
+      });
+      try {
+        const controller = new AbortController();
+        const adapter = new OpenAiHttpAdapter({
+          id: "local",
+          type: "openai_http",
+          model: "llama3",
+          openaiHttp: { baseUrl: `http://localhost:${server.port}/v1` },
+        });
+        setTimeout(() => controller.abort(), 200);
+        const [success, output] = await adapter.runSync({
+          worktree: root,
+          prompt: "Plan it",
+          outputFile: path.join(root, "output.md"),
+          logFile: path.join(root, "agent.log"),
+          sessionFile: path.join(root, "session.txt"),
+          signal: controller.signal,
+        });
+        expect(success).toBe(false);
+        expect(output).toBe("Agent run was cancelled");
+      } finally {
+        server.stop(true);
+      }
+    });
+  });
+
+  it("Command adapter substitutes the argv template and places resume args", () => {
+    const config: AgentConfig = {
+      id: "aider",
+      type: "command",
+      model: "sonnet",
+      command: {
+        argv: ["aider", "--model={model}", "{resume}", "--message", "{prompt}"],
+        resumeArgv: ["--restore", "{session_id}"],
+        output: CommandOutput.Text,
+        sessionIdPattern: "session (\\S+)",
+      },
+    };
+    const params = { prompt: "Plan it", worktree: "/repo", outputFile: "/out.md" };
+
+    expect(buildCommand(config, params)).toEqual({
+      cmd: ["aider", "--model=sonnet", "--message", "Plan it"],
+      stdin: null,
+    });
+    expect(buildCommand(config, { ...params, sessionId: "abc" }).cmd).toEqual([
+      "aider",
+      "--model=sonnet",
+      "--restore",
+      "abc",
+      "--message",
+      "Plan it",
+    ]);
+
+    const stdinConfig: AgentConfig = {
+      ...config,
+      command: { argv: ["wrapper", "{output_file}"], output: CommandOutput.Text },
+    };
+    expect(buildCommand(stdinConfig, params)).toEqual({
+      cmd: ["wrapper", "/out.md"],
+      stdin: "Plan it",
+    });
+  });
+
+  it("Command adapter reads a JSON field and resumes with the saved session id", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "mytool"),
+        `#!/usr/bin/env bun
+const args = process.argv.slice(2);
+const resumed = args.includes("--session");
+process.stdout.write(JSON.stringify({
+  meta: { session: resumed ? "sess-2" : "sess-1" },
+  reply: { text: "# Plan " + args.join(" ") },
+}));
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new CommandAdapter({
+          id: "tool",
+          type: "command",
+          model: "m1",
+          command: {
+            argv: ["mytool", "{model}", "{resume}", "{prompt}"],
+            resumeArgv: ["--session", "{session_id}"],
+            output: CommandOutput.Json,
+            outputPath: "reply.text",
+            sessionIdPath: "meta.session",
+          },
+        });
+        const outputFile = path.join(root, "output.md");
+        const sessionFile = path.join(root, "session.txt");
+        const runParams = {
+          worktree: root,
+          prompt: "go",
+          outputFile,
+          logFile: path.join(root, "tool.log"),
+          sessionFile,
+        };
+
+        const [success, output] = await adapter.runSync(runParams);
+        expect(success).toBe(true);
+        expect(output).toBe("# Plan m1 go");
+        expect(await fs.readFile(outputFile, "utf8")).toBe("# Plan m1 go");
+        expect(await fs.readFile(sessionFile, "utf8")).toBe("sess-1");
+
+        await fs.rm(outputFile);
+        const [, resumedOutput] = await adapter.runSync({ ...runParams, appendLog: true });
+        expect(resumedOutput).toBe("# Plan m1 --session sess-1 go");
+        expect(await fs.readFile(sessionFile, "utf8")).toBe("sess-2");
+      });
+    });
+  });
+
+  it("Command adapter pipes the prompt to stdin and keeps the last JSONL message", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "mytool"),
+        `#!/usr/bin/env bun
+const prompt = await new Response(Bun.stdin.stream()).text();
+const events = [
+  { type: "session", id: "thread-9" },
+  { type: "message", content: "Thinking..." },
+  "not json",
+  { type: "message", content: "Final: " + prompt },
+];
+for (const event of events) {
+  process.stdout.write((typeof event === "string" ? event : JSON.stringify(event)) + "\\n");
+}
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new CommandAdapter({
+          id: "tool",
+          type: "command",
+          model: "m1",
+          command: {
+            argv: ["mytool"],
+            output: CommandOutput.Jsonl,
+            outputPath: "content",
+            sessionIdPath: "id",
+          },
+        });
+        const sessionFile = path.join(root, "session.txt");
+        const [success, output] = await adapter.runSync({
+          worktree: root,
+          prompt: "from stdin",
+          outputFile: path.join(root, "output.md"),
+          logFile: path.join(root, "tool.log"),
+          sessionFile,
+        });
+
+        expect(success).toBe(true);
+        expect(output).toBe("Final: from stdin");
+        expect(await fs.readFile(sessionFile, "utf8")).toBe("thread-9");
+      });
+    });
+  });
+
+  it("Command adapter extracts text session ids and reports failures", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "mytool"),
+        `#!/usr/bin/env bun
+console.error("Started session abc-123");
+console.error("error: quota exceeded");
+process.exit(2);
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const adapter = new CommandAdapter({
+          id: "tool",
+          type: "command",
+          model: "m1",
+          command: {
+            argv: ["mytool", "{prompt}"],
+            output: CommandOutput.Text,
+            sessionIdPattern: "session (\\S+)",
+          },
+        });
+        const sessionFile = path.join(root, "session.txt");
+        const [success, output] = await adapter.runSync({
+          worktree: root,
+          prompt: "go",
+          outputFile: path.join(root, "output.md"),
+          logFile: path.join(root, "tool.log"),
+          sessionFile,
+        });
+
+        expect(success).toBe(false);
+        expect(output).toContain("quota exceeded");
+        expect(await fs.readFile(sessionFile, "utf8")).toBe("abc-123");
+      });
+    });
+  });
+
+  it("Mock adapter answers from turn and stage fixtures", async () => {
+    await withTempDir(async (root) => {
+      const fixtures = path.join(root, "fixtures");
+      await fs.mkdir(path.join(fixtures, "turn-2"), { recursive: true });
+      await fs.writeFile(path.join(fixtures, "draft.md"), "# Any turn draft", "utf8");
+      await fs.writeFile(path.join(fixtures, "turn-2", "draft.md"), "# Turn 2 draft", "utf8");
+
+      const adapter = new MockAdapter({
+        id: "demo",
+        type: "mock",
+        model: "mock",
+        mock: { fixtures: "fixtures", latency: 0, failures: [] },
+      });
+      const outputFile = path.join(root, "plan.md");
+      const runParams = {
+        worktree: root,
+        prompt: "go",
+        outputFile,
+        logFile: path.join(root, "mock.log"),
+      };
+      let spawnedPid = 0;
+
+      const [success, output] = await adapter.runSync({
+        ...runParams,
+        stage: RunStage.Draft,
+        turn: 1,
+        onSpawn: (pid) => {
+          spawnedPid = pid;
+        },
+      });
+      expect(success).toBe(true);
+      expect(output).toBe("# Any turn draft");
+      expect(spawnedPid).toBeGreaterThan(0);
+      expect(await fs.readFile(outputFile, "utf8")).toBe("# Any turn draft");
+
+      const [, turnTwo] = await adapter.runSync({ ...runParams, stage: RunStage.Draft, turn: 2 });
+      expect(turnTwo).toBe("# Turn 2 draft");
+
+      const [, review] = await adapter.runSync({ ...runParams, stage: RunStage.Review, turn: 1 });
+      expect(review).toContain("# Mock plan from demo");
+    });
+  });
+
+  it("Mock adapter injects failures for the first matching attempts", async () => {
+    await withTempDir(async (root) => {
+      const adapter = new MockAdapter({
+        id: "demo",
+        type: "mock",
+        model: "mock",
+        mock: {
+          latency: 0,
+          failures: [
+            { stage: RunStage.Review, attempts: 1, exitCode: 3, message: "Error: rate limit" },
+          ],
+        },
+      });
+      const runParams = {
+        worktree: root,
+        prompt: "go",
+        outputFile: path.join(root, "plan.md"),
+        logFile: path.join(root, "mock.log"),
+        turn: 1,
+      };
+
+      expect((await adapter.runSync({ ...runParams, stage: RunStage.Draft }))[0]).toBe(true);
+      expect(await adapter.runSync({ ...runParams, stage: RunStage.Review })).toEqual([
+        false,
+        "Error: rate limit",
+      ]);
+      expect((await adapter.runSync({ ...runParams, stage: RunStage.Review }))[0]).toBe(true);
+    });
+  });
+
+  it("Mock adapter honors latency and cancellation", async () => {
+    await withTempDir(async (root) => {
+      const adapter = new MockAdapter({
+        id: "demo",
+        type: "mock",
+        model: "mock",
+        mock: { latency: 30, failures: [] },
+      });
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 200);
+
+      const [success, output] = await adapter.runSync({
+        worktree: root,
+        prompt: "go",
+        outputFile: path.join(root, "plan.md"),
+        logFile: path.join(root, "mock.log"),
+        signal: controller.signal,
+      });
+      expect(success).toBe(false);
+      expect(output).toBe("Agent run was cancelled");
+      expect(Date.now() - started).toBeLessThan(10_000);
+    });
+  });
 });
@@ -0,0 +1,156 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "bun:test";
+
+import { parseActivityLine } from "../src/adapters/activity";
+import { SessionManager } from "../src/session";
+import { AgentLogTailer, createAgentActivityStream } from "../src/server/agent-activity";
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-activity-"));
+  try {
+    return await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+function claudeToolUse(name: string, input: Record<string, unknown>): string {
+  return JSON.stringify({
+    type: "assistant",
+    message: { content: [{ type: "tool_use", id: "t", name, input }] },
+  });
+}
+
+describe("parseActivityLine", () => {
+  it("summarizes Claude stream-json tool calls and messages", () => {
+    expect(
+      parseActivityLine(claudeToolUse("Read", { file_path: "/repo/src/session.ts" }), "/repo"),
+    ).toEqual([{ kind: "tool", summary: "Reading src/session.ts" }]);
+    expect(
+      parseActivityLine(claudeToolUse("Grep", { pattern: "Phase", path: "/repo/src" }), "/repo"),
+    ).toEqual([{ kind: "tool", summary: "Grep 'Phase' in src" }]);
+    expect(parseActivityLine(claudeToolUse("Bash", { command: "git log -5" }))).toEqual([
+      { kind: "tool", summary: "Running git log -5" },
+    ]);
+    expect(parseActivityLine(claudeToolUse("mcp__docs__search", {}))).toEqual([
+      { kind: "tool", summary: "mcp__docs__search" },
+    ]);
+
+    const message = JSON.stringify({
+      type: "assistant",
+      message: {
+        content: [
+          { type: "text", text: `\nI'll start with the session model.\n\nThen ${"x".repeat(200)}` },
+          { type: "tool_use", name: "Glob", input: { pattern: "src/**/*.ts" } },
+        ],
+      },
+    });
+    expect(parseActivityLine(message)).toEqual([
+      { kind: "message", summary: "I'll start with the session model." },
+      { kind: "tool", summary: "Glob 'src/**/*.ts'" },
+    ]);
+
+    const longCommand = parseActivityLine(claudeToolUse("Bash", { command: "y".repeat(300) }));
+    expect(longCommand[0].summary).toHaveLength(120);
+    expect(longCommand[0].summary.endsWith("…")).toBe(true);
+
+    expect(parseActivityLine('{"type":"system","subtype":"init"}')).toEqual([]);
+    expect(parseActivityLine('{"type":"result","result":"# Plan"}')).toEqual([]);
+    expect(parseActivityLine("=== New run ===")).toEqual([]);
+    expect(parseActivityLine("{not json")).toEqual([]);
+  });
+
+  it("summarizes Codex JSONL items", () => {
+    const line = (event: Record<string, unknown>) =>
+      parseActivityLine(JSON.stringify(event), "/repo");
+    expect(
+      line({ type: "item.started", item: { type: "command_execution", command: "rg Phase src" } }),
+    ).toEqual([{ kind: "tool", summary: "Running rg Phase src" }]);
+    expect(
+      line({
+        type: "item.completed",
+        item: { type: "command_execution", command: "rg Phase src" },
+      }),
+    ).toEqual([]);
+    expect(
+      line({
+        type: "item.completed",
+        item: { type: "file_change", changes: [{ path: "/repo/plan.md", kind: "update" }] },
+      }),
+    ).toEqual([{ kind: "tool", summary: "Editing plan.md" }]);
+    expect(
+      line({ type: "item.completed", item: { type: "reasoning", text: "**Scanning tests**" } }),
+    ).toEqual([{ kind: "reasoning", summary: "Scanning tests" }]);
+    expect(
+      line({ type: "item.completed", item: { type: "agent_message", text: "Done." } }),
+    ).toEqual([{ kind: "message", summary: "Done." }]);
+    expect(line({ type: "turn.completed", usage: { input_tokens: 1 } })).toEqual([]);
+  });
+});
+
+describe("AgentLogTailer", () => {
+  it("reads only complete new lines and restarts truncated logs", async () => {
+    await withTempDir(async (root) => {
+      const logFile = path.join(root, "sunny-glade", "agent.log");
+      await fs.mkdir(path.dirname(logFile), { recursive: true });
+      const read = claudeToolUse("Read", { file_path: path.join(root, "a.ts") });
+      const grep = claudeToolUse("Grep", { pattern: "TODO" });
+      await fs.writeFile(logFile, `${read}\n${grep.slice(0, 20)}`, "utf8");
+
+      const tailer = new AgentLogTailer(root, root);
+      const now = new Date("2026-01-01T00:00:00Z");
+      expect(await tailer.poll({ "sunny-glade": "opus" }, now)).toEqual([
+        { agent: "opus", kind: "tool", summary: "Reading a.ts", timestamp: now.toISOString() },
+      ]);
+
+      await fs.appendFile(logFile, `${grep.slice(20)}\n`, "utf8");
+      const next = await tailer.poll({}, now);
+      expect(next.map((event) => [event.agent, event.summary])).toEqual([
+        ["sunny-glade", "Grep 'TODO'"],
+      ]);
+      expect(await tailer.poll({}, now)).toEqual([]);
+
+      await fs.writeFile(logFile, `${read}\n`, "utf8");
+      expect((await tailer.poll({}, now)).map((event) => event.summary)).toEqual(["Reading a.ts"]);
+    });
+  });
+
+  it("streams a snapshot and then new activity for a session", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await manager.createSession("Task");
+      state.agentPlanIds = { opus: "sunny-glade" };
+      await manager.saveState(state);
+      const logFile = manager.getPaths(state.sessionId).agentLogFile("sunny-glade");
+      await fs.mkdir(path.dirname(logFile), { recursive: true });
+      await fs.writeFile(logFile, `${claudeToolUse("Read", { file_path: "a.ts" })}\n`, "utf8");
+
+      const response = createAgentActivityStream({
+        manager,
+        sessionId: state.sessionId,
+        root,
+        pollMs: 10,
+      });
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      const reader = (response.body as ReadableStream<unknown>).getReader();
+      const decode = (value: unknown) =>
+        typeof value === "string" ? value : new TextDecoder().decode(value as Uint8Array);
+
+      const snapshot = decode((await reader.read()).value);
+      expect(snapshot).toContain("event: agent_activity_snapshot");
+      const payload = JSON.parse(snapshot.split("data: ")[1]) as {
+        agents: Record<string, { summary: string }[]>;
+      };
+      expect(payload.agents.opus.map((event) => event.summary)).toEqual(["Reading a.ts"]);
+
+      await fs.appendFile(logFile, `${claudeToolUse("Bash", { command: "ls" })}\n`, "utf8");
+      const update = decode((await reader.read()).value);
+      expect(update).toContain("event: agent_activity");
+      expect(update).toContain('"agent":"opus"');
+      expect(update).toContain('"summary":"Running ls"');
+      await reader.cancel();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "bun:test";
+import { dump, load } from "js-yaml";
+
+import { ARCHIVE_MANIFEST, exportSessionArchive, importSessionArchive } from "../src/archive";
+import { SCHEMA_VERSION } from "../src/migrations";
+import { AgentStatus, Phase, type SessionState } from "../src/models";
+import { SessionManager } from "../src/session";
+import { packTarGz, unpackTarGz } from "../src/utils/tar";
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-archive-"));
+  try {
+    return await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+const encoder = new TextEncoder();
+
+// A two-turn session in review with agent plans, CLI sessions and a log
+async function reviewedSession(manager: SessionManager): Promise<SessionState> {
+  const state = await manager.createSession("Add a cache");
+  const paths = manager.getPaths(state.sessionId);
+  await fs.writeFile(paths.input, "Add a cache\n", "utf8");
+  await fs.mkdir(paths.turnSnapshotDir(1), { recursive: true });
+  await fs.writeFile(paths.turnFile(1), "## Summary\nFirst\n", "utf8");
+  await fs.writeFile(path.join(paths.turnSnapshotDir(1), "sunny-glade.md"), "Draft\n", "utf8");
+  await fs.writeFile(paths.turnFile(2), "## Summary\nSecond\n", "utf8");
+  await fs.mkdir(paths.plans, { recursive: true });
+  await fs.writeFile(paths.agentPlanFile("sunny-glade"), "Plan\n", "utf8");
+  await fs.mkdir(paths.agentDir("sunny-glade"), { recursive: true });
+  await fs.writeFile(paths.agentSessionFile("sunny-glade"), "claude-session-1", "utf8");
+  await fs.writeFile(paths.agentLogFile("sunny-glade"), "log line\n", "utf8");
+  await fs.mkdir(path.join(paths.discardedTurns, "2026-01-01"), { recursive: true });
+  await fs.writeFile(path.join(paths.discardedTurns, "2026-01-01", "003.md"), "Old\n", "utf8");
+
+  state.turn = 2;
+  state.phase = Phase.UserReview;
+  state.agents = { opus: AgentStatus.Done };
+  state.agentPlanIds = { opus: "sunny-glade" };
+  state.agentPids = { opus: 4242 };
+  state.turnSessions = { "1": { "sunny-glade": "claude-session-0" } };
+  await manager.saveState(state);
+  return state;
+}
+
+describe("tar archives", () => {
+  it("round-trips files including long paths", () => {
+    const long = `${"nested/".repeat(20)}file.md`;
+    const entries = [
+      { name: "meta.yaml", data: encoder.encode("task: x\n") },
+      { name: long, data: encoder.encode("x".repeat(700)) },
+      { name: "empty.txt", data: new Uint8Array() },
+    ];
+    expect(unpackTarGz(packTarGz(entries))).toEqual(entries);
+  });
+
+  it("rejects paths outside the extraction directory and non-archives", () => {
+    expect(() =>
+      unpackTarGz(packTarGz([{ name: "../escape.md", data: encoder.encode("x") }])),
+    ).toThrow("Unsafe path in archive: ../escape.md");
+    expect(() => unpackTarGz(encoder.encode("plain text"))).toThrow(
+      "Not a gzip-compressed archive",
+    );
+  });
+});
+
+describe("session archives", () => {
+  it("exports turns, snapshots and plans without machine-specific files", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await reviewedSession(manager);
+
+      const { files } = await exportSessionArchive(manager, state.sessionId);
+      expect(files).toEqual([
+        ARCHIVE_MANIFEST,
+        "input.md",
+        "meta.yaml",
+        "plans/sunny-glade.md",
+        "state.yaml",
+        "turns/001.md",
+        "turns/001/sunny-glade.md",
+        "turns/002.md",
+      ]);
+
+      const { archive, files: withLogs } = await exportSessionArchive(manager, state.sessionId, {
+        logs: true,
+      });
+      expect(withLogs).toContain("agents/sunny-glade/agent.log");
+      const entries = unpackTarGz(archive);
+      const exportedState = load(
+        new TextDecoder().decode(entries.find((entry) => entry.name === "state.yaml")?.data),
+      ) as Record<string, unknown>;
+      expect(exportedState).toMatchObject({
+        schema_version: SCHEMA_VERSION,
+        turn_sessions: {},
+        agent_pids: {},
+      });
+      expect(exportedState.session_token).toBeUndefined();
+    });
+  });
+
+  it("imports with a fresh token and renames on collision", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await reviewedSession(manager);
+      const { archive } = await exportSessionArchive(manager, state.sessionId, { logs: true });
+
+      const other = new SessionManager(path.join(root, "other", ".pl4n"));
+      const first = await importSessionArchive(other, archive);
+      expect(first).toEqual({
+        sessionId: state.sessionId,
+        originalId: state.sessionId,
+        renamed: false,
+      });
+      const imported = await other.loadSession(state.sessionId);
+      expect(imported).toMatchObject({
+        task: "Add a cache",
+        turn: 2,
+        phase: Phase.UserReview,
+        agentPlanIds: { opus: "sunny-glade" },
+        turnSessions: {},
+        agentPids: {},
+        revision: 0,
+      });
+      expect(imported?.sessionToken).toBeString();
+      expect(imported?.sessionToken).not.toBe(state.sessionToken);
+      const paths = other.getPaths(state.sessionId);
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("## Summary\nFirst\n");
+      expect(await fs.readFile(paths.agentLogFile("sunny-glade"), "utf8")).toBe("log line\n");
+      expect(await other.readAgentSessions(state.sessionId)).toEqual({});
+
+      const second = await importSessionArchive(other, archive);
+      expect(second).toEqual({
+        sessionId: `${state.sessionId}-2`,
+        originalId: state.sessionId,
+        renamed: true,
+      });
+      expect((await other.loadSession(second.sessionId))?.sessionId).toBe(second.sessionId);
+    });
+  });
+
+  it("links the plan of approved sessions", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await reviewedSession(manager);
+      const other = new SessionManager(path.join(root, "other", ".pl4n"));
+      state.phase = Phase.Approved;
+      await manager.saveState(state);
+      const approved = await importSessionArchive(
+        other,
+        (await exportSessionArchive(manager, state.sessionId)).archive,
+      );
+      const plan = path.join(other.getPaths(approved.sessionId).root, "PLAN.md");
+      expect(await fs.readFile(plan, "utf8")).toBe("## Summary\nSecond\n");
+    });
+  });
+
+  it("imports turns archived mid-run as interrupted", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await reviewedSession(manager);
+      const { archive } = await exportSessionArchive(manager, state.sessionId);
+
+      // Archives made by hand or by older versions can carry a running phase
+      const entries = unpackTarGz(archive).map((entry) => {
+        if (entry.name !== "state.yaml") {
+          return entry;
+        }
+        const running = load(new TextDecoder().decode(entry.data)) as Record<string, unknown>;
+        running.phase = Phase.PeerReview;
+        running.agents = { opus: AgentStatus.Working, sonnet: AgentStatus.Done };
+        return { name: entry.name, data: encoder.encode(dump(running)) };
+      });
+
+      const other = new SessionManager(path.join(root, "other", ".pl4n"));
+      const { sessionId } = await importSessionArchive(other, packTarGz(entries));
+      const imported = await other.loadSession(sessionId);
+      expect(imported).toMatchObject({
+        phase: Phase.Error,
+        agents: { opus: AgentStatus.Error, sonnet: AgentStatus.Done },
+        agentErrors: { opus: "Interrupted" },
+      });
+      expect(imported && other.isTurnRunning(imported)).toBe(false);
+    });
+  });
+
+  it("refuses running turns and archives that are not sessions", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await reviewedSession(manager);
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+      await expect(exportSessionArchive(manager, state.sessionId)).rejects.toThrow(
+        "Cannot export while turn 2 is running",
+      );
+
+      await expect(
+        importSessionArchive(manager, packTarGz([{ name: "notes.md", data: new Uint8Array() }])),
+      ).rejects.toThrow(`Not a pl4n session archive (no ${ARCHIVE_MANIFEST})`);
+    });
+  });
+});
@@ -4,7 +4,7 @@ import path from "path";
 import { afterAll, beforeAll, describe, expect, it } from "bun:test";
 
 import type { CliDeps } from "../src/cli";
-import { Phase } from "../src/models";
+import { Phase, RunStage, type UsageRecord } from "../src/models";
 import { SessionManager } from "../src/session";
 import { createProjectId } from "../src/server/project-id";
 
@@ -233,6 +233,115 @@ describe("CLI", () => {
     });
   });
 
+  it("status includes agent attempt counts when present", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Test feature");
+      state.agentAttempts = { opus: 1, codex: 3 };
+      await manager.saveState(state);
+
+      const result = runCli(
+        ["--pl4n-dir", pl4nDir, "status", "--session", state.sessionId],
+        repoRoot,
+      );
+      const data = JSON.parse(result.stdout);
+      expect(data.agent_attempts).toEqual({ opus: 1, codex: 3 });
+    });
+  });
+
+  it("status includes judge scores per turn and their averages", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Test feature");
+      state.turn = 3;
+      await manager.saveState(state);
+      const paths = manager.getPaths(state.sessionId);
+      const totals: Array<[number, number, number]> = [
+        [1, 20, 15],
+        [3, 25, 18],
+      ];
+      for (const [turn, opus, codex] of totals) {
+        await fs.mkdir(paths.turnSnapshotDir(turn), { recursive: true });
+        await fs.writeFile(
+          paths.turnScoresFile(turn),
+          JSON.stringify({
+            opus: { plan_id: "sunny-glade", criteria: { completeness: opus }, total: opus },
+            codex: { plan_id: "amber-marsh", criteria: { completeness: codex }, total: codex },
+          }),
+          "utf8",
+        );
+      }
+
+      const result = runCli(
+        ["--pl4n-dir", pl4nDir, "status", "--session", state.sessionId],
+        repoRoot,
+      );
+      const data = JSON.parse(result.stdout);
+      expect(Object.keys(data.scores)).toEqual(["1", "3"]);
+      expect(data.scores["3"].opus).toEqual({
+        plan_id: "sunny-glade",
+        criteria: { completeness: 25 },
+        total: 25,
+      });
+      expect(data.average_scores).toEqual({ opus: 22.5, codex: 16.5 });
+    });
+  });
+
+  it("usage aggregates per session, per project, and across projects", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, "app", ".pl4n");
+      const manager = new SessionManager(pl4nDir);
+      const first = await manager.createSession("First");
+      const second = await manager.createSession("Second");
+      await manager.createSession("Never ran");
+      const run = (agentId: string, inputTokens: number, costUsd?: number): UsageRecord => ({
+        agentId,
+        model: "m",
+        stage: RunStage.Draft,
+        turn: 1,
+        startedAt: new Date("2026-01-01T00:00:00Z"),
+        durationMs: 1000,
+        usage: { inputTokens, outputTokens: 10, cachedTokens: 0, costUsd },
+      });
+      await manager.appendUsage(first.sessionId, run("opus", 100, 0.5));
+      await manager.appendUsage(first.sessionId, run("codex", 200));
+      await manager.appendUsage(second.sessionId, run("opus", 300, 0.25));
+
+      const session = JSON.parse(
+        runCli(["--pl4n-dir", pl4nDir, "usage", "--session", first.sessionId], repoRoot).stdout,
+      );
+      expect(session.session_id).toBe(first.sessionId);
+      expect(session.input_tokens).toBe(300);
+      expect(session.cost_usd).toBe(0.5);
+      expect(session.by_agent.codex).toEqual({
+        runs: 1,
+        input_tokens: 200,
+        output_tokens: 10,
+        cached_tokens: 0,
+        duration_ms: 1000,
+      });
+
+      const project = JSON.parse(runCli(["--pl4n-dir", pl4nDir, "usage"], repoRoot).stdout);
+      expect(project.runs).toBe(3);
+      expect(project.cost_usd).toBe(0.75);
+      expect(Object.keys(project.sessions).sort()).toEqual(
+        [first.sessionId, second.sessionId].sort(),
+      );
+      expect(project.by_stage.draft.input_tokens).toBe(600);
+
+      const all = JSON.parse(
+        runCli(["usage", "--all-projects", "--workspace", root], repoRoot).stdout,
+      );
+      expect(all.input_tokens).toBe(600);
+      expect(all.projects[path.join(root, "app")]).toMatchObject({ sessions: 2, runs: 3 });
+    });
+  });
+
   it("clean removes sessions", async () => {
     await withTempDir(async (root) => {
       const repoRoot = path.resolve(import.meta.dir, "..");
@@ -837,6 +946,219 @@ for (const line of lines) {
     });
   });
 
+  it("fork starts a new session from an earlier turn and lists its parent", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Test feature");
+      state.turn = 2;
+      state.phase = Phase.UserReview;
+      await manager.saveState(state);
+      const paths = manager.getPaths(state.sessionId);
+      await fs.writeFile(paths.turnFile(1), "## Summary\nFirst\n", "utf8");
+      await fs.writeFile(paths.turnFile(2), "## Summary\nSecond\n", "utf8");
+
+      const missing = runCli(
+        ["--pl4n-dir", pl4nDir, "fork", "--session", state.sessionId],
+        repoRoot,
+      );
+      expect(missing.exitCode).toBe(1);
+      expect(JSON.parse(missing.stdout).error).toBe("Missing --from-turn");
+
+      const tooFar = runCli(
+        ["--pl4n-dir", pl4nDir, "fork", "--session", state.sessionId, "--from-turn", "5"],
+        repoRoot,
+      );
+      expect(tooFar.exitCode).toBe(1);
+      expect(JSON.parse(tooFar.stdout).error).toBe("Turn must be between 1 and 2");
+
+      const result = runCli(
+        ["--pl4n-dir", pl4nDir, "fork", "--session", state.sessionId, "--from-turn", "1"],
+        repoRoot,
+      );
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data).toMatchObject({
+        parent_session: state.sessionId,
+        parent_turn: 1,
+        turn: 1,
+        phase: Phase.UserReview,
+      });
+      expect(await fs.readFile(data.file, "utf8")).toBe("## Summary\nFirst\n");
+
+      const listed = JSON.parse(runCli(["--pl4n-dir", pl4nDir, "list"], repoRoot).stdout);
+      const forked = listed.sessions.find(
+        (session: { session_id: string }) => session.session_id === data.session_id,
+      );
+      expect(forked).toMatchObject({ parent_session: state.sessionId, parent_turn: 1 });
+    });
+  });
+
+  it("rollback archives later turns and makes an earlier turn current", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Test feature");
+      state.turn = 3;
+      state.phase = Phase.UserReview;
+      await manager.saveState(state);
+      const paths = manager.getPaths(state.sessionId);
+      for (const turn of [1, 2, 3]) {
+        await fs.writeFile(paths.turnFile(turn), `## Summary\nTurn ${turn}\n`, "utf8");
+      }
+
+      const missing = runCli(
+        ["--pl4n-dir", pl4nDir, "rollback", "--session", state.sessionId],
+        repoRoot,
+      );
+      expect(missing.exitCode).toBe(1);
+      expect(JSON.parse(missing.stdout).error).toBe("Missing --to-turn");
+
+      const result = runCli(
+        ["--pl4n-dir", pl4nDir, "rollback", "--session", state.sessionId, "--to-turn", "1"],
+        repoRoot,
+      );
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout);
+      expect(data).toMatchObject({
+        session_id: state.sessionId,
+        turn: 1,
+        phase: Phase.UserReview,
+        file: paths.turnFile(1),
+        discarded: [2, 3],
+      });
+      expect((await fs.readdir(data.archive)).sort()).toEqual(["002.md", "003.md"]);
+
+      const again = runCli(
+        ["--pl4n-dir", pl4nDir, "rollback", "--session", state.sessionId, "--to-turn", "1"],
+        repoRoot,
+      );
+      expect(again.exitCode).toBe(1);
+      expect(JSON.parse(again.stdout).error).toBe(`Session ${state.sessionId} has no earlier turn`);
+    });
+  });
+
+  it("export and import move a session between projects as an archive", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const otherDir = path.join(root, "other", ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Test feature");
+      state.phase = Phase.UserReview;
+      await manager.saveState(state);
+      const paths = manager.getPaths(state.sessionId);
+      await fs.writeFile(paths.turnFile(1), "## Summary\nFirst\n", "utf8");
+
+      const file = path.join(root, "shared", "session.tar.gz");
+      const exported = runCli(
+        ["--pl4n-dir", pl4nDir, "export", "--session", state.sessionId, "--out", file],
+        repoRoot,
+      );
+      expect(exported.exitCode).toBe(0);
+      expect(JSON.parse(exported.stdout)).toMatchObject({
+        session_id: state.sessionId,
+        format: "archive",
+        file,
+        logs: false,
+      });
+
+      const imported = runCli(["--pl4n-dir", otherDir, "import", file], repoRoot);
+      expect(imported.exitCode).toBe(0);
+      const data = JSON.parse(imported.stdout);
+      expect(data).toMatchObject({
+        session_id: state.sessionId,
+        original_session_id: state.sessionId,
+        renamed: false,
+        turn: 1,
+        phase: Phase.UserReview,
+      });
+      expect(await fs.readFile(data.file, "utf8")).toBe("## Summary\nFirst\n");
+
+      const again = JSON.parse(runCli(["--pl4n-dir", otherDir, "import", file], repoRoot).stdout);
+      expect(again).toMatchObject({ session_id: `${state.sessionId}-2`, renamed: true });
+
+      const unknown = runCli(
+        ["--pl4n-dir", pl4nDir, "export", "--session", state.sessionId, "--format", "zip"],
+        repoRoot,
+      );
+      expect(unknown.exitCode).toBe(1);
+      expect(JSON.parse(unknown.stdout).error).toBe(
+        "Unknown --format zip (expected issues or archive)",
+      );
+    });
+  });
+
+  it("migrate upgrades old sessions and reports the ones it cannot read", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const fixtures = path.join(import.meta.dir, "fixtures", "sessions");
+      for (const name of ["v1-original", "v4-future"]) {
+        await fs.cp(path.join(fixtures, name), path.join(pl4nDir, "sessions", name), {
+          recursive: true,
+        });
+      }
+
+      const single = runCli(
+        ["--pl4n-dir", pl4nDir, "migrate", "--session", "v1-original"],
+        repoRoot,
+      );
+      expect(single.exitCode).toBe(0);
+      expect(JSON.parse(single.stdout)).toMatchObject({
+        schema_version: 3,
+        sessions: [{ session_id: "v1-original", from: 1, to: 3 }],
+      });
+
+      const all = runCli(["--pl4n-dir", pl4nDir, "migrate"], repoRoot);
+      expect(all.exitCode).toBe(1);
+      expect(JSON.parse(all.stdout)).toMatchObject({
+        error: "Some sessions could not be migrated",
+        sessions: [
+          { session_id: "v1-original", from: 3, to: 3, applied: [] },
+          { session_id: "v4-future", error: expect.stringContaining("schema version 4") },
+        ],
+      });
+    });
+  });
+
+  it("status and list report task progress once the plan is approved", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Test feature");
+      state.phase = Phase.UserReview;
+      await manager.saveState(state);
+
+      const paths = manager.getPaths(state.sessionId);
+      await fs.mkdir(path.dirname(paths.turnFile(state.turn)), { recursive: true });
+      await fs.writeFile(
+        paths.turnFile(state.turn),
+        "## Tasks\n\n- [x] **Task 1**: Add the module\n- [ ] **Task 2**: Wire the command\n",
+        "utf8",
+      );
+      const before = JSON.parse(runCli(["--pl4n-dir", pl4nDir, "list"], repoRoot).stdout);
+      expect(before.sessions[0].progress).toBeUndefined();
+
+      runCli(["--pl4n-dir", pl4nDir, "approve", "--session", state.sessionId], repoRoot);
+
+      const listed = JSON.parse(runCli(["--pl4n-dir", pl4nDir, "list"], repoRoot).stdout);
+      expect(listed.sessions[0].progress).toEqual({ total: 2, done: 1, in_progress: 0, todo: 1 });
+      const status = JSON.parse(
+        runCli(["--pl4n-dir", pl4nDir, "status", "--session", state.sessionId], repoRoot).stdout,
+      );
+      expect(status.progress).toMatchObject({
+        total: 2,
+        done: 1,
+        tasks: { 1: { status: "done", commits: [] }, 2: { status: "todo", commits: [] } },
+      });
+      expect(await fs.readFile(paths.tasks, "utf8")).toContain("status: todo");
+    });
+  });
+
   it("approve errors with unanswered questions", async () => {
     await withTempDir(async (root) => {
       const repoRoot = path.resolve(import.meta.dir, "..");
@@ -862,6 +1184,182 @@ for (const line of lines) {
       expect(result.exitCode).toBe(1);
       const data = JSON.parse(result.stdout);
       expect(data.error).toContain("Cannot approve with unanswered questions");
+      expect(data.unanswered_questions).toEqual(["Q1"]);
+
+      const status = JSON.parse(
+        runCli(["--pl4n-dir", pl4nDir, "status", "--session", state.sessionId], repoRoot).stdout,
+      );
+      expect(status.has_questions).toBe(true);
+      expect(status.plan).toEqual({
+        tasks: 0,
+        tasks_done: 0,
+        questions: 1,
+        unanswered_questions: ["Q1"],
+        risks: 0,
+      });
+    });
+  });
+
+  it("lint reports plan format violations in the turn file", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Lint test");
+      const args = ["--pl4n-dir", pl4nDir, "lint", "--session", state.sessionId];
+
+      const missing = runCli(args, repoRoot);
+      expect(missing.exitCode).toBe(1);
+      expect(JSON.parse(missing.stdout).error).toBe("Turn 1 has no plan file yet");
+
+      const turnFile = manager.getPaths(state.sessionId).turnFile(state.turn);
+      await fs.mkdir(path.dirname(turnFile), { recursive: true });
+      await fs.writeFile(
+        turnFile,
+        "## Background\nx\n\n## Summary\ny\n\n## Tasks\n\n- [ ] **Task 2**: Do it\n",
+        "utf8",
+      );
+      const invalid = runCli(args, repoRoot);
+      expect(invalid.exitCode).toBe(1);
+      const data = JSON.parse(invalid.stdout);
+      expect(data.file).toBe(turnFile);
+      expect(data.valid).toBe(false);
+      expect(data.issues).toEqual([
+        {
+          rule: "task-order",
+          message: "Task 2 should be Task 1: number tasks 1, 2, 3, ... in order",
+        },
+      ]);
+
+      await fs.writeFile(
+        turnFile,
+        "## Background\nx\n\n## Summary\ny\n\n## Tasks\n\n- [ ] **Task 1**: Do it\n",
+        "utf8",
+      );
+      const valid = runCli(args, repoRoot);
+      expect(valid.exitCode).toBe(0);
+      expect(JSON.parse(valid.stdout)).toMatchObject({ turn: 1, valid: true, issues: [] });
+    });
+  });
+
+  it("graph prints the task dependency graph as JSON or DOT", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Graph test");
+      const turnFile = manager.getPaths(state.sessionId).turnFile(state.turn);
+      await fs.mkdir(path.dirname(turnFile), { recursive: true });
+      await fs.writeFile(
+        turnFile,
+        [
+          "## Tasks",
+          "",
+          "- [ ] **Task 1**: Parse",
+          "  - **Dependencies:** Task 2",
+          "- [ ] **Task 2**: Build",
+          "  - **Dependencies:** none",
+          "",
+        ].join("\n"),
+        "utf8",
+      );
+      const args = ["--pl4n-dir", pl4nDir, "graph", "--session", state.sessionId];
+
+      const json = runCli(args, repoRoot);
+      expect(json.exitCode).toBe(0);
+      expect(JSON.parse(json.stdout)).toMatchObject({
+        session_id: state.sessionId,
+        turn: 1,
+        valid: true,
+        edges: [{ from: 2, to: 1 }],
+        order: [2, 1],
+      });
+
+      const dot = runCli([...args, "--format", "dot"], repoRoot);
+      expect(dot.exitCode).toBe(0);
+      expect(dot.stdout).toContain("digraph tasks {");
+      expect(dot.stdout).toContain("task2 -> task1;");
+
+      const unknown = runCli([...args, "--format", "svg"], repoRoot);
+      expect(unknown.exitCode).toBe(1);
+      expect(JSON.parse(unknown.stdout).error).toBe("Unknown --format svg (expected json or dot)");
+    });
+  });
+
+  it("export writes issue payloads and a gh script for the approved plan", async () => {
+    await withTempDir(async (root) => {
+      const repoRoot = path.resolve(import.meta.dir, "..");
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const manager = new SessionManager(pl4nDir);
+      const state = await manager.createSession("Export test");
+      state.phase = Phase.UserReview;
+      await manager.saveState(state);
+      const paths = manager.getPaths(state.sessionId);
+      await fs.mkdir(path.dirname(paths.turnFile(state.turn)), { recursive: true });
+      await fs.writeFile(
+        paths.turnFile(state.turn),
+        [
+          "## Tasks",
+          "",
+          "- [ ] **Task 1**: Add the exporter",
+          "  - **Dependencies:** none",
+          "- [ ] **Task 2**: Wire the CLI",
+          "  - **Dependencies:** Task 1",
+          "",
+          "## Risks",
+          "",
+          "- **Tracker drift** (severity: high)",
+          "",
+        ].join("\n"),
+        "utf8",
+      );
+      const args = ["--pl4n-dir", pl4nDir, "export", "--session", state.sessionId];
+
+      const early = runCli(args, repoRoot);
+      expect(early.exitCode).toBe(1);
+      expect(JSON.parse(early.stdout).error).toBe("Cannot export from phase user_review");
+
+      runCli(["--pl4n-dir", pl4nDir, "approve", "--session", state.sessionId], repoRoot);
+      const local = runCli(args, repoRoot);
+      expect(local.exitCode).toBe(0);
+      const data = JSON.parse(local.stdout);
+      expect(data).toMatchObject({ format: "issues", issues: 2 });
+      expect(data.json_path).toBe(path.join(paths.root, "export", "issues.json"));
+      const exported = JSON.parse(await fs.readFile(data.json_path, "utf8"));
+      expect(exported.source).toBe(path.join(paths.root, "PLAN.md"));
+      expect(exported.issues[1]).toMatchObject({
+        task: 2,
+        title: "Wire the CLI",
+        labels: ["pl4n", "risk:high"],
+        depends_on: [1],
+      });
+      expect((await fs.stat(data.script_path)).mode & 0o111).not.toBe(0);
+
+      const binDir = path.join(root, "bin");
+      const ghLog = path.join(root, "gh.log");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "gh"),
+        [
+          "#!/usr/bin/env bash",
+          `printf '%s\\n' "$*" >> ${JSON.stringify(ghLog)}`,
+          'if [ "$1" = "issue" ]; then',
+          `  count=$(grep -c '^issue create' ${JSON.stringify(ghLog)})`,
+          '  echo "https://github.test/acme/app/issues/$count"',
+          "fi",
+        ].join("\n"),
+      );
+      await withPatchedPath(binDir, async () => {
+        const created = runCli([...args, "--create"], repoRoot);
+        expect(created.exitCode).toBe(0);
+        expect(JSON.parse(created.stdout).created).toEqual({
+          "1": "https://github.test/acme/app/issues/1",
+          "2": "https://github.test/acme/app/issues/2",
+        });
+      });
+      const calls = await fs.readFile(ghLog, "utf8");
+      expect(calls).toContain("label create risk:high --force");
+      expect(calls).toContain("**Depends on:** https://github.test/acme/app/issues/1");
     });
   });
 
@@ -65,6 +65,8 @@ describe("pl4n-editor", () => {
         setBaseline: (value: string) => void;
         setValue: (value: string) => void;
         setReadOnly: (value: boolean) => void;
+        setReferenceIssues: (tooltips: Record<string, string>) => void;
+        setTaskGraph: (graph: unknown) => void;
       };
       loadContent?: () => Promise<void>;
       archived?: boolean;
@@ -80,6 +82,8 @@ describe("pl4n-editor", () => {
       setBaseline: () => {},
       setValue: () => {},
       setReadOnly: () => {},
+      setReferenceIssues: () => {},
+      setTaskGraph: () => {},
     };
 
     const archivedIndicator = document.createElement("span");
@@ -174,6 +178,8 @@ describe("pl4n-editor", () => {
       editor?: {
         getValue: () => string;
         setBaseline: (value: string) => void;
+        setReferenceIssues: (tooltips: Record<string, string>) => void;
+        setTaskGraph: (graph: unknown) => void;
       };
       save?: () => Promise<void>;
       statusMessage?: string;
@@ -192,6 +198,8 @@ describe("pl4n-editor", () => {
       setBaseline: (value) => {
         baselineSet = value;
       },
+      setReferenceIssues: () => {},
+      setTaskGraph: () => {},
     };
 
     originalFetch = (globalThis as unknown as Record<string, unknown>).fetch;
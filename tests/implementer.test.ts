@@ -0,0 +1,263 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "bun:test";
+
+import { AgentAdapter, type AgentHandle } from "../src/adapters/base";
+import { TaskImplementer } from "../src/implementer";
+import {
+  type AgentConfig,
+  ImplementApproval,
+  ImplementationStatus,
+  Phase,
+  Pl4nConfig,
+} from "../src/models";
+import { SessionManager } from "../src/session";
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-implement-"));
+  try {
+    return await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+// Answers each run with the next scripted result and records what it was asked
+class ScriptedAdapter extends AgentAdapter {
+  readonly prompts: string[] = [];
+  private readonly results: [boolean, string][];
+  onRun?: () => Promise<void>;
+
+  constructor(config: AgentConfig, results: [boolean, string][]) {
+    super(config);
+    this.results = results;
+  }
+
+  spawn(): AgentHandle {
+    throw new Error("ScriptedAdapter.spawn is not implemented");
+  }
+
+  async runSync(params: { prompt: string }): Promise<[boolean, string]> {
+    this.prompts.push(params.prompt);
+    await this.onRun?.();
+    return this.results[this.prompts.length - 1] ?? [true, "Done"];
+  }
+
+  getName(): string {
+    return `ScriptedAdapter(${this.config.id})`;
+  }
+}
+
+const PLAN = [
+  "# Plan",
+  "",
+  "## Tasks",
+  "",
+  "- [ ] **Task 1**: Wire the command",
+  "  - **Files:** `src/cli.ts` (modify)",
+  "  - **Dependencies:** Task 2",
+  "- [ ] **Task 2**: Add the module",
+  "  - **Files:** `src/module.ts` (create)",
+  "  - **Dependencies:** none",
+  "- [x] **Task 3**: Already done by hand",
+  "  - **Dependencies:** none",
+  "",
+].join("\n");
+
+async function approvedSession(root: string) {
+  const manager = new SessionManager(path.join(root, ".pl4n"));
+  const state = await manager.createSession("Implement test");
+  const paths = manager.getPaths(state.sessionId);
+  await fs.mkdir(paths.turns, { recursive: true });
+  await fs.writeFile(paths.turnFile(state.turn), PLAN, "utf8");
+  await fs.symlink(
+    path.relative(paths.root, paths.turnFile(state.turn)),
+    path.join(paths.root, "PLAN.md"),
+  );
+  state.phase = Phase.Approved;
+  await manager.saveState(state);
+  return { manager, state, paths };
+}
+
+function implementer(
+  manager: SessionManager,
+  approval: ImplementApproval,
+  results: [boolean, string][],
+) {
+  const agent: AgentConfig = { id: "builder", type: "mock", model: "mock" };
+  const config = new Pl4nConfig({
+    agents: [],
+    synthesizer: agent,
+    implement: { ...agent, approval },
+  });
+  const runner = new TaskImplementer(manager, config);
+  const adapter = new ScriptedAdapter(runner.agent, results);
+  runner.adapter = adapter;
+  return { runner, adapter };
+}
+
+describe("TaskImplementer", () => {
+  it("stops for approval after each task and checks tasks off in dependency order", async () => {
+    await withTempDir(async (root) => {
+      const { manager, state, paths } = await approvedSession(root);
+      const { runner, adapter } = implementer(manager, ImplementApproval.Task, [
+        [true, "Added the module"],
+        [true, "Wired the command"],
+        [true, "Wired the command with --dry-run"],
+      ]);
+
+      const first = await runner.run(state.sessionId);
+      expect(first.ran).toEqual([2]);
+      expect(first.report).toBe("Added the module");
+      expect(first.progress).toMatchObject({
+        status: ImplementationStatus.AwaitingApproval,
+        currentTask: 2,
+        completed: [],
+      });
+      expect(adapter.prompts[0]).toContain("**Task 2**: Add the module");
+      expect(adapter.prompts[0]).toContain("- Task 3: Already done by hand");
+
+      // Without a decision nothing runs
+      expect((await runner.run(state.sessionId)).ran).toEqual([]);
+
+      const second = await runner.run(state.sessionId, { approve: true });
+      expect(second.ran).toEqual([1]);
+      expect(second.progress.completed).toEqual([2]);
+      expect(await fs.readFile(paths.turnFile(state.turn), "utf8")).toContain(
+        "- [x] **Task 2**: Add the module",
+      );
+
+      const retried = await runner.run(state.sessionId, { retry: true, feedback: "Add --dry-run" });
+      expect(retried.ran).toEqual([1]);
+      expect(adapter.prompts[2]).toContain("## Reviewer Feedback");
+      expect(adapter.prompts[2]).toContain("Add --dry-run");
+
+      const done = await runner.run(state.sessionId, { approve: true });
+      expect(done.ran).toEqual([]);
+      expect(done.remaining).toEqual([]);
+      expect(done.progress.status).toBe(ImplementationStatus.Done);
+      expect(PLAN.replace(/- \[ \]/g, "- [x]")).toBe(
+        await fs.readFile(path.join(paths.root, "PLAN.md"), "utf8"),
+      );
+      expect(await manager.loadImplementation(state.sessionId)).toMatchObject({
+        status: ImplementationStatus.Done,
+        completed: [2, 1],
+      });
+    });
+  });
+
+  it("records failures, resumes the failed task, and honours pause requests", async () => {
+    await withTempDir(async (root) => {
+      const { manager, state, paths } = await approvedSession(root);
+      const { runner, adapter } = implementer(manager, ImplementApproval.None, [
+        [false, "Error: rate limit exceeded"],
+        [true, "Added the module"],
+        [true, "Wired the command"],
+      ]);
+
+      const failed = await runner.run(state.sessionId);
+      expect(failed.progress).toMatchObject({
+        status: ImplementationStatus.Failed,
+        currentTask: 2,
+        error: "Task 2: Error: rate limit exceeded",
+      });
+
+      adapter.onRun = async () => {
+        await runner.pause(state.sessionId);
+      };
+      const paused = await runner.run(state.sessionId);
+      expect(paused.ran).toEqual([2]);
+      expect(paused.progress.status).toBe(ImplementationStatus.Paused);
+      expect(paused.remaining).toEqual([1]);
+
+      adapter.onRun = undefined;
+      const resumed = await runner.run(state.sessionId);
+      expect(resumed.ran).toEqual([1]);
+      expect(resumed.progress.status).toBe(ImplementationStatus.Done);
+      expect(await fs.readFile(paths.turnFile(state.turn), "utf8")).toContain(
+        "- [x] **Task 1**: Wire the command",
+      );
+      const usage = await manager.loadUsage(state.sessionId);
+      expect(usage.map((record) => [record.agentId, record.stage])).toEqual([
+        ["builder", "implement"],
+        ["builder", "implement"],
+        ["builder", "implement"],
+      ]);
+    });
+  });
+
+  it("follows PLAN.md edits made while tasks run or wait", async () => {
+    await withTempDir(async (root) => {
+      const { manager, state, paths } = await approvedSession(root);
+      const { runner, adapter } = implementer(manager, ImplementApproval.None, [
+        [false, "Error: rate limit exceeded"],
+      ]);
+
+      const failed = await runner.run(state.sessionId);
+      expect(failed.progress.currentTask).toBe(2);
+
+      // The failed task is dropped and a new one added before retrying
+      await fs.writeFile(
+        paths.turnFile(state.turn),
+        PLAN.replace(
+          "- [ ] **Task 2**: Add the module\n  - **Files:** `src/module.ts` (create)\n  - **Dependencies:** none\n",
+          "",
+        ).replace("Task 2\n", "none\n"),
+        "utf8",
+      );
+      adapter.onRun = async () => {
+        if (adapter.prompts.length === 2) {
+          await fs.appendFile(
+            paths.turnFile(state.turn),
+            "- [ ] **Task 4**: Document it\n  - **Dependencies:** Task 1\n",
+            "utf8",
+          );
+        }
+      };
+      const retried = await runner.run(state.sessionId, { retry: true });
+      expect(retried.ran).toEqual([1, 4]);
+      expect(retried.progress.status).toBe(ImplementationStatus.Done);
+      expect(adapter.prompts[2]).toContain("**Task 4**: Document it");
+    });
+  });
+
+  it("only ticks the checkbox when checking off a hand-formatted task", async () => {
+    await withTempDir(async (root) => {
+      const { manager, state, paths } = await approvedSession(root);
+      const plan = [
+        "## Tasks",
+        "",
+        "- [ ] **Task 1**: Add the module",
+        "    - Files: src/module.ts (create),  src/cli.ts (modify)",
+        "    - **Rationale:**   keeps the CLI thin",
+        "",
+        "      Notes kept as written",
+        "- [ ] **Task 2**: Document it",
+        "    - Depends on: Task 1",
+        "",
+      ].join("\n");
+      await fs.writeFile(paths.turnFile(state.turn), plan, "utf8");
+      const { runner } = implementer(manager, ImplementApproval.Task, [[true, "Added it"]]);
+
+      await runner.run(state.sessionId);
+      await runner.run(state.sessionId, { approve: true });
+      expect(await fs.readFile(paths.turnFile(state.turn), "utf8")).toBe(
+        plan.replace("- [ ] **Task 1**", "- [x] **Task 1**"),
+      );
+    });
+  });
+
+  it("refuses sessions that are not approved", async () => {
+    await withTempDir(async (root) => {
+      const { manager, state } = await approvedSession(root);
+      state.phase = Phase.UserReview;
+      await manager.saveState(state);
+      const { runner } = implementer(manager, ImplementApproval.Task, []);
+      await expect(runner.run(state.sessionId)).rejects.toThrow(
+        "Cannot implement from phase user_review",
+      );
+      await expect(runner.run(state.sessionId, { approve: true })).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "bun:test";
+import { load } from "js-yaml";
+
+import { MIGRATIONS, migrateSession, SCHEMA_VERSION } from "../src/migrations";
+import { AgentStatus, Phase } from "../src/models";
+import { validateSessionToken } from "../src/server/auth";
+import { SessionManager } from "../src/session";
+
+const FIXTURES = path.join(import.meta.dir, "fixtures", "sessions");
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-migrate-"));
+  try {
+    return await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+// A project whose sessions directory holds copies of the named fixtures
+async function fixtureProject(root: string, ...names: string[]): Promise<SessionManager> {
+  const manager = new SessionManager(path.join(root, ".pl4n"));
+  for (const name of names) {
+    await fs.cp(path.join(FIXTURES, name), manager.getPaths(name).root, { recursive: true });
+  }
+  return manager;
+}
+
+async function readState(manager: SessionManager, sessionId: string) {
+  return load(await fs.readFile(manager.getPaths(sessionId).state, "utf8")) as Record<
+    string,
+    unknown
+  >;
+}
+
+describe("migrateSession", () => {
+  it("has one migration for every version before the current one", () => {
+    expect(MIGRATIONS.map((migration) => migration.from)).toEqual(
+      Array.from({ length: SCHEMA_VERSION - 1 }, (_, index) => index + 1),
+    );
+  });
+
+  it("leaves current documents alone and rejects invalid versions", () => {
+    const state = { schema_version: SCHEMA_VERSION, revision: 2 };
+    expect(migrateSession({ meta: {}, state })).toEqual({
+      from: SCHEMA_VERSION,
+      to: SCHEMA_VERSION,
+      applied: [],
+    });
+    expect(state).toEqual({ schema_version: SCHEMA_VERSION, revision: 2 });
+    expect(() => migrateSession({ meta: {}, state: { schema_version: "2" } })).toThrow(
+      "Invalid schema_version: 2",
+    );
+  });
+});
+
+describe("session fixtures", () => {
+  it("loads the original layout", async () => {
+    await withTempDir(async (root) => {
+      const manager = await fixtureProject(root, "v1-original");
+      const state = await manager.loadSession("v1-original");
+      expect(state).toMatchObject({
+        task: "Add a cache to the API client",
+        turn: 2,
+        phase: Phase.UserReview,
+        archived: false,
+        agents: { opus: AgentStatus.Done, codex: AgentStatus.Done },
+        agentPlanIds: { opus: "sunny-glade", codex: "amber-marsh" },
+        agentErrors: {},
+        checkpoints: {},
+        turnSessions: {},
+        revision: 0,
+      });
+      expect(state?.sessionToken).toBeUndefined();
+      // Loading upgrades in memory only
+      expect((await readState(manager, "v1-original")).schema_version).toBeUndefined();
+    });
+  });
+
+  it("gives original sessions one lasting token for the web editor", async () => {
+    await withTempDir(async (root) => {
+      const manager = await fixtureProject(root, "v1-original");
+      const token = await manager.ensureSessionToken("v1-original");
+      expect(await manager.ensureSessionToken("v1-original")).toBe(token);
+      expect(await validateSessionToken("v1-original", token, manager)).toBe(true);
+      expect((await readState(manager, "v1-original")).session_token).toBe(token);
+    });
+  });
+
+  it("loads the layout from before schema versions", async () => {
+    await withTempDir(async (root) => {
+      const manager = await fixtureProject(root, "v2-unversioned");
+      const state = await manager.loadSession("v2-unversioned");
+      expect(state).toMatchObject({
+        turn: 3,
+        phase: Phase.Error,
+        archived: true,
+        sessionToken: "Jx3kQ9vLm2Pw7sTa",
+        agents: { opus: AgentStatus.TimedOut },
+        agentErrors: { opus: "Timed out after 600s" },
+        agentAttempts: { opus: 2 },
+        pipeline: ["draft", "synthesize"],
+        pipelineStep: 0,
+        baseCommit: "4f165f0",
+        agentPids: {},
+        strayEdits: {},
+        revision: 0,
+      });
+      expect((await manager.loadConfigSnapshot("v2-unversioned"))?.agents[0]?.id).toBe("opus");
+    });
+  });
+
+  it("rewrites old layouts at the current version once", async () => {
+    await withTempDir(async (root) => {
+      const manager = await fixtureProject(root, "v1-original", "v2-unversioned");
+
+      const result = await manager.migrateSessionFiles("v1-original");
+      expect(result).toEqual({
+        from: 1,
+        to: SCHEMA_VERSION,
+        applied: MIGRATIONS.map((migration) => migration.description),
+      });
+      const saved = await readState(manager, "v1-original");
+      expect(saved).toMatchObject({
+        schema_version: SCHEMA_VERSION,
+        revision: 1,
+        archived: false,
+        agent_errors: {},
+        lint_issues: {},
+      });
+      expect(saved.session_token).toBeUndefined();
+      expect(await manager.migrateSessionFiles("v1-original")).toMatchObject({ applied: [] });
+      expect((await readState(manager, "v1-original")).revision).toBe(1);
+
+      expect(await manager.migrateSessionFiles("v2-unversioned")).toMatchObject({
+        from: 1,
+        to: SCHEMA_VERSION,
+      });
+      expect(await readState(manager, "v2-unversioned")).toMatchObject({
+        session_token: "Jx3kQ9vLm2Pw7sTa",
+        archived: true,
+        agent_attempts: { opus: 2 },
+        checkpoints: {},
+      });
+      expect(await manager.migrateSessionFiles("missing")).toBeNull();
+    });
+  });
+
+  it("writes the current version when an old session is saved", async () => {
+    await withTempDir(async (root) => {
+      const manager = await fixtureProject(root, "v1-original");
+      const state = await manager.loadSession("v1-original");
+      if (!state) {
+        throw new Error("fixture did not load");
+      }
+      state.phase = Phase.Approved;
+      await manager.saveState(state);
+      expect(await readState(manager, "v1-original")).toMatchObject({
+        schema_version: SCHEMA_VERSION,
+        revision: 1,
+        phase: Phase.Approved,
+      });
+    });
+  });
+
+  it("refuses sessions written by a newer pl4n", async () => {
+    await withTempDir(async (root) => {
+      const manager = await fixtureProject(root, "v4-future", "v1-original");
+      const paths = manager.getPaths("v4-future");
+      const message = `Session schema version 4 is newer than this pl4n supports (${SCHEMA_VERSION}); upgrade pl4n to open it`;
+
+      await expect(manager.loadSession("v4-future")).rejects.toThrow(message);
+      await expect(manager.migrateSessionFiles("v4-future")).rejects.toThrow(message);
+      expect((await manager.listSessions()).map((session) => session.sessionId)).toEqual([
+        "v1-original",
+      ]);
+
+      // A stale copy cannot overwrite it with the older layout either
+      const stale = await manager.loadSession("v1-original");
+      if (!stale) {
+        throw new Error("fixture did not load");
+      }
+      stale.sessionId = "v4-future";
+      await expect(manager.saveState(stale)).rejects.toThrow(message);
+      expect(await fs.readFile(paths.state, "utf8")).toBe(
+        await fs.readFile(path.join(FIXTURES, "v4-future", "state.yaml"), "utf8"),
+      );
+    });
+  });
+});
@@ -3,7 +3,24 @@ import os from "os";
 import path from "path";
 import { describe, expect, it } from "bun:test";
 
-import { AgentStatus, Phase, SessionPaths, SessionState, Pl4nConfig } from "../src/models";
+import {
+  AgentStatus,
+  CommandOutput,
+  ImplementApproval,
+  Isolation,
+  Phase,
+  PipelineStage,
+  SessionPaths,
+  SessionState,
+  Pl4nConfig,
+  ReviewTopology,
+  RunStage,
+} from "../src/models";
+import {
+  DEFAULT_CLAUDE_ALLOWED_TOOLS,
+  DEFAULT_JUDGE_RUBRIC,
+  DEFAULT_RETRY_PATTERNS,
+} from "../src/defaults";
 
 describe("Phase", () => {
   it("has expected values", () => {
@@ -78,6 +95,7 @@ describe("SessionPaths", () => {
     expect(paths.root).toBe(root);
     expect(paths.meta).toBe(path.join(root, "meta.yaml"));
     expect(paths.state).toBe(path.join(root, "state.yaml"));
+    expect(paths.lock).toBe(path.join(root, "state.lock"));
     expect(paths.input).toBe(path.join(root, "input.md"));
     expect(paths.turns).toBe(path.join(root, "turns"));
     expect(paths.agents).toBe(path.join(root, "agents"));
@@ -298,6 +316,527 @@ describe("Pl4nConfig", () => {
     }
   });
 
+  it("parses and round-trips a custom pipeline", () => {
+    const config = Pl4nConfig.fromConfigData(
+      { pipeline: ["draft", "review", "review", "synthesize"] },
+      "inline",
+    );
+    expect(config.pipeline).toEqual([
+      PipelineStage.Draft,
+      PipelineStage.Review,
+      PipelineStage.Review,
+      PipelineStage.Synthesize,
+    ]);
+    expect(config.toConfigDict().pipeline).toEqual(["draft", "review", "review", "synthesize"]);
+
+    const restored = Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot");
+    expect(restored.pipeline).toEqual(config.pipeline);
+  });
+
+  it("omits the default pipeline from the config dict", () => {
+    const config = Pl4nConfig.default();
+    expect(config.pipeline).toEqual([
+      PipelineStage.Draft,
+      PipelineStage.Review,
+      PipelineStage.Synthesize,
+    ]);
+    expect(config.toConfigDict().pipeline).toBeUndefined();
+  });
+
+  it("rejects invalid pipelines", () => {
+    const cases: Array<[unknown, string]> = [
+      [[], "at least one stage"],
+      [["draft", "critique", "synthesize"], "pipeline[1] must be one of"],
+      [["review", "synthesize"], "must start with draft"],
+      [["draft", "draft", "synthesize"], "draft only once"],
+      [["draft", "synthesize", "review"], "end with a single synthesize"],
+      [["draft", "review"], "end with a single synthesize"],
+    ];
+    for (const [pipeline, expected] of cases) {
+      expect(() => Pl4nConfig.fromConfigData({ pipeline }, "inline")).toThrow(expected);
+    }
+  });
+
+  it("parses and round-trips agent and turn timeouts", () => {
+    const config = Pl4nConfig.fromConfigData(
+      {
+        agents: [{ id: "opus", type: "claude", model: "opus", timeout: 600 }],
+        synthesizer: { id: "synth", type: "claude", model: "opus" },
+        turn_timeout: 1800,
+      },
+      "inline",
+    );
+    expect(config.agents[0].timeout).toBe(600);
+    expect(config.synthesizer.timeout).toBeUndefined();
+    expect(config.turnTimeout).toBe(1800);
+
+    const dict = config.toConfigDict();
+    expect(dict.turn_timeout).toBe(1800);
+    const restored = Pl4nConfig.fromConfigData(dict, "snapshot");
+    expect(restored.agents[0].timeout).toBe(600);
+    expect(restored.turnTimeout).toBe(1800);
+    expect(Pl4nConfig.default().toConfigDict().turn_timeout).toBeUndefined();
+  });
+
+  it("parses worktree isolation and round-trips it", () => {
+    const config = Pl4nConfig.fromConfigData({ isolation: "worktree" }, "inline");
+    expect(config.isolation).toBe(Isolation.Worktree);
+    expect(config.toConfigDict().isolation).toBe("worktree");
+    expect(Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot").isolation).toBe(
+      Isolation.Worktree,
+    );
+    expect(Pl4nConfig.default().isolation).toBe(Isolation.None);
+    expect(Pl4nConfig.default().toConfigDict().isolation).toBeUndefined();
+    expect(() => Pl4nConfig.fromConfigData({ isolation: "docker" }, "inline")).toThrow(
+      "isolation must be one of none, worktree",
+    );
+  });
+
+  it("parses plan lint settings and round-trips them", () => {
+    const config = Pl4nConfig.fromConfigData({ lint: { max_fixes: 3 } }, "inline");
+    expect(config.lint).toEqual({ maxFixes: 3 });
+    expect(config.toConfigDict().lint).toEqual({ max_fixes: 3 });
+    expect(Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot").lint).toEqual({
+      maxFixes: 3,
+    });
+    expect(Pl4nConfig.fromConfigData({ lint: {} }, "inline").lint).toEqual({ maxFixes: 1 });
+    expect(Pl4nConfig.default().lint).toBeUndefined();
+    expect(Pl4nConfig.default().toConfigDict().lint).toBeUndefined();
+    expect(() => Pl4nConfig.fromConfigData({ lint: { max_fixes: 0 } }, "inline")).toThrow(
+      "lint.max_fixes must be a positive integer",
+    );
+  });
+
+  it("parses the implement agent and round-trips it", () => {
+    const config = Pl4nConfig.fromConfigData(
+      { implement: { id: "builder", type: "claude", model: "sonnet", approval: "none" } },
+      "inline",
+    );
+    expect(config.implement).toMatchObject({ id: "builder", model: "sonnet", approval: "none" });
+    expect(config.toConfigDict().implement).toMatchObject({ id: "builder", approval: "none" });
+    expect(Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot").implement?.approval).toBe(
+      ImplementApproval.None,
+    );
+    expect(
+      Pl4nConfig.fromConfigData(
+        { implement: { id: "builder", type: "claude", model: "opus" } },
+        "inline",
+      ).implement?.approval,
+    ).toBe(ImplementApproval.Task);
+    expect(Pl4nConfig.default().implement).toBeUndefined();
+    expect(() =>
+      Pl4nConfig.fromConfigData(
+        { implement: { id: "builder", type: "claude", model: "opus", approval: "always" } },
+        "inline",
+      ),
+    ).toThrow("implement.approval must be one of task, none");
+  });
+
+  it("parses retry policies with defaults and round-trips them", () => {
+    const config = Pl4nConfig.fromConfigData(
+      {
+        agents: [
+          { id: "opus", type: "claude", model: "opus", retry: { max_attempts: 4 } },
+          {
+            id: "codex",
+            type: "codex",
+            model: "gpt-5.2-codex",
+            retry: { backoff: 1, multiplier: 3, patterns: ["quota exceeded"] },
+          },
+        ],
+      },
+      "inline",
+    );
+    expect(config.agents[0].retry).toEqual({
+      maxAttempts: 4,
+      backoff: 5,
+      multiplier: 2,
+      patterns: DEFAULT_RETRY_PATTERNS,
+    });
+    expect(config.agents[1].retry).toEqual({
+      maxAttempts: 3,
+      backoff: 1,
+      multiplier: 3,
+      patterns: ["quota exceeded"],
+    });
+    expect(config.synthesizer.retry).toBeUndefined();
+
+    const restored = Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot");
+    expect(restored.agents[1].retry).toEqual(config.agents[1].retry);
+  });
+
+  it("rejects invalid retry policies", () => {
+    const cases: Array<[unknown, string]> = [
+      [{ max_attempts: 0 }, "agents[0].retry.max_attempts must be a positive integer"],
+      [{ backoff: -1 }, "agents[0].retry.backoff must be a non-negative number"],
+      [{ multiplier: 0.5 }, "agents[0].retry.multiplier must be a number of at least 1"],
+      [
+        { patterns: ["(unclosed"] },
+        "agents[0].retry.patterns[0] must be a valid regular expression",
+      ],
+    ];
+    for (const [retry, expected] of cases) {
+      expect(() =>
+        Pl4nConfig.fromConfigData(
+          { agents: [{ id: "opus", type: "claude", model: "opus", retry }] },
+          "inline",
+        ),
+      ).toThrow(expected);
+    }
+  });
+
+  it("parses the review topology and round-trips it", () => {
+    const agents = [
+      { id: "opus", type: "claude", model: "opus" },
+      { id: "codex", type: "codex", model: "gpt-5.2-codex" },
+    ];
+    expect(Pl4nConfig.fromConfigData({ agents }, "inline").review).toEqual({
+      topology: ReviewTopology.Ring,
+    });
+    expect(Pl4nConfig.fromConfigData({ agents }, "inline").toConfigDict().review).toBeUndefined();
+
+    const config = Pl4nConfig.fromConfigData(
+      { agents, review: { topology: "critic", critic: "codex" } },
+      "inline",
+    );
+    expect(config.review).toEqual({ topology: ReviewTopology.Critic, critic: "codex" });
+    const restored = Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot");
+    expect(restored.review).toEqual(config.review);
+  });
+
+  it("rejects invalid review config", () => {
+    const agents = [
+      { id: "opus", type: "claude", model: "opus" },
+      { id: "codex", type: "codex", model: "gpt-5.2-codex", enabled: false },
+    ];
+    const cases: Array<[unknown, string]> = [
+      ["ring", "review must be a mapping"],
+      [{ topology: "star" }, "review.topology must be one of ring, all, critic"],
+      [
+        { topology: "all", critic: "opus" },
+        "review.critic is only valid when review.topology is critic",
+      ],
+      [{ topology: "critic" }, "review.critic must be set when review.topology is critic"],
+      [{ topology: "critic", critic: "codex" }, "review.critic must name an enabled agent: codex"],
+    ];
+    for (const [review, expected] of cases) {
+      expect(() => Pl4nConfig.fromConfigData({ agents, review }, "inline")).toThrow(expected);
+    }
+  });
+
+  it("parses gemini agents with defaults and round-trips them", () => {
+    const config = Pl4nConfig.fromConfigData(
+      {
+        gemini: { sandbox: true },
+        agents: [
+          { id: "gemini", type: "gemini", model: "gemini-2.5-pro" },
+          {
+            id: "flash",
+            type: "gemini",
+            model: "gemini-2.5-flash",
+            gemini: { approval_mode: "yolo", add_dir: ["../shared"] },
+          },
+        ],
+      },
+      "inline",
+    );
+    expect(config.agents[0].gemini).toEqual({
+      approvalMode: "auto_edit",
+      sandbox: true,
+      addDir: undefined,
+    });
+    expect(config.agents[1].gemini).toEqual({
+      approvalMode: "yolo",
+      sandbox: true,
+      addDir: ["../shared"],
+    });
+
+    const restored = Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot");
+    expect(restored.agents).toEqual(config.agents);
+  });
+
+  it("rejects invalid gemini agents", () => {
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [
+        { type: "gemini", gemini: { approval_mode: "always" } },
+        "agents[0].gemini.approval_mode must be one of default, auto_edit, yolo",
+      ],
+      [
+        { type: "gemini", thinking: "high" },
+        "agents[0].thinking is not supported for gemini agents",
+      ],
+      [{ type: "gemini", claude: {} }, "agents[0].claude is not valid for gemini agents"],
+      [{ type: "codex", gemini: {} }, "agents[0].gemini is not valid for codex agents"],
+      [
+        { type: "other", gemini: {} },
+        "agents[0] cannot include claude/codex/gemini config for type other",
+      ],
+    ];
+    for (const [agent, expected] of cases) {
+      expect(() =>
+        Pl4nConfig.fromConfigData({ agents: [{ id: "gemini", model: "m", ...agent }] }, "inline"),
+      ).toThrow(expected);
+    }
+  });
+
+  it("parses openai_http agents and round-trips them", () => {
+    const config = Pl4nConfig.fromConfigData(
+      {
+        agents: [
+          {
+            id: "local",
+            type: "openai_http",
+            model: "qwen2.5-coder",
+            openai_http: {
+              base_url: "http://localhost:8080/v1",
+              api_key_env: "LLAMA_API_KEY",
+              temperature: 0,
+            },
+          },
+        ],
+      },
+      "inline",
+    );
+    expect(config.agents[0].openaiHttp).toEqual({
+      baseUrl: "http://localhost:8080/v1",
+      apiKeyEnv: "LLAMA_API_KEY",
+      temperature: 0,
+    });
+
+    const restored = Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot");
+    expect(restored.agents).toEqual(config.agents);
+  });
+
+  it("rejects invalid openai_http agents", () => {
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [{ type: "openai_http" }, "agents[0].openai_http must be set for openai_http agents"],
+      [
+        { type: "claude", openai_http: { base_url: "http://localhost" } },
+        "agents[0].openai_http is only valid for openai_http agents",
+      ],
+      [
+        { type: "openai_http", openai_http: { base_url: "localhost:8080" } },
+        "agents[0].openai_http.base_url must be an http(s) URL",
+      ],
+      [
+        { type: "openai_http", openai_http: { base_url: "http://localhost", temperature: -1 } },
+        "agents[0].openai_http.temperature must be a non-negative number",
+      ],
+      [
+        { type: "openai_http", thinking: "high", openai_http: { base_url: "http://localhost" } },
+        "agents[0].thinking is not supported for openai_http agents",
+      ],
+    ];
+    for (const [agent, expected] of cases) {
+      expect(() =>
+        Pl4nConfig.fromConfigData({ agents: [{ id: "local", model: "m", ...agent }] }, "inline"),
+      ).toThrow(expected);
+    }
+  });
+
+  it("parses mock agents and round-trips them", () => {
+    const config = Pl4nConfig.fromConfigData(
+      {
+        agents: [
+          { id: "plain", type: "mock", model: "mock" },
+          {
+            id: "flaky",
+            type: "mock",
+            model: "mock",
+            mock: {
+              fixtures: "demo/fixtures",
+              latency: 0.5,
+              failures: [{ stage: "review", turn: 1, attempts: 2, exit_code: 2 }],
+            },
+          },
+        ],
+      },
+      "inline",
+    );
+    expect(config.agents[0].mock).toEqual({ latency: 0, failures: [] });
+    expect(config.agents[1].mock).toEqual({
+      fixtures: "demo/fixtures",
+      latency: 0.5,
+      failures: [
+        {
+          stage: RunStage.Review,
+          turn: 1,
+          attempts: 2,
+          exitCode: 2,
+          message: "Error: mock failure",
+        },
+      ],
+    });
+
+    const restored = Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot");
+    expect(restored.agents).toEqual(config.agents);
+  });
+
+  it("rejects invalid mock agents", () => {
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [{ type: "claude", mock: {} }, "agents[0].mock is only valid for mock agents"],
+      [
+        { type: "mock", mock: { latency: -1 } },
+        "agents[0].mock.latency must be a non-negative number",
+      ],
+      [{ type: "mock", mock: { failures: {} } }, "agents[0].mock.failures must be a list"],
+      [
+        { type: "mock", mock: { failures: [{ stage: "plan" }] } },
+        "agents[0].mock.failures[0].stage must be one of draft, review, critique, judge, synthesize",
+      ],
+      [
+        { type: "mock", mock: { failures: [{ exit_code: 0 }] } },
+        "agents[0].mock.failures[0].exit_code must be an integer from 1 to 255",
+      ],
+      [
+        { type: "mock", mock: { failures: [{ attempts: 0 }] } },
+        "agents[0].mock.failures[0].attempts must be a positive integer",
+      ],
+    ];
+    for (const [agent, expected] of cases) {
+      expect(() =>
+        Pl4nConfig.fromConfigData({ agents: [{ id: "demo", model: "m", ...agent }] }, "inline"),
+      ).toThrow(expected);
+    }
+  });
+
+  it("parses command agents and round-trips them", () => {
+    const config = Pl4nConfig.fromConfigData(
+      {
+        agents: [
+          {
+            id: "aider",
+            type: "command",
+            model: "sonnet",
+            command: {
+              argv: ["aider", "--model", "{model}", "{resume}", "--message", "{prompt}"],
+              resume_argv: ["--restore-chat-history", "{session_id}"],
+              output: "json",
+              output_path: "result.text",
+              session_id_path: "session.id",
+            },
+          },
+          { id: "wrapper", type: "command", model: "in-house", command: { argv: ["plan-bot"] } },
+        ],
+      },
+      "inline",
+    );
+    expect(config.agents[0].command).toEqual({
+      argv: ["aider", "--model", "{model}", "{resume}", "--message", "{prompt}"],
+      resumeArgv: ["--restore-chat-history", "{session_id}"],
+      output: CommandOutput.Json,
+      outputPath: "result.text",
+      sessionIdPath: "session.id",
+      sessionIdPattern: undefined,
+    });
+    expect(config.agents[1].command?.output).toBe(CommandOutput.Text);
+
+    const restored = Pl4nConfig.fromConfigData(config.toConfigDict(), "snapshot");
+    expect(restored.agents).toEqual(config.agents);
+  });
+
+  it("rejects invalid command agents", () => {
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [{ type: "command" }, "agents[0].command must be set for command agents"],
+      [
+        { type: "claude", command: { argv: ["x"] } },
+        "agents[0].command is only valid for command agents",
+      ],
+      [
+        { type: "command", command: { argv: [] } },
+        "agents[0].command.argv must include at least one entry",
+      ],
+      [
+        { type: "command", command: { argv: ["x", "{promt}"] } },
+        "agents[0].command.argv[1] uses unknown placeholder {promt}",
+      ],
+      [
+        { type: "command", command: { argv: ["x"], output: "xml" } },
+        "agents[0].command.output must be one of text, json, jsonl",
+      ],
+      [
+        { type: "command", command: { argv: ["x"], output: "jsonl" } },
+        "agents[0].command.output_path must be set for jsonl output",
+      ],
+      [
+        { type: "command", command: { argv: ["x"], output_path: "result" } },
+        "agents[0].command.output_path is only valid for json and jsonl output",
+      ],
+      [
+        { type: "command", command: { argv: ["x"], resume_argv: ["--resume"] } },
+        "agents[0].command.resume_argv must use {session_id}",
+      ],
+      [
+        { type: "command", command: { argv: ["x"], resume_argv: ["--resume", "{session_id}"] } },
+        "agents[0].command.resume_argv requires session_id_path or session_id_pattern",
+      ],
+      [
+        { type: "command", command: { argv: ["x"], session_id_pattern: "(" } },
+        "agents[0].command.session_id_pattern must be a valid regular expression",
+      ],
+    ];
+    for (const [agent, expected] of cases) {
+      expect(() =>
+        Pl4nConfig.fromConfigData({ agents: [{ id: "tool", model: "m", ...agent }] }, "inline"),
+      ).toThrow(expected);
+    }
+  });
+
+  it("parses the judge with a default rubric and round-trips it", () => {
+    expect(Pl4nConfig.default().judge).toBeUndefined();
+    expect(Pl4nConfig.default().toConfigDict().judge).toBeUndefined();
+
+    const config = Pl4nConfig.fromConfigData(
+      { judge: { id: "judge", type: "claude", model: "opus" } },
+      "inline",
+    );
+    expect(config.judge?.rubric).toEqual(DEFAULT_JUDGE_RUBRIC);
+    expect(config.judge?.claude?.allowedTools).toEqual(DEFAULT_CLAUDE_ALLOWED_TOOLS);
+
+    const custom = Pl4nConfig.fromConfigData(
+      {
+        judge: {
+          id: "judge",
+          type: "codex",
+          model: "gpt-5.2-codex",
+          rubric: { testability: "Says how each task is verified" },
+        },
+      },
+      "inline",
+    );
+    expect(custom.judge?.rubric).toEqual({ testability: "Says how each task is verified" });
+    const restored = Pl4nConfig.fromConfigData(custom.toConfigDict(), "snapshot");
+    expect(restored.judge).toEqual(custom.judge);
+  });
+
+  it("rejects invalid judge rubrics", () => {
+    const cases: Array<[unknown, string]> = [
+      [["completeness"], "judge.rubric must be a mapping of criterion to description"],
+      [{}, "judge.rubric must include at least one criterion"],
+      [{ completeness: 10 }, "judge.rubric.completeness must be a non-empty string"],
+    ];
+    for (const [rubric, expected] of cases) {
+      expect(() =>
+        Pl4nConfig.fromConfigData(
+          { judge: { id: "judge", type: "claude", model: "opus", rubric } },
+          "inline",
+        ),
+      ).toThrow(expected);
+    }
+  });
+
+  it("rejects non-positive timeouts", () => {
+    expect(() => Pl4nConfig.fromConfigData({ turn_timeout: 0 }, "inline")).toThrow(
+      "turn_timeout must be a positive number",
+    );
+    expect(() =>
+      Pl4nConfig.fromConfigData(
+        { agents: [{ id: "opus", type: "claude", model: "opus", timeout: "10m" }] },
+        "inline",
+      ),
+    ).toThrow("agents[0].timeout must be a positive number");
+  });
+
   it("rejects invalid config", async () => {
     const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-config-"));
     const pl4nDir = path.join(root, ".pl4n");
@@ -4,8 +4,16 @@ import path from "path";
 import { describe, expect, it } from "bun:test";
 
 import { AgentHandle, AgentAdapter } from "../src/adapters/base";
-import type { AgentConfig } from "../src/models";
-import { Phase, Pl4nConfig } from "../src/models";
+import type { AgentConfig, MockFailure } from "../src/models";
+import {
+  AgentStatus,
+  Isolation,
+  Phase,
+  PipelineStage,
+  Pl4nConfig,
+  ReviewTopology,
+  RunStage,
+} from "../src/models";
 import { TurnOrchestrator } from "../src/orchestrator";
 import { SessionManager } from "../src/session";
 
@@ -82,6 +90,76 @@ class StubAdapter extends AgentAdapter {
   }
 }
 
+class RecordingAdapter extends AgentAdapter {
+  readonly prompts: string[] = [];
+  private readonly responses: string[];
+
+  constructor(config: AgentConfig, responses: string[]) {
+    super(config);
+    this.responses = responses;
+  }
+
+  spawn(): AgentHandle {
+    throw new Error("RecordingAdapter.spawn is not implemented");
+  }
+
+  async runSync(params: { prompt: string }): Promise<[boolean, string]> {
+    this.prompts.push(params.prompt);
+    return [true, this.responses[Math.min(this.prompts.length, this.responses.length) - 1]];
+  }
+
+  getName(): string {
+    return `RecordingAdapter(${this.config.id})`;
+  }
+}
+
+// Never finishes on its own; only returns once the orchestrator cancels the run
+class HangingAdapter extends AgentAdapter {
+  spawn(): AgentHandle {
+    throw new Error("HangingAdapter.spawn is not implemented");
+  }
+
+  async runSync(params: { signal?: AbortSignal }): Promise<[boolean, string]> {
+    const signal = params.signal;
+    if (!signal) {
+      throw new Error("HangingAdapter requires a signal");
+    }
+    await new Promise<void>((resolve) => signal.addEventListener("abort", () => resolve()));
+    return [false, "terminated"];
+  }
+
+  getName(): string {
+    return `HangingAdapter(${this.config.id})`;
+  }
+}
+
+// Writes its plan like a write-enabled CLI, and also edits a tracked file it should not touch
+class EditingAdapter extends AgentAdapter {
+  readonly worktrees: string[] = [];
+
+  spawn(): AgentHandle {
+    throw new Error("EditingAdapter.spawn is not implemented");
+  }
+
+  async runSync(params: { worktree: string; outputFile: string }): Promise<[boolean, string]> {
+    this.worktrees.push(params.worktree);
+    await fs.writeFile(path.join(params.worktree, "README.md"), "# Rewritten\n", "utf8");
+    await fs.writeFile(params.outputFile, `# Plan from ${this.config.id}`, "utf8");
+    return [true, ""];
+  }
+
+  getName(): string {
+    return `EditingAdapter(${this.config.id})`;
+  }
+}
+
+function git(cwd: string, ...args: string[]): void {
+  const result = Bun.spawnSync({ cmd: ["git", ...args], cwd, stdout: "ignore", stderr: "pipe" });
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args.join(" ")} failed: ${result.stderr.toString()}`);
+  }
+}
+
 describe("TurnOrchestrator", () => {
   it("runs a turn and writes outputs", async () => {
     await withTempDir(async (root) => {
@@ -345,6 +423,839 @@ for (const line of lines) {
     });
   });
 
+  it("skips peer review when the pipeline omits it", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      const adapter = new StubAdapter(agentConfig, [
+        [true, "# Draft plan"],
+        [true, "# Unexpected review"],
+      ]);
+      orchestrator.adapters = { opus: adapter };
+
+      const success = await orchestrator.runTurn(state.sessionId);
+      expect(success).toBe(true);
+
+      const paths = manager.getPaths(state.sessionId);
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("# Draft plan");
+      const snapshots = await fs.readdir(paths.turnSnapshotDir(1));
+      expect(snapshots.some((name) => name.includes("reviewed"))).toBe(false);
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.phase).toBe(Phase.UserReview);
+      expect(updated?.pipeline).toEqual([PipelineStage.Draft, PipelineStage.Synthesize]);
+      expect(updated?.pipelineStep).toBeUndefined();
+    });
+  });
+
+  it("runs extra review rounds with their own snapshots", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        pipeline: [
+          PipelineStage.Draft,
+          PipelineStage.Review,
+          PipelineStage.Review,
+          PipelineStage.Synthesize,
+        ],
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      orchestrator.adapters = {
+        opus: new StubAdapter(agentConfig, [
+          [true, "# Draft plan"],
+          [true, "# Review one"],
+          [true, "# Review two"],
+        ]),
+      };
+
+      const success = await orchestrator.runTurn(state.sessionId);
+      expect(success).toBe(true);
+
+      const updated = await manager.loadSession(state.sessionId);
+      const planId = updated?.agentPlanIds.opus ?? "";
+      const paths = manager.getPaths(state.sessionId);
+      const snapshotDir = paths.turnSnapshotDir(1);
+      expect(await fs.readFile(path.join(snapshotDir, `${planId}-draft.md`), "utf8")).toBe(
+        "# Draft plan",
+      );
+      expect(await fs.readFile(path.join(snapshotDir, `${planId}-reviewed.md`), "utf8")).toBe(
+        "# Review one",
+      );
+      expect(await fs.readFile(path.join(snapshotDir, `${planId}-reviewed-2.md`), "utf8")).toBe(
+        "# Review two",
+      );
+      expect(await fs.readFile(path.join(snapshotDir, "synthesis.md"), "utf8")).toBe(
+        "# Review two",
+      );
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("# Review two");
+    });
+  });
+
+  it("shows every peer draft in an all-to-all review", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(path.join(binDir, "claude"), "#!/usr/bin/env bun\nprocess.exit(1);\n");
+
+      await withPatchedPath(binDir, async () => {
+        const manager = new SessionManager(path.join(root, ".pl4n-test"));
+        const state = await manager.createSession("Test task");
+        state.phase = Phase.Drafting;
+        await manager.saveState(state);
+
+        const ids = ["alpha", "beta", "gamma"];
+        const agentConfigs: AgentConfig[] = ids.map((id) => ({
+          id,
+          type: "claude",
+          model: "stub",
+        }));
+        const config = new Pl4nConfig({
+          agents: agentConfigs,
+          synthesizer: { id: "synth", type: "claude", model: "stub" },
+          review: { topology: ReviewTopology.All },
+        });
+        const orchestrator = new TurnOrchestrator(manager, config);
+        const adapters = agentConfigs.map(
+          (agentConfig) =>
+            new RecordingAdapter(agentConfig, [
+              `# Draft ${agentConfig.id}`,
+              `# Final ${agentConfig.id}`,
+            ]),
+        );
+        orchestrator.adapters = Object.fromEntries(ids.map((id, index) => [id, adapters[index]]));
+
+        expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+        const planIds = (await manager.loadSession(state.sessionId))?.agentPlanIds ?? {};
+        for (const [index, id] of ids.entries()) {
+          const reviewPrompt = adapters[index].prompts[1];
+          expect(reviewPrompt).toContain("review your peers' drafts");
+          for (const peerId of ids.filter((other) => other !== id)) {
+            expect(reviewPrompt).toContain(
+              `## Peer's Draft (${planIds[peerId]})\n# Draft ${peerId}`,
+            );
+          }
+          expect(reviewPrompt).not.toContain(`## Peer's Draft (${planIds[id]})`);
+        }
+      });
+    });
+  });
+
+  it("has a designated critic review all drafts for the others to revise", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(path.join(binDir, "claude"), "#!/usr/bin/env bun\nprocess.exit(1);\n");
+
+      await withPatchedPath(binDir, async () => {
+        const manager = new SessionManager(path.join(root, ".pl4n-test"));
+        const state = await manager.createSession("Test task");
+        state.phase = Phase.Drafting;
+        await manager.saveState(state);
+
+        const ids = ["alpha", "beta", "judge"];
+        const agentConfigs: AgentConfig[] = ids.map((id) => ({
+          id,
+          type: "claude",
+          model: "stub",
+        }));
+        const config = new Pl4nConfig({
+          agents: agentConfigs,
+          synthesizer: { id: "synth", type: "claude", model: "stub" },
+          review: { topology: ReviewTopology.Critic, critic: "judge" },
+        });
+        const orchestrator = new TurnOrchestrator(manager, config);
+        const alpha = new RecordingAdapter(agentConfigs[0], ["# Draft alpha", "# Final alpha"]);
+        const beta = new RecordingAdapter(agentConfigs[1], ["# Draft beta", "# Final beta"]);
+        const judge = new RecordingAdapter(agentConfigs[2], [
+          "# Draft judge",
+          "Beta misses caching",
+        ]);
+        orchestrator.adapters = { alpha, beta, judge };
+
+        expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+        const updated = await manager.loadSession(state.sessionId);
+        const planIds = updated?.agentPlanIds ?? {};
+        expect(judge.prompts).toHaveLength(2);
+        expect(judge.prompts[1]).toContain("# Critique Task");
+        for (const id of ids) {
+          expect(judge.prompts[1]).toContain(`## Draft (${planIds[id]})\n# Draft ${id}`);
+        }
+        for (const adapter of [alpha, beta]) {
+          expect(adapter.prompts[1]).toContain(
+            `## Critique (${planIds.judge})\nBeta misses caching`,
+          );
+        }
+
+        const paths = manager.getPaths(state.sessionId);
+        const snapshotDir = paths.turnSnapshotDir(1);
+        expect(await fs.readFile(path.join(snapshotDir, "critique.md"), "utf8")).toBe(
+          "Beta misses caching",
+        );
+        expect(
+          await fs.readFile(path.join(snapshotDir, `${planIds.beta}-reviewed.md`), "utf8"),
+        ).toBe("# Final beta");
+        // The critic keeps its draft rather than revising it
+        expect(await fileExists(path.join(snapshotDir, `${planIds.judge}-reviewed.md`))).toBe(
+          false,
+        );
+        const turn = await fs.readFile(paths.turnFile(1), "utf8");
+        expect(turn).toContain("# Final alpha");
+        expect(turn).toContain("# Draft judge");
+        expect(updated?.agents.judge).toBe(AgentStatus.Done);
+      });
+    });
+  });
+
+  it("has the judge score plans and passes the scores to synthesis", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      const synthPromptFile = path.join(root, "synth-prompt.txt");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(
+        path.join(binDir, "claude"),
+        `#!/usr/bin/env bun
+const args = process.argv.slice(2);
+await Bun.write(${JSON.stringify(synthPromptFile)}, args[args.indexOf("-p") + 1]);
+process.exit(1);
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const manager = new SessionManager(path.join(root, ".pl4n-test"));
+        const state = await manager.createSession("Test task");
+        state.phase = Phase.Drafting;
+        state.agentPlanIds = { alpha: "sunny-glade", beta: "amber-marsh" };
+        await manager.saveState(state);
+
+        const agentConfigs: AgentConfig[] = ["alpha", "beta"].map((id) => ({
+          id,
+          type: "claude",
+          model: "stub",
+        }));
+        const judgeConfig = {
+          id: "judge",
+          type: "claude",
+          model: "stub",
+          rubric: { completeness: "Covers the task", risk_coverage: "Names the risks" },
+        };
+        const config = new Pl4nConfig({
+          agents: agentConfigs,
+          synthesizer: { id: "synth", type: "claude", model: "stub" },
+          pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+          judge: judgeConfig,
+        });
+        const orchestrator = new TurnOrchestrator(manager, config);
+        orchestrator.adapters = {
+          alpha: new RecordingAdapter(agentConfigs[0], ["# Plan alpha"]),
+          beta: new RecordingAdapter(agentConfigs[1], ["# Plan beta"]),
+        };
+        const judge = new RecordingAdapter(judgeConfig, [
+          [
+            "Scores:",
+            "```json",
+            JSON.stringify({
+              "sunny-glade": { scores: { completeness: 9, risk_coverage: 12 }, notes: "Thorough" },
+              "amber-marsh": { scores: { completeness: 6, risk_coverage: 7, style: 10 } },
+              "unknown-plan": { scores: { completeness: 10 } },
+            }),
+            "```",
+          ].join("\n"),
+        ]);
+        orchestrator.judgeAdapter = judge;
+
+        expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+        expect(judge.prompts[0]).toContain("## Plan (sunny-glade)\n# Plan alpha");
+        expect(judge.prompts[0]).toContain("- **risk_coverage**: Names the risks");
+
+        const expected = {
+          alpha: {
+            plan_id: "sunny-glade",
+            criteria: { completeness: 9, risk_coverage: 10 },
+            total: 19,
+            notes: "Thorough",
+          },
+          beta: {
+            plan_id: "amber-marsh",
+            criteria: { completeness: 6, risk_coverage: 7 },
+            total: 13,
+          },
+        };
+        const paths = manager.getPaths(state.sessionId);
+        expect(JSON.parse(await fs.readFile(paths.turnScoresFile(1), "utf8"))).toEqual(expected);
+        expect(Object.keys(await manager.loadScores(state.sessionId))).toEqual(["1"]);
+
+        const synthPrompt = await fs.readFile(synthPromptFile, "utf8");
+        expect(synthPrompt).toContain("| alpha | 9 | 10 | 19 |");
+        expect(synthPrompt).toContain("| beta | 6 | 7 | 13 |");
+        expect(synthPrompt).toContain("- **alpha**: Thorough");
+      });
+    });
+  });
+
+  it("verifies file references for synthesis and writes the turn's verify sidecar", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      const synthPromptFile = path.join(root, "synth-prompt.txt");
+      await fs.mkdir(binDir, { recursive: true });
+      await fs.mkdir(path.join(root, "src"), { recursive: true });
+      await fs.writeFile(path.join(root, "src", "existing.ts"), "export {};\n", "utf8");
+      await writeExecutable(
+        path.join(binDir, "claude"),
+        `#!/usr/bin/env bun
+const args = process.argv.slice(2);
+await Bun.write(${JSON.stringify(synthPromptFile)}, args[args.indexOf("-p") + 1]);
+process.exit(1);
+`,
+      );
+
+      await withPatchedPath(binDir, async () => {
+        const manager = new SessionManager(path.join(root, ".pl4n-test"));
+        const state = await manager.createSession("Test task");
+        state.phase = Phase.Drafting;
+        await manager.saveState(state);
+
+        const agentConfigs: AgentConfig[] = ["alpha", "beta"].map((id) => ({
+          id,
+          type: "claude",
+          model: "stub",
+        }));
+        const config = new Pl4nConfig({
+          agents: agentConfigs,
+          synthesizer: { id: "synth", type: "claude", model: "stub" },
+          pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+        });
+        const orchestrator = new TurnOrchestrator(manager, config);
+        orchestrator.adapters = {
+          alpha: new RecordingAdapter(agentConfigs[0], [
+            "## Tasks\n\n- [ ] **Task 1**: Fix it\n  - **Files:** `src/missing.ts` (modify)\n" +
+              "- [ ] **Task 2**: Add it\n  - **Files:** `src/existing.ts` (create)\n",
+          ]),
+          beta: new RecordingAdapter(agentConfigs[1], [
+            "## Tasks\n\n- [ ] **Task 1**: Edit it\n  - **Files:** `src/existing.ts` (modify)\n",
+          ]),
+        };
+
+        expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+        const synthPrompt = await fs.readFile(synthPromptFile, "utf8");
+        expect(synthPrompt).toContain(
+          "## Reference Check\n\nThese files and symbols referenced by the plans did not check out " +
+            "against the project:\n\n### alpha\n- Task 1: src/missing.ts does not exist\n" +
+            "- Task 2: src/existing.ts is marked create but already exists\n",
+        );
+        expect(synthPrompt).not.toContain("### beta\n- Task");
+
+        const paths = manager.getPaths(state.sessionId);
+        const verification = JSON.parse(await fs.readFile(paths.turnVerifyFile(1), "utf8"));
+        expect(verification.turn).toBe(1);
+        expect(verification.files_checked).toBe(3);
+        expect(
+          verification.findings.map((finding: { problem: string }) => finding.problem),
+        ).toEqual(["missing", "already-exists"]);
+      });
+    });
+  });
+
+  it("synthesizes without scores when the judge output is unusable", async () => {
+    await withTempDir(async (root) => {
+      const binDir = path.join(root, "bin");
+      await fs.mkdir(binDir, { recursive: true });
+      await writeExecutable(path.join(binDir, "claude"), "#!/usr/bin/env bun\nprocess.exit(1);\n");
+
+      await withPatchedPath(binDir, async () => {
+        const manager = new SessionManager(path.join(root, ".pl4n-test"));
+        const state = await manager.createSession("Test task");
+        state.phase = Phase.Drafting;
+        await manager.saveState(state);
+
+        const agentConfigs: AgentConfig[] = ["alpha", "beta"].map((id) => ({
+          id,
+          type: "claude",
+          model: "stub",
+        }));
+        const judgeConfig = {
+          id: "judge",
+          type: "claude",
+          model: "stub",
+          rubric: { completeness: "" },
+        };
+        const config = new Pl4nConfig({
+          agents: agentConfigs,
+          synthesizer: { id: "synth", type: "claude", model: "stub" },
+          pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+          judge: judgeConfig,
+        });
+        const orchestrator = new TurnOrchestrator(manager, config);
+        orchestrator.adapters = {
+          alpha: new RecordingAdapter(agentConfigs[0], ["# Plan alpha"]),
+          beta: new RecordingAdapter(agentConfigs[1], ["# Plan beta"]),
+        };
+        orchestrator.judgeAdapter = new RecordingAdapter(judgeConfig, ["Both plans look fine"]);
+
+        expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+        const paths = manager.getPaths(state.sessionId);
+        expect(await fileExists(paths.turnScoresFile(1))).toBe(false);
+        expect(await fs.readFile(paths.agentLogFile("judge"), "utf8")).toContain(
+          "Could not parse judge scores",
+        );
+        expect(await fs.readFile(paths.turnFile(1), "utf8")).toContain("Combined from agents");
+      });
+    });
+  });
+
+  it("runs a fully offline ensemble against an OpenAI-compatible server", async () => {
+    await withTempDir(async (root) => {
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const { model, messages } = (await req.json()) as {
+            model: string;
+            messages: Array<{ content: string }>;
+          };
+          const prompt = messages[messages.length - 1].content;
+          const stage = prompt.startsWith("# Synthesis Task")
+            ? "synthesis"
+            : prompt.startsWith("# Peer Review Task")
+              ? "reviewed"
+              : "draft";
+          return Response.json({
+            choices: [{ message: { role: "assistant", content: `# ${model} ${stage}` } }],
+          });
+        },
+      });
+      try {
+        const manager = new SessionManager(path.join(root, ".pl4n-test"));
+        const state = await manager.createSession("Test task");
+        state.phase = Phase.Drafting;
+        await manager.saveState(state);
+
+        const localAgent = (id: string): AgentConfig => ({
+          id,
+          type: "openai_http",
+          model: id,
+          openaiHttp: { baseUrl: `http://localhost:${server.port}/v1` },
+        });
+        const config = new Pl4nConfig({
+          agents: [localAgent("llama"), localAgent("qwen")],
+          synthesizer: localAgent("mistral"),
+        });
+        const orchestrator = new TurnOrchestrator(manager, config);
+
+        expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+        const paths = manager.getPaths(state.sessionId);
+        expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("# mistral synthesis");
+        const planIds = (await manager.loadSession(state.sessionId))?.agentPlanIds ?? {};
+        const history = JSON.parse(
+          await fs.readFile(path.join(paths.agentDir(planIds.llama), "history.json"), "utf8"),
+        ) as Array<{ content: string }>;
+        expect(history.map((message) => message.content).filter((_, i) => i % 2 === 1)).toEqual([
+          "# llama draft",
+          "# llama reviewed",
+        ]);
+      } finally {
+        server.stop(true);
+      }
+    });
+  });
+
+  it("runs a scripted mock ensemble with fixtures and a retried failure", async () => {
+    await withTempDir(async (root) => {
+      const fixtures = path.join(root, "fixtures");
+      await fs.mkdir(fixtures, { recursive: true });
+      await fs.writeFile(path.join(fixtures, "draft.md"), "# Mock draft", "utf8");
+      await fs.writeFile(path.join(fixtures, "review.md"), "# Mock review", "utf8");
+      await fs.writeFile(path.join(fixtures, "synthesize.md"), "# Mock synthesis", "utf8");
+
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const mockAgent = (id: string, failures: MockFailure[] = []): AgentConfig => ({
+        id,
+        type: "mock",
+        model: "mock",
+        mock: { fixtures: "fixtures", latency: 0, failures },
+        retry: { maxAttempts: 2, backoff: 0, multiplier: 1, patterns: ["rate limit"] },
+      });
+      const config = new Pl4nConfig({
+        agents: [
+          mockAgent("alpha"),
+          mockAgent("beta", [
+            { stage: RunStage.Review, attempts: 1, exitCode: 1, message: "Error: rate limit" },
+          ]),
+        ],
+        synthesizer: mockAgent("synth"),
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+
+      expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+      const paths = manager.getPaths(state.sessionId);
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("# Mock synthesis");
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.agents).toEqual({
+        alpha: AgentStatus.Done,
+        beta: AgentStatus.Done,
+      });
+      expect(updated?.agentAttempts.beta).toBe(2);
+
+      const usage = await manager.loadUsage(state.sessionId);
+      expect(usage.map((record) => record.stage)).toEqual([
+        RunStage.Draft,
+        RunStage.Draft,
+        RunStage.Review,
+        RunStage.Review,
+        RunStage.Review,
+        RunStage.Synthesize,
+      ]);
+      expect(usage.every((record) => record.turn === 1)).toBe(true);
+      // The injected failure exits before the mock reports usage
+      expect(usage.filter((record) => record.usage === undefined)).toHaveLength(1);
+    });
+  });
+
+  it("asks agents to fix plan lint violations and records what is left", async () => {
+    await withTempDir(async (root) => {
+      const validPlan =
+        "## Background\nx\n\n## Summary\ny\n\n## Tasks\n\n- [ ] **Task 1**: Do it\n";
+      const fixtures = path.join(root, "fixtures");
+      await fs.mkdir(fixtures, { recursive: true });
+      await fs.writeFile(path.join(fixtures, "synthesize.md"), validPlan, "utf8");
+
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const opusConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const codexConfig: AgentConfig = { id: "codex", type: "codex", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [opusConfig, codexConfig],
+        synthesizer: {
+          id: "synth",
+          type: "mock",
+          model: "mock",
+          mock: { fixtures: "fixtures", latency: 0, failures: [] },
+        },
+        pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+        lint: { maxFixes: 2 },
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      const opus = new RecordingAdapter(opusConfig, ["## Summary\ny\n", validPlan]);
+      const codex = new RecordingAdapter(codexConfig, ["## Summary\ny\n"]);
+      orchestrator.adapters = { opus, codex };
+
+      expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+      expect(opus.prompts).toHaveLength(2);
+      expect(opus.prompts[1]).toContain("# Format Fix Task");
+      expect(opus.prompts[1]).toContain("- Missing ## Tasks section (missing-section)");
+      expect(codex.prompts).toHaveLength(3);
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.lintIssues).toEqual({
+        codex: ["Missing ## Background and Context section", "Missing ## Tasks section"],
+      });
+      const paths = manager.getPaths(state.sessionId);
+      const opusLog = await fs.readFile(
+        paths.agentLogFile(updated?.agentPlanIds.opus ?? ""),
+        "utf8",
+      );
+      expect(opusLog).toContain("[pl4n] Plan lint found 2 issue(s), asking for fix 1/2");
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe(validPlan);
+    });
+  });
+
+  it("runs agents in throwaway worktrees and reports stray edits", async () => {
+    await withTempDir(async (root) => {
+      git(root, "init", "-q");
+      git(root, "config", "user.email", "test@example.com");
+      git(root, "config", "user.name", "Test");
+      await fs.writeFile(path.join(root, "README.md"), "# Original\n", "utf8");
+      await fs.writeFile(path.join(root, ".gitignore"), ".pl4n/\n", "utf8");
+      git(root, "add", ".");
+      git(root, "commit", "-q", "-m", "init");
+
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await manager.createSession("Test task");
+      expect(state.baseCommit).toMatch(/^[0-9a-f]{40}$/);
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+        isolation: Isolation.Worktree,
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      const adapter = new EditingAdapter(agentConfig);
+      orchestrator.adapters = { opus: adapter };
+
+      expect(await orchestrator.runTurn(state.sessionId)).toBe(true);
+
+      const paths = manager.getPaths(state.sessionId);
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("# Plan from opus");
+      expect(await fs.readFile(path.join(root, "README.md"), "utf8")).toBe("# Original\n");
+      expect(adapter.worktrees).toHaveLength(1);
+      expect(adapter.worktrees[0]).not.toBe(root);
+      expect(await fileExists(adapter.worktrees[0])).toBe(false);
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.strayEdits).toEqual({ opus: ["README.md"] });
+      const planId = updated?.agentPlanIds.opus ?? "";
+      expect(await fs.readFile(paths.agentLogFile(planId), "utf8")).toContain(
+        "Discarded edits outside the plan file: README.md",
+      );
+    });
+  });
+
+  it("fails isolated agents outside a git repository", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        isolation: Isolation.Worktree,
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      orchestrator.adapters = { opus: new EditingAdapter(agentConfig) };
+
+      expect(await orchestrator.runTurn(state.sessionId)).toBe(false);
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.agentErrors.opus).toContain("requires a git repository");
+    });
+  });
+
+  it("resumes an interrupted turn from its checkpoints", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      const paths = manager.getPaths(state.sessionId);
+
+      // Simulate a runner that died during peer review after opus finished its draft
+      const draftSnapshot = path.join(paths.turnSnapshotDir(1), "sunny-glade-draft.md");
+      await fs.mkdir(path.dirname(draftSnapshot), { recursive: true });
+      await fs.writeFile(draftSnapshot, "# Checkpointed draft", "utf8");
+      state.phase = Phase.PeerReview;
+      state.agentPlanIds = { opus: "sunny-glade" };
+      state.pipeline = [PipelineStage.Draft, PipelineStage.Review, PipelineStage.Synthesize];
+      state.pipelineStep = 1;
+      state.checkpoints = { "0": { opus: path.relative(paths.root, draftSnapshot) } };
+      await manager.saveState(state);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      const adapter = new StubAdapter(agentConfig, [[true, "# Reviewed plan"]]);
+      orchestrator.adapters = { opus: adapter };
+
+      const success = await orchestrator.runTurn(state.sessionId, { resume: true });
+      expect(success).toBe(true);
+      expect((adapter as unknown as { callCount: number }).callCount).toBe(1);
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("# Reviewed plan");
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.phase).toBe(Phase.UserReview);
+      expect(updated?.checkpoints).toEqual({});
+      expect(updated?.runnerPid).toBeUndefined();
+    });
+  });
+
+  it("records checkpoints as agents finish", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      const checkpoints: Array<Record<string, Record<string, string>>> = [];
+      orchestrator.adapters = {
+        opus: new (class extends StubAdapter {
+          async runSync(): Promise<[boolean, string]> {
+            const current = await manager.loadSession(state.sessionId);
+            checkpoints.push({ ...current?.checkpoints });
+            return await super.runSync();
+          }
+        })(agentConfig, [[true, "# Plan"]]),
+      };
+
+      const success = await orchestrator.runTurn(state.sessionId);
+      expect(success).toBe(true);
+
+      // The review run sees the finished draft already checkpointed
+      expect(checkpoints[0]).toEqual({});
+      const planId = (await manager.loadSession(state.sessionId))?.agentPlanIds.opus;
+      expect(checkpoints[1]).toEqual({ "0": { opus: `turns/001/${planId}-draft.md` } });
+    });
+  });
+
+  it("marks agents that exceed their timeout and continues with the rest", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const fastConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const slowConfig: AgentConfig = { id: "codex", type: "codex", model: "stub", timeout: 0.05 };
+      const config = new Pl4nConfig({
+        agents: [fastConfig, slowConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      orchestrator.adapters = {
+        opus: new StubAdapter(fastConfig, [[true, "# Fast plan"]]),
+        codex: new HangingAdapter(slowConfig),
+      };
+
+      const success = await orchestrator.runTurn(state.sessionId);
+      expect(success).toBe(true);
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.phase).toBe(Phase.UserReview);
+      expect(updated?.agents).toEqual({ opus: AgentStatus.Done, codex: AgentStatus.TimedOut });
+      expect(updated?.agentErrors.codex).toBe("Timed out after 0.05s");
+      expect(updated?.agentPids).toEqual({});
+      const paths = manager.getPaths(state.sessionId);
+      expect(await fs.readFile(paths.turnFile(1), "utf8")).toBe("# Fast plan");
+    });
+  });
+
+  it("retries transient agent failures and logs each attempt", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const retry = { maxAttempts: 3, backoff: 0, multiplier: 2, patterns: ["rate.?limit"] };
+      const flakyConfig: AgentConfig = { id: "opus", type: "claude", model: "stub", retry };
+      const brokenConfig: AgentConfig = { id: "codex", type: "codex", model: "stub", retry };
+      const config = new Pl4nConfig({
+        agents: [flakyConfig, brokenConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      const flaky = new StubAdapter(flakyConfig, [
+        [false, "Error: rate limit exceeded"],
+        [true, "# Plan after retry"],
+      ]);
+      const broken = new StubAdapter(brokenConfig, [[false, "error: invalid option --foo"]]);
+      orchestrator.adapters = { opus: flaky, codex: broken };
+
+      const success = await orchestrator.runTurn(state.sessionId);
+      expect(success).toBe(true);
+      expect((flaky as unknown as { callCount: number }).callCount).toBe(2);
+      // Failures that don't match a retry pattern are not retried
+      expect((broken as unknown as { callCount: number }).callCount).toBe(1);
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.agents).toEqual({ opus: AgentStatus.Done, codex: AgentStatus.Error });
+      expect(updated?.agentAttempts).toEqual({ opus: 2, codex: 1 });
+      expect(updated?.agentErrors).toEqual({ codex: "error: invalid option --foo" });
+
+      const paths = manager.getPaths(state.sessionId);
+      const log = await fs.readFile(paths.agentLogFile(updated?.agentPlanIds.opus ?? ""), "utf8");
+      expect(log).toContain("Attempt 1/3 failed: Error: rate limit exceeded");
+      expect(log).toContain("Retrying in 0s");
+    });
+  });
+
+  it("reports the attempt count when retries are exhausted", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const retry = { maxAttempts: 2, backoff: 0, multiplier: 1, patterns: ["overloaded"] };
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub", retry };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      orchestrator.adapters = {
+        opus: new StubAdapter(agentConfig, [[false, "error: API overloaded"]]),
+      };
+
+      const success = await orchestrator.runTurn(state.sessionId);
+      expect(success).toBe(false);
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.agentAttempts).toEqual({ opus: 2 });
+      expect(updated?.agentErrors.opus).toBe("error: API overloaded (after 2 attempts)");
+    });
+  });
+
+  it("fails the turn when the turn deadline passes", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        turnTimeout: 0.05,
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      orchestrator.adapters = { opus: new HangingAdapter(agentConfig) };
+
+      const success = await orchestrator.runTurn(state.sessionId);
+      expect(success).toBe(false);
+
+      const updated = await manager.loadSession(state.sessionId);
+      expect(updated?.phase).toBe(Phase.Error);
+      expect(updated?.agents.opus).toBe(AgentStatus.TimedOut);
+      expect(updated?.agentErrors.opus).toBe("Turn timed out after 0.05s");
+      expect(updated?.runnerPid).toBeUndefined();
+    });
+  });
+
   it("returns diffs between turns", async () => {
     await withTempDir(async (root) => {
       const manager = new SessionManager(path.join(root, ".pl4n-test"));
@@ -395,6 +1306,33 @@ for (const line of lines) {
     });
   });
 
+  it("lists newly answered questions under the feedback diff", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      const paths = manager.getPaths(state.sessionId);
+      const plan = (answer: string) =>
+        "## Questions\n\n**Q1: Which database?**\n- **Answer:** Postgres\n\n" +
+        `**Q2: Cache TTL?**\n- **Answer:** ${answer}\n`;
+
+      await fs.mkdir(path.dirname(paths.turnFile(1)), { recursive: true });
+      await fs.writeFile(paths.turnFile(1).replace(/\.md$/, ".snapshot.md"), plan(""), "utf8");
+      await fs.writeFile(paths.turnFile(1), plan("5 minutes"), "utf8");
+
+      const orchestrator = new TurnOrchestrator(manager, Pl4nConfig.default());
+      const feedback = await (
+        orchestrator as unknown as {
+          getUserFeedback: (
+            paths: { turnFile: (turn: number) => string },
+            turn: number,
+          ) => Promise<string>;
+        }
+      ).getUserFeedback(paths, 2);
+
+      expect(feedback).toEndWith("\n\nAnswers to open questions:\n- Q2 (Cache TTL?): 5 minutes");
+    });
+  });
+
   it("falls back to combined output when synthesis fails", async () => {
     await withTempDir(async (root) => {
       const binDir = path.join(root, "bin");
@@ -435,6 +1373,58 @@ process.exit(1);
     });
   });
 
+  it("seeds a forked session's fresh agent conversations with the earlier turns", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const source = await manager.createSession("Test task");
+      source.phase = Phase.UserReview;
+      source.agentPlanIds = { opus: "sunny-glade" };
+      await manager.saveState(source);
+      const sourcePaths = manager.getPaths(source.sessionId);
+      await fs.writeFile(sourcePaths.turnFile(1), "## Summary\nFirst approach\n", "utf8");
+      await fs.writeFile(sourcePaths.agentPlanFile("sunny-glade"), "## Summary\nFirst approach\n");
+
+      const fork = await manager.forkSession(source.sessionId, 1);
+      fork.turn = 2;
+      fork.phase = Phase.Drafting;
+      await manager.saveState(fork);
+
+      const agentConfig: AgentConfig = { id: "opus", type: "claude", model: "stub" };
+      const config = new Pl4nConfig({
+        agents: [agentConfig],
+        synthesizer: { id: "synth", type: "claude", model: "stub" },
+        pipeline: [PipelineStage.Draft, PipelineStage.Synthesize],
+      });
+      const orchestrator = new TurnOrchestrator(manager, config);
+      const adapter = new RecordingAdapter(agentConfig, ["# Second approach"]);
+      orchestrator.adapters = { opus: adapter };
+
+      expect(await orchestrator.runTurn(fork.sessionId)).toBe(true);
+      expect(adapter.prompts[0]).toStartWith("# Earlier Turns");
+      expect(adapter.prompts[0]).toContain(`forked from session ${source.sessionId} at turn 1`);
+      expect(adapter.prompts[0]).toContain("### Turn 1\n\nFirst approach");
+      expect(adapter.prompts[0]).toContain("# Planning Task (Turn 2)");
+
+      // Once the agent has a conversation of its own, it no longer needs the summary
+      const paths = manager.getPaths(fork.sessionId);
+      await fs.writeFile(paths.agentSessionFile("sunny-glade"), "cli-session-id", "utf8");
+      const resumed = await manager.loadSession(fork.sessionId);
+      if (!resumed) {
+        throw new Error("fork disappeared");
+      }
+      resumed.turn = 3;
+      resumed.phase = Phase.Drafting;
+      await manager.saveState(resumed);
+      expect(await orchestrator.runTurn(fork.sessionId)).toBe(true);
+      expect(adapter.prompts[1]).toStartWith("# Planning Task (Turn 3)");
+      // Each finished turn records the conversations it ended with, for pl4n rollback
+      expect((await manager.loadSession(fork.sessionId))?.turnSessions).toEqual({
+        "2": {},
+        "3": { "sunny-glade": "cli-session-id" },
+      });
+    });
+  });
+
   it("returns the single agent plan without synthesis", async () => {
     await withTempDir(async (root) => {
       const manager = new SessionManager(path.join(root, ".pl4n-test"));
@@ -0,0 +1,526 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "bun:test";
+
+import {
+  PlanDocument,
+  buildTaskGraph,
+  lintPlan,
+  parsePlan,
+  planIssueToDict,
+  planIssuesToScript,
+  planSummaryToDict,
+  planToIssues,
+  serializePlan,
+  taskGraphToDict,
+  taskGraphToDot,
+  verifyPlan,
+} from "../src/plan";
+import { runGit } from "../src/utils/git";
+import { PLAN_FORMAT } from "../src/prompts";
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-plan-"));
+  try {
+    return await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+const PLAN = `# Plan: Add caching layer
+
+## Background and Context
+- \`src/session.ts\` loads state from YAML on every call
+
+## Summary
+Cache parsed session state in memory and invalidate it on save.
+
+## Clarifications
+
+### Assumptions
+
+| # | Assumption | Rationale |
+|---|------------|-----------|
+| A1 | Single process | The CLI never shares state |
+| A2 | YAML stays the source of truth | Users edit it by hand |
+
+_If revised: ~~old~~ → new_
+
+### Questions
+
+**Q1: Should the cache expire?**
+- Context: Long-running servers keep sessions open
+- Agent recommends: No, invalidate on save
+- **Answer:** No
+
+**Q2: Which sessions are cached?**
+- Context: Archived sessions are rarely read
+- Agent recommends: Active ones only
+- **Answer:**
+
+---
+
+## Notes for Agents
+
+<!-- Add feedback for agents here. Delete this comment when adding notes. -->
+
+---
+
+## Tasks
+
+- [x] **Task 1**: Add an in-memory cache to SessionManager
+  - **Files:** \`src/session.ts\` (modify)
+  - **Rationale:** Every command reloads state
+  - **Dependencies:** none
+- [ ] **Task 2**: Invalidate on save
+  - **Files:**
+    - \`src/session.ts\` (modify)
+    - \`tests/session.test.ts\` (modify)
+  - **Rationale:** Stale reads after continue
+  - **Dependencies:** Task 1
+
+\`\`\`
+## Not a heading
+\`\`\`
+
+## Risks
+
+- **Stale state across processes** (severity: high)
+  - **Mitigation:** Compare file mtimes before using the cache
+- **Memory growth** (severity: low)
+  - **Mitigation:** Cache only active sessions
+
+## Alternatives Considered
+
+- **SQLite**: Rejected because it adds a native dependency
+`;
+
+describe("PlanDocument", () => {
+  it("round-trips plans and the plan format template byte for byte", () => {
+    for (const markdown of [PLAN, PLAN_FORMAT, "", "no headings\n", "## Tasks\n\n"]) {
+      expect(serializePlan(parsePlan(markdown))).toBe(markdown);
+    }
+  });
+
+  it("parses plans with Windows line endings and keeps them on serialize", () => {
+    const crlf = PLAN.replaceAll("\n", "\r\n");
+    const plan = PlanDocument.parse(crlf);
+    expect(plan.tasks.map((task) => task.id)).toEqual(
+      PlanDocument.parse(PLAN).tasks.map((task) => task.id),
+    );
+    expect(plan.tasks.length).toBeGreaterThan(0);
+    expect(plan.serialize()).toBe(crlf);
+
+    const mixed = "## Tasks\r\n\n- [ ] **Task 1**: Add the cache\n";
+    expect(serializePlan(parsePlan(mixed))).toBe(mixed);
+  });
+
+  it("parses sections into typed objects", () => {
+    const plan = PlanDocument.parse(PLAN);
+
+    expect(plan.preamble[0]).toBe("# Plan: Add caching layer");
+    expect(plan.background).toBe("- `src/session.ts` loads state from YAML on every call");
+    expect(plan.summary).toBe("Cache parsed session state in memory and invalidate it on save.");
+    expect(plan.assumptions).toEqual([
+      { id: "A1", assumption: "Single process", rationale: "The CLI never shares state" },
+      {
+        id: "A2",
+        assumption: "YAML stays the source of truth",
+        rationale: "Users edit it by hand",
+      },
+    ]);
+    expect(plan.questions).toEqual([
+      {
+        id: "Q1",
+        question: "Should the cache expire?",
+        context: "Long-running servers keep sessions open",
+        recommendation: "No, invalidate on save",
+        answer: "No",
+        extra: [],
+      },
+      {
+        id: "Q2",
+        question: "Which sessions are cached?",
+        context: "Archived sessions are rarely read",
+        recommendation: "Active ones only",
+        answer: "",
+        extra: [],
+      },
+    ]);
+    expect(plan.unansweredQuestions.map((question) => question.id)).toEqual(["Q2"]);
+    expect(plan.tasks).toEqual([
+      {
+        id: 1,
+        description: "Add an in-memory cache to SessionManager",
+        done: true,
+        files: [{ path: "src/session.ts", action: "modify" }],
+        rationale: "Every command reloads state",
+        dependencies: [],
+        extra: [],
+      },
+      {
+        id: 2,
+        description: "Invalidate on save",
+        done: false,
+        files: [
+          { path: "src/session.ts", action: "modify" },
+          { path: "tests/session.test.ts", action: "modify" },
+        ],
+        rationale: "Stale reads after continue",
+        dependencies: [1],
+        extra: [],
+      },
+    ]);
+    expect(plan.risks).toEqual([
+      {
+        name: "Stale state across processes",
+        severity: "high",
+        mitigation: "Compare file mtimes before using the cache",
+        extra: [],
+      },
+      {
+        name: "Memory growth",
+        severity: "low",
+        mitigation: "Cache only active sessions",
+        extra: [],
+      },
+    ]);
+    expect(plan.alternatives).toEqual([
+      { name: "SQLite", description: "Rejected because it adds a native dependency", extra: [] },
+    ]);
+    expect(plan.sections.map((section) => section.kind)).toEqual([
+      "background",
+      "summary",
+      "clarifications",
+      "assumptions",
+      "questions",
+      "notes",
+      "tasks",
+      "risks",
+      "alternatives",
+    ]);
+    expect(planSummaryToDict(plan)).toEqual({
+      tasks: 2,
+      tasks_done: 1,
+      questions: 2,
+      unanswered_questions: ["Q2"],
+      risks: 2,
+    });
+  });
+
+  it("renders only the items that changed in the canonical format", () => {
+    const plan = parsePlan(PLAN);
+    plan.tasks[1].done = true;
+    plan.questions[1].answer = "Active ones";
+    plan.listSection("risks")?.items.push({
+      name: "Cold start",
+      severity: "medium",
+      mitigation: "Warm on init",
+      extra: [],
+    });
+
+    const serialized = plan.serialize();
+    expect(serialized).toContain(
+      "- [x] **Task 2**: Invalidate on save\n" +
+        "  - **Files:** `src/session.ts` (modify), `tests/session.test.ts` (modify)\n" +
+        "  - **Rationale:** Stale reads after continue\n" +
+        "  - **Dependencies:** Task 1\n\n```",
+    );
+    expect(serialized).toContain("- **Answer:** Active ones\n\n---");
+    expect(serialized).toContain(
+      "  - **Mitigation:** Cache only active sessions\n" +
+        "- **Cold start** (severity: medium)\n" +
+        "  - **Mitigation:** Warm on init\n\n## Alternatives",
+    );
+    // Untouched items keep their original formatting
+    expect(serialized).toContain("- [x] **Task 1**: Add an in-memory cache to SessionManager\n");
+
+    const reparsed = parsePlan(serialized);
+    expect(reparsed.tasks.every((task) => task.done)).toBe(true);
+    expect(reparsed.unansweredQuestions).toEqual([]);
+    expect(reparsed.risks.map((risk) => risk.name)).toContain("Cold start");
+  });
+
+  it("understands heading-style questions and answers on the next line", () => {
+    const plan = parsePlan(
+      "## Questions\n\n### Q1: What database?\n**Context:** Need to choose\n**Answer:**\nPostgreSQL\n\n" +
+        "### Q2\n**Answer:**\n\n## Summary\nTBD\n",
+    );
+    expect(plan.questions.map((question) => [question.id, question.answer])).toEqual([
+      ["Q1", "PostgreSQL"],
+      ["Q2", ""],
+    ]);
+    expect(plan.questions[0].context).toBe("Need to choose");
+    expect(plan.summary).toBe("TBD");
+  });
+
+  it("reads actions from Files entries without backticks", () => {
+    const plan = parsePlan(
+      "## Tasks\n\n" +
+        "- [ ] **Task 1**: Add a cache\n  - **Files:** src/cache.ts (create)\n" +
+        "- [ ] **Task 2**: Use it\n  - **Files:** src/session.ts (modify), src/store.ts, docs/cache.md ( modify )\n",
+    );
+    expect(plan.tasks.map((task) => task.files)).toEqual([
+      [{ path: "src/cache.ts", action: "create" }],
+      [
+        { path: "src/session.ts", action: "modify" },
+        { path: "src/store.ts" },
+        { path: "docs/cache.md", action: "modify" },
+      ],
+    ]);
+  });
+
+  it("keeps task subsections and unknown task fields", () => {
+    const markdown =
+      "## Tasks\n\n### Phase 1\n\n- [ ] **Task 1: Scaffold**\n  - **Files:** `a.ts`\n  - **Acceptance:** builds\n\n" +
+      "### Phase 2\n\n- [ ] **Task 2**: Wire up\n  - **Depends on:** Task 1\n";
+    const plan = parsePlan(markdown);
+    expect(plan.sections.map((section) => section.kind)).toEqual(["tasks", "tasks", "tasks"]);
+    expect(plan.tasks.map((task) => [task.id, task.description, task.dependencies])).toEqual([
+      [1, "Scaffold", undefined],
+      [2, "Wire up", [1]],
+    ]);
+    expect(plan.tasks[0].files).toEqual([{ path: "a.ts" }]);
+    expect(plan.tasks[0].extra).toEqual(["  - **Acceptance:** builds"]);
+
+    plan.tasks[0].done = true;
+    expect(plan.serialize()).toContain(
+      "- [x] **Task 1**: Scaffold\n  - **Files:** `a.ts`\n  - **Acceptance:** builds\n",
+    );
+  });
+});
+
+describe("lintPlan", () => {
+  it("accepts well-formed plans", () => {
+    expect(lintPlan(PLAN)).toEqual([]);
+  });
+
+  it("reports missing sections and empty task lists", () => {
+    expect(lintPlan("# Plan\n\n## Summary\nShort\n")).toEqual([
+      { rule: "missing-section", message: "Missing ## Background and Context section" },
+      { rule: "missing-section", message: "Missing ## Tasks section" },
+    ]);
+    expect(
+      lintPlan("## Background\nx\n## Summary\ny\n## Tasks\n\n1. Do it\n").map(
+        (issue) => issue.rule,
+      ),
+    ).toEqual(["empty-tasks"]);
+  });
+
+  it("reports malformed questions, assumption rows, tasks, and risks", () => {
+    const markdown = PLAN.replace("| A2 | YAML stays the source of truth |", "| A2 |")
+      .replace("- **Answer:** No\n", "")
+      .replace("**Q2:", "**Q1:")
+      .replace("**Task 2**", "**Task 3**")
+      .replace("**Dependencies:** none", "**Dependencies:** Task 1, Task 4")
+      .replace("(severity: low)", "(severity: minor)");
+    expect(lintPlan(markdown)).toEqual([
+      {
+        rule: "assumption-columns",
+        message: "Assumption A2 has 2 columns, the table header has 3",
+      },
+      {
+        rule: "missing-answer",
+        message: "Q1 has no `- **Answer:**` line (leave it empty for the user)",
+      },
+      { rule: "duplicate-question", message: "Q1 is numbered more than once" },
+      {
+        rule: "task-order",
+        message: "Task 3 should be Task 2: number tasks 1, 2, 3, ... in order",
+      },
+      { rule: "self-dependency", message: "Task 1 depends on itself" },
+      {
+        rule: "unknown-dependency",
+        message: "Task 1 depends on Task 4, which does not exist",
+      },
+      {
+        rule: "risk-severity",
+        message: 'Risk "Memory growth" needs "(severity: high|medium|low)"',
+      },
+    ]);
+  });
+});
+
+function tasksPlan(dependencies: Record<number, string>): string {
+  const tasks = Object.entries(dependencies).map(
+    ([id, deps]) => `- [ ] **Task ${id}**: Step ${id}\n  - **Dependencies:** ${deps}`,
+  );
+  return `## Tasks\n\n${tasks.join("\n")}\n`;
+}
+
+describe("buildTaskGraph", () => {
+  it("orders tasks topologically with the lowest id first on ties", () => {
+    const graph = buildTaskGraph(
+      tasksPlan({ 1: "none", 2: "Task 3", 3: "Task 1", 4: "none", 5: "Task 2, Task 4" }),
+    );
+    expect(graph.edges).toEqual([
+      [3, 2],
+      [1, 3],
+      [2, 5],
+      [4, 5],
+    ]);
+    expect(graph.order).toEqual([1, 3, 2, 4, 5]);
+    expect(graph.cycles).toEqual([]);
+    expect(graph.dangling).toEqual([]);
+    expect(graph.unreachable).toEqual([]);
+    expect(taskGraphToDict(graph).valid).toBe(true);
+  });
+
+  it("reports cycles, dangling dependencies, and the tasks they block", () => {
+    const graph = buildTaskGraph(
+      tasksPlan({
+        1: "none",
+        2: "Task 3",
+        3: "Task 2",
+        4: "Task 3",
+        5: "Task 9",
+        6: "Task 6",
+        7: "Task 1",
+      }),
+    );
+    expect(graph.order).toEqual([1, 7]);
+    expect(graph.cycles).toEqual([[2, 3], [6]]);
+    expect(graph.dangling).toEqual([{ task: 5, dependency: 9 }]);
+    expect(graph.unreachable).toEqual([4, 5]);
+    expect(taskGraphToDict(graph).valid).toBe(false);
+  });
+
+  it("renders Graphviz DOT", () => {
+    const dot = taskGraphToDot(
+      buildTaskGraph(
+        '## Tasks\n\n- [x] **Task 1**: Add "graph"\n  - **Dependencies:** none\n' +
+          "- [ ] **Task 2**: Render\n  - **Dependencies:** Task 1, Task 3\n",
+      ),
+    );
+    expect(dot).toBe(
+      [
+        "digraph tasks {",
+        "  rankdir=LR;",
+        "  node [shape=box];",
+        '  task1 [label="Task 1: Add \\"graph\\"" style=filled fillcolor="#e6f4ea"];',
+        '  task2 [label="Task 2: Render" color=gray fontcolor=gray];',
+        '  task3 [label="Task 3 (missing)" style=dashed color=red];',
+        "  task1 -> task2;",
+        "  task3 -> task2 [style=dashed color=red];",
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("planToIssues", () => {
+  const markdown = [
+    "## Tasks",
+    "",
+    "- [ ] **Task 1**: Wire the CLI",
+    "  - **Files:** `src/cli.ts` (modify)",
+    "  - **Rationale:** Users need a command",
+    "  - **Dependencies:** Task 2",
+    "- [ ] **Task 2**: Add the exporter",
+    "  - **Files:** `src/export.ts` (create)",
+    "  - **Dependencies:** none",
+    "",
+    "## Risks",
+    "",
+    "- **Broken scripts** (severity: medium): quoting in src/export.ts",
+    "- **Tracker drift** (severity: low): issues go stale",
+    "",
+  ].join("\n");
+
+  it("turns tasks into issues in execution order with risk labels", () => {
+    const issues = planToIssues(markdown, "s1");
+    expect(issues.map((issue) => [issue.task, issue.title, issue.labels])).toEqual([
+      [2, "Add the exporter", ["pl4n", "risk:medium"]],
+      [1, "Wire the CLI", ["pl4n", "risk:low"]],
+    ]);
+    expect(planIssueToDict(issues[1])).toEqual({
+      task: 1,
+      title: "Wire the CLI",
+      body: [
+        "Wire the CLI",
+        "**Rationale:** Users need a command",
+        "**Files:**\n- `src/cli.ts` (modify)",
+        "_Task 1 of pl4n session s1_",
+        "**Depends on:** Task 2",
+      ].join("\n\n"),
+      labels: ["pl4n", "risk:low"],
+      depends_on: [2],
+    });
+  });
+
+  it("writes a gh script that links dependencies to created issues", () => {
+    const script = planIssuesToScript(planToIssues(markdown, "s1"));
+    expect(script).toStartWith("#!/usr/bin/env bash\n");
+    expect(script).toContain("gh label create 'risk:medium' --force");
+    expect(script).toContain(
+      "task_2=$(gh issue create --title 'Add the exporter' --body \"$body\" --label 'pl4n' --label 'risk:medium')",
+    );
+    expect(script).toContain(`body+=$'\\n\\n'"**Depends on:** \${task_2}"`);
+  });
+});
+
+describe("verifyPlan", () => {
+  it("checks task files against their actions and background references", async () => {
+    await withTempDir(async (root) => {
+      await fs.mkdir(path.join(root, "src"), { recursive: true });
+      await fs.writeFile(
+        path.join(root, "src", "session.ts"),
+        "export class SessionManager {\n  loadSession() {}\n}\n",
+        "utf8",
+      );
+      const plan =
+        "## Background and Context\n" +
+        "- `src/session.ts` defines `SessionManager.loadSession()` and `SessionCache`\n" +
+        "- `src/cache.ts` already memoizes reads\n\n" +
+        "## Tasks\n\n" +
+        "- [ ] **Task 1**: Add a cache\n  - **Files:** `src/cache.ts` (create), `src/session.ts` (create)\n" +
+        "- [ ] **Task 2**: Use it\n  - **Files:** `src/cache.ts` (modify), `src/store.ts` (modify), `../outside.ts`\n";
+
+      // Symbols are only looked up in git repositories
+      const plain = await verifyPlan(plan, root);
+      expect(plain.symbolsChecked).toBe(0);
+      expect(plain.filesChecked).toBe(7);
+      expect(
+        plain.findings.map((finding) => [finding.task, finding.problem, finding.reference]),
+      ).toEqual([
+        [1, "already-exists", "src/session.ts"],
+        [2, "missing", "src/store.ts"],
+        [2, "outside-project", "../outside.ts"],
+        [undefined, "missing", "src/cache.ts"],
+      ]);
+
+      await runGit(["init", "-q"], root);
+      await runGit(["add", "."], root);
+      const repo = await verifyPlan(plan, root);
+      expect(repo.symbolsChecked).toBe(2);
+      expect(repo.findings.filter((finding) => finding.kind === "symbol")).toEqual([
+        {
+          reference: "SessionCache",
+          kind: "symbol",
+          problem: "unknown-symbol",
+          message: "Background: SessionCache was not found in the project",
+        },
+      ]);
+    });
+  });
+
+  it("checks Files entries written without backticks", async () => {
+    await withTempDir(async (root) => {
+      await fs.mkdir(path.join(root, "src"), { recursive: true });
+      await fs.writeFile(path.join(root, "src", "session.ts"), "export {};\n", "utf8");
+      const plan =
+        "## Tasks\n\n" +
+        "- [ ] **Task 1**: Add a cache\n  - **Files:** src/cache.ts (create), src/session.ts (modify)\n" +
+        "- [ ] **Task 2**: Use it\n  - **Files:** src/cache.ts (modify), src/store.ts (modify)\n";
+
+      const result = await verifyPlan(plan, root);
+      expect(result.filesChecked).toBe(4);
+      expect(
+        result.findings.map((finding) => [finding.task, finding.problem, finding.reference]),
+      ).toEqual([[2, "missing", "src/store.ts"]]);
+    });
+  });
+});
@@ -3,6 +3,9 @@ import { describe, expect, it } from "bun:test";
 import {
   PLAN_FORMAT,
   getDraftPrompt,
+  getJudgePrompt,
+  getCritiquePrompt,
+  getCritiqueRevisionPrompt,
   getPeerReviewPrompt,
   getSynthesisPrompt,
 } from "../src/prompts";
@@ -53,18 +56,121 @@ describe("getPeerReviewPrompt", () => {
     const prompt = getPeerReviewPrompt({
       task: "Add caching layer",
       ownDraft: "My plan",
-      peerId: "sunny-glade",
-      peerDraft: "Peer plan",
+      peers: [{ planId: "sunny-glade", draft: "Peer plan" }],
     });
 
     expect(prompt).toContain("Add caching layer");
     expect(prompt).toContain("My plan");
     expect(prompt).toContain("sunny-glade");
     expect(prompt).toContain("Peer plan");
+    expect(prompt).toContain("review your peer's draft");
+  });
+
+  it("includes every peer draft with its plan ID", () => {
+    const prompt = getPeerReviewPrompt({
+      task: "Add caching layer",
+      ownDraft: "My plan",
+      peers: [
+        { planId: "sunny-glade", draft: "First peer plan" },
+        { planId: "amber-marsh", draft: "Second peer plan" },
+      ],
+    });
+
+    expect(prompt).toContain("review your peers' drafts");
+    expect(prompt).toContain("## Peer's Draft (sunny-glade)\nFirst peer plan");
+    expect(prompt).toContain("## Peer's Draft (amber-marsh)\nSecond peer plan");
+    expect(prompt).toContain("the best of all of them");
+  });
+});
+
+describe("getCritiquePrompt", () => {
+  it("lists all drafts and the output file", () => {
+    const prompt = getCritiquePrompt({
+      task: "Add caching layer",
+      drafts: [
+        { planId: "sunny-glade", draft: "Plan A" },
+        { planId: "amber-marsh", draft: "Plan B" },
+      ],
+      outputFile: "/path/to/critique.md",
+    });
+
+    expect(prompt).toContain("## Draft (sunny-glade)\nPlan A");
+    expect(prompt).toContain("## Draft (amber-marsh)\nPlan B");
+    expect(prompt).toContain("/path/to/critique.md");
+    expect(prompt).not.toContain(PLAN_FORMAT.trim());
+  });
+});
+
+describe("getCritiqueRevisionPrompt", () => {
+  it("includes the critique and own draft", () => {
+    const prompt = getCritiqueRevisionPrompt({
+      task: "Add caching layer",
+      ownDraft: "My plan",
+      criticId: "quiet-fern",
+      critique: "Missing cache invalidation",
+    });
+
+    expect(prompt).toContain("My plan");
+    expect(prompt).toContain("## Critique (quiet-fern)\nMissing cache invalidation");
+    expect(prompt).toContain(PLAN_FORMAT.trim());
+  });
+});
+
+describe("getJudgePrompt", () => {
+  it("lists the rubric, plans, and output file", () => {
+    const prompt = getJudgePrompt({
+      task: "Add caching layer",
+      plans: [
+        { planId: "sunny-glade", draft: "Plan A" },
+        { planId: "amber-marsh", draft: "Plan B" },
+      ],
+      rubric: { completeness: "Covers the whole task", risk_coverage: "Names the risks" },
+      outputFile: "/path/to/scores.json",
+    });
+
+    expect(prompt).toContain("- **completeness**: Covers the whole task\n- **risk_coverage**");
+    expect(prompt).toContain("## Plan (sunny-glade)\nPlan A");
+    expect(prompt).toContain("## Plan (amber-marsh)\nPlan B");
+    expect(prompt).toContain("/path/to/scores.json");
+    expect(prompt).not.toContain(PLAN_FORMAT.trim());
   });
 });
 
 describe("getSynthesisPrompt", () => {
+  it("includes judge scores when provided", () => {
+    const prompt = getSynthesisPrompt({
+      task: "Add caching layer",
+      agentPlans: { opus: "Plan A", codex: "Plan B" },
+      outputFile: "/path/to/output.md",
+      scores: {
+        opus: { planId: "sunny-glade", criteria: { completeness: 9, risk_coverage: 7 }, total: 16 },
+        codex: {
+          planId: "amber-marsh",
+          criteria: { completeness: 6, risk_coverage: 8 },
+          total: 14,
+          notes: "Misses invalidation",
+        },
+      },
+    });
+
+    expect(prompt).toContain("## Judge Scores");
+    expect(prompt).toContain("| Plan | completeness | risk_coverage | Total |");
+    expect(prompt).toContain("| opus | 9 | 7 | 16 |");
+    expect(prompt).toContain("| codex | 6 | 8 | 14 |");
+    expect(prompt).toContain("- **codex**: Misses invalidation");
+    expect(prompt.indexOf("## Judge Scores")).toBeLessThan(prompt.indexOf("## Agent Plans"));
+  });
+
+  it("omits the scores section without scores", () => {
+    const prompt = getSynthesisPrompt({
+      task: "Add caching layer",
+      agentPlans: { opus: "Plan A" },
+      outputFile: "/path/to/output.md",
+    });
+
+    expect(prompt).not.toContain("## Judge Scores");
+  });
+
   it("includes agent plans", () => {
     const prompt = getSynthesisPrompt({
       task: "Add caching layer",
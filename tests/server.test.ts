@@ -3,7 +3,8 @@ import os from "os";
 import path from "path";
 import { describe, expect, it } from "bun:test";
 
-import { Phase } from "../src/models";
+import { importSessionArchive } from "../src/archive";
+import { AgentStatus, Phase } from "../src/models";
 import { SessionManager } from "../src/session";
 import {
   ensureGlobalToken,
@@ -426,6 +427,9 @@ describe("handlers", () => {
       expect(content.autosave).toBeNull();
       expect(content.snapshot).toBe("# Snapshot\n");
       expect(content.mtime).toBe(stat.mtimeMs);
+      // References are only known once a turn ran or the plan was saved
+      expect(content.references).toBeNull();
+      expect(content.graph).toMatchObject({ valid: true, nodes: [], order: [] });
 
       const autosaveRes = await handlers.handleAutosave(
         new Request(
@@ -662,6 +666,19 @@ describe("handlers", () => {
       expect(saveRes.status).toBe(200);
       const savePayload = await readJson(saveRes);
       const saveMtime = savePayload.mtime as number;
+      expect(savePayload.references).toEqual({
+        files_checked: 0,
+        symbols_checked: 0,
+        findings: [],
+      });
+      const contentRes = await handlers.handleGetContent(
+        new Request(
+          `http://localhost/api/projects/${projectId}/content/${state.sessionId}?t=${token}`,
+        ),
+        projectId,
+        state.sessionId,
+      );
+      expect((await readJson(contentRes)).references).toEqual(savePayload.references);
 
       const contRes = await handlers.handleContinue(
         new Request(
@@ -729,6 +746,165 @@ describe("handlers", () => {
     });
   });
 
+  it("aborts running turns and rejects idle sessions", async () => {
+    await withTempDir(async (root) => {
+      let state!: Awaited<ReturnType<SessionManager["createSession"]>>;
+      const { handlers, projectId, manager, registry, sse } = await createHandlersForProject(root, {
+        setup: async (manager) => {
+          state = await manager.createSession("Plan task");
+          state.phase = Phase.UserReview;
+          await manager.saveState(state);
+        },
+      });
+
+      const token = state.sessionToken ?? "";
+      const abortRequest = () =>
+        new Request(
+          `http://localhost/api/projects/${projectId}/abort/${state.sessionId}?t=${token}`,
+          {
+            method: "POST",
+          },
+        );
+
+      const idleRes = await handlers.handleAbort(abortRequest(), projectId, state.sessionId);
+      expect(idleRes.status).toBe(409);
+
+      state.phase = Phase.Drafting;
+      state.agents = { opus: AgentStatus.Working };
+      await manager.saveState(state);
+
+      const abortRes = await handlers.handleAbort(abortRequest(), projectId, state.sessionId);
+      expect(abortRes.status).toBe(200);
+      const payload = await readJson(abortRes);
+      expect(payload.phase).toBe(Phase.Error);
+      expect(payload.agents).toEqual({ opus: AgentStatus.Error });
+
+      await registry.stop();
+      sse.close();
+    });
+  });
+
+  it("rolls sessions back to an earlier turn", async () => {
+    await withTempDir(async (root) => {
+      let state!: Awaited<ReturnType<SessionManager["createSession"]>>;
+      const { handlers, projectId, manager, registry, sse } = await createHandlersForProject(root, {
+        setup: async (manager) => {
+          state = await manager.createSession("Plan task");
+          state.turn = 2;
+          state.phase = Phase.UserReview;
+          await manager.saveState(state);
+          const paths = manager.getPaths(state.sessionId);
+          await fs.writeFile(paths.turnFile(1), "Turn 1\n", "utf8");
+          await fs.writeFile(paths.turnFile(2), "Turn 2\n", "utf8");
+        },
+      });
+
+      const token = state.sessionToken ?? "";
+      const rollbackRequest = (body: unknown) =>
+        new Request(
+          `http://localhost/api/projects/${projectId}/rollback/${state.sessionId}?t=${token}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          },
+        );
+
+      const invalidRes = await handlers.handleRollback(
+        rollbackRequest({ turn: 2 }),
+        projectId,
+        state.sessionId,
+      );
+      expect(invalidRes.status).toBe(400);
+      expect((await readJson(invalidRes)).error).toBe("Turn must be between 1 and 1");
+
+      const rollbackRes = await handlers.handleRollback(
+        rollbackRequest({ turn: 1 }),
+        projectId,
+        state.sessionId,
+      );
+      expect(rollbackRes.status).toBe(200);
+      expect(await readJson(rollbackRes)).toEqual({
+        turn: 1,
+        phase: Phase.UserReview,
+        discarded: [2],
+      });
+
+      const approved = await manager.loadSession(state.sessionId);
+      if (!approved) {
+        throw new Error("session disappeared");
+      }
+      approved.phase = Phase.Approved;
+      await manager.saveState(approved);
+      const lockedRes = await handlers.handleRollback(
+        rollbackRequest({ turn: 1 }),
+        projectId,
+        state.sessionId,
+      );
+      expect(lockedRes.status).toBe(423);
+
+      await registry.stop();
+      sse.close();
+    });
+  });
+
+  it("downloads sessions as an archive", async () => {
+    await withTempDir(async (root) => {
+      let state!: Awaited<ReturnType<SessionManager["createSession"]>>;
+      const { handlers, projectId, manager, registry, sse } = await createHandlersForProject(root, {
+        setup: async (manager) => {
+          state = await manager.createSession("Plan task");
+          state.phase = Phase.UserReview;
+          await manager.saveState(state);
+          await fs.writeFile(manager.getPaths(state.sessionId).turnFile(1), "Turn 1\n", "utf8");
+        },
+      });
+
+      const downloadRequest = (token: string) =>
+        new Request(
+          `http://localhost/api/projects/${projectId}/download/${state.sessionId}?t=${token}`,
+        );
+      const unauthorizedRes = await handlers.handleDownload(
+        downloadRequest("wrong"),
+        projectId,
+        state.sessionId,
+      );
+      expect(unauthorizedRes.status).toBe(401);
+
+      const res = await handlers.handleDownload(
+        downloadRequest(state.sessionToken ?? ""),
+        projectId,
+        state.sessionId,
+      );
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("application/gzip");
+      expect(res.headers.get("Content-Disposition")).toBe(
+        `attachment; filename="${state.sessionId}.tar.gz"`,
+      );
+      const other = new SessionManager(path.join(root, "other", ".pl4n"));
+      const imported = await importSessionArchive(other, new Uint8Array(await res.arrayBuffer()));
+      expect(await fs.readFile(other.getPaths(imported.sessionId).turnFile(1), "utf8")).toBe(
+        "Turn 1\n",
+      );
+
+      const running = await manager.loadSession(state.sessionId);
+      if (!running) {
+        throw new Error("session disappeared");
+      }
+      running.phase = Phase.Drafting;
+      await manager.saveState(running);
+      const runningRes = await handlers.handleDownload(
+        downloadRequest(state.sessionToken ?? ""),
+        projectId,
+        state.sessionId,
+      );
+      expect(runningRes.status).toBe(409);
+
+      await registry.stop();
+      sse.close();
+    });
+  });
+
   it("deletes autosaves when requested", async () => {
     await withTempDir(async (root) => {
       let state!: Awaited<ReturnType<SessionManager["createSession"]>>;
@@ -812,6 +988,52 @@ describe("handlers", () => {
       );
       expect(statusRes.status).toBe(401);
 
+      const activityRes = await handlers.handleAgentActivity(
+        new Request(`http://localhost/api/projects/${projectId}/activity/${state.sessionId}?t=bad`),
+        projectId,
+        state.sessionId,
+      );
+      expect(activityRes.status).toBe(401);
+
+      await registry.stop();
+      sse.close();
+    });
+  });
+
+  it("includes judge scores in status", async () => {
+    await withTempDir(async (root) => {
+      let state!: Awaited<ReturnType<SessionManager["createSession"]>>;
+      const { handlers, projectId, registry, sse } = await createHandlersForProject(root, {
+        setup: async (manager) => {
+          state = await manager.createSession("Plan task");
+          state.phase = Phase.UserReview;
+          await manager.saveState(state);
+          const scoresFile = manager.getPaths(state.sessionId).turnScoresFile(1);
+          await fs.mkdir(path.dirname(scoresFile), { recursive: true });
+          await fs.writeFile(
+            scoresFile,
+            JSON.stringify({
+              opus: { plan_id: "sunny-glade", criteria: { completeness: 8 }, total: 8 },
+            }),
+            "utf8",
+          );
+        },
+      });
+
+      const statusRes = await handlers.handleStatus(
+        new Request(
+          `http://localhost/api/projects/${projectId}/status/${state.sessionId}?t=${state.sessionToken ?? ""}`,
+        ),
+        projectId,
+        state.sessionId,
+      );
+      expect(statusRes.status).toBe(200);
+      const data = (await statusRes.json()) as Record<string, unknown>;
+      expect(data.scores).toEqual({
+        "1": { opus: { plan_id: "sunny-glade", criteria: { completeness: 8 }, total: 8 } },
+      });
+      expect(data.average_scores).toEqual({ opus: 8 });
+
       await registry.stop();
       sse.close();
     });
@@ -4,8 +4,16 @@ import path from "path";
 import { describe, expect, it } from "bun:test";
 import { dump, load } from "js-yaml";
 
-import { Phase, Pl4nConfig } from "../src/models";
+import {
+  AgentStatus,
+  Phase,
+  Pl4nConfig,
+  RunStage,
+  summarizeUsage,
+  usageSummaryToDict,
+} from "../src/models";
 import { SessionManager } from "../src/session";
+import { withFileLock } from "../src/utils/lock";
 
 async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-"));
@@ -139,6 +147,106 @@ describe("SessionManager", () => {
     });
   });
 
+  it("refuses to save state that was saved elsewhere since it was loaded", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      expect(state.revision).toBe(1);
+
+      const first = await manager.loadSession(state.sessionId);
+      const second = await manager.loadSession(state.sessionId);
+      if (!first || !second) {
+        throw new Error("session disappeared");
+      }
+      first.phase = Phase.UserReview;
+      await manager.saveState(first);
+      second.archived = true;
+      await expect(manager.saveState(second)).rejects.toThrow(
+        `Session ${state.sessionId} was saved elsewhere since it was loaded (revision 2, expected 1)`,
+      );
+
+      // Saves of one state object queue behind each other instead of conflicting
+      first.turn = 2;
+      await Promise.all([manager.saveState(first), manager.saveState(first)]);
+      const loaded = await manager.loadSession(state.sessionId);
+      expect(loaded).toMatchObject({
+        revision: 4,
+        turn: 2,
+        phase: Phase.UserReview,
+        archived: false,
+      });
+
+      const paths = manager.getPaths(state.sessionId);
+      expect((await fs.readdir(paths.root)).filter((file) => /\.(tmp|lock)$/.test(file))).toEqual(
+        [],
+      );
+    });
+  });
+
+  it("takes over a state lock left behind by a process that is gone", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      const paths = manager.getPaths(state.sessionId);
+
+      const exited = Bun.spawnSync(["true"]);
+      await fs.writeFile(paths.lock, `${exited.pid}\n`, "utf8");
+      state.phase = Phase.UserReview;
+      await manager.saveState(state);
+      expect((await manager.loadSession(state.sessionId))?.phase).toBe(Phase.UserReview);
+      await expect(fs.access(paths.lock)).rejects.toThrow();
+
+      // A lock held by a live process is waited for
+      await fs.writeFile(paths.lock, `${process.pid}\n`, "utf8");
+      const saving = manager.saveState(state);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect((await manager.loadSession(state.sessionId))?.revision).toBe(2);
+      await fs.rm(paths.lock);
+      await saving;
+      expect((await manager.loadSession(state.sessionId))?.revision).toBe(3);
+    });
+  });
+
+  it("lets only one of several waiters take over a stale lock", async () => {
+    await withTempDir(async (root) => {
+      const lockFile = path.join(root, "state.lock");
+      await fs.writeFile(lockFile, `${Bun.spawnSync(["true"]).pid}\n`, "utf8");
+
+      let holders = 0;
+      let overlapped = false;
+      await Promise.all(
+        Array.from({ length: 5 }, () =>
+          withFileLock(lockFile, async () => {
+            holders += 1;
+            overlapped ||= holders > 1;
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            holders -= 1;
+          }),
+        ),
+      );
+      expect(overlapped).toBe(false);
+      await expect(fs.access(lockFile)).rejects.toThrow();
+
+      // A holder whose lock was replaced leaves the replacement alone
+      await withFileLock(lockFile, async () => {
+        await fs.writeFile(lockFile, "other\n", "utf8");
+      });
+      expect(await fs.readFile(lockFile, "utf8")).toBe("other\n");
+    });
+  });
+
+  it("refuses to archive a session while its turn is running", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      state.phase = Phase.Drafting;
+      await manager.saveState(state);
+      await expect(manager.setArchived(state.sessionId, true)).rejects.toThrow(
+        `Turn 1 of ${state.sessionId} is still running`,
+      );
+    });
+  });
+
   it("persists agent errors in state", async () => {
     await withTempDir(async (root) => {
       const manager = new SessionManager(path.join(root, ".pl4n-test"));
@@ -156,6 +264,35 @@ describe("SessionManager", () => {
     });
   });
 
+  it("aborts a running turn by terminating its recorded processes", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      const runner = Bun.spawn({ cmd: ["sleep", "30"], stdout: "ignore", stderr: "ignore" });
+      const agent = Bun.spawn({ cmd: ["sleep", "30"], stdout: "ignore", stderr: "ignore" });
+      state.phase = Phase.PeerReview;
+      state.agents = { opus: AgentStatus.Done, codex: AgentStatus.Working };
+      state.runnerPid = runner.pid;
+      state.agentPids = { codex: agent.pid };
+      await manager.saveState(state);
+
+      expect(manager.isTurnRunning(state)).toBe(true);
+      const aborted = await manager.abortTurn(state.sessionId, 1000);
+
+      expect(await runner.exited).not.toBe(0);
+      expect(await agent.exited).not.toBe(0);
+      expect(aborted?.phase).toBe(Phase.Error);
+
+      const loaded = await manager.loadSession(state.sessionId);
+      expect(loaded?.phase).toBe(Phase.Error);
+      expect(loaded?.agents).toEqual({ opus: AgentStatus.Done, codex: AgentStatus.Error });
+      expect(loaded?.agentErrors).toEqual({ codex: "Aborted" });
+      expect(loaded?.runnerPid).toBeUndefined();
+      expect(loaded?.agentPids).toEqual({});
+      expect(manager.isTurnRunning(loaded!)).toBe(false);
+    });
+  });
+
   it("writes session token to state.yaml", async () => {
     await withTempDir(async (root) => {
       const manager = new SessionManager(path.join(root, ".pl4n-test"));
@@ -256,6 +393,260 @@ describe("SessionManager", () => {
     });
   });
 
+  it("appends usage records and summarizes them per agent and stage", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      expect(await manager.loadUsage(state.sessionId)).toEqual([]);
+
+      const startedAt = new Date("2026-01-01T00:00:00Z");
+      await manager.appendUsage(state.sessionId, {
+        agentId: "opus",
+        model: "opus",
+        stage: RunStage.Draft,
+        turn: 1,
+        startedAt,
+        durationMs: 1500,
+        usage: { inputTokens: 1000, outputTokens: 200, cachedTokens: 600, costUsd: 0.1 },
+      });
+      await manager.appendUsage(state.sessionId, {
+        agentId: "local",
+        model: "llama",
+        stage: RunStage.Review,
+        turn: 1,
+        startedAt,
+        durationMs: 500,
+      });
+
+      const records = await manager.loadUsage(state.sessionId);
+      expect(records.map((record) => record.agentId)).toEqual(["opus", "local"]);
+      expect(records[0].startedAt.toISOString()).toBe(startedAt.toISOString());
+      expect(records[1].usage).toBeUndefined();
+
+      const summary = summarizeUsage(records);
+      expect(summary).toMatchObject({
+        runs: 2,
+        inputTokens: 1000,
+        outputTokens: 200,
+        cachedTokens: 600,
+        durationMs: 2000,
+        costUsd: 0.1,
+      });
+      expect(summary.byAgent.local).toEqual({
+        runs: 1,
+        inputTokens: 0,
+        outputTokens: 0,
+        cachedTokens: 0,
+        durationMs: 500,
+      });
+      expect(Object.keys(usageSummaryToDict(summary).by_stage as object)).toEqual([
+        "draft",
+        "review",
+      ]);
+    });
+  });
+
+  it("keeps every usage record when several writers append at once", async () => {
+    await withTempDir(async (root) => {
+      const pl4nDir = path.join(root, ".pl4n-test");
+      const state = await new SessionManager(pl4nDir).createSession("Test task");
+      // Separate managers stand in for a running turn and pl4n implement
+      const writers = [new SessionManager(pl4nDir), new SessionManager(pl4nDir)];
+      await Promise.all(
+        Array.from({ length: 10 }, (_, index) =>
+          writers[index % 2].appendUsage(state.sessionId, {
+            agentId: `agent-${index}`,
+            model: "opus",
+            stage: RunStage.Draft,
+            turn: 1,
+            startedAt: new Date(),
+            durationMs: index,
+          }),
+        ),
+      );
+      expect(
+        (await writers[0].loadUsage(state.sessionId)).map((record) => record.agentId).sort(),
+      ).toEqual(Array.from({ length: 10 }, (_, index) => `agent-${index}`).sort());
+    });
+  });
+
+  it("serves a turn's reference check only for the content it was made for", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Test task");
+      expect(await manager.loadVerification(state.sessionId, 1, "# Plan\n")).toBeNull();
+
+      const references = await manager.saveVerification(state.sessionId, 1, "# Plan\n", {
+        filesChecked: 1,
+        symbolsChecked: 0,
+        findings: [
+          {
+            reference: "src/missing.ts",
+            kind: "file",
+            problem: "missing",
+            task: 1,
+            message: "gone",
+          },
+        ],
+      });
+      expect(await manager.loadVerification(state.sessionId, 1, "# Plan\n")).toEqual(references);
+      expect(await manager.loadVerification(state.sessionId, 1, "# Edited\n")).toBeNull();
+    });
+  });
+
+  it("forks a session from an earlier turn", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const source = await manager.createSession("Add caching layer");
+      source.turn = 3;
+      source.phase = Phase.UserReview;
+      source.agentPlanIds = { opus: "sunny-glade" };
+      source.agents = { opus: AgentStatus.Done };
+      await manager.saveState(source);
+
+      const sourcePaths = manager.getPaths(source.sessionId);
+      const synthesized =
+        "## Summary\nCache reads in memory.\n\nMore detail.\n\n## Questions\n\n### Q1: Which store?\n**Answer:**\n";
+      for (const turn of [1, 2, 3]) {
+        await fs.writeFile(sourcePaths.turnFile(turn), `## Summary\nTurn ${turn} plan\n`, "utf8");
+        await fs.mkdir(sourcePaths.turnSnapshotDir(turn), { recursive: true });
+        await fs.writeFile(
+          path.join(sourcePaths.turnSnapshotDir(turn), "synthesis.md"),
+          "x",
+          "utf8",
+        );
+      }
+      await fs.writeFile(sourcePaths.turnFile(2), `${synthesized}Redis\n`, "utf8");
+      await fs.writeFile(
+        sourcePaths.turnFile(2).replace(/\.md$/, ".snapshot.md"),
+        synthesized,
+        "utf8",
+      );
+      await fs.writeFile(
+        sourcePaths.agentPlanFile("sunny-glade"),
+        "## Summary\nTurn 3 plan\n",
+        "utf8",
+      );
+      await fs.mkdir(sourcePaths.agentDir("sunny-glade"), { recursive: true });
+      await fs.writeFile(sourcePaths.agentSessionFile("sunny-glade"), "cli-session-id", "utf8");
+
+      const fork = await manager.forkSession(source.sessionId, 2);
+      expect(fork.sessionId).not.toBe(source.sessionId);
+      expect(fork).toMatchObject({
+        task: "Add caching layer",
+        turn: 2,
+        phase: Phase.UserReview,
+        agentPlanIds: { opus: "sunny-glade" },
+        agents: { opus: AgentStatus.Done },
+        parentSession: source.sessionId,
+        parentTurn: 2,
+      });
+      expect(await manager.loadSession(fork.sessionId)).toMatchObject({
+        parentSession: source.sessionId,
+        parentTurn: 2,
+      });
+
+      const paths = manager.getPaths(fork.sessionId);
+      expect(await fs.readFile(paths.turnFile(2), "utf8")).toBe(`${synthesized}Redis\n`);
+      expect(await fs.readFile(path.join(paths.turnSnapshotDir(1), "synthesis.md"), "utf8")).toBe(
+        "x",
+      );
+      await expect(fs.access(paths.turnFile(3))).rejects.toThrow();
+      // The agent's plan is rolled back to turn 2 and its CLI conversation is not carried over
+      expect(await fs.readFile(paths.agentPlanFile("sunny-glade"), "utf8")).toBe(synthesized);
+      await expect(fs.access(paths.agentSessionFile("sunny-glade"))).rejects.toThrow();
+
+      const summary = await fs.readFile(paths.fork, "utf8");
+      expect(summary).toContain("### Turn 1\n\nTurn 1 plan");
+      expect(summary).toContain("### Turn 2\n\nCache reads in memory.\n\n- 0 tasks, 0 risks");
+      expect(summary).toContain("- Q1: Which store? Answer: Redis");
+      expect(summary).toContain("- The user edited the synthesized plan (+1/-0 lines)");
+      expect(summary).not.toContain("Turn 3");
+
+      await expect(manager.forkSession(source.sessionId, 4)).rejects.toThrow(
+        "Turn must be between 1 and 3",
+      );
+      await expect(manager.forkSession("missing-session", 1)).rejects.toThrow(
+        "Session missing-session not found",
+      );
+    });
+  });
+
+  it("rolls a session back to an earlier turn and rewinds agent conversations", async () => {
+    await withTempDir(async (root) => {
+      const manager = new SessionManager(path.join(root, ".pl4n-test"));
+      const state = await manager.createSession("Add caching layer");
+      state.turn = 3;
+      state.phase = Phase.UserReview;
+      state.agentPlanIds = { opus: "sunny-glade", codex: "amber-marsh" };
+      state.agents = { opus: AgentStatus.Done, codex: AgentStatus.Error };
+      state.agentErrors = { codex: "Timed out" };
+      state.turnSessions = {
+        "1": { "sunny-glade": "opus-1" },
+        "2": { "sunny-glade": "opus-2", synthesizer: "synth-2" },
+        "3": { "sunny-glade": "opus-3", "amber-marsh": "codex-3", synthesizer: "synth-3" },
+      };
+      await manager.saveState(state);
+
+      const paths = manager.getPaths(state.sessionId);
+      for (const turn of [1, 2, 3]) {
+        await fs.writeFile(paths.turnFile(turn), `Turn ${turn} edited\n`, "utf8");
+        await fs.writeFile(
+          paths.turnFile(turn).replace(/\.md$/, ".snapshot.md"),
+          `Turn ${turn} plan\n`,
+          "utf8",
+        );
+        await fs.mkdir(paths.turnSnapshotDir(turn), { recursive: true });
+      }
+      for (const [dir, sessionId] of Object.entries(state.turnSessions["3"])) {
+        await fs.mkdir(paths.agentDir(dir), { recursive: true });
+        await fs.writeFile(paths.agentSessionFile(dir), sessionId, "utf8");
+        await fs.writeFile(paths.agentPlanFile(dir), "Turn 3 plan\n", "utf8");
+      }
+      await fs.writeFile(path.join(paths.agentDir("amber-marsh"), "history.json"), "[]", "utf8");
+
+      await expect(manager.rollbackSession(state.sessionId, 3)).rejects.toThrow(
+        "Turn must be between 1 and 2",
+      );
+
+      const {
+        state: rolled,
+        discarded,
+        archive,
+      } = await manager.rollbackSession(state.sessionId, 2);
+      expect(discarded).toEqual([3]);
+      expect(rolled).toMatchObject({
+        turn: 2,
+        phase: Phase.UserReview,
+        agents: { opus: AgentStatus.Done, codex: AgentStatus.Done },
+        agentErrors: {},
+      });
+      expect(Object.keys(rolled.turnSessions)).toEqual(["1", "2"]);
+      expect((await manager.loadSession(state.sessionId))?.turn).toBe(2);
+
+      // Turn 3 is archived, turn 2 keeps the user's edits
+      await expect(fs.access(paths.turnFile(3))).rejects.toThrow();
+      expect(path.dirname(archive)).toBe(paths.discardedTurns);
+      expect((await fs.readdir(archive)).sort()).toEqual(["003", "003.md", "003.snapshot.md"]);
+      expect(await fs.readFile(paths.turnFile(2), "utf8")).toBe("Turn 2 edited\n");
+
+      expect(await fs.readFile(paths.agentPlanFile("sunny-glade"), "utf8")).toBe("Turn 2 plan\n");
+      expect(await manager.readAgentSessions(state.sessionId)).toEqual({
+        "sunny-glade": "opus-2",
+        synthesizer: "synth-2",
+      });
+      await expect(
+        fs.access(path.join(paths.agentDir("amber-marsh"), "history.json")),
+      ).rejects.toThrow();
+
+      rolled.phase = Phase.Drafting;
+      await manager.saveState(rolled);
+      await expect(manager.rollbackSession(state.sessionId, 1)).rejects.toThrow(
+        "Cannot roll back from phase drafting",
+      );
+    });
+  });
+
   it("treats next-line answers as answered", async () => {
     await withTempDir(async (root) => {
       const manager = new SessionManager(path.join(root, ".pl4n-test"));
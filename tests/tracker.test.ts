@@ -0,0 +1,198 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "bun:test";
+
+import { ImplementationStatus, Phase, TaskStatus } from "../src/models";
+import { PlanDocument } from "../src/plan";
+import { SessionManager } from "../src/session";
+import { type PlanCommit, readPlanCommits, refreshTaskProgress, trackTasks } from "../src/tracker";
+import { resolveHead, runGit } from "../src/utils/git";
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pl4n-tracker-"));
+  try {
+    return await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function commit(root: string, message: string, files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content, "utf8");
+  }
+  await runGit(["add", ...Object.keys(files)], root);
+  const result = await runGit(
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "-q", "-m", message],
+    root,
+  );
+  expect(result.exitCode).toBe(0);
+}
+
+const PLAN = [
+  "# Plan",
+  "",
+  "## Tasks",
+  "",
+  "- [ ] **Task 1**: Add the cache",
+  "  - **Files:** `src/cache.ts` (create), `src/index.ts` (modify)",
+  "- [ ] **Task 2**: Wire the CLI flag",
+  "  - **Files:** `src/cli.ts` (modify)",
+  "- [ ] **Task 3**: Document it",
+  "  - **Files:** `README.md` (modify)",
+  "- [x] **Task 4**: Agree on the cache size",
+  "",
+].join("\n");
+
+function planCommit(hash: string, files: string[], trailers: string[] = []): PlanCommit {
+  return { hash, subject: hash, files, trailers };
+}
+
+describe("trackTasks", () => {
+  it("attributes commits by trailer first and by touched files otherwise", () => {
+    const tracked = trackTasks(
+      PlanDocument.parse(PLAN),
+      [
+        planCommit("a1", ["src/cache.ts"]),
+        planCommit("b2", ["src/cli.ts", "src/cache.ts"], ["3 wip"]),
+        planCommit("c3", ["src/index.ts"]),
+        planCommit("d4", ["src/other.ts"], ["other-session#2", "swift-river#2"]),
+        planCommit("e5", [], ["9"]),
+      ],
+      { sessionId: "swift-river" },
+    );
+    expect(tracked).toEqual({
+      1: { status: TaskStatus.Done, commits: ["a1", "c3"] },
+      2: { status: TaskStatus.Done, commits: ["d4"] },
+      3: { status: TaskStatus.InProgress, commits: ["b2"] },
+      4: { status: TaskStatus.Done, commits: [] },
+    });
+  });
+
+  it("marks partly touched tasks and the task pl4n implement is on as in progress", () => {
+    const tracked = trackTasks(PlanDocument.parse(PLAN), [planCommit("a1", ["./src/index.ts"])], {
+      sessionId: "swift-river",
+      implementation: {
+        status: ImplementationStatus.AwaitingApproval,
+        currentTask: 3,
+        completed: [2],
+        updatedAt: new Date(),
+      },
+    });
+    expect(tracked[1].status).toBe(TaskStatus.InProgress);
+    expect(tracked[2].status).toBe(TaskStatus.Done);
+    expect(tracked[3].status).toBe(TaskStatus.InProgress);
+  });
+  it("matches files listed without backticks", () => {
+    const plan = PlanDocument.parse(
+      "## Tasks\n\n- [ ] **Task 1**: Add the cache\n  - **Files:** src/cache.ts (create), src/index.ts (modify)\n",
+    );
+    const tracked = trackTasks(plan, [planCommit("a1", ["src/cache.ts", "src/index.ts"])], {
+      sessionId: "swift-river",
+    });
+    expect(tracked[1]).toEqual({ status: TaskStatus.Done, commits: ["a1"] });
+  });
+});
+
+describe("refreshTaskProgress", () => {
+  it("tracks commits made after approval and saves the result", async () => {
+    await withTempDir(async (root) => {
+      await runGit(["init", "-q"], root);
+      await commit(root, "Initial commit", { "src/index.ts": "export {};\n" });
+
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await manager.createSession("Add a cache");
+      const paths = manager.getPaths(state.sessionId);
+      await fs.writeFile(paths.turnFile(state.turn), PLAN, "utf8");
+      await fs.symlink(
+        path.relative(paths.root, paths.turnFile(state.turn)),
+        path.join(paths.root, "PLAN.md"),
+      );
+      await commit(root, "Touch the CLI before approval", { "src/cli.ts": "// before\n" });
+      expect(await refreshTaskProgress(manager, state)).toBeNull();
+
+      state.phase = Phase.Approved;
+      state.approvedCommit = (await resolveHead(root)) ?? undefined;
+      await manager.saveState(state);
+      await commit(root, "Add the cache", { "src/cache.ts": "export const cache = {};\n" });
+      await commit(root, `Document the cache\n\nPlan-Task: ${state.sessionId}#3`, {
+        "src/cli.ts": "// after\n",
+        "README.md": "# Cache\n",
+      });
+
+      const commits = await readPlanCommits(root, { since: state.approvedCommit });
+      expect(commits.map((entry) => [entry.subject, entry.files, entry.trailers])).toEqual([
+        ["Add the cache", ["src/cache.ts"], []],
+        ["Document the cache", ["README.md", "src/cli.ts"], [`${state.sessionId}#3`]],
+      ]);
+
+      const progress = await refreshTaskProgress(manager, state);
+      expect(progress?.head).toBe((await resolveHead(root)) ?? undefined);
+      expect(
+        Object.fromEntries(
+          Object.entries(progress?.tasks ?? {}).map(([task, tracking]) => [task, tracking.status]),
+        ),
+      ).toEqual({
+        1: TaskStatus.InProgress,
+        2: TaskStatus.Todo,
+        3: TaskStatus.Done,
+        4: TaskStatus.Done,
+      });
+      expect((await manager.loadTaskProgress(state.sessionId))?.tasks).toEqual(
+        progress?.tasks ?? {},
+      );
+    });
+  });
+
+  it("reuses the saved status until HEAD, PLAN.md or implement progress change", async () => {
+    await withTempDir(async (root) => {
+      await runGit(["init", "-q"], root);
+      await commit(root, "Initial commit", { "src/index.ts": "export {};\n" });
+
+      const manager = new SessionManager(path.join(root, ".pl4n"));
+      const state = await manager.createSession("Add a cache");
+      const paths = manager.getPaths(state.sessionId);
+      await fs.writeFile(paths.turnFile(state.turn), PLAN, "utf8");
+      await fs.symlink(
+        path.relative(paths.root, paths.turnFile(state.turn)),
+        path.join(paths.root, "PLAN.md"),
+      );
+      state.phase = Phase.Approved;
+      state.approvedCommit = (await resolveHead(root)) ?? undefined;
+      await manager.saveState(state);
+
+      const first = await refreshTaskProgress(manager, state);
+      const saved = await fs.readFile(paths.tasks, "utf8");
+      const unchanged = await refreshTaskProgress(manager, state);
+      expect(unchanged?.updatedAt).toEqual(first?.updatedAt);
+      expect(await fs.readFile(paths.tasks, "utf8")).toBe(saved);
+
+      // Touching PLAN.md without changing any status leaves tasks.yaml alone
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await fs.writeFile(paths.turnFile(state.turn), PLAN, "utf8");
+      expect((await refreshTaskProgress(manager, state))?.updatedAt).toEqual(first?.updatedAt);
+      expect(await fs.readFile(paths.tasks, "utf8")).toBe(saved);
+
+      await commit(root, "Add the cache", { "src/cache.ts": "export const cache = {};\n" });
+      const moved = await refreshTaskProgress(manager, state);
+      expect(moved?.head).toBe((await resolveHead(root)) ?? undefined);
+      expect(moved?.tasks[1].status).toBe(TaskStatus.InProgress);
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await fs.writeFile(
+        paths.turnFile(state.turn),
+        PLAN.replace("- [ ] **Task 2**", "- [x] **Task 2**"),
+        "utf8",
+      );
+      expect((await refreshTaskProgress(manager, state))?.tasks[2].status).toBe(TaskStatus.Done);
+    });
+  });
+
+  it("has no commits outside a git repository", async () => {
+    await withTempDir(async (root) => {
+      expect(await readPlanCommits(root, { after: new Date(0) })).toEqual([]);
+    });
+  });
+});
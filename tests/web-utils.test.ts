@@ -1,11 +1,22 @@
 import { describe, expect, it } from "bun:test";
 
+import { appendAgentActivity } from "../src/web/agent-activity";
 import { buildLineDiff } from "../src/web/diff-render";
 import {
   formatActionLabel,
   getTokenFromLocation,
   openActivityStream,
 } from "../src/web/notifications";
+import { findReferenceSpans, referenceTooltips } from "../src/web/references";
+import {
+  TASK_NODE_HEIGHT,
+  TASK_NODE_WIDTH,
+  type TaskGraphData,
+  describeTaskGraphProblems,
+  layoutTaskGraph,
+} from "../src/web/task-graph";
+import { formatTaskProgress, taskProgressWidths } from "../src/web/task-progress";
+import { formatUsageLabel, formatUsageTooltip } from "../src/web/usage-format";
 
 class EventSourceStub {
   url: string;
@@ -98,4 +109,160 @@ describe("notifications", () => {
       delete (globalThis as { window?: Window }).window;
     }
   });
+
+  it("formats usage for the info bar and its tooltip", () => {
+    expect(formatUsageLabel(undefined)).toBe("—");
+    expect(formatUsageTooltip(undefined)).toBe("No agent runs recorded yet");
+
+    const usage = {
+      runs: 3,
+      input_tokens: 12_345,
+      output_tokens: 980,
+      cached_tokens: 2_500_000,
+      duration_ms: 61_400,
+      cost_usd: 0.4231,
+      by_agent: {
+        opus: {
+          runs: 2,
+          input_tokens: 12_000,
+          output_tokens: 900,
+          cached_tokens: 0,
+          duration_ms: 60_000,
+          cost_usd: 0.4231,
+        },
+        local: {
+          runs: 1,
+          input_tokens: 345,
+          output_tokens: 80,
+          cached_tokens: 0,
+          duration_ms: 1400,
+        },
+      },
+    };
+    expect(formatUsageLabel(usage)).toBe("12.3k in / 980 out · $0.42");
+    expect(formatUsageTooltip(usage).split("\n")).toEqual([
+      "opus: 12.0k in / 900 out · $0.42 (2 runs)",
+      "local: 345 in / 80 out (1 run)",
+      "Total time 61s, 2.5M cached",
+    ]);
+  });
+
+  it("keeps the most recent agent activity per agent", () => {
+    const event = (agent: string, summary: string) => ({
+      agent,
+      kind: "tool" as const,
+      summary,
+      timestamp: "2026-01-01T00:00:00Z",
+    });
+    let feed = appendAgentActivity({}, event("opus", "Reading a.ts"));
+    feed = appendAgentActivity(feed, event("codex", "Running ls"));
+    feed = appendAgentActivity(feed, event("opus", "Grep 'Phase'"), 1);
+    expect(feed.opus.map((entry) => entry.summary)).toEqual(["Grep 'Phase'"]);
+    expect(feed.codex).toHaveLength(1);
+  });
+
+  it("finds quoted references that failed verification", () => {
+    const finding = (reference: string, message: string) => ({
+      reference,
+      kind: "file" as const,
+      problem: "missing",
+      message,
+    });
+    const tooltips = referenceTooltips({
+      files_checked: 3,
+      symbols_checked: 0,
+      findings: [
+        finding("src/a.ts", "Task 1: src/a.ts does not exist"),
+        finding("src/a.ts", "Background: src/a.ts does not exist"),
+        finding("src/b.ts", "Task 2: src/b.ts does not exist"),
+      ],
+    });
+    expect(tooltips["src/a.ts"]).toBe(
+      "Task 1: src/a.ts does not exist\nBackground: src/a.ts does not exist",
+    );
+    expect(referenceTooltips(undefined)).toEqual({});
+
+    const text = "**Files:** `src/a.ts` (modify), `src/ok.ts`, `src/b.ts`";
+    expect(findReferenceSpans(text, tooltips)).toEqual([
+      { from: 11, to: 21, reference: "src/a.ts" },
+      { from: 45, to: 55, reference: "src/b.ts" },
+    ]);
+  });
+});
+
+describe("task progress", () => {
+  it("labels and sizes the progress bar", () => {
+    const progress = { total: 3, done: 1, in_progress: 1, todo: 1 };
+    expect(formatTaskProgress(progress)).toBe("1/3 tasks · 1 in progress");
+    expect(formatTaskProgress({ total: 1, done: 1, in_progress: 0, todo: 0 })).toBe("1/1 task");
+    expect(taskProgressWidths(progress)).toEqual({ done: 33, inProgress: 33 });
+    expect(taskProgressWidths({ total: 0, done: 0, in_progress: 0, todo: 0 })).toEqual({
+      done: 0,
+      inProgress: 0,
+    });
+  });
+});
+
+describe("task graph layout", () => {
+  const node = (id: number, dependencies: number[], done = false) => ({
+    id,
+    description: `Step ${id}`,
+    done,
+    dependencies,
+  });
+
+  it("places tasks in columns by dependency depth", () => {
+    const graph: TaskGraphData = {
+      valid: true,
+      nodes: [node(1, [], true), node(2, [1]), node(3, [1]), node(4, [2, 3])],
+      edges: [
+        { from: 1, to: 2 },
+        { from: 1, to: 3 },
+        { from: 2, to: 4 },
+        { from: 3, to: 4 },
+      ],
+      order: [1, 2, 3, 4],
+      cycles: [],
+      dangling: [],
+      unreachable: [],
+    };
+    const layout = layoutTaskGraph(graph);
+    expect(layout.nodes.map(({ id, layer, row, status }) => ({ id, layer, row, status }))).toEqual([
+      { id: 1, layer: 0, row: 0, status: "done" },
+      { id: 2, layer: 1, row: 0, status: "todo" },
+      { id: 3, layer: 1, row: 1, status: "todo" },
+      { id: 4, layer: 2, row: 0, status: "todo" },
+    ]);
+    expect(layout.nodes[2].y).toBeGreaterThan(layout.nodes[1].y + TASK_NODE_HEIGHT);
+    expect(layout.width).toBeGreaterThan(TASK_NODE_WIDTH * 3);
+    expect(describeTaskGraphProblems(graph)).toEqual([]);
+  });
+
+  it("lays out cycles and describes what is wrong", () => {
+    const graph: TaskGraphData = {
+      valid: false,
+      nodes: [node(1, [2]), node(2, [1]), node(3, [9]), node(4, [3])],
+      edges: [
+        { from: 2, to: 1 },
+        { from: 1, to: 2 },
+        { from: 3, to: 4 },
+      ],
+      order: [],
+      cycles: [[1, 2]],
+      dangling: [{ task: 3, dependency: 9 }],
+      unreachable: [3, 4],
+    };
+    const layout = layoutTaskGraph(graph);
+    expect(layout.nodes.map(({ id, layer, status }) => ({ id, layer, status }))).toEqual([
+      { id: 1, layer: 1, status: "cycle" },
+      { id: 2, layer: 0, status: "cycle" },
+      { id: 3, layer: 0, status: "blocked" },
+      { id: 4, layer: 1, status: "blocked" },
+    ]);
+    expect(describeTaskGraphProblems(graph)).toEqual([
+      "Cycle: Task 1 → Task 2",
+      "Task 3 depends on missing Task 9",
+      "Blocked: Task 3, Task 4",
+    ]);
+  });
 });